@@ -2,10 +2,15 @@
 pragma solidity ^0.8.28;
 
 import {ERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
-import {OwnableUpgradeable} from "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import {AccessControlDefaultAdminRulesUpgradeable} from "@openzeppelin/contracts-upgradeable/access/extensions/AccessControlDefaultAdminRulesUpgradeable.sol";
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {UUPSUpgradeable} from "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
+import {ERC1967Utils} from "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
 import {IERC20} from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import {IERC20Metadata} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Metadata.sol";
+import {IERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import {MerkleProof} from "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import {EnumerableSet} from "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
 
 // Custom Errors for IonicDebtToken contract
 error ZeroAddress();
@@ -17,15 +22,55 @@ error InvalidMasterPriceOracle();
 error InvalidUsdcAddress();
 error InsufficientBalance(address token, uint256 requested, uint256 available);
 error InvalidScaleFactorRange(uint256 numerator, uint256 denominator);
+error IonTokenMintCapExceeded(address ionToken, uint256 requested, uint256 available);
+error GlobalMintCapExceeded(uint256 requested, uint256 available);
+error InvalidClaimWindow(uint256 start, uint256 end);
+error ClaimWindowNotOpen(uint256 start);
+error ClaimWindowClosed(uint256 end);
+error MintingPaused();
+error IonTokenMintingPaused(address ionToken);
+error ArrayLengthMismatch(uint256 ionTokens, uint256 amounts);
+error NoDionSupply();
+error InvalidRedemptionRound(uint256 roundId);
+error RedemptionExceedsRound(uint256 roundId, uint256 requested, uint256 available);
+error RedemptionFundsOutstanding(uint256 outstanding);
+error ExcludedFromRedemptionRound(uint256 roundId, address account);
+error RedemptionRoundClosed(uint256 roundId);
+error NoOpenRedemptionRounds();
+error MerkleRootNotSet();
+error InvalidMerkleProof(address account, uint256 amount);
+error MerkleAlreadyClaimed(bytes32 root, address account);
+error InvalidOraclePrice(address token, uint256 price);
+error OraclePriceOutOfBounds(address token, uint256 price, uint256 minPrice, uint256 maxPrice);
+error OraclePriceDeviation(address token, uint256 price, uint256 referencePrice, uint256 maxDeviationBps);
+error UsdcDepegged(uint256 usdcPrice, uint256 pegReferencePrice);
+error InvalidPriceGuard(address token);
+error AccountBlocklisted(address account);
+error IonTokenAlreadyWhitelisted(address ionToken);
+error ChangeNotScheduled(bytes32 changeId);
+error ChangeNotReady(bytes32 changeId, uint256 readyAt);
+error InvalidTimelockDelay(uint256 delay);
+error LegacyOwnerNotSet();
+error UnauthorizedMigration(address caller);
+error InsufficientLiquidity(address ionToken, uint256 requested);
+error RedeemFailed(address ionToken, uint256 errorCode);
 
 /**
  * @title IonToken Interface
  * @notice Interface for ionTokens (similar to Compound's cTokens)
  */
-interface IIonToken is IERC20 {
+interface IIonToken is IERC20Metadata {
     function exchangeRateCurrent() external view returns (uint256);
 
+    // Read off-chain by the exposure report, not by IonicDebtToken
+    function getTotalUnderlyingSupplied() external view returns (uint256);
+
     function underlying() external view returns (address);
+
+    function getCash() external view returns (uint256);
+
+    // Returns 0 on success, or a Compound error code
+    function redeem(uint256 redeemTokens) external returns (uint256);
 }
 
 /**
@@ -41,12 +86,14 @@ interface IMasterPriceOracle {
 /**
  * @title IonicDebtToken
  * @notice An ERC20 token that allows users to mint tokens by providing whitelisted ionTokens
- * @dev This contract is upgradeable and ownable
+ * @dev This contract is upgradeable, with role-based access control. The default admin
+ * (reported as `owner()`) manages roles and claims, and changes to scale factors, the
+ * oracle and USDC are timelocked
  */
 contract IonicDebtToken is
     Initializable,
     ERC20Upgradeable,
-    OwnableUpgradeable,
+    AccessControlDefaultAdminRulesUpgradeable,
     UUPSUpgradeable
 {
     // Struct to store scale factor data
@@ -55,6 +102,74 @@ contract IonicDebtToken is
         uint256 denominator;
     }
 
+    // How a redemption round is paid out
+    enum RedemptionKind {
+        // Holders burn dION for the round's USDC per dION
+        Burn,
+        // Holders at funding time claim their pro-rata share and keep their dION
+        Partial
+    }
+
+    // Struct to store a round of USDC deposited for redemptions
+    struct RedemptionRound {
+        RedemptionKind kind;
+        // USDC deposited for the round
+        uint256 amount;
+        // dION supply the round is shared between
+        uint256 supply;
+        // dION burned against the round (Burn rounds only)
+        uint256 burned;
+        // USDC paid out of the round (Burn rounds only)
+        uint256 claimed;
+        uint256 fundedAt;
+    }
+
+    // Precision of the USDC per dION accumulator of partial rounds
+    uint256 private constant REDEMPTION_PRECISION = 1e36;
+
+    // Struct to store the sanity bounds of a token's oracle price (in ETH)
+    struct PriceGuard {
+        // Lowest accepted price (0 for no lower bound)
+        uint256 minPrice;
+        // Highest accepted price (0 for no upper bound)
+        uint256 maxPrice;
+        // Price the oracle price may only deviate from by maxDeviationBps (0 for no check)
+        uint256 referencePrice;
+        uint256 maxDeviationBps;
+    }
+
+    // Cumulative deposits of an ionToken and the dION minted for them
+    struct IonTokenTotals {
+        address ionToken;
+        uint256 totalDeposited;
+        uint256 totalMinted;
+    }
+
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    // Basis points in 100%
+    uint256 private constant BPS = 10_000;
+
+    // Role allowed to whitelist ionTokens and change their scale factors and mint caps
+    bytes32 public constant WHITELIST_MANAGER_ROLE =
+        keccak256("WHITELIST_MANAGER_ROLE");
+
+    // Role allowed to withdraw collected ionTokens and fund redemptions
+    bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+
+    // Role allowed to change the oracle, USDC and price guards
+    bytes32 public constant ORACLE_ADMIN_ROLE = keccak256("ORACLE_ADMIN_ROLE");
+
+    // Role allowed to upgrade the implementation
+    bytes32 public constant UPGRADER_ROLE = keccak256("UPGRADER_ROLE");
+
+    // Longest timelock delay that can be set
+    uint256 public constant MAX_TIMELOCK_DELAY = 30 days;
+
+    // Storage slot of OwnableUpgradeable, which the first version inherited
+    bytes32 private constant LEGACY_OWNABLE_STORAGE_LOCATION =
+        0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300;
+
     // Address of the MasterPriceOracle contract
     IMasterPriceOracle public masterPriceOracle;
 
@@ -67,6 +182,99 @@ contract IonicDebtToken is
     // Mapping to track if an ionToken is whitelisted
     mapping(address => bool) public whitelistedIonTokens;
 
+    // Cap on the scaled underlying amount (the illegitimate exposure) each ionToken
+    // can mint against, in underlying units (0 means uncapped)
+    mapping(address => uint256) public ionTokenMintCaps;
+
+    // Scaled underlying amount each ionToken has minted against so far
+    mapping(address => uint256) public ionTokenMintedExposure;
+
+    // Cap on the total amount of dION minted (0 means uncapped)
+    uint256 public globalMintCap;
+
+    // Total amount of dION minted so far
+    uint256 public totalMinted;
+
+    // Timestamp from which minting is allowed (0 means no start)
+    uint256 public claimStart;
+
+    // Timestamp from which minting is no longer allowed (0 means no end)
+    uint256 public claimEnd;
+
+    // Whether minting is paused for every ionToken
+    bool public mintingPaused;
+
+    // Mapping to track if minting is paused for a single ionToken
+    mapping(address => bool) public ionTokenMintingPaused;
+
+    // Redemption rounds, in funding order
+    RedemptionRound[] public redemptionRounds;
+
+    // USDC per dION distributed by all partial rounds, scaled by REDEMPTION_PRECISION
+    uint256 public partialRedemptionPerDion;
+
+    // Value of partialRedemptionPerDion when each account was last settled
+    mapping(address => uint256) public partialRedemptionPerDionPaid;
+
+    // USDC from partial rounds settled to each account but not claimed yet
+    mapping(address => uint256) public accruedPartialRedemption;
+
+    // USDC deposited for redemptions and not paid out yet
+    uint256 public redemptionUsdcOutstanding;
+
+    // Root of the Merkle tree of (account, amount) dION entitlements for
+    // holders who cannot provide their ionTokens
+    bytes32 public merkleRoot;
+
+    // Mapping to track the accounts that claimed against each Merkle root
+    mapping(bytes32 => mapping(address => bool)) public merkleClaimed;
+
+    // Sanity bounds of the oracle price of underlyings and USDC
+    mapping(address => PriceGuard) public priceGuards;
+
+    // USD stablecoin the USDC price is compared with (address(0) for no peg check)
+    address public usdcPegReferenceToken;
+
+    // Maximum deviation of the USDC price from usdcPegReferenceToken's, in basis points
+    uint256 public usdcPegBandBps;
+
+    // Mapping to track the accounts barred from minting and moving dION
+    mapping(address => bool) public blocklisted;
+
+    // Delay between scheduling a timelocked change and executing it
+    uint256 public timelockDelay;
+
+    // Mapping from a change's ID (the hash of the call executing it) to when it can be executed
+    mapping(bytes32 => uint256) public scheduledChanges;
+
+    // ionTokens deposited by minters so far, by ionToken
+    mapping(address => uint256) public ionTokenTotalDeposited;
+
+    // dION minted for deposits so far, by ionToken
+    mapping(address => uint256) public ionTokenTotalMinted;
+
+    // Whitelisted ionTokens, to enumerate them
+    EnumerableSet.AddressSet private _whitelistedIonTokenSet;
+
+    // dION held by blocklisted accounts, which redemption rounds are not shared with
+    uint256 public blocklistedSupply;
+
+    // Number of redemption rounds funded when each account was blocklisted or
+    // unblocked, in order. The rounds funded while it was blocklisted excluded it
+    mapping(address => uint256[]) private _blocklistRoundMarks;
+
+    // Number of redemption rounds closed: rounds with a lower index are closed
+    uint256 public closedRedemptionRounds;
+
+    // Number of times the redemption rounds were closed
+    uint256 private _redemptionClosings;
+
+    // Value of partialRedemptionPerDion when the rounds were last closed
+    uint256 private _partialRedemptionPerDionClosed;
+
+    // Value of _redemptionClosings when each account was last settled
+    mapping(address => uint256) private _redemptionClosingsSettled;
+
     // Event emitted when a new ionToken is whitelisted
     event IonTokenWhitelisted(
         address indexed ionToken,
@@ -96,8 +304,123 @@ contract IonicDebtToken is
         uint256 amount
     );
 
+    // Event emitted when ionTokens are redeemed for their underlying
+    event IonTokensRedeemed(
+        address indexed ionToken,
+        address indexed recipient,
+        uint256 ionTokenAmount,
+        uint256 underlyingAmount
+    );
+
+    // Event emitted when an ionToken's mint cap is updated
+    event IonTokenMintCapUpdated(address indexed ionToken, uint256 cap);
+
+    // Event emitted when the global mint cap is updated
+    event GlobalMintCapUpdated(uint256 cap);
+
+    // Event emitted when the claim window is updated
+    event ClaimWindowUpdated(uint256 start, uint256 end);
+
+    // Event emitted when minting is paused or unpaused for every ionToken
+    event MintingPausedUpdated(bool paused);
+
+    // Event emitted when minting is paused or unpaused for a single ionToken
+    event IonTokenMintingPausedUpdated(address indexed ionToken, bool paused);
+
+    // Event emitted when a redemption round is funded
+    event RedemptionRoundFunded(
+        uint256 indexed roundId,
+        RedemptionKind kind,
+        uint256 amount,
+        uint256 supply
+    );
+
+    // Event emitted when the open redemption rounds are closed
+    event RedemptionRoundsClosed(uint256 closedRounds, uint256 usdcReturned);
+
+    // Event emitted when dION is burned against a redemption round
+    event Redeemed(
+        address indexed user,
+        uint256 indexed roundId,
+        uint256 burnedAmount,
+        uint256 usdcAmount
+    );
+
+    // Event emitted when USDC from partial rounds is claimed
+    event PartialRedemptionClaimed(address indexed user, uint256 usdcAmount);
+
+    // Event emitted when the Merkle root of entitlements is updated
+    event MerkleRootUpdated(bytes32 root);
+
+    // Event emitted when a token's price guard is updated
+    event PriceGuardUpdated(
+        address indexed token,
+        uint256 minPrice,
+        uint256 maxPrice,
+        uint256 referencePrice,
+        uint256 maxDeviationBps
+    );
+
+    // Event emitted when the USDC peg band is updated
+    event UsdcPegBandUpdated(address indexed referenceToken, uint256 bandBps);
+
+    // Event emitted when an account is added to or removed from the blocklist
+    event BlocklistUpdated(address indexed account, bool blocked);
+
+    // Event emitted when a scale factor update is scheduled
+    event ScaleFactorUpdateScheduled(
+        bytes32 indexed changeId,
+        address indexed ionToken,
+        uint256 numerator,
+        uint256 denominator,
+        uint256 readyAt
+    );
+
+    // Event emitted when a MasterPriceOracle update is scheduled
+    event MasterPriceOracleUpdateScheduled(
+        bytes32 indexed changeId,
+        address indexed masterPriceOracle,
+        uint256 readyAt
+    );
+
+    // Event emitted when a USDC address update is scheduled
+    event UsdcAddressUpdateScheduled(
+        bytes32 indexed changeId,
+        address indexed usdcAddress,
+        uint256 readyAt
+    );
+
+    // Event emitted when a timelock delay update is scheduled
+    event TimelockDelayUpdateScheduled(
+        bytes32 indexed changeId,
+        uint256 delay,
+        uint256 readyAt
+    );
+
+    // Event emitted when a scheduled change is cancelled
+    event ScheduledChangeCancelled(bytes32 indexed changeId);
+
+    // Event emitted when the MasterPriceOracle is updated
+    event MasterPriceOracleUpdated(address indexed masterPriceOracle);
+
+    // Event emitted when the USDC address is updated
+    event UsdcAddressUpdated(address indexed usdcAddress);
+
+    // Event emitted when the timelock delay is updated
+    event TimelockDelayUpdated(uint256 delay);
+
+    // Event emitted when dION is claimed with a Merkle proof
+    event MerkleClaimed(
+        address indexed user,
+        bytes32 indexed root,
+        uint256 mintedAmount
+    );
+
     /**
      * @notice Initializes the contract
+     * @dev `_owner` becomes the default admin and is granted every role, without a timelock
+     * delay, so that the deployment can be configured before roles are handed off
+     * @param _owner Address of the default admin
      * @param _masterPriceOracle Address of the MasterPriceOracle
      * @param _usdcAddress Address of the USDC token
      */
@@ -107,7 +430,7 @@ contract IonicDebtToken is
         address _usdcAddress
     ) public initializer {
         __ERC20_init("IonicDebtToken", "dION");
-        __Ownable_init(_owner);
+        __AccessControlDefaultAdminRules_init(0, _owner);
         __UUPSUpgradeable_init();
 
         if (_masterPriceOracle == address(0)) revert InvalidMasterPriceOracle();
@@ -115,10 +438,83 @@ contract IonicDebtToken is
 
         masterPriceOracle = IMasterPriceOracle(_masterPriceOracle);
         usdcAddress = _usdcAddress;
+
+        _grantRole(WHITELIST_MANAGER_ROLE, _owner);
+        _grantRole(TREASURY_ROLE, _owner);
+        _grantRole(ORACLE_ADMIN_ROLE, _owner);
+        _grantRole(UPGRADER_ROLE, _owner);
+    }
+
+    /**
+     * @notice Migrates a deployment of the first, Ownable version to role-based access control
+     * @dev Called through `upgradeAndCall` when upgrading, or by the Ownable owner after the
+     * upgrade. The Ownable owner becomes the default admin, and its storage is cleared
+     * @param whitelistManager Address granted WHITELIST_MANAGER_ROLE
+     * @param treasury Address granted TREASURY_ROLE
+     * @param oracleAdmin Address granted ORACLE_ADMIN_ROLE
+     * @param upgrader Address granted UPGRADER_ROLE
+     * @param _timelockDelay Delay of timelocked changes, in seconds
+     */
+    function initializeV2(
+        address whitelistManager,
+        address treasury,
+        address oracleAdmin,
+        address upgrader,
+        uint256 _timelockDelay
+    ) external reinitializer(2) {
+        address legacyOwner;
+        bytes32 legacyOwnerSlot = LEGACY_OWNABLE_STORAGE_LOCATION;
+        assembly {
+            legacyOwner := sload(legacyOwnerSlot)
+            sstore(legacyOwnerSlot, 0)
+        }
+        // Only deployments of the first version have an Ownable owner
+        if (legacyOwner == address(0)) revert LegacyOwnerNotSet();
+        _checkMigrationCaller(legacyOwner);
+        if (
+            whitelistManager == address(0) ||
+            treasury == address(0) ||
+            oracleAdmin == address(0) ||
+            upgrader == address(0)
+        ) revert ZeroAddress();
+        if (_timelockDelay > MAX_TIMELOCK_DELAY)
+            revert InvalidTimelockDelay(_timelockDelay);
+
+        __AccessControlDefaultAdminRules_init(0, legacyOwner);
+
+        _grantRole(WHITELIST_MANAGER_ROLE, whitelistManager);
+        _grantRole(TREASURY_ROLE, treasury);
+        _grantRole(ORACLE_ADMIN_ROLE, oracleAdmin);
+        _grantRole(UPGRADER_ROLE, upgrader);
+
+        timelockDelay = _timelockDelay;
+
+        emit TimelockDelayUpdated(_timelockDelay);
+    }
+
+    /**
+     * @notice Registers the ionTokens whitelisted before they were enumerable
+     * @dev Called through `upgradeAndCall` when upgrading a deployment whose
+     * implementation did not track the whitelist, or by the default admin after
+     * the upgrade. Deposit and mint totals only count from the upgrade on
+     * @param ionTokens Currently whitelisted ionTokens
+     */
+    function initializeV3(
+        address[] calldata ionTokens
+    ) external reinitializer(3) {
+        _checkMigrationCaller(defaultAdmin());
+        for (uint256 i = 0; i < ionTokens.length; i++) {
+            if (!whitelistedIonTokens[ionTokens[i]])
+                revert IonTokenNotWhitelisted(ionTokens[i]);
+            _whitelistedIonTokenSet.add(ionTokens[i]);
+        }
     }
 
     /**
      * @notice Whitelist an ionToken with its scale factor
+     * @dev An ionToken removed from the whitelist keeps its scale factor. Whitelisting it
+     * again with a different one executes a scale factor update scheduled with
+     * `scheduleScaleFactorUpdate`
      * @param ionToken Address of the ionToken to whitelist
      * @param numerator Numerator of the scale factor
      * @param denominator Denominator of the scale factor
@@ -127,13 +523,28 @@ contract IonicDebtToken is
         address ionToken,
         uint256 numerator,
         uint256 denominator
-    ) external onlyOwner {
+    ) external onlyRole(WHITELIST_MANAGER_ROLE) {
         if (ionToken == address(0)) revert ZeroAddress();
         if (denominator == 0) revert ZeroDenominator();
         if (numerator > denominator)
             revert InvalidScaleFactorRange(numerator, denominator);
+        // Scale factors of whitelisted ionTokens only change through the timelock
+        if (whitelistedIonTokens[ionToken])
+            revert IonTokenAlreadyWhitelisted(ionToken);
+
+        ScaleFactor memory previous = ionTokenScaleFactors[ionToken];
+        if (
+            previous.denominator != 0 &&
+            (previous.numerator != numerator ||
+                previous.denominator != denominator)
+        ) {
+            _executeChange(
+                _scaleFactorChangeId(ionToken, numerator, denominator)
+            );
+        }
 
         whitelistedIonTokens[ionToken] = true;
+        _whitelistedIonTokenSet.add(ionToken);
         ionTokenScaleFactors[ionToken] = ScaleFactor({
             numerator: numerator,
             denominator: denominator
@@ -143,7 +554,34 @@ contract IonicDebtToken is
     }
 
     /**
-     * @notice Update the scale factor for a whitelisted ionToken
+     * @notice Announce a scale factor update, which can be executed once the timelock delay passed
+     * @param ionToken Address of the ionToken
+     * @param numerator New numerator of the scale factor
+     * @param denominator New denominator of the scale factor
+     * @return changeId ID of the scheduled change
+     */
+    function scheduleScaleFactorUpdate(
+        address ionToken,
+        uint256 numerator,
+        uint256 denominator
+    ) external onlyRole(WHITELIST_MANAGER_ROLE) returns (bytes32 changeId) {
+        _checkScaleFactorUpdate(ionToken, numerator, denominator);
+
+        changeId = _scaleFactorChangeId(ionToken, numerator, denominator);
+        uint256 readyAt = _scheduleChange(changeId);
+
+        emit ScaleFactorUpdateScheduled(
+            changeId,
+            ionToken,
+            numerator,
+            denominator,
+            readyAt
+        );
+    }
+
+    /**
+     * @notice Update the scale factor for a whitelisted, or previously whitelisted, ionToken
+     * @dev The update must have been scheduled with `scheduleScaleFactorUpdate`
      * @param ionToken Address of the ionToken
      * @param numerator New numerator of the scale factor
      * @param denominator New denominator of the scale factor
@@ -152,12 +590,11 @@ contract IonicDebtToken is
         address ionToken,
         uint256 numerator,
         uint256 denominator
-    ) external onlyOwner {
-        if (!whitelistedIonTokens[ionToken])
-            revert IonTokenNotWhitelisted(ionToken);
-        if (denominator == 0) revert ZeroDenominator();
-        if (numerator > denominator)
-            revert InvalidScaleFactorRange(numerator, denominator);
+    ) external onlyRole(WHITELIST_MANAGER_ROLE) {
+        _checkScaleFactorUpdate(ionToken, numerator, denominator);
+        _executeChange(
+            _scaleFactorChangeId(ionToken, numerator, denominator)
+        );
 
         ionTokenScaleFactors[ionToken] = ScaleFactor({
             numerator: numerator,
@@ -169,46 +606,466 @@ contract IonicDebtToken is
 
     /**
      * @notice Remove an ionToken from the whitelist
+     * @dev Its scale factor is kept, so that whitelisting it again cannot skip the timelock
      * @param ionToken Address of the ionToken to remove
      */
-    function removeIonToken(address ionToken) external onlyOwner {
+    function removeIonToken(
+        address ionToken
+    ) external onlyRole(WHITELIST_MANAGER_ROLE) {
         if (!whitelistedIonTokens[ionToken])
             revert IonTokenNotWhitelisted(ionToken);
 
         whitelistedIonTokens[ionToken] = false;
-        delete ionTokenScaleFactors[ionToken];
+        _whitelistedIonTokenSet.remove(ionToken);
+    }
+
+    /**
+     * @notice Announce a MasterPriceOracle update, which can be executed once the timelock delay passed
+     * @param _masterPriceOracle New MasterPriceOracle address
+     * @return changeId ID of the scheduled change
+     */
+    function scheduleMasterPriceOracleUpdate(
+        address _masterPriceOracle
+    ) external onlyRole(ORACLE_ADMIN_ROLE) returns (bytes32 changeId) {
+        if (_masterPriceOracle == address(0)) revert InvalidMasterPriceOracle();
+
+        changeId = keccak256(
+            abi.encodeCall(this.updateMasterPriceOracle, (_masterPriceOracle))
+        );
+        uint256 readyAt = _scheduleChange(changeId);
+
+        emit MasterPriceOracleUpdateScheduled(
+            changeId,
+            _masterPriceOracle,
+            readyAt
+        );
     }
 
     /**
      * @notice Update the MasterPriceOracle address
+     * @dev The update must have been scheduled with `scheduleMasterPriceOracleUpdate`
      * @param _masterPriceOracle New MasterPriceOracle address
      */
     function updateMasterPriceOracle(
         address _masterPriceOracle
-    ) external onlyOwner {
+    ) external onlyRole(ORACLE_ADMIN_ROLE) {
         if (_masterPriceOracle == address(0)) revert InvalidMasterPriceOracle();
+        _executeChange(
+            keccak256(
+                abi.encodeCall(
+                    this.updateMasterPriceOracle,
+                    (_masterPriceOracle)
+                )
+            )
+        );
+
         masterPriceOracle = IMasterPriceOracle(_masterPriceOracle);
+
+        emit MasterPriceOracleUpdated(_masterPriceOracle);
+    }
+
+    /**
+     * @notice Announce a USDC address update, which can be executed once the timelock delay passed
+     * @param _usdcAddress New USDC address
+     * @return changeId ID of the scheduled change
+     */
+    function scheduleUsdcAddressUpdate(
+        address _usdcAddress
+    ) external onlyRole(ORACLE_ADMIN_ROLE) returns (bytes32 changeId) {
+        if (_usdcAddress == address(0)) revert InvalidUsdcAddress();
+
+        changeId = keccak256(
+            abi.encodeCall(this.updateUsdcAddress, (_usdcAddress))
+        );
+        uint256 readyAt = _scheduleChange(changeId);
+
+        emit UsdcAddressUpdateScheduled(changeId, _usdcAddress, readyAt);
     }
 
     /**
      * @notice Update the USDC address
+     * @dev The update must have been scheduled with `scheduleUsdcAddressUpdate`
      * @param _usdcAddress New USDC address
      */
-    function updateUsdcAddress(address _usdcAddress) external onlyOwner {
+    function updateUsdcAddress(
+        address _usdcAddress
+    ) external onlyRole(ORACLE_ADMIN_ROLE) {
         if (_usdcAddress == address(0)) revert InvalidUsdcAddress();
+        // Redemptions are paid in the current USDC, which must not change under
+        // them until their rounds are closed
+        if (redemptionUsdcOutstanding != 0)
+            revert RedemptionFundsOutstanding(redemptionUsdcOutstanding);
+        _executeChange(
+            keccak256(abi.encodeCall(this.updateUsdcAddress, (_usdcAddress)))
+        );
+
         usdcAddress = _usdcAddress;
+
+        emit UsdcAddressUpdated(_usdcAddress);
+    }
+
+    /**
+     * @notice Announce a timelock delay update, which can be executed once the current delay passed
+     * @param delay New delay, in seconds
+     * @return changeId ID of the scheduled change
+     */
+    function scheduleTimelockDelayUpdate(
+        uint256 delay
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) returns (bytes32 changeId) {
+        if (delay > MAX_TIMELOCK_DELAY) revert InvalidTimelockDelay(delay);
+
+        changeId = keccak256(abi.encodeCall(this.updateTimelockDelay, (delay)));
+        uint256 readyAt = _scheduleChange(changeId);
+
+        emit TimelockDelayUpdateScheduled(changeId, delay, readyAt);
+    }
+
+    /**
+     * @notice Update the timelock delay
+     * @dev The update must have been scheduled with `scheduleTimelockDelayUpdate`
+     * @param delay New delay, in seconds
+     */
+    function updateTimelockDelay(
+        uint256 delay
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _executeChange(keccak256(abi.encodeCall(this.updateTimelockDelay, (delay))));
+
+        timelockDelay = delay;
+
+        emit TimelockDelayUpdated(delay);
+    }
+
+    /**
+     * @notice Cancel a scheduled change before it is executed
+     * @param changeId ID of the change
+     */
+    function cancelScheduledChange(
+        bytes32 changeId
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (scheduledChanges[changeId] == 0)
+            revert ChangeNotScheduled(changeId);
+
+        delete scheduledChanges[changeId];
+
+        emit ScheduledChangeCancelled(changeId);
+    }
+
+    /**
+     * @notice Check a scale factor update
+     * @param ionToken Address of the ionToken
+     * @param numerator New numerator of the scale factor
+     * @param denominator New denominator of the scale factor
+     */
+    function _checkScaleFactorUpdate(
+        address ionToken,
+        uint256 numerator,
+        uint256 denominator
+    ) internal view {
+        // Removed ionTokens keep their scale factor, which can be updated before whitelisting them again
+        if (ionTokenScaleFactors[ionToken].denominator == 0)
+            revert IonTokenNotWhitelisted(ionToken);
+        if (denominator == 0) revert ZeroDenominator();
+        if (numerator > denominator)
+            revert InvalidScaleFactorRange(numerator, denominator);
+    }
+
+    /**
+     * @notice Get the ID of a scale factor update
+     * @param ionToken Address of the ionToken
+     * @param numerator New numerator of the scale factor
+     * @param denominator New denominator of the scale factor
+     * @return The hash of the `updateScaleFactor` call
+     */
+    function _scaleFactorChangeId(
+        address ionToken,
+        uint256 numerator,
+        uint256 denominator
+    ) internal view returns (bytes32) {
+        return
+            keccak256(
+                abi.encodeCall(
+                    this.updateScaleFactor,
+                    (ionToken, numerator, denominator)
+                )
+            );
+    }
+
+    /**
+     * @notice Revert unless called by `account`, or by the ProxyAdmin during `upgradeAndCall`
+     * @dev A transparent proxy only forwards calls from its ProxyAdmin while upgrading
+     * @param account Account allowed to call outside of an upgrade
+     */
+    function _checkMigrationCaller(address account) internal view {
+        if (msg.sender != account && msg.sender != ERC1967Utils.getAdmin())
+            revert UnauthorizedMigration(msg.sender);
+    }
+
+    /**
+     * @notice Schedule a timelocked change, restarting its delay if it was already scheduled
+     * @param changeId ID of the change
+     * @return readyAt When the change can be executed
+     */
+    function _scheduleChange(
+        bytes32 changeId
+    ) internal returns (uint256 readyAt) {
+        readyAt = block.timestamp + timelockDelay;
+        scheduledChanges[changeId] = readyAt;
+    }
+
+    /**
+     * @notice Consume a scheduled change whose delay passed
+     * @param changeId ID of the change
+     */
+    function _executeChange(bytes32 changeId) internal {
+        uint256 readyAt = scheduledChanges[changeId];
+        if (readyAt == 0) revert ChangeNotScheduled(changeId);
+        if (block.timestamp < readyAt) revert ChangeNotReady(changeId, readyAt);
+
+        delete scheduledChanges[changeId];
+    }
+
+    /**
+     * @notice Set the bounds the oracle price of a token must be within for minting
+     * @param token Address of the underlying token (or USDC)
+     * @param minPrice Lowest accepted price in ETH (0 for no lower bound)
+     * @param maxPrice Highest accepted price in ETH (0 for no upper bound)
+     * @param referencePrice Expected price in ETH (0 for no deviation check)
+     * @param maxDeviationBps Maximum deviation from referencePrice, in basis points
+     */
+    function setPriceGuard(
+        address token,
+        uint256 minPrice,
+        uint256 maxPrice,
+        uint256 referencePrice,
+        uint256 maxDeviationBps
+    ) external onlyRole(ORACLE_ADMIN_ROLE) {
+        if (token == address(0)) revert ZeroAddress();
+        if (
+            (maxPrice != 0 && minPrice > maxPrice) ||
+            maxDeviationBps > BPS ||
+            (referencePrice != 0 && maxDeviationBps == 0)
+        ) revert InvalidPriceGuard(token);
+
+        priceGuards[token] = PriceGuard({
+            minPrice: minPrice,
+            maxPrice: maxPrice,
+            referencePrice: referencePrice,
+            maxDeviationBps: maxDeviationBps
+        });
+
+        emit PriceGuardUpdated(
+            token,
+            minPrice,
+            maxPrice,
+            referencePrice,
+            maxDeviationBps
+        );
+    }
+
+    /**
+     * @notice Set the band the USDC price must stay in, relative to another USD stablecoin
+     * @dev Oracle prices are in ETH, so the peg is checked against a second stablecoin
+     * @param referenceToken USD stablecoin priced by the oracle (address(0) to disable the check)
+     * @param bandBps Maximum deviation of the USDC price, in basis points
+     */
+    function setUsdcPegBand(
+        address referenceToken,
+        uint256 bandBps
+    ) external onlyRole(ORACLE_ADMIN_ROLE) {
+        if (referenceToken != address(0) && (bandBps == 0 || bandBps > BPS))
+            revert InvalidPriceGuard(referenceToken);
+
+        usdcPegReferenceToken = referenceToken;
+        usdcPegBandBps = bandBps;
+
+        emit UsdcPegBandUpdated(referenceToken, bandBps);
+    }
+
+    /**
+     * @notice Set the cap on the exposure an ionToken can mint against
+     * @param ionToken Address of the whitelisted ionToken
+     * @param cap Cap on the scaled underlying amount, in underlying units (0 for no cap)
+     */
+    function setIonTokenMintCap(
+        address ionToken,
+        uint256 cap
+    ) external onlyRole(WHITELIST_MANAGER_ROLE) {
+        if (!whitelistedIonTokens[ionToken])
+            revert IonTokenNotWhitelisted(ionToken);
+
+        ionTokenMintCaps[ionToken] = cap;
+
+        emit IonTokenMintCapUpdated(ionToken, cap);
+    }
+
+    /**
+     * @notice Set the cap on the total amount of dION minted
+     * @param cap Cap on the dION minted (0 for no cap)
+     */
+    function setGlobalMintCap(uint256 cap) external onlyRole(WHITELIST_MANAGER_ROLE) {
+        globalMintCap = cap;
+
+        emit GlobalMintCapUpdated(cap);
+    }
+
+    /**
+     * @notice Set the period during which minting is allowed
+     * @param start Timestamp from which minting is allowed (0 for no start)
+     * @param end Timestamp from which minting is no longer allowed (0 for no end)
+     */
+    function setClaimWindow(uint256 start, uint256 end) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (end != 0 && end < start) revert InvalidClaimWindow(start, end);
+
+        claimStart = start;
+        claimEnd = end;
+
+        emit ClaimWindowUpdated(start, end);
+    }
+
+    /**
+     * @notice Pause or unpause minting for every ionToken
+     * @param paused Whether minting is paused
+     */
+    function setMintingPaused(bool paused) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        mintingPaused = paused;
+
+        emit MintingPausedUpdated(paused);
+    }
+
+    /**
+     * @notice Pause or unpause minting for a single ionToken
+     * @param ionToken Address of the ionToken
+     * @param paused Whether minting is paused for the ionToken
+     */
+    function setIonTokenMintingPaused(
+        address ionToken,
+        bool paused
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (ionToken == address(0)) revert ZeroAddress();
+
+        ionTokenMintingPaused[ionToken] = paused;
+
+        emit IonTokenMintingPausedUpdated(ionToken, paused);
+    }
+
+    /**
+     * @notice Add accounts to or remove them from the blocklist
+     * @dev Blocklisted accounts can neither mint nor send or receive dION, and get
+     * no share of the redemption rounds funded while they are blocklisted, nor burn
+     * against them once unblocked
+     * @param accounts Addresses of the accounts (e.g. the exploiter's)
+     * @param blocked Whether the accounts are blocklisted
+     */
+    function setBlocklisted(
+        address[] calldata accounts,
+        bool blocked
+    ) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            if (accounts[i] == address(0)) revert ZeroAddress();
+
+            if (blocklisted[accounts[i]] != blocked) {
+                _blocklistRoundMarks[accounts[i]].push(redemptionRounds.length);
+                if (blocked) {
+                    // Keeps what partial rounds funded so far credit the account
+                    _settlePartialRedemption(accounts[i]);
+                    blocklistedSupply += balanceOf(accounts[i]);
+                } else {
+                    // Skips the partial rounds funded while it was blocklisted
+                    partialRedemptionPerDionPaid[
+                        accounts[i]
+                    ] = partialRedemptionPerDion;
+                    blocklistedSupply -= balanceOf(accounts[i]);
+                }
+            }
+            blocklisted[accounts[i]] = blocked;
+
+            emit BlocklistUpdated(accounts[i], blocked);
+        }
+    }
+
+    /**
+     * @notice Get every whitelisted ionToken
+     * @return ionTokens Whitelisted ionTokens, in no particular order
+     */
+    function getWhitelistedIonTokens()
+        external
+        view
+        returns (address[] memory ionTokens)
+    {
+        return _whitelistedIonTokenSet.values();
+    }
+
+    /**
+     * @notice Get the deposit and mint totals of every whitelisted ionToken
+     * @return totals Totals of each whitelisted ionToken, in no particular order
+     */
+    function getIonTokenTotals()
+        external
+        view
+        returns (IonTokenTotals[] memory totals)
+    {
+        uint256 count = _whitelistedIonTokenSet.length();
+        totals = new IonTokenTotals[](count);
+        for (uint256 i = 0; i < count; i++) {
+            address ionToken = _whitelistedIonTokenSet.at(i);
+            totals[i] = IonTokenTotals({
+                ionToken: ionToken,
+                totalDeposited: ionTokenTotalDeposited[ionToken],
+                totalMinted: ionTokenTotalMinted[ionToken]
+            });
+        }
     }
 
     /**
      * @notice Preview the amount of dION tokens that would be minted for a given amount of ionTokens
+     * @dev Reverts if the mint would exceed the ionToken's or the global mint cap
      * @param ionToken Address of the ionToken to check
      * @param amount Amount of ionTokens to simulate
-     * @return tokensToMint The amount of dION tokens that would be minted
+     * @return tokensToMint The amount of dION tokens that would be minted (an 18-decimal USD amount)
      */
     function previewMint(address ionToken, uint256 amount) public view returns (uint256 tokensToMint) {
+        (tokensToMint, ) = _previewMint(ionToken, amount);
+    }
+
+    /**
+     * @notice Value a mint and check it against the mint caps
+     * @param ionToken Address of the ionToken to provide
+     * @param amount Amount of ionTokens to provide
+     * @return tokensToMint The amount of dION tokens to mint
+     * @return exposure The scaled underlying amount counted against the ionToken's cap
+     */
+    function _previewMint(
+        address ionToken,
+        uint256 amount
+    ) internal view returns (uint256 tokensToMint, uint256 exposure) {
         if (!whitelistedIonTokens[ionToken]) revert IonTokenNotWhitelisted(ionToken);
         if (amount == 0) revert ZeroAmount();
 
+        (uint256 underlyingAmount, uint256 underlyingValueInUsd) = _valueIonTokens(ionToken, amount);
+
+        // Apply scale factor using numerator/denominator
+        ScaleFactor memory scaleFactor = ionTokenScaleFactors[ionToken];
+        tokensToMint = (underlyingValueInUsd * scaleFactor.numerator) / scaleFactor.denominator;
+
+        // The scale factor is illegitimateBorrowed / totalSupplied, so the scaled
+        // underlying amount is the share of the illegitimate exposure being claimed
+        exposure = (underlyingAmount * scaleFactor.numerator) / scaleFactor.denominator;
+
+        _checkIonTokenMintCap(ionToken, exposure);
+        _checkGlobalMintCap(tokensToMint);
+    }
+
+    /**
+     * @notice Value ionTokens in USD at the ionToken's exchange rate and oracle prices
+     * @param ionToken Address of the ionToken
+     * @param amount Amount of ionTokens
+     * @return underlyingAmount The amount of underlying the ionTokens are worth
+     * @return underlyingValueInUsd The USD value of the underlying, with 18 decimals
+     */
+    function _valueIonTokens(
+        address ionToken,
+        uint256 amount
+    ) internal view returns (uint256 underlyingAmount, uint256 underlyingValueInUsd) {
         IIonToken ionTokenContract = IIonToken(ionToken);
 
         // Get exchange rate from ionToken to underlying
@@ -216,45 +1073,287 @@ contract IonicDebtToken is
 
         // Calculate underlying amount
         // The exchange rate is scaled by 1e18
-        uint256 underlyingAmount = (amount * exchangeRate) / 1e18;
+        underlyingAmount = (amount * exchangeRate) / 1e18;
 
         // Get underlying token address
         address underlyingToken = ionTokenContract.underlying();
 
+        // Normalize the underlying amount to 18 decimals, so that dION is an
+        // 18-decimal USD amount whatever the decimals of the underlying
+        uint256 normalizedUnderlyingAmount = _normalizeDecimals(
+            underlyingAmount,
+            IERC20Metadata(underlyingToken).decimals()
+        );
+
         // Get the underlying token price in ETH
-        uint256 underlyingPriceInEth = masterPriceOracle.price(underlyingToken);
+        uint256 underlyingPriceInEth = _checkedPrice(underlyingToken);
 
-        // Get USDC price in ETH
-        uint256 usdcPriceInEth = masterPriceOracle.price(usdcAddress);
+        // Get USDC price in ETH, which must still be pegged
+        uint256 usdcPriceInEth = _checkedPrice(usdcAddress);
+        _checkUsdcPeg(usdcPriceInEth);
 
         // Calculate USD value of the underlying tokens
-        uint256 underlyingValueInUsd = (underlyingAmount * underlyingPriceInEth) / usdcPriceInEth;
+        underlyingValueInUsd = (normalizedUnderlyingAmount * underlyingPriceInEth) / usdcPriceInEth;
+    }
 
-        // Apply scale factor using numerator/denominator
-        ScaleFactor memory scaleFactor = ionTokenScaleFactors[ionToken];
-        tokensToMint = (underlyingValueInUsd * scaleFactor.numerator) / scaleFactor.denominator;
+    /**
+     * @notice Read a token's oracle price and check it against its price guard
+     * @param token Address of the token to price
+     * @return price The price in ETH
+     */
+    function _checkedPrice(address token) internal view returns (uint256 price) {
+        price = masterPriceOracle.price(token);
+        if (price == 0) revert InvalidOraclePrice(token, price);
+
+        PriceGuard memory guard = priceGuards[token];
+        if (
+            price < guard.minPrice ||
+            (guard.maxPrice != 0 && price > guard.maxPrice)
+        )
+            revert OraclePriceOutOfBounds(
+                token,
+                price,
+                guard.minPrice,
+                guard.maxPrice
+            );
+
+        if (guard.referencePrice != 0) {
+            uint256 deviation = price > guard.referencePrice
+                ? price - guard.referencePrice
+                : guard.referencePrice - price;
+            if (deviation * BPS > guard.referencePrice * guard.maxDeviationBps)
+                revert OraclePriceDeviation(
+                    token,
+                    price,
+                    guard.referencePrice,
+                    guard.maxDeviationBps
+                );
+        }
+    }
+
+    /**
+     * @notice Check that the USDC price is within the peg band
+     * @param usdcPrice The USDC price in ETH
+     */
+    function _checkUsdcPeg(uint256 usdcPrice) internal view {
+        if (usdcPegReferenceToken == address(0)) return;
+
+        uint256 referencePrice = masterPriceOracle.price(usdcPegReferenceToken);
+        if (referencePrice == 0)
+            revert InvalidOraclePrice(usdcPegReferenceToken, referencePrice);
+
+        uint256 deviation = usdcPrice > referencePrice
+            ? usdcPrice - referencePrice
+            : referencePrice - usdcPrice;
+        if (deviation * BPS > referencePrice * usdcPegBandBps)
+            revert UsdcDepegged(usdcPrice, referencePrice);
+    }
+
+    /**
+     * @notice Check a mint against the ionToken's mint cap
+     * @param ionToken Address of the ionToken to provide
+     * @param exposure The scaled underlying amount of the mint
+     */
+    function _checkIonTokenMintCap(address ionToken, uint256 exposure) internal view {
+        uint256 cap = ionTokenMintCaps[ionToken];
+        if (cap != 0) {
+            uint256 minted = ionTokenMintedExposure[ionToken];
+            uint256 available = cap > minted ? cap - minted : 0;
+            if (exposure > available)
+                revert IonTokenMintCapExceeded(ionToken, exposure, available);
+        }
+    }
+
+    /**
+     * @notice Check a mint against the global mint cap
+     * @param tokensToMint The amount of dION tokens to mint
+     */
+    function _checkGlobalMintCap(uint256 tokensToMint) internal view {
+        if (globalMintCap != 0) {
+            uint256 available = globalMintCap > totalMinted
+                ? globalMintCap - totalMinted
+                : 0;
+            if (tokensToMint > available)
+                revert GlobalMintCapExceeded(tokensToMint, available);
+        }
+    }
+
+    /**
+     * @notice Convert an amount to the 18 decimals of dION
+     * @param amount Amount denominated in `fromDecimals`
+     * @param fromDecimals Decimals the amount is denominated in
+     * @return The amount denominated in 18 decimals
+     */
+    function _normalizeDecimals(
+        uint256 amount,
+        uint8 fromDecimals
+    ) internal view returns (uint256) {
+        uint8 toDecimals = decimals();
+        if (fromDecimals < toDecimals) {
+            return amount * 10 ** (toDecimals - fromDecimals);
+        }
+        if (fromDecimals > toDecimals) {
+            return amount / 10 ** (fromDecimals - toDecimals);
+        }
+        return amount;
+    }
 
-        return tokensToMint;
+    /**
+     * @notice Check that minting is open for an ionToken
+     * @dev Reverts if minting is paused or outside of the claim window
+     * @param ionToken Address of the ionToken to provide
+     */
+    function _checkMintingOpen(address ionToken) internal view {
+        _checkClaimsOpen();
+        if (ionTokenMintingPaused[ionToken])
+            revert IonTokenMintingPaused(ionToken);
+    }
+
+    /**
+     * @notice Check that claims are open, whatever they are made with
+     * @dev Reverts if the sender is blocklisted, minting is paused or outside of the claim window
+     */
+    function _checkClaimsOpen() internal view {
+        if (blocklisted[msg.sender]) revert AccountBlocklisted(msg.sender);
+        if (mintingPaused) revert MintingPaused();
+        if (block.timestamp < claimStart) revert ClaimWindowNotOpen(claimStart);
+        if (claimEnd != 0 && block.timestamp >= claimEnd)
+            revert ClaimWindowClosed(claimEnd);
     }
 
     /**
      * @notice Mint dION tokens by providing whitelisted ionTokens
+     * @dev Reverts if minting is paused or outside of the claim window
      * @param ionToken Address of the ionToken to provide
      * @param amount Amount of ionTokens to provide
      */
     function mint(address ionToken, uint256 amount) external {
-        // Calculate tokens to mint using preview function
-        uint256 tokensToMint = previewMint(ionToken, amount);
+        _mintFromIonToken(ionToken, amount);
+    }
 
-        // Transfer ionTokens from sender to this contract
-        IIonToken ionTokenContract = IIonToken(ionToken);
-        bool success = ionTokenContract.transferFrom(
-            msg.sender,
-            address(this),
+    /**
+     * @notice Mint dION tokens by providing several whitelisted ionTokens at once
+     * @dev Each ionToken must be approved beforehand, the whole batch reverts if one mint does
+     * @param ionTokens Addresses of the ionTokens to provide
+     * @param amounts Amount of each ionToken to provide
+     */
+    function mintBatch(
+        address[] calldata ionTokens,
+        uint256[] calldata amounts
+    ) external {
+        if (ionTokens.length != amounts.length)
+            revert ArrayLengthMismatch(ionTokens.length, amounts.length);
+        if (ionTokens.length == 0) revert ZeroAmount();
+
+        for (uint256 i = 0; i < ionTokens.length; i++) {
+            _mintFromIonToken(ionTokens[i], amounts[i]);
+        }
+    }
+
+    /**
+     * @notice Mint dION tokens with an EIP-2612 permit instead of a prior approval
+     * @dev A failing permit is ignored so that a front-run permit does not block the mint,
+     * which then only succeeds if the allowance is already in place
+     * @param ionToken Address of the ionToken to provide, which must support EIP-2612
+     * @param amount Amount of ionTokens to provide
+     * @param deadline Deadline of the permit
+     * @param v Signature v of the permit
+     * @param r Signature r of the permit
+     * @param s Signature s of the permit
+     */
+    function mintWithPermit(
+        address ionToken,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        try
+            IERC20Permit(ionToken).permit(
+                msg.sender,
+                address(this),
+                amount,
+                deadline,
+                v,
+                r,
+                s
+            )
+        {} catch {}
+
+        _mintFromIonToken(ionToken, amount);
+    }
+
+    /**
+     * @notice Set the Merkle root of (account, amount) dION entitlements
+     * @dev Claims are tracked per root, so a new root lets every account claim
+     * its entitlement in it once, independently of earlier roots
+     * @param root Root of the tree built by scripts/build-merkle-claims.ts
+     */
+    function setMerkleRoot(bytes32 root) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        merkleRoot = root;
+
+        emit MerkleRootUpdated(root);
+    }
+
+    /**
+     * @notice Mint the sender's dION entitlement from the current Merkle root
+     * @dev For holders who cannot provide their ionTokens (e.g. used as collateral).
+     * Reverts if minting is paused, outside of the claim window or above the global cap
+     * @param amount Amount of dION the sender is entitled to
+     * @param proof Merkle proof of the (sender, amount) leaf
+     */
+    function claimFromMerkle(
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external {
+        _checkClaimsOpen();
+
+        bytes32 root = merkleRoot;
+        if (root == bytes32(0)) revert MerkleRootNotSet();
+        if (merkleClaimed[root][msg.sender])
+            revert MerkleAlreadyClaimed(root, msg.sender);
+        if (amount == 0) revert ZeroAmount();
+
+        // Leaves are double hashed, as in OpenZeppelin's StandardMerkleTree
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(msg.sender, amount)))
+        );
+        if (!MerkleProof.verifyCalldata(proof, root, leaf))
+            revert InvalidMerkleProof(msg.sender, amount);
+
+        _checkGlobalMintCap(amount);
+
+        merkleClaimed[root][msg.sender] = true;
+        totalMinted += amount;
+
+        _mint(msg.sender, amount);
+
+        emit MerkleClaimed(msg.sender, root, amount);
+    }
+
+    /**
+     * @notice Take ionTokens from the sender and mint the corresponding dION
+     * @param ionToken Address of the ionToken to provide
+     * @param amount Amount of ionTokens to provide
+     */
+    function _mintFromIonToken(address ionToken, uint256 amount) internal {
+        _checkMintingOpen(ionToken);
+
+        // Calculate tokens to mint, checking the mint caps
+        (uint256 tokensToMint, uint256 exposure) = _previewMint(
+            ionToken,
             amount
         );
-        if (!success)
-            revert TransferFailed(ionToken, msg.sender, address(this), amount);
+
+        // Count the mint against the caps
+        ionTokenMintedExposure[ionToken] += exposure;
+        totalMinted += tokensToMint;
+        ionTokenTotalDeposited[ionToken] += amount;
+        ionTokenTotalMinted[ionToken] += tokensToMint;
+
+        // Transfer ionTokens from sender to this contract
+        _pullToken(ionToken, msg.sender, amount);
 
         // Mint dION tokens to the sender
         _mint(msg.sender, tokensToMint);
@@ -279,26 +1378,26 @@ contract IonicDebtToken is
         IIonToken ionTokenContract = IIonToken(ionToken);
         uint256 balance = ionTokenContract.balanceOf(address(this));
 
+        // USDC owed to dION holders cannot be withdrawn
+        if (ionToken == usdcAddress) {
+            balance = balance > redemptionUsdcOutstanding
+                ? balance - redemptionUsdcOutstanding
+                : 0;
+        }
+
         // If amount is 0, withdraw the entire balance
         uint256 withdrawAmount = amount == 0 ? balance : amount;
 
         if (withdrawAmount > balance)
             revert InsufficientBalance(ionToken, withdrawAmount, balance);
 
-        bool success = ionTokenContract.transfer(recipient, withdrawAmount);
-        if (!success)
-            revert TransferFailed(
-                ionToken,
-                address(this),
-                recipient,
-                withdrawAmount
-            );
+        _sendToken(ionToken, recipient, withdrawAmount);
 
         emit IonTokensWithdrawn(ionToken, recipient, withdrawAmount);
     }
 
     /**
-     * @notice Allows the owner to withdraw collected ionTokens
+     * @notice Allows the treasury to withdraw collected ionTokens
      * @param ionToken Address of the ionToken to withdraw
      * @param amount Amount of ionTokens to withdraw (0 for all available)
      * @param recipient Address to receive the ionTokens
@@ -307,27 +1406,325 @@ contract IonicDebtToken is
         address ionToken,
         uint256 amount,
         address recipient
-    ) external onlyOwner {
+    ) external onlyRole(TREASURY_ROLE) {
         _withdrawIonTokens(ionToken, amount, recipient);
     }
 
     /**
-     * @notice Allows the owner to withdraw the entire balance of an ionToken
+     * @notice Allows the treasury to withdraw the entire balance of an ionToken
      * @param ionToken Address of the ionToken to withdraw
      * @param recipient Address to receive the ionTokens
      */
     function withdrawIonTokens(
         address ionToken,
         address recipient
-    ) external onlyOwner {
+    ) external onlyRole(TREASURY_ROLE) {
         _withdrawIonTokens(ionToken, 0, recipient);
     }
 
+    /**
+     * @notice Allows the treasury to redeem collected ionTokens for their underlying
+     * @dev A market only pays out the cash it holds, so at most the ionTokens its
+     * cash covers are redeemed and the rest stay in the contract. Underlying kept
+     * in the contract is withdrawn with `withdrawIonTokens`
+     * @param ionToken Address of the ionToken to redeem
+     * @param amount Amount of ionTokens to redeem (0 for the entire balance)
+     * @param recipient Address to receive the underlying, or this contract to keep it
+     * @return redeemed Amount of ionTokens redeemed
+     * @return underlyingAmount Amount of underlying received from the market
+     */
+    function redeemIonTokens(
+        address ionToken,
+        uint256 amount,
+        address recipient
+    )
+        external
+        onlyRole(TREASURY_ROLE)
+        returns (uint256 redeemed, uint256 underlyingAmount)
+    {
+        if (ionToken == address(0)) revert ZeroAddress();
+        if (recipient == address(0)) revert ZeroAddress();
+
+        IIonToken ionTokenContract = IIonToken(ionToken);
+        uint256 balance = ionTokenContract.balanceOf(address(this));
+        uint256 requested = amount == 0 ? balance : amount;
+        if (requested == 0) revert ZeroAmount();
+        if (requested > balance)
+            revert InsufficientBalance(ionToken, requested, balance);
+
+        // ionTokens the market's cash covers, the exchange rate being scaled by 1e18
+        uint256 redeemable = (ionTokenContract.getCash() * 1e18) /
+            ionTokenContract.exchangeRateCurrent();
+        redeemed = requested < redeemable ? requested : redeemable;
+        if (redeemed == 0) revert InsufficientLiquidity(ionToken, requested);
+
+        IERC20 underlyingToken = IERC20(ionTokenContract.underlying());
+        uint256 underlyingBefore = underlyingToken.balanceOf(address(this));
+        uint256 errorCode = ionTokenContract.redeem(redeemed);
+        if (errorCode != 0) revert RedeemFailed(ionToken, errorCode);
+        underlyingAmount =
+            underlyingToken.balanceOf(address(this)) -
+            underlyingBefore;
+
+        if (recipient != address(this)) {
+            _sendToken(address(underlyingToken), recipient, underlyingAmount);
+        }
+
+        emit IonTokensRedeemed(ionToken, recipient, redeemed, underlyingAmount);
+    }
+
+    /**
+     * @notice Deposit recovered USDC for dION holders to redeem
+     * @dev Pulls `amount` of USDC from the treasury, which must have approved it
+     * @param amount Amount of USDC to deposit
+     * @param kind Burn to let holders burn dION for the round's USDC per dION,
+     * Partial to let current holders claim their share and keep their dION
+     * @return roundId Index of the new round
+     */
+    function fundRedemptionRound(
+        uint256 amount,
+        RedemptionKind kind
+    ) external onlyRole(TREASURY_ROLE) returns (uint256 roundId) {
+        if (amount == 0) revert ZeroAmount();
+        // Blocklisted balances cannot be redeemed, so they get no share
+        uint256 supply = totalSupply() - blocklistedSupply;
+        if (supply == 0) revert NoDionSupply();
+
+        _pullToken(usdcAddress, msg.sender, amount);
+
+        if (kind == RedemptionKind.Partial) {
+            // Balances are settled against the accumulator on every transfer,
+            // so the round is shared between the current holders
+            partialRedemptionPerDion += (amount * REDEMPTION_PRECISION) / supply;
+        }
+        redemptionUsdcOutstanding += amount;
+
+        roundId = redemptionRounds.length;
+        redemptionRounds.push(
+            RedemptionRound({
+                kind: kind,
+                amount: amount,
+                supply: supply,
+                burned: 0,
+                claimed: 0,
+                fundedAt: block.timestamp
+            })
+        );
+
+        emit RedemptionRoundFunded(roundId, kind, amount, supply);
+    }
+
+    /**
+     * @notice Close every open redemption round and return their unclaimed USDC
+     * @dev Burn rounds can no longer be redeemed against, and the partial round
+     * USDC credited to holders who did not claim it is dropped. Ends the rounds
+     * once their announced claim period is over, so that holders who never
+     * redeem do not keep the USDC address from changing
+     * @return usdcAmount The amount of USDC returned to the sender
+     */
+    function closeRedemptionRounds()
+        external
+        onlyRole(TREASURY_ROLE)
+        returns (uint256 usdcAmount)
+    {
+        if (closedRedemptionRounds == redemptionRounds.length)
+            revert NoOpenRedemptionRounds();
+
+        closedRedemptionRounds = redemptionRounds.length;
+        _redemptionClosings++;
+        _partialRedemptionPerDionClosed = partialRedemptionPerDion;
+
+        // Includes the rounding dust partial rounds leave behind
+        usdcAmount = redemptionUsdcOutstanding;
+        redemptionUsdcOutstanding = 0;
+        if (usdcAmount != 0) _sendToken(usdcAddress, msg.sender, usdcAmount);
+
+        emit RedemptionRoundsClosed(closedRedemptionRounds, usdcAmount);
+    }
+
+    /**
+     * @notice Get the number of redemption rounds funded so far
+     * @return The number of rounds
+     */
+    function redemptionRoundCount() external view returns (uint256) {
+        return redemptionRounds.length;
+    }
+
+    /**
+     * @notice Preview the USDC paid for burning dION against a Burn round
+     * @param roundId Index of the round
+     * @param dionAmount Amount of dION to burn
+     * @return usdcAmount The amount of USDC that would be paid
+     */
+    function previewRedeem(
+        uint256 roundId,
+        uint256 dionAmount
+    ) public view returns (uint256 usdcAmount) {
+        if (
+            roundId >= redemptionRounds.length ||
+            redemptionRounds[roundId].kind != RedemptionKind.Burn
+        ) revert InvalidRedemptionRound(roundId);
+        if (roundId < closedRedemptionRounds)
+            revert RedemptionRoundClosed(roundId);
+        if (dionAmount == 0) revert ZeroAmount();
+
+        RedemptionRound storage round = redemptionRounds[roundId];
+        uint256 available = round.supply - round.burned;
+        if (dionAmount > available)
+            revert RedemptionExceedsRound(roundId, dionAmount, available);
+
+        return (dionAmount * round.amount) / round.supply;
+    }
+
+    /**
+     * @notice Burn dION for a pro-rata share of a Burn round
+     * @param roundId Index of the round
+     * @param dionAmount Amount of dION to burn
+     * @return usdcAmount The amount of USDC paid
+     */
+    function redeem(
+        uint256 roundId,
+        uint256 dionAmount
+    ) external returns (uint256 usdcAmount) {
+        // The round's supply left out what the sender held while blocklisted
+        if (isExcludedFromRedemptionRound(roundId, msg.sender))
+            revert ExcludedFromRedemptionRound(roundId, msg.sender);
+        usdcAmount = previewRedeem(roundId, dionAmount);
+
+        RedemptionRound storage round = redemptionRounds[roundId];
+        round.burned += dionAmount;
+        round.claimed += usdcAmount;
+        redemptionUsdcOutstanding -= usdcAmount;
+
+        _burn(msg.sender, dionAmount);
+
+        _sendToken(usdcAddress, msg.sender, usdcAmount);
+
+        emit Redeemed(msg.sender, roundId, dionAmount, usdcAmount);
+    }
+
+    /**
+     * @notice Check whether an account was blocklisted when a round was funded
+     * @dev Such an account cannot burn against the round, even once unblocked
+     * @param roundId Index of the round
+     * @param account Address of the dION holder
+     * @return excluded True if the round's supply left the account out
+     */
+    function isExcludedFromRedemptionRound(
+        uint256 roundId,
+        address account
+    ) public view returns (bool excluded) {
+        uint256[] storage marks = _blocklistRoundMarks[account];
+        // Every mark at or below the round toggled the account's state before it was funded
+        for (uint256 i = 0; i < marks.length && marks[i] <= roundId; i++) {
+            excluded = !excluded;
+        }
+    }
+
+    /**
+     * @notice Preview the USDC an account can claim from partial rounds
+     * @param account Address of the dION holder
+     * @return The amount of USDC claimable
+     */
+    function previewClaimPartialRedemption(
+        address account
+    ) public view returns (uint256) {
+        uint256 accrued = accruedPartialRedemption[account];
+        uint256 paid = partialRedemptionPerDionPaid[account];
+        // What the closed rounds credited was returned to the treasury
+        if (_redemptionClosingsSettled[account] != _redemptionClosings) {
+            accrued = 0;
+            if (paid < _partialRedemptionPerDionClosed)
+                paid = _partialRedemptionPerDionClosed;
+        }
+
+        // Blocklisted accounts were settled when blocklisted
+        if (blocklisted[account]) return accrued;
+
+        return
+            accrued +
+            (balanceOf(account) * (partialRedemptionPerDion - paid)) /
+            REDEMPTION_PRECISION;
+    }
+
+    /**
+     * @notice Claim the sender's share of all partial rounds, keeping their dION
+     * @return usdcAmount The amount of USDC paid
+     */
+    function claimPartialRedemption() external returns (uint256 usdcAmount) {
+        if (blocklisted[msg.sender]) revert AccountBlocklisted(msg.sender);
+
+        _settlePartialRedemption(msg.sender);
+
+        usdcAmount = accruedPartialRedemption[msg.sender];
+        if (usdcAmount == 0) revert ZeroAmount();
+
+        accruedPartialRedemption[msg.sender] = 0;
+        redemptionUsdcOutstanding -= usdcAmount;
+
+        _sendToken(usdcAddress, msg.sender, usdcAmount);
+
+        emit PartialRedemptionClaimed(msg.sender, usdcAmount);
+    }
+
+    /**
+     * @notice Credit an account with the partial rounds funded since it was last settled
+     * @param account Address of the dION holder
+     */
+    function _settlePartialRedemption(address account) internal {
+        accruedPartialRedemption[account] = previewClaimPartialRedemption(
+            account
+        );
+        partialRedemptionPerDionPaid[account] = partialRedemptionPerDion;
+        _redemptionClosingsSettled[account] = _redemptionClosings;
+    }
+
+    /**
+     * @notice Transfer tokens held by this contract
+     * @param token Address of the token
+     * @param to Address to receive the tokens
+     * @param amount Amount of tokens
+     */
+    function _sendToken(address token, address to, uint256 amount) internal {
+        if (!IERC20(token).transfer(to, amount))
+            revert TransferFailed(token, address(this), to, amount);
+    }
+
+    /**
+     * @notice Transfer tokens approved by `from` to this contract
+     * @param token Address of the token
+     * @param from Address the tokens are taken from
+     * @param amount Amount of tokens
+     */
+    function _pullToken(address token, address from, uint256 amount) internal {
+        if (!IERC20(token).transferFrom(from, address(this), amount))
+            revert TransferFailed(token, from, address(this), amount);
+    }
+
+    /**
+     * @notice Settles partial rounds for both sides before any balance change
+     * @dev Mints, burns and transfers all go through `_update`, which reverts
+     * if either side is blocklisted
+     */
+    function _update(
+        address from,
+        address to,
+        uint256 value
+    ) internal override {
+        if (blocklisted[from]) revert AccountBlocklisted(from);
+        if (blocklisted[to]) revert AccountBlocklisted(to);
+
+        if (from != address(0)) _settlePartialRedemption(from);
+        if (to != address(0)) _settlePartialRedemption(to);
+
+        super._update(from, to, value);
+    }
+
     /**
      * @notice Required by the UUPS module
-     * @dev Only the owner can authorize an upgrade
+     * @dev Only the upgrader can authorize an upgrade
      */
     function _authorizeUpgrade(
         address newImplementation
-    ) internal override onlyOwner {}
+    ) internal override onlyRole(UPGRADER_ROLE) {}
 }
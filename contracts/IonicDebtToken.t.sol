@@ -1,65 +1,11 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.28;
 
-import {IonicDebtToken, ZeroAmount, ZeroAddress, IonTokenNotWhitelisted, TransferFailed, InvalidScaleFactorRange, ZeroDenominator} from "./IonicDebtToken.sol";
+import {IonicDebtToken, ZeroAmount, ZeroAddress, IonTokenNotWhitelisted, TransferFailed, InvalidScaleFactorRange, ZeroDenominator, IonTokenMintCapExceeded, GlobalMintCapExceeded, InvalidClaimWindow, ClaimWindowNotOpen, ClaimWindowClosed, MintingPaused, IonTokenMintingPaused, ArrayLengthMismatch, InvalidRedemptionRound, RedemptionExceedsRound, RedemptionFundsOutstanding, ExcludedFromRedemptionRound, RedemptionRoundClosed, InsufficientBalance, MerkleRootNotSet, InvalidMerkleProof, MerkleAlreadyClaimed, InvalidOraclePrice, OraclePriceOutOfBounds, OraclePriceDeviation, UsdcDepegged, InvalidPriceGuard, AccountBlocklisted, IonTokenAlreadyWhitelisted, ChangeNotScheduled, ChangeNotReady, InvalidTimelockDelay, LegacyOwnerNotSet, UnauthorizedMigration, InsufficientLiquidity} from "./IonicDebtToken.sol";
 import {Test, console2} from "forge-std/Test.sol";
-import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
-
-// Mock contracts for testing
-contract MockIonToken is ERC20 {
-    address private _underlyingToken;
-    uint256 private _exchangeRate;
-
-    constructor(
-        string memory name,
-        string memory symbol,
-        address underlyingToken,
-        uint256 exchangeRate
-    ) ERC20(name, symbol) {
-        _underlyingToken = underlyingToken;
-        _exchangeRate = exchangeRate;
-    }
-
-    function mint(address to, uint256 amount) external {
-        _mint(to, amount);
-    }
-
-    // This function is marked as non-view to match the interface
-    // but we implement it as view for testing simplicity
-    function exchangeRateCurrent() external view returns (uint256) {
-        return _exchangeRate;
-    }
-
-    function underlying() external view returns (address) {
-        return _underlyingToken;
-    }
-}
-
-contract MockUnderlyingToken is ERC20 {
-    constructor(string memory name, string memory symbol) ERC20(name, symbol) {}
-
-    function mint(address to, uint256 amount) external {
-        _mint(to, amount);
-    }
-}
-
-contract MockMasterPriceOracle {
-    mapping(address => uint256) private prices;
-
-    function setPrice(address token, uint256 priceValue) external {
-        prices[token] = priceValue;
-    }
-
-    function getUnderlyingPrice(
-        address cToken
-    ) external view returns (uint256) {
-        return prices[cToken];
-    }
-
-    function price(address underlying) external view returns (uint256) {
-        return prices[underlying];
-    }
-}
+import {ITransparentUpgradeableProxy} from "@openzeppelin/contracts/proxy/transparent/TransparentUpgradeableProxy.sol";
+import {IonicDebtTokenProxy, IonicDebtTokenProxyAdmin} from "./Proxies.sol";
+import {MockIonToken, MockPermitIonToken, MockUnderlyingToken, MockMasterPriceOracle, MockFailingIonToken} from "./mocks/Mocks.sol";
 
 contract IonicDebtTokenTest is Test {
     IonicDebtToken public debtToken;
@@ -99,22 +45,24 @@ contract IonicDebtTokenTest is Test {
 
     function setUp() public {
         // Deploy mock tokens
-        usdc = new MockUnderlyingToken("USDC", "USDC");
-        btc = new MockUnderlyingToken("BTC", "BTC");
-        dai = new MockUnderlyingToken("DAI", "DAI");
+        usdc = new MockUnderlyingToken("USDC", "USDC", 18);
+        btc = new MockUnderlyingToken("BTC", "BTC", 18);
+        dai = new MockUnderlyingToken("DAI", "DAI", 18);
 
         // Create ion tokens with 5:1 exchange rate
         ionToken = new MockIonToken(
             "Ion USDC",
             "iUSDC",
             address(usdc),
-            EXCHANGE_RATE
+            EXCHANGE_RATE,
+            18
         );
         ionBtcToken = new MockIonToken(
             "Ion BTC",
             "iBTC",
             address(btc),
-            EXCHANGE_RATE
+            EXCHANGE_RATE,
+            18
         );
 
         // Deploy mock oracle
@@ -157,6 +105,22 @@ contract IonicDebtTokenTest is Test {
         vm.stopPrank();
     }
 
+    // Schedule a scale factor update and execute it, the timelock delay being 0
+    function _updateScaleFactor(
+        address targetIonToken,
+        uint256 numerator,
+        uint256 denominator
+    ) internal {
+        vm.startPrank(owner);
+        debtToken.scheduleScaleFactorUpdate(
+            targetIonToken,
+            numerator,
+            denominator
+        );
+        debtToken.updateScaleFactor(targetIonToken, numerator, denominator);
+        vm.stopPrank();
+    }
+
     // A debug function to trace what's happening in the mint function
     function debugMint(address targetIonToken, uint256 amount) public {
         console2.log("Starting debugMint with amount:", amount);
@@ -216,8 +180,7 @@ contract IonicDebtTokenTest is Test {
         // For 33.33% we want numerator = 1, denominator = 3
         uint256 numerator = 1;
         uint256 denominator = 3;
-        vm.prank(owner);
-        debtToken.updateScaleFactor(address(ionToken), numerator, denominator);
+        _updateScaleFactor(address(ionToken), numerator, denominator);
 
         // Debug the mint function
         debugMint(address(ionToken), mintAmount);
@@ -257,8 +220,7 @@ contract IonicDebtTokenTest is Test {
         // For 10% we want numerator = 1, denominator = 10
         uint256 numerator = 1;
         uint256 denominator = 10;
-        vm.prank(owner);
-        debtToken.updateScaleFactor(address(ionToken), numerator, denominator);
+        _updateScaleFactor(address(ionToken), numerator, denominator);
 
         // Calculate underlying values
         uint256 underlyingAmount = (mintAmount * EXCHANGE_RATE) / 1e18;
@@ -363,7 +325,8 @@ contract IonicDebtTokenTest is Test {
             "ionUSDC",
             "ionUSDC",
             address(usdc),
-            EXCHANGE_RATE
+            EXCHANGE_RATE,
+            18
         );
 
         // Mint some tokens to the user
@@ -433,8 +396,7 @@ contract IonicDebtTokenTest is Test {
         denominator = bound(denominator, numerator, 100);
 
         // Update the scale factor
-        vm.prank(owner);
-        debtToken.updateScaleFactor(address(ionToken), numerator, denominator);
+        _updateScaleFactor(address(ionToken), numerator, denominator);
 
         uint256 mintAmount = 100 * 1e18;
 
@@ -471,12 +433,7 @@ contract IonicDebtTokenTest is Test {
         // Test minimum valid scale factor (1/100 = 1%)
         uint256 minNumerator = 1;
         uint256 minDenominator = 100;
-        vm.prank(owner);
-        debtToken.whitelistIonToken(
-            address(ionToken),
-            minNumerator,
-            minDenominator
-        );
+        _updateScaleFactor(address(ionToken), minNumerator, minDenominator);
 
         // Verify the scale factor was set
         (uint256 numerator, uint256 denominator) = debtToken
@@ -495,12 +452,7 @@ contract IonicDebtTokenTest is Test {
         // Test maximum valid scale factor (100/100 = 100%)
         uint256 maxNumerator = 100;
         uint256 maxDenominator = 100;
-        vm.prank(owner);
-        debtToken.updateScaleFactor(
-            address(ionToken),
-            maxNumerator,
-            maxDenominator
-        );
+        _updateScaleFactor(address(ionToken), maxNumerator, maxDenominator);
 
         // Verify the scale factor was updated
         (numerator, denominator) = debtToken.ionTokenScaleFactors(
@@ -519,13 +471,13 @@ contract IonicDebtTokenTest is Test {
     }
 
     function test_UpdateScaleFactorValidation() public {
-        // First whitelist with valid scale factor
-        vm.startPrank(owner);
-        debtToken.whitelistIonToken(address(ionToken), 50, 100); // 50%
+        // First set a valid scale factor
+        _updateScaleFactor(address(ionToken), 50, 100); // 50%
 
         // Try to update with zero denominator
         uint256 tooLowNumerator = 1;
         uint256 tooLowDenominator = 0;
+        vm.prank(owner);
         vm.expectRevert(ZeroDenominator.selector);
         debtToken.updateScaleFactor(
             address(ionToken),
@@ -536,6 +488,7 @@ contract IonicDebtTokenTest is Test {
         // Try to update with numerator > denominator
         uint256 tooHighNumerator = 101;
         uint256 tooHighDenominator = 100;
+        vm.prank(owner);
         vm.expectRevert(
             abi.encodeWithSelector(
                 InvalidScaleFactorRange.selector,
@@ -548,7 +501,6 @@ contract IonicDebtTokenTest is Test {
             tooHighNumerator,
             tooHighDenominator
         );
-        vm.stopPrank();
     }
 
     // Test that common percentages work correctly
@@ -575,8 +527,7 @@ contract IonicDebtTokenTest is Test {
         expectedPercentages[4] = 10; // 10%
 
         for (uint256 i = 0; i < numerators.length; i++) {
-            vm.prank(owner);
-            debtToken.updateScaleFactor(
+            _updateScaleFactor(
                 address(ionToken),
                 numerators[i],
                 denominators[i]
@@ -634,7 +585,8 @@ contract IonicDebtTokenTest is Test {
             "failToken",
             "FAIL",
             address(dai),
-            EXCHANGE_RATE
+            EXCHANGE_RATE,
+            18
         );
 
         // Whitelist the failing token
@@ -683,8 +635,7 @@ contract IonicDebtTokenTest is Test {
             denominator; // 98.2% of value
 
         // Set scale factor for 98.2%
-        vm.prank(owner);
-        debtToken.updateScaleFactor(address(ionToken), numerator, denominator);
+        _updateScaleFactor(address(ionToken), numerator, denominator);
 
         // Mint with this scale factor
         vm.prank(user);
@@ -727,8 +678,7 @@ contract IonicDebtTokenTest is Test {
         uint256 mintAmount = 100 * 1e18;
 
         // Update the scale factor
-        vm.prank(owner);
-        debtToken.whitelistIonToken(address(ionToken), numerator, denominator);
+        _updateScaleFactor(address(ionToken), numerator, denominator);
 
         // Calculate expected percentage of the underlying value
         uint256 underlyingAmount = (mintAmount * EXCHANGE_RATE) / 1e18;
@@ -821,22 +771,1379 @@ contract IonicDebtTokenTest is Test {
         console2.log("BTC Value in USD:", btcValueInUsd);
         console2.log("BTC Debt Tokens:", btcDebtTokens);
     }
-}
 
-// A mock token that always fails on transferFrom
-contract MockFailingIonToken is MockIonToken {
-    constructor(
-        string memory name,
-        string memory symbol,
-        address underlying,
-        uint256 exchangeRate
-    ) MockIonToken(name, symbol, underlying, exchangeRate) {}
-
-    function transferFrom(
-        address,
-        address,
-        uint256
-    ) public pure override returns (bool) {
-        return false;
+    function test_MintProducesEqualUsdValueAcrossDecimals() public {
+        // The nine ionTokens of the Mode mainnet config, each provided for
+        // $1000 of underlying. Prices are in USD, with ETH = $4000.
+        string[9] memory symbols = [
+            "USDC",
+            "USDT",
+            "uniBTC",
+            "WBTC",
+            "WETH",
+            "weETH",
+            "ezETH",
+            "wrsETH",
+            "STONE"
+        ];
+        uint8[9] memory underlyingDecimals = [6, 6, 8, 8, 18, 18, 18, 18, 18];
+        uint256[9] memory pricesInUsd = [
+            uint256(1),
+            1,
+            80000,
+            80000,
+            4000,
+            5000,
+            2000,
+            8000,
+            1000
+        ];
+
+        uint256 usdValue = 1000;
+        uint256 ethPriceInUsd = 4000;
+
+        // USDC (18 decimals in this setup) is $1
+        oracle.setPrice(address(usdc), 1e18 / ethPriceInUsd);
+
+        for (uint256 i = 0; i < symbols.length; i++) {
+            MockUnderlyingToken underlying = new MockUnderlyingToken(
+                symbols[i],
+                symbols[i],
+                underlyingDecimals[i]
+            );
+            oracle.setPrice(
+                address(underlying),
+                (pricesInUsd[i] * 1e18) / ethPriceInUsd
+            );
+
+            // 1 ionToken (18 decimals) is worth 1 whole underlying token
+            MockIonToken ion = new MockIonToken(
+                string.concat("Ion ", symbols[i]),
+                string.concat("ion", symbols[i]),
+                address(underlying),
+                10 ** underlyingDecimals[i],
+                18
+            );
+            vm.prank(owner);
+            debtToken.whitelistIonToken(address(ion), 1, 1);
+
+            uint256 amount = (usdValue * 1e18) / pricesInUsd[i];
+            ion.mint(user, amount);
+
+            vm.startPrank(user);
+            ion.approve(address(debtToken), amount);
+            uint256 balanceBefore = debtToken.balanceOf(user);
+            debtToken.mint(address(ion), amount);
+            uint256 minted = debtToken.balanceOf(user) - balanceBefore;
+            vm.stopPrank();
+
+            console2.log(symbols[i], minted);
+            assertEq(
+                minted,
+                usdValue * 1e18,
+                string.concat(
+                    symbols[i],
+                    " should mint dION as an 18-decimal USD amount"
+                )
+            );
+        }
+    }
+
+    function test_RevertWhenIonTokenMintCapExceeded() public {
+        uint256 mintAmount = 100 * 1e18;
+        // 100 ionUSDC = 20 USDC of underlying, a third of which is recognized
+        uint256 exposure = (((mintAmount * EXCHANGE_RATE) / 1e18) *
+            SCALE_FACTOR_NUMERATOR) / SCALE_FACTOR_DENOMINATOR;
+
+        vm.prank(owner);
+        debtToken.setIonTokenMintCap(address(ionToken), exposure - 1);
+
+        bytes memory capExceeded = abi.encodeWithSelector(
+            IonTokenMintCapExceeded.selector,
+            address(ionToken),
+            exposure,
+            exposure - 1
+        );
+
+        vm.expectRevert(capExceeded);
+        debtToken.previewMint(address(ionToken), mintAmount);
+
+        vm.prank(user);
+        vm.expectRevert(capExceeded);
+        debtToken.mint(address(ionToken), mintAmount);
+    }
+
+    function test_IonTokenMintCapTracksMintedExposure() public {
+        uint256 mintAmount = 100 * 1e18;
+        uint256 exposure = (((mintAmount * EXCHANGE_RATE) / 1e18) *
+            SCALE_FACTOR_NUMERATOR) / SCALE_FACTOR_DENOMINATOR;
+
+        // Room for exactly two mints
+        vm.prank(owner);
+        debtToken.setIonTokenMintCap(address(ionToken), exposure * 2);
+
+        vm.startPrank(user);
+        debtToken.mint(address(ionToken), mintAmount);
+        debtToken.mint(address(ionToken), mintAmount);
+        vm.stopPrank();
+
+        assertEq(
+            debtToken.ionTokenMintedExposure(address(ionToken)),
+            exposure * 2,
+            "Both mints should count against the cap"
+        );
+
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IonTokenMintCapExceeded.selector,
+                address(ionToken),
+                exposure,
+                0
+            )
+        );
+        debtToken.mint(address(ionToken), mintAmount);
+
+        // Other ionTokens have their own cap
+        vm.prank(user);
+        debtToken.mint(address(ionBtcToken), mintAmount);
+    }
+
+    function test_RevertWhenGlobalMintCapExceeded() public {
+        uint256 mintAmount = 100 * 1e18;
+        uint256 expectedMinted = debtToken.previewMint(
+            address(ionToken),
+            mintAmount
+        );
+
+        // Room for exactly one mint
+        vm.prank(owner);
+        debtToken.setGlobalMintCap(expectedMinted);
+
+        vm.prank(user);
+        debtToken.mint(address(ionToken), mintAmount);
+        assertEq(debtToken.totalMinted(), expectedMinted);
+
+        bytes memory capExceeded = abi.encodeWithSelector(
+            GlobalMintCapExceeded.selector,
+            expectedMinted,
+            0
+        );
+
+        vm.expectRevert(capExceeded);
+        debtToken.previewMint(address(ionToken), mintAmount);
+
+        vm.prank(user);
+        vm.expectRevert(capExceeded);
+        debtToken.mint(address(ionToken), mintAmount);
+    }
+
+    function test_RevertWhenSettingMintCapOfNonWhitelistedIonToken() public {
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IonTokenNotWhitelisted.selector,
+                address(dai)
+            )
+        );
+        debtToken.setIonTokenMintCap(address(dai), 1);
+    }
+
+    function test_RevertWhenNonOwnerSetsMintCaps() public {
+        vm.startPrank(user);
+        vm.expectRevert();
+        debtToken.setIonTokenMintCap(address(ionToken), 1);
+        vm.expectRevert();
+        debtToken.setGlobalMintCap(1);
+        vm.stopPrank();
+    }
+
+    function test_MintOnlyDuringClaimWindow() public {
+        uint256 mintAmount = 100 * 1e18;
+        uint256 start = block.timestamp + 1 days;
+        uint256 end = start + 30 days;
+
+        vm.prank(owner);
+        debtToken.setClaimWindow(start, end);
+
+        vm.startPrank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(ClaimWindowNotOpen.selector, start)
+        );
+        debtToken.mint(address(ionToken), mintAmount);
+
+        vm.warp(start);
+        debtToken.mint(address(ionToken), mintAmount);
+
+        vm.warp(end);
+        vm.expectRevert(abi.encodeWithSelector(ClaimWindowClosed.selector, end));
+        debtToken.mint(address(ionToken), mintAmount);
+        vm.stopPrank();
+    }
+
+    function test_RevertWhenClaimWindowEndsBeforeStart() public {
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(InvalidClaimWindow.selector, 2, 1)
+        );
+        debtToken.setClaimWindow(2, 1);
+    }
+
+    function test_RevertWhenMintingPaused() public {
+        uint256 mintAmount = 100 * 1e18;
+
+        vm.prank(owner);
+        debtToken.setMintingPaused(true);
+
+        vm.prank(user);
+        vm.expectRevert(MintingPaused.selector);
+        debtToken.mint(address(ionToken), mintAmount);
+
+        vm.prank(owner);
+        debtToken.setMintingPaused(false);
+
+        vm.prank(user);
+        debtToken.mint(address(ionToken), mintAmount);
+    }
+
+    function test_RevertWhenIonTokenMintingPaused() public {
+        uint256 mintAmount = 100 * 1e18;
+
+        vm.prank(owner);
+        debtToken.setIonTokenMintingPaused(address(ionToken), true);
+
+        vm.startPrank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IonTokenMintingPaused.selector,
+                address(ionToken)
+            )
+        );
+        debtToken.mint(address(ionToken), mintAmount);
+
+        // Other ionTokens can still be minted with
+        debtToken.mint(address(ionBtcToken), mintAmount);
+        vm.stopPrank();
+    }
+
+    function test_RevertWhenNonOwnerPausesMinting() public {
+        vm.startPrank(user);
+        vm.expectRevert();
+        debtToken.setMintingPaused(true);
+        vm.expectRevert();
+        debtToken.setIonTokenMintingPaused(address(ionToken), true);
+        vm.expectRevert();
+        debtToken.setClaimWindow(0, 0);
+        vm.stopPrank();
+    }
+
+    function test_MintBatch() public {
+        address[] memory ionTokens = new address[](2);
+        ionTokens[0] = address(ionToken);
+        ionTokens[1] = address(ionBtcToken);
+        uint256[] memory amounts = new uint256[](2);
+        amounts[0] = 100 * 1e18;
+        amounts[1] = 1e18;
+
+        uint256 expectedMinted = debtToken.previewMint(
+            address(ionToken),
+            amounts[0]
+        ) + debtToken.previewMint(address(ionBtcToken), amounts[1]);
+
+        vm.prank(user);
+        debtToken.mintBatch(ionTokens, amounts);
+
+        assertEq(debtToken.balanceOf(user), expectedMinted);
+        assertEq(ionToken.balanceOf(address(debtToken)), amounts[0]);
+        assertEq(ionBtcToken.balanceOf(address(debtToken)), amounts[1]);
+    }
+
+    function test_RevertWhenMintBatchLengthsMismatch() public {
+        address[] memory ionTokens = new address[](2);
+        ionTokens[0] = address(ionToken);
+        ionTokens[1] = address(ionBtcToken);
+        uint256[] memory amounts = new uint256[](1);
+        amounts[0] = 1e18;
+
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(ArrayLengthMismatch.selector, 2, 1)
+        );
+        debtToken.mintBatch(ionTokens, amounts);
+    }
+
+    function test_MintWithPermit() public {
+        (address holder, uint256 holderKey) = makeAddrAndKey("holder");
+        MockPermitIonToken ionPermitToken = _whitelistPermitIonToken();
+        uint256 mintAmount = 100 * 1e18;
+        ionPermitToken.mint(holder, mintAmount);
+
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            ionPermitToken,
+            holderKey,
+            holder,
+            mintAmount,
+            block.timestamp + 1 hours
+        );
+
+        uint256 expectedMinted = debtToken.previewMint(
+            address(ionPermitToken),
+            mintAmount
+        );
+
+        // No approval, the permit is the only authorization
+        vm.prank(holder);
+        debtToken.mintWithPermit(
+            address(ionPermitToken),
+            mintAmount,
+            block.timestamp + 1 hours,
+            v,
+            r,
+            s
+        );
+
+        assertEq(debtToken.balanceOf(holder), expectedMinted);
+        assertEq(ionPermitToken.balanceOf(address(debtToken)), mintAmount);
+    }
+
+    function test_MintWithPermitAfterPermitFrontRun() public {
+        (address holder, uint256 holderKey) = makeAddrAndKey("holder");
+        MockPermitIonToken ionPermitToken = _whitelistPermitIonToken();
+        uint256 mintAmount = 100 * 1e18;
+        uint256 deadline = block.timestamp + 1 hours;
+        ionPermitToken.mint(holder, mintAmount);
+
+        (uint8 v, bytes32 r, bytes32 s) = _signPermit(
+            ionPermitToken,
+            holderKey,
+            holder,
+            mintAmount,
+            deadline
+        );
+
+        // Someone submits the permit first, consuming its nonce
+        ionPermitToken.permit(
+            holder,
+            address(debtToken),
+            mintAmount,
+            deadline,
+            v,
+            r,
+            s
+        );
+
+        vm.prank(holder);
+        debtToken.mintWithPermit(
+            address(ionPermitToken),
+            mintAmount,
+            deadline,
+            v,
+            r,
+            s
+        );
+
+        assertEq(ionPermitToken.balanceOf(address(debtToken)), mintAmount);
+    }
+
+    function _whitelistPermitIonToken()
+        internal
+        returns (MockPermitIonToken ionPermitToken)
+    {
+        ionPermitToken = new MockPermitIonToken(
+            "Ion Permit USDC",
+            "ipUSDC",
+            address(usdc),
+            EXCHANGE_RATE,
+            18
+        );
+
+        vm.prank(owner);
+        debtToken.whitelistIonToken(
+            address(ionPermitToken),
+            SCALE_FACTOR_NUMERATOR,
+            SCALE_FACTOR_DENOMINATOR
+        );
+    }
+
+    function _signPermit(
+        MockPermitIonToken token,
+        uint256 holderKey,
+        address holder,
+        uint256 amount,
+        uint256 deadline
+    ) internal view returns (uint8 v, bytes32 r, bytes32 s) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                keccak256(
+                    "Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)"
+                ),
+                holder,
+                address(debtToken),
+                amount,
+                token.nonces(holder),
+                deadline
+            )
+        );
+        return
+            vm.sign(
+                holderKey,
+                keccak256(
+                    abi.encodePacked(
+                        "\x19\x01",
+                        token.DOMAIN_SEPARATOR(),
+                        structHash
+                    )
+                )
+            );
+    }
+
+    function test_RedeemBurnRoundProRata() public {
+        address other = makeAddr("other");
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        uint256 supply = debtToken.totalSupply();
+
+        // A third of the supply goes to another holder
+        vm.prank(user);
+        debtToken.transfer(other, supply / 3);
+
+        uint256 roundAmount = 1000 * 1e18;
+        uint256 roundId = _fundRedemptionRound(
+            roundAmount,
+            IonicDebtToken.RedemptionKind.Burn
+        );
+
+        uint256 otherBalance = debtToken.balanceOf(other);
+        uint256 expectedUsdc = (otherBalance * roundAmount) / supply;
+        assertEq(debtToken.previewRedeem(roundId, otherBalance), expectedUsdc);
+
+        vm.prank(other);
+        debtToken.redeem(roundId, otherBalance);
+
+        assertEq(usdc.balanceOf(other), expectedUsdc);
+        assertEq(debtToken.balanceOf(other), 0);
+        assertEq(debtToken.totalSupply(), supply - otherBalance);
+        assertEq(
+            debtToken.redemptionUsdcOutstanding(),
+            roundAmount - expectedUsdc
+        );
+    }
+
+    function test_RevertWhenRedeemingMoreThanTheRoundSupply() public {
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        uint256 supply = debtToken.totalSupply();
+        uint256 roundId = _fundRedemptionRound(
+            1000 * 1e18,
+            IonicDebtToken.RedemptionKind.Burn
+        );
+
+        // dION minted after the round is not covered by it
+        vm.startPrank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                RedemptionExceedsRound.selector,
+                roundId,
+                supply + 1,
+                supply
+            )
+        );
+        debtToken.redeem(roundId, supply + 1);
+        vm.stopPrank();
+    }
+
+    function test_ClaimPartialRoundWithoutBurning() public {
+        address other = makeAddr("other");
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        uint256 supply = debtToken.totalSupply();
+
+        vm.prank(user);
+        debtToken.transfer(other, supply / 4);
+
+        uint256 roundAmount = 1000 * 1e18;
+        uint256 roundId = _fundRedemptionRound(
+            roundAmount,
+            IonicDebtToken.RedemptionKind.Partial
+        );
+
+        // Transfers after funding do not move the share of the round
+        uint256 otherShare = debtToken.previewClaimPartialRedemption(other);
+        vm.prank(other);
+        debtToken.transfer(user, debtToken.balanceOf(other));
+        assertEq(debtToken.previewClaimPartialRedemption(other), otherShare);
+
+        vm.prank(other);
+        debtToken.claimPartialRedemption();
+        vm.prank(user);
+        debtToken.claimPartialRedemption();
+
+        assertApproxEqAbs(usdc.balanceOf(other), roundAmount / 4, 1);
+        assertApproxEqAbs(usdc.balanceOf(user), (roundAmount * 3) / 4, 1);
+        assertEq(debtToken.totalSupply(), supply);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(InvalidRedemptionRound.selector, roundId)
+        );
+        debtToken.previewRedeem(roundId, 1);
+    }
+
+    function test_BlocklistedBalancesGetNoShareOfRounds() public {
+        address other = makeAddr("other");
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        uint256 supply = debtToken.totalSupply();
+        vm.prank(user);
+        debtToken.transfer(other, supply / 4);
+
+        address[] memory accounts = new address[](1);
+        accounts[0] = user;
+        vm.prank(owner);
+        debtToken.setBlocklisted(accounts, true);
+        assertEq(debtToken.blocklistedSupply(), supply - supply / 4);
+
+        // The only redeemable balance takes the whole round
+        uint256 roundAmount = 1000 * 1e18;
+        uint256 roundId = _fundRedemptionRound(
+            roundAmount,
+            IonicDebtToken.RedemptionKind.Burn
+        );
+        vm.prank(other);
+        debtToken.redeem(roundId, supply / 4);
+
+        assertEq(usdc.balanceOf(other), roundAmount);
+        assertEq(debtToken.redemptionUsdcOutstanding(), 0);
+    }
+
+    function test_RevertWhenRedeemingRoundFundedWhileBlocklisted() public {
+        address other = makeAddr("other");
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        uint256 supply = debtToken.totalSupply();
+        vm.prank(user);
+        debtToken.transfer(other, supply / 4);
+
+        // Round 0 is funded before the user is blocklisted, round 1 while it is
+        uint256 includedRound = _fundRedemptionRound(
+            1000 * 1e18,
+            IonicDebtToken.RedemptionKind.Burn
+        );
+        address[] memory accounts = new address[](1);
+        accounts[0] = user;
+        vm.prank(owner);
+        debtToken.setBlocklisted(accounts, true);
+        uint256 excludedRound = _fundRedemptionRound(
+            1000 * 1e18,
+            IonicDebtToken.RedemptionKind.Burn
+        );
+        vm.prank(owner);
+        debtToken.setBlocklisted(accounts, false);
+
+        assertFalse(debtToken.isExcludedFromRedemptionRound(includedRound, user));
+        assertTrue(debtToken.isExcludedFromRedemptionRound(excludedRound, user));
+
+        // Unblocked, the user still cannot take the other holder's share
+        vm.startPrank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                ExcludedFromRedemptionRound.selector,
+                excludedRound,
+                user
+            )
+        );
+        debtToken.redeem(excludedRound, 1);
+        debtToken.redeem(includedRound, supply / 2);
+        vm.stopPrank();
+
+        vm.prank(other);
+        debtToken.redeem(excludedRound, supply / 4);
+        assertEq(usdc.balanceOf(other), 1000 * 1e18);
+    }
+
+    function test_RevertWhenUpdatingUsdcWithRedemptionsOutstanding() public {
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        _fundRedemptionRound(1000 * 1e18, IonicDebtToken.RedemptionKind.Burn);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                RedemptionFundsOutstanding.selector,
+                1000 * 1e18
+            )
+        );
+        debtToken.updateUsdcAddress(address(dai));
+    }
+
+    function test_CloseRedemptionRoundsReturnsUnclaimedUsdc() public {
+        address other = makeAddr("other");
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        uint256 supply = debtToken.totalSupply();
+        vm.prank(user);
+        debtToken.transfer(other, supply / 4);
+
+        uint256 roundAmount = 1000 * 1e18;
+        uint256 burnRound = _fundRedemptionRound(
+            roundAmount,
+            IonicDebtToken.RedemptionKind.Burn
+        );
+        _fundRedemptionRound(roundAmount, IonicDebtToken.RedemptionKind.Partial);
+
+        // The other holder takes its share of both rounds, the user of neither
+        vm.startPrank(other);
+        uint256 paid = debtToken.redeem(burnRound, supply / 4);
+        paid += debtToken.claimPartialRedemption();
+        vm.stopPrank();
+
+        vm.prank(owner);
+        uint256 returned = debtToken.closeRedemptionRounds();
+        assertEq(returned, 2 * roundAmount - paid);
+        assertEq(usdc.balanceOf(owner), returned);
+        assertEq(debtToken.redemptionUsdcOutstanding(), 0);
+        assertEq(debtToken.closedRedemptionRounds(), 2);
+        assertEq(debtToken.previewClaimPartialRedemption(user), 0);
+
+        vm.startPrank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(RedemptionRoundClosed.selector, burnRound)
+        );
+        debtToken.redeem(burnRound, 1);
+        vm.expectRevert(ZeroAmount.selector);
+        debtToken.claimPartialRedemption();
+        vm.stopPrank();
+
+        // With nothing owed, USDC can change and new rounds credit holders again
+        vm.startPrank(owner);
+        debtToken.scheduleUsdcAddressUpdate(address(dai));
+        debtToken.updateUsdcAddress(address(dai));
+        dai.mint(owner, roundAmount);
+        dai.approve(address(debtToken), roundAmount);
+        debtToken.fundRedemptionRound(
+            roundAmount,
+            IonicDebtToken.RedemptionKind.Partial
+        );
+        vm.stopPrank();
+
+        // The user holds all that is left of the supply
+        assertApproxEqAbs(
+            debtToken.previewClaimPartialRedemption(user),
+            roundAmount,
+            1
+        );
+        assertEq(debtToken.previewClaimPartialRedemption(other), 0);
+    }
+
+    function test_RevertWhenWithdrawingRedemptionUsdc() public {
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 300 * 1e18);
+        _fundRedemptionRound(1000 * 1e18, IonicDebtToken.RedemptionKind.Burn);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                InsufficientBalance.selector,
+                address(usdc),
+                1,
+                0
+            )
+        );
+        debtToken.withdrawIonTokens(address(usdc), 1, owner);
+    }
+
+    function _fundRedemptionRound(
+        uint256 amount,
+        IonicDebtToken.RedemptionKind kind
+    ) internal returns (uint256 roundId) {
+        usdc.mint(owner, amount);
+
+        vm.startPrank(owner);
+        usdc.approve(address(debtToken), amount);
+        roundId = debtToken.fundRedemptionRound(amount, kind);
+        vm.stopPrank();
+    }
+
+    function test_ClaimFromMerkle() public {
+        address other = makeAddr("other");
+        uint256 userAmount = 1000 * 1e18;
+        uint256 otherAmount = 250 * 1e18;
+        (bytes32 root, bytes32 userLeaf, bytes32 otherLeaf) = _twoLeafTree(
+            other,
+            userAmount,
+            otherAmount
+        );
+
+        vm.prank(owner);
+        debtToken.setMerkleRoot(root);
+
+        bytes32[] memory userProof = new bytes32[](1);
+        userProof[0] = otherLeaf;
+        vm.prank(user);
+        debtToken.claimFromMerkle(userAmount, userProof);
+
+        bytes32[] memory otherProof = new bytes32[](1);
+        otherProof[0] = userLeaf;
+        vm.prank(other);
+        debtToken.claimFromMerkle(otherAmount, otherProof);
+
+        assertEq(debtToken.balanceOf(user), userAmount);
+        assertEq(debtToken.balanceOf(other), otherAmount);
+        assertEq(debtToken.totalMinted(), userAmount + otherAmount);
+        assertTrue(debtToken.merkleClaimed(root, user));
+
+        // Claims cannot be replayed against the same root
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(MerkleAlreadyClaimed.selector, root, user)
+        );
+        debtToken.claimFromMerkle(userAmount, userProof);
+    }
+
+    function test_RevertWhenMerkleProofIsInvalid() public {
+        address other = makeAddr("other");
+        (bytes32 root, , bytes32 otherLeaf) = _twoLeafTree(
+            other,
+            1000 * 1e18,
+            250 * 1e18
+        );
+
+        bytes32[] memory proof = new bytes32[](1);
+        proof[0] = otherLeaf;
+
+        vm.prank(user);
+        vm.expectRevert(MerkleRootNotSet.selector);
+        debtToken.claimFromMerkle(1000 * 1e18, proof);
+
+        vm.prank(owner);
+        debtToken.setMerkleRoot(root);
+
+        // Claiming more than the entitlement
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                InvalidMerkleProof.selector,
+                user,
+                2000 * 1e18
+            )
+        );
+        debtToken.claimFromMerkle(2000 * 1e18, proof);
+
+        // Claiming someone else's entitlement
+        vm.prank(makeAddr("stranger"));
+        vm.expectRevert();
+        debtToken.claimFromMerkle(1000 * 1e18, proof);
+    }
+
+    function _twoLeafTree(
+        address other,
+        uint256 userAmount,
+        uint256 otherAmount
+    ) internal view returns (bytes32 root, bytes32 userLeaf, bytes32 otherLeaf) {
+        userLeaf = keccak256(
+            bytes.concat(keccak256(abi.encode(user, userAmount)))
+        );
+        otherLeaf = keccak256(
+            bytes.concat(keccak256(abi.encode(other, otherAmount)))
+        );
+        root = userLeaf < otherLeaf
+            ? keccak256(abi.encodePacked(userLeaf, otherLeaf))
+            : keccak256(abi.encodePacked(otherLeaf, userLeaf));
+    }
+
+    function test_RevertWhenUsdcPriceIsZero() public {
+        oracle.setPrice(address(usdc), 0);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                InvalidOraclePrice.selector,
+                address(usdc),
+                0
+            )
+        );
+        debtToken.previewMint(address(ionToken), 100 * 1e18);
+    }
+
+    function test_RevertWhenPriceOutOfBounds() public {
+        vm.prank(owner);
+        debtToken.setPriceGuard(address(btc), 10 ether, 30 ether, 0, 0);
+
+        // Within bounds
+        debtToken.previewMint(address(ionBtcToken), 1e18);
+
+        oracle.setPrice(address(btc), 40 ether);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                OraclePriceOutOfBounds.selector,
+                address(btc),
+                40 ether,
+                10 ether,
+                30 ether
+            )
+        );
+        debtToken.previewMint(address(ionBtcToken), 1e18);
+
+        oracle.setPrice(address(btc), 5 ether);
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                OraclePriceOutOfBounds.selector,
+                address(btc),
+                5 ether,
+                10 ether,
+                30 ether
+            )
+        );
+        debtToken.mint(address(ionBtcToken), 1e18);
+    }
+
+    function test_RevertWhenPriceDeviatesFromReference() public {
+        // 5% around the current BTC price
+        vm.prank(owner);
+        debtToken.setPriceGuard(address(btc), 0, 0, BTC_PRICE, 500);
+
+        oracle.setPrice(address(btc), (BTC_PRICE * 105) / 100);
+        debtToken.previewMint(address(ionBtcToken), 1e18);
+
+        uint256 manipulatedPrice = (BTC_PRICE * 106) / 100;
+        oracle.setPrice(address(btc), manipulatedPrice);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                OraclePriceDeviation.selector,
+                address(btc),
+                manipulatedPrice,
+                BTC_PRICE,
+                500
+            )
+        );
+        debtToken.previewMint(address(ionBtcToken), 1e18);
+    }
+
+    function test_RevertWhenUsdcDepegs() public {
+        // DAI is priced like USDC here, the band is 2%
+        oracle.setPrice(address(dai), USDC_PRICE);
+        vm.prank(owner);
+        debtToken.setUsdcPegBand(address(dai), 200);
+
+        debtToken.previewMint(address(ionToken), 100 * 1e18);
+
+        uint256 depeggedPrice = (USDC_PRICE * 97) / 100;
+        oracle.setPrice(address(usdc), depeggedPrice);
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                UsdcDepegged.selector,
+                depeggedPrice,
+                USDC_PRICE
+            )
+        );
+        debtToken.mint(address(ionBtcToken), 1e18);
+    }
+
+    function test_RevertWhenPriceGuardIsInvalid() public {
+        vm.startPrank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(InvalidPriceGuard.selector, address(btc))
+        );
+        debtToken.setPriceGuard(address(btc), 2 ether, 1 ether, 0, 0);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(InvalidPriceGuard.selector, address(btc))
+        );
+        debtToken.setPriceGuard(address(btc), 0, 0, BTC_PRICE, 0);
+
+        vm.expectRevert(
+            abi.encodeWithSelector(InvalidPriceGuard.selector, address(dai))
+        );
+        debtToken.setUsdcPegBand(address(dai), 0);
+        vm.stopPrank();
+    }
+
+    function _blocklist(address account) internal {
+        address[] memory accounts = new address[](1);
+        accounts[0] = account;
+        vm.prank(owner);
+        debtToken.setBlocklisted(accounts, true);
+    }
+
+    function test_RevertWhenMinterIsBlocklisted() public {
+        _blocklist(user);
+
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(AccountBlocklisted.selector, user)
+        );
+        debtToken.mint(address(ionToken), 100 * 1e18);
+    }
+
+    function test_RevertWhenTransferringWithBlocklistedAccount() public {
+        address exploiter = makeAddr("exploiter");
+        vm.startPrank(user);
+        debtToken.mint(address(ionToken), 100 * 1e18);
+        debtToken.transfer(exploiter, 1e18);
+        vm.stopPrank();
+
+        _blocklist(exploiter);
+
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(AccountBlocklisted.selector, exploiter)
+        );
+        debtToken.transfer(exploiter, 1e18);
+
+        vm.prank(exploiter);
+        vm.expectRevert(
+            abi.encodeWithSelector(AccountBlocklisted.selector, exploiter)
+        );
+        debtToken.transfer(user, 1e18);
+
+        // Removing the account from the blocklist lets it move dION again
+        address[] memory accounts = new address[](1);
+        accounts[0] = exploiter;
+        vm.prank(owner);
+        debtToken.setBlocklisted(accounts, false);
+
+        vm.prank(exploiter);
+        debtToken.transfer(user, 1e18);
+        assertEq(debtToken.balanceOf(exploiter), 0);
+    }
+
+    function test_RevertWhenNonOwnerUpdatesBlocklist() public {
+        address[] memory accounts = new address[](1);
+        accounts[0] = user;
+
+        vm.prank(user);
+        vm.expectRevert();
+        debtToken.setBlocklisted(accounts, true);
+
+        accounts[0] = address(0);
+        vm.prank(owner);
+        vm.expectRevert(ZeroAddress.selector);
+        debtToken.setBlocklisted(accounts, true);
+    }
+
+    function _setTimelockDelay(uint256 delay) internal {
+        vm.startPrank(owner);
+        debtToken.scheduleTimelockDelayUpdate(delay);
+        debtToken.updateTimelockDelay(delay);
+        vm.stopPrank();
+    }
+
+    function test_ScaleFactorUpdateWaitsForTimelock() public {
+        _setTimelockDelay(2 days);
+
+        vm.prank(owner);
+        bytes32 changeId = debtToken.scheduleScaleFactorUpdate(
+            address(ionToken),
+            1,
+            2
+        );
+        uint256 readyAt = block.timestamp + 2 days;
+        assertEq(debtToken.scheduledChanges(changeId), readyAt);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                ChangeNotReady.selector,
+                changeId,
+                readyAt
+            )
+        );
+        debtToken.updateScaleFactor(address(ionToken), 1, 2);
+
+        // A different change was not scheduled
+        bytes32 otherChangeId = keccak256(
+            abi.encodeCall(
+                debtToken.updateScaleFactor,
+                (address(ionToken), 1, 4)
+            )
+        );
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(ChangeNotScheduled.selector, otherChangeId)
+        );
+        debtToken.updateScaleFactor(address(ionToken), 1, 4);
+
+        vm.warp(readyAt);
+        vm.prank(owner);
+        debtToken.updateScaleFactor(address(ionToken), 1, 2);
+
+        (uint256 numerator, uint256 denominator) = debtToken
+            .ionTokenScaleFactors(address(ionToken));
+        assertEq(numerator, 1);
+        assertEq(denominator, 2);
+        assertEq(debtToken.scheduledChanges(changeId), 0);
+    }
+
+    function test_OracleAndUsdcUpdatesWaitForTimelock() public {
+        _setTimelockDelay(1 days);
+        MockMasterPriceOracle newOracle = new MockMasterPriceOracle();
+
+        vm.startPrank(owner);
+        debtToken.scheduleMasterPriceOracleUpdate(address(newOracle));
+        bytes32 usdcChangeId = debtToken.scheduleUsdcAddressUpdate(
+            address(dai)
+        );
+        vm.expectRevert();
+        debtToken.updateMasterPriceOracle(address(newOracle));
+
+        // A cancelled change can no longer be executed
+        debtToken.cancelScheduledChange(usdcChangeId);
+        vm.warp(block.timestamp + 1 days);
+        debtToken.updateMasterPriceOracle(address(newOracle));
+        vm.expectRevert(
+            abi.encodeWithSelector(ChangeNotScheduled.selector, usdcChangeId)
+        );
+        debtToken.updateUsdcAddress(address(dai));
+        vm.stopPrank();
+
+        assertEq(address(debtToken.masterPriceOracle()), address(newOracle));
+        assertEq(debtToken.usdcAddress(), address(usdc));
+    }
+
+    function test_RevertWhenTimelockDelayTooLong() public {
+        uint256 delay = debtToken.MAX_TIMELOCK_DELAY() + 1;
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(InvalidTimelockDelay.selector, delay)
+        );
+        debtToken.scheduleTimelockDelayUpdate(delay);
+    }
+
+    function test_RevertWhenWhitelistingWhitelistedIonToken() public {
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IonTokenAlreadyWhitelisted.selector,
+                address(ionToken)
+            )
+        );
+        debtToken.whitelistIonToken(address(ionToken), 1, 2);
+    }
+
+    function test_ReWhitelistingKeepsScaleFactorTimelock() public {
+        _setTimelockDelay(2 days);
+
+        vm.startPrank(owner);
+        debtToken.removeIonToken(address(ionToken));
+        (uint256 numerator, uint256 denominator) = debtToken
+            .ionTokenScaleFactors(address(ionToken));
+        assertEq(numerator, SCALE_FACTOR_NUMERATOR);
+        assertEq(denominator, SCALE_FACTOR_DENOMINATOR);
+
+        // A different scale factor needs a scheduled update whose delay passed
+        bytes32 changeId = keccak256(
+            abi.encodeCall(
+                debtToken.updateScaleFactor,
+                (address(ionToken), 1, 1)
+            )
+        );
+        vm.expectRevert(
+            abi.encodeWithSelector(ChangeNotScheduled.selector, changeId)
+        );
+        debtToken.whitelistIonToken(address(ionToken), 1, 1);
+
+        debtToken.scheduleScaleFactorUpdate(address(ionToken), 1, 1);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                ChangeNotReady.selector,
+                changeId,
+                block.timestamp + 2 days
+            )
+        );
+        debtToken.whitelistIonToken(address(ionToken), 1, 1);
+
+        vm.warp(block.timestamp + 2 days);
+        debtToken.whitelistIonToken(address(ionToken), 1, 1);
+        vm.stopPrank();
+
+        (numerator, denominator) = debtToken.ionTokenScaleFactors(
+            address(ionToken)
+        );
+        assertEq(numerator, 1);
+        assertEq(denominator, 1);
+        assertEq(debtToken.scheduledChanges(changeId), 0);
+    }
+
+    function test_ReWhitelistingWithTheSameScaleFactorIsImmediate() public {
+        _setTimelockDelay(2 days);
+
+        vm.startPrank(owner);
+        debtToken.removeIonToken(address(ionToken));
+        debtToken.whitelistIonToken(
+            address(ionToken),
+            SCALE_FACTOR_NUMERATOR,
+            SCALE_FACTOR_DENOMINATOR
+        );
+        vm.stopPrank();
+
+        assertTrue(debtToken.whitelistedIonTokens(address(ionToken)));
+    }
+
+    function test_RolesAreSeparate() public {
+        address treasury = makeAddr("treasury");
+        bytes32 treasuryRole = debtToken.TREASURY_ROLE();
+        vm.prank(owner);
+        debtToken.grantRole(treasuryRole, treasury);
+
+        vm.prank(user);
+        debtToken.mint(address(ionToken), 100 * 1e18);
+
+        // The treasury can withdraw, but not change the whitelist or the oracle
+        vm.startPrank(treasury);
+        debtToken.withdrawIonTokens(address(ionToken), treasury);
+        vm.expectRevert();
+        debtToken.scheduleScaleFactorUpdate(address(ionToken), 1, 2);
+        vm.expectRevert();
+        debtToken.scheduleMasterPriceOracleUpdate(address(oracle));
+        vm.expectRevert();
+        debtToken.setBlocklisted(new address[](0), true);
+        vm.stopPrank();
+
+        assertEq(ionToken.balanceOf(treasury), 100 * 1e18);
+        assertEq(debtToken.owner(), owner);
+    }
+
+    function test_InitializeV2MigratesOwnableDeployment() public {
+        IonicDebtToken legacy = new IonicDebtToken();
+        // Ownable's namespaced storage, as left by the first version
+        vm.store(
+            address(legacy),
+            0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300,
+            bytes32(uint256(uint160(owner)))
+        );
+
+        address whitelistManager = makeAddr("whitelistManager");
+        address treasury = makeAddr("treasury");
+        address oracleAdmin = makeAddr("oracleAdmin");
+        address upgrader = makeAddr("upgrader");
+        vm.prank(owner);
+        legacy.initializeV2(
+            whitelistManager,
+            treasury,
+            oracleAdmin,
+            upgrader,
+            2 days
+        );
+
+        assertEq(legacy.owner(), owner);
+        assertTrue(
+            legacy.hasRole(legacy.WHITELIST_MANAGER_ROLE(), whitelistManager)
+        );
+        assertTrue(legacy.hasRole(legacy.TREASURY_ROLE(), treasury));
+        assertTrue(legacy.hasRole(legacy.ORACLE_ADMIN_ROLE(), oracleAdmin));
+        assertTrue(legacy.hasRole(legacy.UPGRADER_ROLE(), upgrader));
+        assertEq(legacy.timelockDelay(), 2 days);
+        assertEq(
+            vm.load(
+                address(legacy),
+                0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300
+            ),
+            bytes32(0)
+        );
+
+        // The migration only runs once
+        vm.expectRevert();
+        legacy.initializeV2(owner, owner, owner, owner, 0);
+    }
+
+    function test_RevertWhenInitializeV2WithoutLegacyOwner() public {
+        vm.expectRevert(LegacyOwnerNotSet.selector);
+        debtToken.initializeV2(user, user, user, user, 0);
+    }
+
+    function test_InitializeV2ThroughUpgradeAndCall() public {
+        IonicDebtTokenProxy proxy = new IonicDebtTokenProxy(
+            address(new IonicDebtToken()),
+            owner,
+            ""
+        );
+        vm.store(
+            address(proxy),
+            0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300,
+            bytes32(uint256(uint160(owner)))
+        );
+        // ERC-1967 admin slot, holding the ProxyAdmin the proxy deployed
+        IonicDebtTokenProxyAdmin proxyAdmin = IonicDebtTokenProxyAdmin(
+            address(
+                uint160(
+                    uint256(
+                        vm.load(
+                            address(proxy),
+                            0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103
+                        )
+                    )
+                )
+            )
+        );
+
+        // The ProxyAdmin makes the call, on behalf of its owner
+        vm.prank(owner);
+        proxyAdmin.upgradeAndCall(
+            ITransparentUpgradeableProxy(address(proxy)),
+            address(new IonicDebtToken()),
+            abi.encodeCall(
+                IonicDebtToken.initializeV2,
+                (user, user, user, user, 0)
+            )
+        );
+
+        IonicDebtToken migrated = IonicDebtToken(address(proxy));
+        assertEq(migrated.owner(), owner);
+        assertTrue(migrated.hasRole(migrated.TREASURY_ROLE(), user));
+    }
+
+    function test_RevertWhenInitializeV2NotCalledByLegacyOwner() public {
+        IonicDebtToken legacy = new IonicDebtToken();
+        vm.store(
+            address(legacy),
+            0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300,
+            bytes32(uint256(uint160(owner)))
+        );
+
+        // Anyone else could otherwise grant themselves every role
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(UnauthorizedMigration.selector, user)
+        );
+        legacy.initializeV2(user, user, user, user, 0);
+    }
+
+    function test_RedeemIonTokensToTreasury() public {
+        address treasury = makeAddr("treasury");
+        vm.prank(user);
+        debtToken.mint(address(ionBtcToken), 100 * 1e18);
+        uint256 underlyingAmount = (100 * 1e18 * EXCHANGE_RATE) / 1e18;
+        btc.mint(address(ionBtcToken), underlyingAmount);
+
+        vm.prank(owner);
+        (uint256 redeemed, uint256 received) = debtToken.redeemIonTokens(
+            address(ionBtcToken),
+            0,
+            treasury
+        );
+
+        assertEq(redeemed, 100 * 1e18);
+        assertEq(received, underlyingAmount);
+        assertEq(btc.balanceOf(treasury), underlyingAmount);
+        assertEq(ionBtcToken.balanceOf(address(debtToken)), 0);
+    }
+
+    function test_RedeemIonTokensWithPartialLiquidity() public {
+        vm.prank(user);
+        debtToken.mint(address(ionBtcToken), 100 * 1e18);
+        // The market only holds the underlying of 40 ionTokens
+        uint256 cash = (40 * 1e18 * EXCHANGE_RATE) / 1e18;
+        btc.mint(address(ionBtcToken), cash);
+
+        vm.prank(owner);
+        (uint256 redeemed, uint256 received) = debtToken.redeemIonTokens(
+            address(ionBtcToken),
+            0,
+            address(debtToken)
+        );
+
+        assertEq(redeemed, 40 * 1e18);
+        assertEq(received, cash);
+        assertEq(btc.balanceOf(address(debtToken)), cash);
+        assertEq(ionBtcToken.balanceOf(address(debtToken)), 60 * 1e18);
+
+        // Nothing more can be redeemed until the market has cash again
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                InsufficientLiquidity.selector,
+                address(ionBtcToken),
+                60 * 1e18
+            )
+        );
+        debtToken.redeemIonTokens(address(ionBtcToken), 0, address(debtToken));
+    }
+
+    function test_RevertWhenRedeemingMoreThanCollected() public {
+        vm.prank(user);
+        debtToken.mint(address(ionBtcToken), 100 * 1e18);
+
+        vm.prank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                InsufficientBalance.selector,
+                address(ionBtcToken),
+                101 * 1e18,
+                100 * 1e18
+            )
+        );
+        debtToken.redeemIonTokens(address(ionBtcToken), 101 * 1e18, owner);
+    }
+
+    function test_RevertWhenNonTreasuryRedeems() public {
+        vm.prank(user);
+        vm.expectRevert();
+        debtToken.redeemIonTokens(address(ionBtcToken), 0, user);
+    }
+
+    function test_IonTokenTotals() public {
+        vm.startPrank(user);
+        debtToken.mint(address(ionToken), 100 * 1e18);
+        debtToken.mint(address(ionToken), 50 * 1e18);
+        uint256 ionTokenMinted = debtToken.balanceOf(user);
+        debtToken.mint(address(ionBtcToken), 10 * 1e18);
+        uint256 btcMinted = debtToken.balanceOf(user) - ionTokenMinted;
+        vm.stopPrank();
+
+        // Withdrawals do not change the totals
+        vm.prank(owner);
+        debtToken.withdrawIonTokens(address(ionToken), owner);
+
+        IonicDebtToken.IonTokenTotals[] memory totals = debtToken
+            .getIonTokenTotals();
+        assertEq(totals.length, 2);
+        assertEq(totals[0].ionToken, address(ionToken));
+        assertEq(totals[0].totalDeposited, 150 * 1e18);
+        assertEq(totals[0].totalMinted, ionTokenMinted);
+        assertEq(totals[1].ionToken, address(ionBtcToken));
+        assertEq(totals[1].totalDeposited, 10 * 1e18);
+        assertEq(totals[1].totalMinted, btcMinted);
+
+        // Removed ionTokens are no longer listed, but keep their totals
+        vm.prank(owner);
+        debtToken.removeIonToken(address(ionToken));
+        address[] memory whitelisted = debtToken.getWhitelistedIonTokens();
+        assertEq(whitelisted.length, 1);
+        assertEq(whitelisted[0], address(ionBtcToken));
+        assertEq(
+            debtToken.ionTokenTotalDeposited(address(ionToken)),
+            150 * 1e18
+        );
+    }
+
+    function test_InitializeV3RegistersWhitelistedIonTokens() public {
+        address[] memory ionTokens = new address[](2);
+        ionTokens[0] = address(ionToken);
+        ionTokens[1] = address(dai);
+
+        vm.startPrank(owner);
+        vm.expectRevert(
+            abi.encodeWithSelector(
+                IonTokenNotWhitelisted.selector,
+                address(dai)
+            )
+        );
+        debtToken.initializeV3(ionTokens);
+
+        ionTokens[1] = address(ionBtcToken);
+        debtToken.initializeV3(ionTokens);
+        vm.stopPrank();
+        assertEq(debtToken.getWhitelistedIonTokens().length, 2);
+    }
+
+    function test_RevertWhenInitializeV3NotCalledByDefaultAdmin() public {
+        // Anyone else could use up the reinitializer without registering the whitelist
+        vm.prank(user);
+        vm.expectRevert(
+            abi.encodeWithSelector(UnauthorizedMigration.selector, user)
+        );
+        debtToken.initializeV3(new address[](0));
     }
 }
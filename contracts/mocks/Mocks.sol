@@ -0,0 +1,140 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.28;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
+
+// Mock contracts shared by the Solidity tests and the offline TypeScript tests
+
+contract MockIonToken is ERC20 {
+    address private _underlyingToken;
+    uint256 private _exchangeRate;
+    uint8 private _decimals;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        address underlyingToken,
+        uint256 exchangeRate,
+        uint8 decimals_
+    ) ERC20(name, symbol) {
+        _underlyingToken = underlyingToken;
+        _exchangeRate = exchangeRate;
+        _decimals = decimals_;
+    }
+
+    function decimals() public view virtual override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    // This function is marked as non-view to match the interface
+    // but we implement it as view for testing simplicity
+    function exchangeRateCurrent() external view returns (uint256) {
+        return _exchangeRate;
+    }
+
+    function underlying() external view returns (address) {
+        return _underlyingToken;
+    }
+
+    // The underlying held by the market, the only liquidity it can pay out
+    function getCash() public view returns (uint256) {
+        return ERC20(_underlyingToken).balanceOf(address(this));
+    }
+
+    function redeem(uint256 redeemTokens) external returns (uint256) {
+        uint256 underlyingAmount = (redeemTokens * _exchangeRate) / 1e18;
+        if (underlyingAmount > getCash()) {
+            // Compound's TOKEN_INSUFFICIENT_CASH
+            return 14;
+        }
+
+        _burn(msg.sender, redeemTokens);
+        ERC20(_underlyingToken).transfer(msg.sender, underlyingAmount);
+        return 0;
+    }
+}
+
+// A mock ionToken that supports EIP-2612 permits
+contract MockPermitIonToken is MockIonToken, ERC20Permit {
+    constructor(
+        string memory name,
+        string memory symbol,
+        address underlyingToken,
+        uint256 exchangeRate,
+        uint8 decimals_
+    )
+        MockIonToken(name, symbol, underlyingToken, exchangeRate, decimals_)
+        ERC20Permit(name)
+    {}
+
+    function decimals()
+        public
+        view
+        override(ERC20, MockIonToken)
+        returns (uint8)
+    {
+        return MockIonToken.decimals();
+    }
+}
+
+contract MockUnderlyingToken is ERC20 {
+    uint8 private _decimals;
+
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint8 decimals_
+    ) ERC20(name, symbol) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
+
+contract MockMasterPriceOracle {
+    mapping(address => uint256) private prices;
+
+    function setPrice(address token, uint256 priceValue) external {
+        prices[token] = priceValue;
+    }
+
+    function getUnderlyingPrice(
+        address cToken
+    ) external view returns (uint256) {
+        return prices[cToken];
+    }
+
+    function price(address underlying) external view returns (uint256) {
+        return prices[underlying];
+    }
+}
+
+// A mock token that always fails on transferFrom
+contract MockFailingIonToken is MockIonToken {
+    constructor(
+        string memory name,
+        string memory symbol,
+        address underlying,
+        uint256 exchangeRate,
+        uint8 decimals_
+    ) MockIonToken(name, symbol, underlying, exchangeRate, decimals_) {}
+
+    function transferFrom(
+        address,
+        address,
+        uint256
+    ) public pure override returns (bool) {
+        return false;
+    }
+}
@@ -6,6 +6,12 @@ import HardhatNetworkHelpers from "@nomicfoundation/hardhat-network-helpers";
 import HardhatKeystore from "@nomicfoundation/hardhat-keystore";
 import HardhatIgnitionViem from "@nomicfoundation/hardhat-ignition-viem";
 
+import {
+  MODE_MAINNET_FORK_BLOCK_NUMBER,
+  MODE_MAINNET_RPC_URL,
+} from "./utils/constants.js";
+import { tasks } from "./tasks/index.js";
+
 const config: HardhatUserConfig = {
   /*
    * In Hardhat 3, plugins are defined as part of the Hardhat config instead of
@@ -21,6 +27,8 @@ const config: HardhatUserConfig = {
     HardhatKeystore,
     HardhatIgnitionViem,
   ],
+  // Admin tasks for the deployed IonicDebtToken (tasks/index.ts)
+  tasks,
   solidity: {
     /*
      * Hardhat 3 supports different build profiles, allowing you to configure
@@ -36,6 +44,10 @@ const config: HardhatUserConfig = {
        */
       default: {
         version: "0.8.28",
+        settings: {
+          // Storage layouts are compared before upgrades (utils/storage-layout.ts)
+          outputSelection: { "*": { "*": ["storageLayout"] } },
+        },
       },
       /*
        * The production profile is meant to be used for deployments, providing
@@ -45,10 +57,19 @@ const config: HardhatUserConfig = {
       production: {
         version: "0.8.28",
         settings: {
+          /*
+           * IonicDebtToken only fits the EIP-170 limit of 24,576 bytes when
+           * compiled through the IR pipeline, optimized for size over call
+           * costs: its runtime code is 24,219 bytes with viaIR and 26,824
+           * bytes without (24,466 bytes with viaIR at 200 runs). Keep an eye
+           * on the size when adding to it, as upgrades have to fit as well.
+           */
+          viaIR: true,
           optimizer: {
             enabled: true,
-            runs: 200,
+            runs: 100,
           },
+          outputSelection: { "*": { "*": ["storageLayout"] } },
         },
       },
     },
@@ -95,8 +116,8 @@ const config: HardhatUserConfig = {
       type: "edr",
       chainType: "generic",
       forking: {
-        url: "https://mainnet.mode.network",
-        blockNumber: 20720089, // Specific block for consistent testing
+        url: MODE_MAINNET_RPC_URL,
+        blockNumber: MODE_MAINNET_FORK_BLOCK_NUMBER, // Specific block for consistent testing
         enabled: true,
       },
       mining: {
@@ -104,6 +125,15 @@ const config: HardhatUserConfig = {
         interval: 1000,
       },
       chainId: 34443,
+      // The default profile is unoptimized, which puts IonicDebtToken over the
+      // EIP-170 limit. Deployments use the production profile
+      allowUnlimitedContractSize: true,
+    },
+    // Local chain without forking, used by the offline test suite
+    hardhatOffline: {
+      type: "edr",
+      chainType: "generic",
+      allowUnlimitedContractSize: true,
     },
     localhost: {
       type: "http",
@@ -113,7 +143,8 @@ const config: HardhatUserConfig = {
     mode_mainnet: {
       type: "http",
       chainType: "generic",
-      url: "https://mainnet.mode.network",
+      url: MODE_MAINNET_RPC_URL,
+      accounts: [configVariable("MODE_MAINNET_PRIVATE_KEY")],
     },
     hardhatMainnet: {
       type: "edr",
@@ -1,8 +1,12 @@
 import { localhostConfig } from "./localhost.js";
 import { modeMainnetConfig } from "./mode-mainnet.js";
+import type { NetworkDeploymentConfig } from "./types.js";
+import { validateNetworkConfig } from "./validate.js";
+
+export type { IonTokenConfig, NetworkDeploymentConfig } from "./types.js";
 
 // Export configurations for different networks
-export const config = {
+export const config: Record<string, NetworkDeploymentConfig> = {
   localhost: localhostConfig,
   "mode-mainnet": modeMainnetConfig,
   // Add more network configurations as needed
@@ -10,20 +14,41 @@ export const config = {
   // mainnet: mainnetConfig,
 };
 
+// Hardhat network (from hardhat.config.ts) used to reach each configuration's chain
+export const hardhatNetworks: Record<string, string> = {
+  localhost: "localhost",
+  "mode-mainnet": "mode_mainnet",
+};
+
 /**
  * Get the configuration for a specific network
  * @param network Network name (e.g., 'localhost', 'goerli', 'mainnet')
- * @returns Configuration object for the specified network or undefined if not found
+ * @returns Validated configuration object for the specified network or undefined if not found
+ * @throws ConfigValidationError if the configuration is invalid
+ */
+export function getNetworkConfig(
+  network: string
+): NetworkDeploymentConfig | undefined {
+  const networkConfig = config[network];
+  if (networkConfig !== undefined) {
+    validateNetworkConfig(network, networkConfig);
+  }
+  return networkConfig;
+}
+
+/**
+ * Get the name of the current network based on the HARDHAT_NETWORK environment variable
+ * @returns Network name, defaulting to mode-mainnet if not specified
  */
-export function getNetworkConfig(network: string) {
-  return config[network as keyof typeof config];
+export function getCurrentNetworkName() {
+  return process.env.HARDHAT_NETWORK || "mode-mainnet";
 }
 
 /**
  * Get the configuration for the current network based on the HARDHAT_NETWORK environment variable
- * @returns Configuration object for the current network or localhost config if not specified
+ * @returns Validated configuration object for the current network
+ * @throws ConfigValidationError if the configuration is invalid
  */
 export function getCurrentNetworkConfig() {
-  const network = process.env.HARDHAT_NETWORK || "mode-mainnet";
-  return getNetworkConfig(network);
+  return getNetworkConfig(getCurrentNetworkName());
 }
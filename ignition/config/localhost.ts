@@ -1,7 +1,10 @@
+import { parseUnits } from "viem";
+import type { NetworkDeploymentConfig } from "./types.js";
+
 /**
  * Configuration for localhost IonicDebtToken deployment
  */
-export const localhostConfig = {
+export const localhostConfig: NetworkDeploymentConfig = {
   // Core deployment parameters
   masterPriceOracleAddress: "0x5FbDB2315678afecb367f032d93F642f64180aa3", // Example address
   usdcAddress: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512", // Example address
@@ -10,15 +13,19 @@ export const localhostConfig = {
   tokenConfigs: [
     // Example token with 70% legitimate value
     {
+      symbol: "ionTOKENA",
       address: "0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0", // Example address
-      totalSupplied: "100000000000000000000", // 100 ETH in wei
-      illegitimateBorrowed: "30000000000000000000", // 30 ETH in wei
+      decimals: 18,
+      totalSupplied: parseUnits("100", 18), // 100 ETH
+      illegitimateBorrowed: parseUnits("30", 18), // 30 ETH
     },
     // Example token with 80% legitimate value
     {
+      symbol: "ionTOKENB",
       address: "0xCf7Ed3AccA5a467e9e704C703E8D87F634fB0Fc9", // Example address
-      totalSupplied: "500000000000000000000", // 500 ETH in wei
-      illegitimateBorrowed: "100000000000000000000", // 100 ETH in wei
+      decimals: 18,
+      totalSupplied: parseUnits("500", 18), // 500 ETH
+      illegitimateBorrowed: parseUnits("100", 18), // 100 ETH
     },
   ],
 };
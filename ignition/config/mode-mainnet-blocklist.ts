@@ -0,0 +1,8 @@
+import type { Address } from "viem";
+
+/*
+ * Generated by scripts/build-blocklist.ts, do not edit by hand.
+ *
+ * Not generated yet: run the script with the exploiter's accounts as seeds.
+ */
+export const modeMainnetBlocklist: Address[] = [];
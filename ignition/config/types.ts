@@ -0,0 +1,44 @@
+import type { Address } from "viem";
+
+/**
+ * Configuration of an ionToken affected by the exploit
+ */
+export interface IonTokenConfig {
+  // Symbol of the ionToken, used for logging and reports
+  symbol: string;
+  // Address of the ionToken (checksummed)
+  address: Address;
+  // Decimals of the ionToken, which the amounts below are denominated in
+  decimals: number;
+  // Total amount supplied to the market at the time of the exploit
+  totalSupplied: bigint;
+  // Amount illegitimately borrowed from the market, also the ionToken's mint cap
+  illegitimateBorrowed: bigint;
+}
+
+/**
+ * Configuration of an IonicDebtToken deployment on a network
+ */
+export interface NetworkDeploymentConfig {
+  // Address of the MasterPriceOracle used for valuations (checksummed)
+  masterPriceOracleAddress: Address;
+  // Address of the USDC token prices are quoted against (checksummed)
+  usdcAddress: Address;
+  // ionTokens to whitelist, with the data their scale factors are derived from
+  tokenConfigs: IonTokenConfig[];
+  // Safe that owns the token and ProxyAdmin once ownership is handed off
+  safeAddress?: Address;
+  // Cap on the total dION minted (18 decimals), unset for no global cap
+  globalMintCap?: bigint;
+  // Accounts barred from minting and moving dION (e.g. the exploiter's)
+  blocklist?: Address[];
+  // Role holders granted at deployment, in addition to the deployer
+  roles?: {
+    whitelistManager?: Address;
+    treasury?: Address;
+    oracleAdmin?: Address;
+    upgrader?: Address;
+  };
+  // Delay in seconds before scale factor, oracle and USDC updates can execute
+  timelockDelay?: bigint;
+}
@@ -0,0 +1,172 @@
+import { Address, erc20Abi, getAddress, isAddress, PublicClient } from "viem";
+import type { NetworkDeploymentConfig } from "./types.js";
+
+// IonicDebtToken.MAX_TIMELOCK_DELAY
+const MAX_TIMELOCK_DELAY = 30n * 24n * 60n * 60n;
+
+/**
+ * Error thrown when a network configuration fails validation
+ */
+export class ConfigValidationError extends Error {
+  constructor(
+    public readonly network: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Invalid deployment config for ${network}:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "ConfigValidationError";
+  }
+}
+
+function checkAddress(issues: string[], label: string, address: string) {
+  if (!isAddress(address, { strict: false })) {
+    issues.push(`${label} is not a valid address: ${address}`);
+    return;
+  }
+
+  const checksummed = getAddress(address);
+  if (checksummed !== address) {
+    issues.push(
+      `${label} is not checksummed: ${address} (expected ${checksummed})`
+    );
+  }
+}
+
+/**
+ * Validate a network configuration without any RPC access
+ * @param network Name of the network the configuration belongs to
+ * @param config Configuration to validate
+ * @throws ConfigValidationError listing every issue found
+ */
+export function validateNetworkConfig(
+  network: string,
+  config: NetworkDeploymentConfig
+): void {
+  const issues: string[] = [];
+
+  checkAddress(
+    issues,
+    "masterPriceOracleAddress",
+    config.masterPriceOracleAddress
+  );
+  checkAddress(issues, "usdcAddress", config.usdcAddress);
+  if (config.safeAddress !== undefined) {
+    checkAddress(issues, "safeAddress", config.safeAddress);
+  }
+
+  if (config.globalMintCap !== undefined && config.globalMintCap <= 0n) {
+    issues.push(
+      `globalMintCap must be positive (omit it for no cap): ${config.globalMintCap}`
+    );
+  }
+
+  if (config.blocklist !== undefined) {
+    const blocked = new Set<string>();
+    for (const account of config.blocklist) {
+      checkAddress(issues, "blocklist entry", account);
+      if (blocked.has(account.toLowerCase())) {
+        issues.push(`${account} is blocklisted more than once`);
+      }
+      blocked.add(account.toLowerCase());
+    }
+  }
+
+  for (const [role, holder] of Object.entries(config.roles ?? {})) {
+    if (holder !== undefined) {
+      checkAddress(issues, `${role} role holder`, holder);
+    }
+  }
+
+  if (
+    config.timelockDelay !== undefined &&
+    (config.timelockDelay < 0n || config.timelockDelay > MAX_TIMELOCK_DELAY)
+  ) {
+    issues.push(
+      `timelockDelay must be between 0 and ${MAX_TIMELOCK_DELAY} seconds: ${config.timelockDelay}`
+    );
+  }
+
+  if (config.tokenConfigs.length === 0) {
+    issues.push("tokenConfigs is empty");
+  }
+
+  const seen = new Set<string>();
+  for (const token of config.tokenConfigs) {
+    const label = `${token.symbol} (${token.address})`;
+
+    checkAddress(issues, `${token.symbol} address`, token.address);
+
+    const key = token.address.toLowerCase();
+    if (seen.has(key)) {
+      issues.push(`${label} is configured more than once`);
+    }
+    seen.add(key);
+
+    if (
+      !Number.isInteger(token.decimals) ||
+      token.decimals < 0 ||
+      token.decimals > 255
+    ) {
+      issues.push(`${label} has invalid decimals: ${token.decimals}`);
+    }
+    if (token.totalSupplied <= 0n) {
+      issues.push(`${label} has zero total supplied`);
+    }
+    if (token.illegitimateBorrowed < 0n) {
+      issues.push(`${label} has negative illegitimate borrowed`);
+    }
+    if (token.illegitimateBorrowed > token.totalSupplied) {
+      issues.push(
+        `${label} has illegitimate borrowed ${token.illegitimateBorrowed} greater than total supplied ${token.totalSupplied}`
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(network, issues);
+  }
+}
+
+/**
+ * Check that every token's declared decimals match its on-chain `decimals()`
+ * @param network Name of the network the configuration belongs to
+ * @param config Configuration to validate
+ * @param publicClient Client connected to the network
+ * @throws ConfigValidationError listing every mismatch or failed read
+ */
+export async function validateOnChainDecimals(
+  network: string,
+  config: NetworkDeploymentConfig,
+  publicClient: Pick<PublicClient, "readContract">
+): Promise<void> {
+  const issues: string[] = [];
+
+  for (const token of config.tokenConfigs) {
+    const label = `${token.symbol} (${token.address})`;
+
+    try {
+      const decimals = await publicClient.readContract({
+        address: token.address as Address,
+        abi: erc20Abi,
+        functionName: "decimals",
+      });
+
+      if (decimals !== token.decimals) {
+        issues.push(
+          `${label} declares ${token.decimals} decimals but has ${decimals} on-chain`
+        );
+      }
+    } catch (error) {
+      issues.push(
+        `${label} decimals() could not be read: ${(error as Error).message}`
+      );
+    }
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(network, issues);
+  }
+}
@@ -1,103 +1,170 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
-import { getCurrentNetworkConfig } from "../config/index.js";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  NetworkDeploymentConfig,
+} from "../config/index.js";
+import { ROLES } from "../../utils/roles.js";
+import { scaleFactorFor } from "../../utils/valuation.js";
+
 /**
- * IonicDebtToken Ignition Module
+ * Build the IonicDebtToken Ignition Module for a deployment configuration
  *
- * This module deploys:
+ * The module deploys:
  * 1. The IonicDebtToken implementation contract
  * 2. A TransparentUpgradeableProxy pointing to that implementation
  * 3. A ProxyAdmin to manage the proxy
  * 4. Initializes the contract with MasterPriceOracle and USDC addresses
  * 5. Configures whitelisted tokens with calculated scale factors
+ * 6. Caps each token's mints at its illegitimate exposure, and sets the
+ *    global dION cap if the config has one
+ * 7. Blocklists the config's blocklisted accounts
+ * 8. Grants the config's roles, and sets its timelock delay
+ *
+ * The deployer is the default admin and holds every role until the handoff
+ * to the Safe (scripts/transfer-ownership-to-safe.ts).
+ *
+ * @param networkConfig Configuration to deploy (e.g. one pointing at mocks)
+ * @returns The Ignition module
  */
-const IonicDebtTokenModule = buildModule("IonicDebtTokenModule", (m) => {
-  const proxyAdminOwner = m.getAccount(0);
-
-  // Get configuration for the current network
-  const networkConfig = getCurrentNetworkConfig();
-
-  // Core deployment parameters with defaults and overrides from config
-  const masterPriceOracleAddress = networkConfig?.masterPriceOracleAddress;
-  const usdcAddress = networkConfig?.usdcAddress;
-
-  // Token configurations for calculating scale factors
-  const tokenConfigs = networkConfig?.tokenConfigs;
-
-  if (!tokenConfigs || !masterPriceOracleAddress || !usdcAddress) {
-    throw new Error("Missing required parameters");
-  }
-
-  // Deploy the implementation contract
-  const implementation = m.contract("IonicDebtToken");
-
-  const encodedFunctionCall = m.encodeFunctionCall(
-    implementation,
-    "initialize",
-    [proxyAdminOwner, masterPriceOracleAddress, usdcAddress]
-  );
-
-  // Deploy the IonicDebtTokenProxy pointing to the implementation
-  const proxy = m.contract("IonicDebtTokenProxy", [
-    implementation,
-    proxyAdminOwner,
-    encodedFunctionCall,
-  ]);
-
-  const proxyAdminAddress = m.readEventArgument(
-    proxy,
-    "AdminChanged",
-    "newAdmin"
-  );
-
-  const proxyAdmin = m.contractAt(
-    "IonicDebtTokenProxyAdmin",
-    proxyAdminAddress
-  );
-
-  // Cast the proxy to IonicDebtToken type for contract interactions
-  const ionicDebtToken = m.contractAt("IonicDebtToken", proxy, {
-    id: "IonicDebtTokenProxyInstance",
-  });
+export function buildIonicDebtTokenModule(
+  networkConfig: NetworkDeploymentConfig
+) {
+  return buildModule("IonicDebtTokenModule", (m) => {
+    const proxyAdminOwner = m.getAccount(0);
 
-  // No need to call initialize again since we already passed it in the constructor
-  // The encodedFunctionCall already contains the initialize call
+    // Core deployment parameters from the config
+    const masterPriceOracleAddress = networkConfig.masterPriceOracleAddress;
+    const usdcAddress = networkConfig.usdcAddress;
 
-  // Calculate scale factors and whitelist tokens
-  for (const token of tokenConfigs) {
-    const totalSupplied = BigInt(token.totalSupplied);
-    const illegitimateBorrowed = BigInt(token.illegitimateBorrowed);
+    // Token configurations for calculating scale factors
+    const tokenConfigs = networkConfig.tokenConfigs;
 
-    if (token.totalSupplied === "0") {
-      throw new Error("Total supplied is 0");
-    } else {
+    if (!tokenConfigs || !masterPriceOracleAddress || !usdcAddress) {
+      throw new Error("Missing required parameters");
+    }
+
+    // Deploy the implementation contract
+    const implementation = m.contract("IonicDebtToken");
+
+    const encodedFunctionCall = m.encodeFunctionCall(
+      implementation,
+      "initialize",
+      [proxyAdminOwner, masterPriceOracleAddress, usdcAddress]
+    );
+
+    // Deploy the IonicDebtTokenProxy pointing to the implementation
+    const proxy = m.contract("IonicDebtTokenProxy", [
+      implementation,
+      proxyAdminOwner,
+      encodedFunctionCall,
+    ]);
+
+    const proxyAdminAddress = m.readEventArgument(
+      proxy,
+      "AdminChanged",
+      "newAdmin"
+    );
+
+    const proxyAdmin = m.contractAt(
+      "IonicDebtTokenProxyAdmin",
+      proxyAdminAddress
+    );
+
+    // Cast the proxy to IonicDebtToken type for contract interactions
+    const ionicDebtToken = m.contractAt("IonicDebtToken", proxy, {
+      id: "IonicDebtTokenProxyInstance",
+    });
+
+    // No need to call initialize again since we already passed it in the constructor
+    // The encodedFunctionCall already contains the initialize call
+
+    // Calculate scale factors and whitelist tokens
+    for (const token of tokenConfigs) {
       // Use illegitimateBorrowed as numerator and totalSupplied as denominator
       // This means if 98.2% of tokens were illegitimately borrowed, users will get 98.2% of value
-      const numerator = illegitimateBorrowed;
-      const denominator = totalSupplied;
+      const { numerator, denominator } = scaleFactorFor(token);
 
       // Whitelist the token with the calculated scale factors
-      m.call(
+      const whitelist = m.call(
         ionicDebtToken,
         "whitelistIonToken",
-        [token.address, numerator.toString(), denominator.toString()],
+        [token.address, numerator, denominator],
         { id: `whitelist_${token.address}` }
       );
 
+      // Cap the exposure the token can mint against at the illegitimately borrowed amount
+      m.call(
+        ionicDebtToken,
+        "setIonTokenMintCap",
+        [token.address, token.illegitimateBorrowed],
+        { id: `mint_cap_${token.address}`, after: [whitelist] }
+      );
+
       // Calculate percentage of value that will be recognized
-      const valuePercentage = (illegitimateBorrowed * 100n) / totalSupplied;
+      const valuePercentage = (numerator * 100n) / denominator;
 
       console.log(
-        `Whitelisted ${token.address} with scale factor ${numerator}/${denominator} (${valuePercentage}% of value)`
+        `Whitelisted ${token.symbol} (${token.address}) with scale factor ${numerator}/${denominator} (${valuePercentage}% of value)`
+      );
+    }
+
+    if (networkConfig.globalMintCap !== undefined) {
+      m.call(ionicDebtToken, "setGlobalMintCap", [networkConfig.globalMintCap]);
+    }
+
+    if (
+      networkConfig.blocklist !== undefined &&
+      networkConfig.blocklist.length > 0
+    ) {
+      m.call(ionicDebtToken, "setBlocklisted", [networkConfig.blocklist, true]);
+    }
+
+    for (const [role, holder] of Object.entries(networkConfig.roles ?? {})) {
+      if (holder !== undefined) {
+        m.call(
+          ionicDebtToken,
+          "grantRole",
+          [ROLES[role as keyof typeof ROLES], holder],
+          { id: `grant_${role}` }
+        );
+      }
+    }
+
+    // The delay is 0 after initialize, so the update executes right away
+    if (
+      networkConfig.timelockDelay !== undefined &&
+      networkConfig.timelockDelay > 0n
+    ) {
+      const schedule = m.call(ionicDebtToken, "scheduleTimelockDelayUpdate", [
+        networkConfig.timelockDelay,
+      ]);
+      m.call(
+        ionicDebtToken,
+        "updateTimelockDelay",
+        [networkConfig.timelockDelay],
+        { after: [schedule] }
       );
     }
-  }
-
-  return {
-    implementation,
-    proxyAdmin,
-    proxy,
-    ionicDebtToken,
-  };
-});
+
+    return {
+      implementation,
+      proxyAdmin,
+      proxy,
+      ionicDebtToken,
+    };
+  });
+}
+
+// Get configuration for the current network (validated before it is returned)
+const networkConfig = getCurrentNetworkConfig();
+if (!networkConfig) {
+  throw new Error(`No deployment config for ${getCurrentNetworkName()}`);
+}
+
+/**
+ * IonicDebtToken Ignition Module for the current network's configuration
+ */
+const IonicDebtTokenModule = buildIonicDebtTokenModule(networkConfig);
 
 export default IonicDebtTokenModule;
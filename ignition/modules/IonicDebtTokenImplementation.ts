@@ -0,0 +1,25 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { assertIonicDebtTokenUpgradeSafe } from "../../utils/storage-layout.js";
+/**
+ * IonicDebtToken Implementation Module
+ *
+ * This module deploys a new IonicDebtToken implementation contract to upgrade
+ * the proxy to. Before anything is deployed, the storage layout of the
+ * compiled contract is checked against the snapshot of the deployed one in
+ * `storage-layouts/IonicDebtToken.json`, and the build fails if a variable was
+ * reordered, retyped or removed.
+ */
+const IonicDebtTokenImplementationModule = buildModule(
+  "IonicDebtTokenImplementationModule",
+  (m) => {
+    assertIonicDebtTokenUpgradeSafe();
+
+    const implementation = m.contract("IonicDebtToken", [], {
+      id: "IonicDebtTokenImplementation",
+    });
+
+    return { implementation };
+  }
+);
+
+export default IonicDebtTokenImplementationModule;
@@ -0,0 +1,57 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import IonicDebtTokenImplementationModule from "./IonicDebtTokenImplementation.js";
+/**
+ * IonicDebtToken Upgrade Module
+ *
+ * This module:
+ * 1. Deploys a new IonicDebtToken implementation (after the storage layout check)
+ * 2. Upgrades the existing proxy to it through the IonicDebtTokenProxyAdmin
+ *
+ * Parameters:
+ * - proxy: address of the deployed IonicDebtTokenProxy
+ * - proxyAdmin: address of its IonicDebtTokenProxyAdmin
+ * - upgradeCallData: optional call (e.g. a reinitializer) made during the upgrade
+ *
+ * The ProxyAdmin must be owned by the deploying account. Once it is owned by
+ * the Safe, deploy IonicDebtTokenImplementationModule on its own and export the
+ * upgrade with `SAFE_ACTION=upgrade scripts/export-safe-batch.ts` instead.
+ */
+const IonicDebtTokenUpgradeModule = buildModule(
+  "IonicDebtTokenUpgradeModule",
+  (m) => {
+    const proxyAdminOwner = m.getAccount(0);
+
+    const proxyAddress = m.getParameter<string>("proxy");
+    const proxyAdminAddress = m.getParameter<string>("proxyAdmin");
+    const upgradeCallData = m.getParameter<string>("upgradeCallData", "0x");
+
+    const { implementation } = m.useModule(IonicDebtTokenImplementationModule);
+
+    const proxy = m.contractAt("IonicDebtTokenProxy", proxyAddress);
+    const proxyAdmin = m.contractAt(
+      "IonicDebtTokenProxyAdmin",
+      proxyAdminAddress
+    );
+
+    m.call(
+      proxyAdmin,
+      "upgradeAndCall",
+      [proxy, implementation, upgradeCallData],
+      { from: proxyAdminOwner }
+    );
+
+    // Cast the proxy to IonicDebtToken type for contract interactions
+    const ionicDebtToken = m.contractAt("IonicDebtToken", proxy, {
+      id: "IonicDebtTokenProxyInstance",
+    });
+
+    return {
+      implementation,
+      proxyAdmin,
+      proxy,
+      ionicDebtToken,
+    };
+  }
+);
+
+export default IonicDebtTokenUpgradeModule;
@@ -0,0 +1,107 @@
+import { writeFile } from "node:fs/promises";
+import { Address, getAddress } from "viem";
+import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
+import { validateNetworkConfig } from "../ignition/config/validate.js";
+import {
+  expandBlocklist,
+  fetchEthFundingEdges,
+  fetchIonTokenFundingEdges,
+  renderBlocklistModule,
+} from "../utils/blocklist.js";
+import {
+  MODE_MAINNET_FORK_BLOCK_NUMBER,
+  MODE_MAINNET_RPC_URL,
+} from "../utils/constants.js";
+import { connectFork } from "../utils/fork.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+
+/*
+ * Builds the Mode mainnet blocklist from known exploiter accounts, following
+ * the ionTokens and ETH they sent up to BLOCKLIST_HOPS hops on a fork of Mode
+ * mainnet, and writes it to `ignition/config/mode-mainnet-blocklist.ts`, which
+ * `modeMainnetConfig` imports for the Ignition module to apply.
+ *
+ * Every block of the range is fetched to find ETH transfers, so keep the range
+ * to the exploit period.
+ *
+ * Options (environment variables):
+ * - BLOCKLIST_SEEDS: comma-separated exploiter accounts (required)
+ * - BLOCKLIST_FROM_BLOCK: first block to follow transfers from (required)
+ * - BLOCKLIST_TO_BLOCK: last block (defaults to the pinned fork block)
+ * - BLOCKLIST_HOPS: hops to follow from the seeds (defaults to 2)
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ * - BLOCKLIST_OUTPUT: file to write (defaults to the mode-mainnet config's)
+ */
+
+const toBlock = BigInt(
+  process.env.BLOCKLIST_TO_BLOCK ?? MODE_MAINNET_FORK_BLOCK_NUMBER
+);
+const maxHops = Number(process.env.BLOCKLIST_HOPS ?? 2);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+const outputPath =
+  process.env.BLOCKLIST_OUTPUT ?? "ignition/config/mode-mainnet-blocklist.ts";
+
+async function main() {
+  if (!process.env.BLOCKLIST_SEEDS || !process.env.BLOCKLIST_FROM_BLOCK) {
+    throw new Error("Set BLOCKLIST_SEEDS and BLOCKLIST_FROM_BLOCK");
+  }
+  const seeds = process.env.BLOCKLIST_SEEDS.split(",").map((seed) =>
+    getAddress(seed.trim())
+  );
+  const fromBlock = BigInt(process.env.BLOCKLIST_FROM_BLOCK);
+  if (!Number.isInteger(maxHops) || maxHops < 0) {
+    throw new Error("BLOCKLIST_HOPS must be a non-negative integer");
+  }
+
+  const fork = await connectFork(MODE_MAINNET_RPC_URL, toBlock);
+  const publicClient = await fork.viem.getPublicClient();
+
+  const ionTokens = modeMainnetConfig.tokenConfigs.map((tokenConfig) =>
+    getAddress(tokenConfig.address)
+  );
+  console.log(
+    `Following ${ionTokens.length} ionTokens and ETH from block ${fromBlock} to ${toBlock}`
+  );
+  const edges = [
+    ...(await fetchIonTokenFundingEdges(
+      publicClient,
+      ionTokens,
+      fromBlock,
+      toBlock,
+      chunkSize
+    )),
+    ...(await fetchEthFundingEdges(publicClient, fromBlock, toBlock)),
+  ];
+  console.log(`${edges.length} transfers found`);
+
+  // Contracts (markets, DEXes, bridges) are not followed
+  const isEoa = async (account: Address) =>
+    (await publicClient.getCode({ address: account })) === undefined;
+  const entries = await expandBlocklist(seeds, edges, maxHops, isEoa);
+
+  for (const { account, hop, fundedBy } of entries) {
+    console.log(
+      fundedBy === undefined
+        ? `  ${account}  seed`
+        : `  ${account}  hop ${hop}, ${fundedBy.asset} from ${fundedBy.from}`
+    );
+  }
+
+  // Check the result is a valid config before writing it
+  validateNetworkConfig("mode-mainnet", {
+    ...modeMainnetConfig,
+    blocklist: entries.map(({ account }) => account),
+  });
+
+  await writeFile(
+    outputPath,
+    renderBlocklistModule("modeMainnetBlocklist", entries, [
+      `Seeds: ${seeds.join(", ")}`,
+      `${maxHops} hops of ionToken and ETH transfers, blocks ${fromBlock} to ${toBlock}`,
+    ])
+  );
+  console.log(`\nWrote ${entries.length} accounts to ${outputPath}`);
+}
+
+// Execute the script
+await main();
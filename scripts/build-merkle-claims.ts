@@ -0,0 +1,138 @@
+import { readFile } from "node:fs/promises";
+import { Address, formatUnits, getAddress } from "viem";
+import {
+  buildMerkleClaims,
+  MerkleClaimsFile,
+  MerkleEntitlement,
+  verifyMerkleClaim,
+} from "../utils/merkle.js";
+import { toJson, writeOutputFile } from "../utils/output.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Builds the Merkle tree of dION entitlements claimed with
+ * `IonicDebtToken.claimFromMerkle`, for holders who cannot provide their
+ * ionTokens to `mint` (positions used as collateral, held by contracts, or
+ * worthless after the exploit).
+ *
+ * Entitlements come from a snapshot written by scripts/snapshot-entitlements.ts.
+ * Only include positions that cannot also be minted with, or the same
+ * position could be claimed twice.
+ *
+ * The output maps every account to its amount and proof, and can be served
+ * as is to a frontend. Its root is set on-chain with setMerkleRoot.
+ *
+ * Options (environment variables):
+ * - SNAPSHOT_FILE: entitlements JSON written by scripts/snapshot-entitlements.ts
+ * - MERKLE_ACCOUNTS_FILE: JSON array of the accounts to include (defaults to
+ *   every holder of the snapshot)
+ * - MERKLE_ION_TOKENS: comma separated symbols or addresses of the ionTokens
+ *   whose positions count (defaults to all)
+ * - MERKLE_OUTPUT_DIR: directory for the claims file
+ */
+
+const outputDir = process.env.MERKLE_OUTPUT_DIR ?? "merkle-claims";
+
+// The parts of the snapshot read here, with bigints as decimal strings
+interface EntitlementSnapshot {
+  chainId: number;
+  blockNumber: string;
+  holders: {
+    account: string;
+    positions: { ionToken: string; symbol: string; entitlement: string }[];
+  }[];
+}
+
+async function main() {
+  const snapshotFile = process.env.SNAPSHOT_FILE;
+  if (!snapshotFile) {
+    throw new Error("SNAPSHOT_FILE is required");
+  }
+  const snapshot: EntitlementSnapshot = JSON.parse(
+    await readFile(snapshotFile, "utf8")
+  );
+
+  let accounts: Set<Address> | undefined;
+  if (process.env.MERKLE_ACCOUNTS_FILE) {
+    const list: string[] = JSON.parse(
+      await readFile(process.env.MERKLE_ACCOUNTS_FILE, "utf8")
+    );
+    accounts = new Set(list.map((account) => getAddress(account)));
+  }
+
+  const ionTokenFilter = process.env.MERKLE_ION_TOKENS?.split(",").map(
+    (value) => value.trim()
+  );
+  const includesPosition = (position: { ionToken: string; symbol: string }) =>
+    ionTokenFilter === undefined ||
+    ionTokenFilter.some(
+      (value) =>
+        value === position.symbol ||
+        value.toLowerCase() === position.ionToken.toLowerCase()
+    );
+
+  if (accounts === undefined && ionTokenFilter === undefined) {
+    console.warn(
+      "Warning: no MERKLE_ACCOUNTS_FILE or MERKLE_ION_TOKENS, every position of the snapshot is included"
+    );
+  }
+
+  const entitlements: MerkleEntitlement[] = [];
+  for (const holder of snapshot.holders) {
+    const account = getAddress(holder.account);
+    if (accounts !== undefined && !accounts.has(account)) {
+      continue;
+    }
+
+    const amount = holder.positions
+      .filter(includesPosition)
+      .reduce((sum, position) => sum + BigInt(position.entitlement), 0n);
+    if (amount > 0n) {
+      entitlements.push({ account, amount });
+    }
+  }
+
+  if (accounts !== undefined) {
+    const found = new Set(entitlements.map(({ account }) => account));
+    for (const account of accounts) {
+      if (!found.has(account)) {
+        console.warn(`Warning: ${account} has no entitlement in the snapshot`);
+      }
+    }
+  }
+
+  const { root, claims } = buildMerkleClaims(entitlements);
+
+  // Check every proof before anything is published
+  for (const [account, claim] of Object.entries(claims)) {
+    if (
+      !verifyMerkleClaim(
+        root,
+        { account: account as Address, amount: claim.amount },
+        claim.proof
+      )
+    ) {
+      throw new Error(`Proof of ${account} does not verify`);
+    }
+  }
+
+  const total = entitlements.reduce((sum, { amount }) => sum + amount, 0n);
+  const claimsFile: MerkleClaimsFile = {
+    root,
+    chainId: snapshot.chainId,
+    blockNumber: BigInt(snapshot.blockNumber),
+    total,
+    claims,
+  };
+
+  const path = `${outputDir}/claims-${snapshot.blockNumber}-${root}.json`;
+  await writeOutputFile(path, toJson(claimsFile));
+
+  console.log(`Root: ${root}`);
+  console.log(`Accounts: ${entitlements.length}`);
+  console.log(`Total: ${formatUnits(total, DION_DECIMALS)} dION`);
+  console.log(`Wrote ${path}`);
+}
+
+// Execute the script
+await main();
@@ -13,7 +13,7 @@ async function mainnetExample() {
 
   console.log(
     "GasPriceOracle exists in l1 chain type?",
-    gasPriceOracleCode !== undefined,
+    gasPriceOracleCode !== undefined
   );
 }
 
@@ -27,7 +27,7 @@ async function opExample() {
 
   console.log(
     "GasPriceOracle exists in optimism chain type?",
-    gasPriceOracleCode !== undefined,
+    gasPriceOracleCode !== undefined
   );
 }
 
@@ -0,0 +1,51 @@
+import {
+  DEPLOYED_STORAGE_LAYOUT_PATH,
+  compareStorageLayouts,
+  readCompiledStorageLayout,
+  readStorageLayoutSnapshot,
+} from "../utils/storage-layout.js";
+import { toJson, writeOutputFile } from "../utils/output.js";
+
+/*
+ * Compares the storage layout of the compiled IonicDebtToken with the snapshot
+ * of the deployed implementation. Run it (after `npx hardhat compile`) before
+ * proposing an upgrade; the upgrade modules run the same check.
+ *
+ * Once an upgrade is live, set UPDATE_SNAPSHOT=true to record the new layout
+ * as the deployed one.
+ */
+
+async function main() {
+  const compiled = readCompiledStorageLayout(
+    "contracts/IonicDebtToken.sol",
+    "IonicDebtToken"
+  );
+  const issues = compareStorageLayouts(readStorageLayoutSnapshot(), compiled);
+
+  if (issues.length > 0) {
+    console.error("IonicDebtToken storage layout is not upgrade safe:");
+    for (const issue of issues) {
+      console.error(`  - ${issue}`);
+    }
+    process.exitCode = 1;
+    return;
+  }
+
+  console.log(
+    "IonicDebtToken storage layout is compatible with the deployment"
+  );
+  for (const entry of compiled.storage) {
+    console.log(`  slot ${entry.slot}:${entry.offset}  ${entry.label}`);
+  }
+
+  if (process.env.UPDATE_SNAPSHOT === "true") {
+    await writeOutputFile(
+      DEPLOYED_STORAGE_LAYOUT_PATH,
+      `${toJson(compiled)}\n`
+    );
+    console.log(`Updated ${DEPLOYED_STORAGE_LAYOUT_PATH}`);
+  }
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,160 @@
+import { readFile, writeFile } from "node:fs/promises";
+import { formatUnits, getAddress, Hex, isHash } from "viem";
+import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
+import { validateNetworkConfig } from "../ignition/config/validate.js";
+import {
+  MODE_MAINNET_FORK_BLOCK_NUMBER,
+  MODE_MAINNET_RPC_URL,
+} from "../utils/constants.js";
+import {
+  checkIllegitimateBorrowed,
+  ExploitBorrow,
+  fetchAccountBorrows,
+  fetchTransactionBorrows,
+  renderIllegitimateBorrowed,
+} from "../utils/exploit-borrows.js";
+import { connectFork } from "../utils/fork.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+
+/*
+ * Derives the `illegitimateBorrowed` of every Mode mainnet ionToken from the
+ * `Borrow` events of the exploit on a fork of Mode mainnet, flags where they
+ * differ from the config, and writes them into
+ * `ignition/config/mode-mainnet.ts` with the transactions each amount sums.
+ *
+ * The borrows are those of the given exploit transactions, and of the given
+ * exploiter accounts over a block range. ionTokens without borrows keep their
+ * configured amount.
+ *
+ * Options (environment variables):
+ * - EXPLOIT_TXS: comma-separated exploit transaction hashes
+ * - EXPLOIT_ACCOUNTS: comma-separated exploiter accounts
+ * - BORROWS_FROM_BLOCK: first block to scan for the accounts' borrows
+ *   (required with EXPLOIT_ACCOUNTS)
+ * - BORROWS_TO_BLOCK: last block (defaults to the pinned fork block)
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ * - BORROWS_OUTPUT: file to write (defaults to the mode-mainnet config)
+ */
+
+const configPath = "ignition/config/mode-mainnet.ts";
+const outputPath = process.env.BORROWS_OUTPUT ?? configPath;
+const toBlock = BigInt(
+  process.env.BORROWS_TO_BLOCK ?? MODE_MAINNET_FORK_BLOCK_NUMBER
+);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+
+function parseList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "");
+}
+
+async function main() {
+  const transactionHashes = parseList(process.env.EXPLOIT_TXS).map((hash) => {
+    if (!isHash(hash)) {
+      throw new Error(`${hash} is not a transaction hash`);
+    }
+    return hash as Hex;
+  });
+  const accounts = parseList(process.env.EXPLOIT_ACCOUNTS).map((account) =>
+    getAddress(account)
+  );
+  if (transactionHashes.length === 0 && accounts.length === 0) {
+    throw new Error("Set EXPLOIT_TXS and/or EXPLOIT_ACCOUNTS");
+  }
+  if (accounts.length > 0 && !process.env.BORROWS_FROM_BLOCK) {
+    throw new Error("Set BORROWS_FROM_BLOCK to scan EXPLOIT_ACCOUNTS");
+  }
+
+  const fork = await connectFork(MODE_MAINNET_RPC_URL, toBlock);
+  const publicClient = await fork.viem.getPublicClient();
+
+  const ionTokens = modeMainnetConfig.tokenConfigs.map((tokenConfig) =>
+    getAddress(tokenConfig.address)
+  );
+  const borrows: ExploitBorrow[] = [];
+  if (transactionHashes.length > 0) {
+    borrows.push(
+      ...(await fetchTransactionBorrows(
+        publicClient,
+        ionTokens,
+        transactionHashes
+      ))
+    );
+  }
+  if (accounts.length > 0) {
+    const fromBlock = BigInt(process.env.BORROWS_FROM_BLOCK!);
+    console.log(
+      `Scanning borrows of ${accounts.length} accounts from block ${fromBlock} to ${toBlock}`
+    );
+    borrows.push(
+      ...(await fetchAccountBorrows(
+        publicClient,
+        ionTokens,
+        accounts,
+        fromBlock,
+        toBlock,
+        chunkSize
+      ))
+    );
+  }
+
+  const checks = checkIllegitimateBorrowed(
+    modeMainnetConfig.tokenConfigs,
+    borrows
+  );
+  const decimals = Object.fromEntries(
+    modeMainnetConfig.tokenConfigs.map((tokenConfig) => [
+      tokenConfig.symbol,
+      tokenConfig.decimals,
+    ])
+  );
+
+  for (const check of checks) {
+    const format = (amount: bigint) =>
+      formatUnits(amount, decimals[check.symbol]);
+    if (check.borrows.length === 0) {
+      console.log(
+        `  [NO BORROWS] ${check.symbol}: keeping ${format(check.configured)}`
+      );
+      continue;
+    }
+    const status = check.matches ? "ok" : "DIFFERS";
+    console.log(
+      `  [${status}] ${check.symbol}: ${format(check.derived)} from ${
+        check.borrows.length
+      } borrows, config has ${format(check.configured)}`
+    );
+  }
+
+  // Check the result is a valid config before writing it
+  validateNetworkConfig("mode-mainnet", {
+    ...modeMainnetConfig,
+    tokenConfigs: modeMainnetConfig.tokenConfigs.map((tokenConfig, i) => ({
+      ...tokenConfig,
+      illegitimateBorrowed:
+        checks[i].borrows.length > 0
+          ? checks[i].derived
+          : tokenConfig.illegitimateBorrowed,
+    })),
+  });
+
+  await writeFile(
+    outputPath,
+    renderIllegitimateBorrowed(
+      await readFile(configPath, "utf8"),
+      checks,
+      decimals
+    )
+  );
+  const differences = checks.filter(
+    (check) => check.borrows.length > 0 && !check.matches
+  );
+  console.log(
+    `\nWrote ${outputPath}, ${differences.length} amounts differ from the config`
+  );
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,486 @@
+import { readFile } from "node:fs/promises";
+import { network } from "hardhat";
+import {
+  Address,
+  encodeFunctionData,
+  erc20Abi,
+  getAddress,
+  Hex,
+  parseEther,
+  parseUnits,
+} from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import {
+  getDeployedAddress,
+  getIonicDebtTokenAddress,
+  UPGRADE_IMPLEMENTATION_FUTURE_ID,
+} from "../utils/deployment.js";
+import { connectFork } from "../utils/fork.js";
+import { toJson, writeOutputFile } from "../utils/output.js";
+import { getProxyAdmin } from "../utils/proxy.js";
+import { resolveRoleHolders } from "../utils/roles.js";
+import {
+  buildFundRedemptionRoundTransactions,
+  RedemptionKindName,
+} from "../utils/redemption.js";
+import {
+  buildSafeBatch,
+  SafeTransaction,
+  simulateSafeBatch,
+} from "../utils/safe.js";
+import { assertIonicDebtTokenUpgradeSafe } from "../utils/storage-layout.js";
+import {
+  getTimelockedCallStatus,
+  masterPriceOracleUpdate,
+  nextTimelockStep,
+  TimelockedCall,
+  usdcAddressUpdate,
+} from "../utils/timelock.js";
+import {
+  buildWhitelistPlan,
+  describeWhitelistPlan,
+  encodeWhitelistAction,
+  fetchWhitelistedIonTokens,
+  isWhitelistActionReady,
+} from "../utils/whitelist-plan.js";
+
+/*
+ * Generates a Safe Transaction Builder batch for an IonicDebtToken owner
+ * operation, simulates it as the Safe on a fork of the network and writes it
+ * to disk only if every call succeeds.
+ *
+ * Options (environment variables):
+ * - SAFE_ACTION: one of sync-whitelist, update-oracle, update-usdc, withdraw,
+ *   redeem, set-global-mint-cap, fund-redemption-round,
+ *   close-redemption-rounds, set-merkle-root, set-price-guard,
+ *   set-usdc-peg-band, sync-blocklist, accept-admin, upgrade
+ * - HARDHAT_NETWORK: deployment config to use (defaults to mode-mainnet)
+ * - SAFE_ADDRESS: Safe executing the batch (defaults to the config's safeAddress)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - ORACLE_ADDRESS: new oracle for update-oracle (defaults to the config)
+ * - USDC_ADDRESS: new USDC for update-usdc (defaults to the config)
+ *   (update-oracle, update-usdc and scale factor updates are timelocked: export
+ *   the action once to schedule the update, and again after the delay to
+ *   execute it)
+ * - ION_TOKEN, RECIPIENT, AMOUNT: withdraw parameters (no AMOUNT withdraws the
+ *   entire balance)
+ * - ION_TOKEN, AMOUNT, RECIPIENT: redeem parameters (no AMOUNT redeems the
+ *   entire balance, as far as the market's cash allows, and no RECIPIENT keeps
+ *   the underlying in the contract)
+ * - GLOBAL_MINT_CAP: dION cap for set-global-mint-cap, in wei (defaults to the
+ *   config, 0 removes the cap)
+ * - REDEMPTION_AMOUNT, REDEMPTION_KIND: fund-redemption-round parameters, the
+ *   amount in whole USDC and the kind ("burn" by default, or "partial")
+ * - MERKLE_CLAIMS_FILE: claims file written by scripts/build-merkle-claims.ts,
+ *   whose root set-merkle-root sets
+ * - PRICE_GUARD_TOKEN, MIN_PRICE, MAX_PRICE, REFERENCE_PRICE,
+ *   MAX_DEVIATION_BPS: set-price-guard parameters, prices in ETH (unset ones
+ *   are 0, which disables that check)
+ * - PEG_REFERENCE_TOKEN, PEG_BAND_BPS: set-usdc-peg-band parameters (the zero
+ *   address disables the peg check)
+ * - IMPLEMENTATION_ADDRESS: new implementation for upgrade (defaults to the
+ *   IonicDebtTokenImplementationModule deployment)
+ * - UPGRADE_CALL_DATA: call made on the proxy during the upgrade (defaults to none)
+ * - MIGRATE_ROLES: set to "true" for the upgrade to call `initializeV2`, which
+ *   moves an Ownable deployment to roles: they go to the config's `roles`
+ *   holders (or the Safe), with the config's `timelockDelay`
+ * - REGISTER_WHITELIST: set to "true" to call `initializeV3`, registering the
+ *   whitelisted ionTokens of a deployment that did not track them. The upgrade
+ *   makes the call, unless it already calls `initializeV2`: the Safe then
+ *   makes it right after, as the default admin
+ * - SAFE_BATCH_OUTPUT_DIR: directory for the batch files
+ */
+
+const action = process.env.SAFE_ACTION;
+const outputDir = process.env.SAFE_BATCH_OUTPUT_DIR ?? "safe-batches";
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required for ${action}`);
+  }
+  return value;
+}
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  if (!networkConfig) {
+    throw new Error(`No deployment config for ${configName}`);
+  }
+
+  const safeAddress = process.env.SAFE_ADDRESS ?? networkConfig.safeAddress;
+  if (!safeAddress) {
+    throw new Error("Set SAFE_ADDRESS or safeAddress in the network config");
+  }
+  const safe = getAddress(safeAddress);
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+
+  const owner = getAddress(await ionicDebtToken.read.owner());
+  if (owner !== safe) {
+    console.warn(`Warning: IonicDebtToken is owned by ${owner}, not ${safe}`);
+  }
+
+  // Timelocked updates are scheduled by a first batch, executed by a later one
+  const now = (await publicClient.getBlock()).timestamp;
+  const timelockedTransaction = async (
+    call: TimelockedCall
+  ): Promise<SafeTransaction> => ({
+    to: ionicDebtToken.address,
+    value: 0n,
+    ...nextTimelockStep(
+      call,
+      await getTimelockedCallStatus(ionicDebtToken, call, now)
+    ),
+  });
+
+  const transactions: SafeTransaction[] = [];
+  switch (action) {
+    case "sync-whitelist": {
+      const knownIonTokens = await fetchWhitelistedIonTokens(
+        publicClient,
+        ionicDebtToken.address
+      );
+      const plan = await buildWhitelistPlan(
+        ionicDebtToken,
+        networkConfig.tokenConfigs,
+        knownIonTokens,
+        now
+      );
+      const descriptions = describeWhitelistPlan(plan);
+      plan.forEach((whitelistAction, i) => {
+        if (!isWhitelistActionReady(whitelistAction)) {
+          console.log(`Skipping ${descriptions[i]}`);
+          return;
+        }
+        transactions.push({
+          to: ionicDebtToken.address,
+          value: 0n,
+          data: encodeWhitelistAction(whitelistAction),
+          description: descriptions[i],
+        });
+      });
+      break;
+    }
+    case "update-oracle": {
+      const oracle = getAddress(
+        process.env.ORACLE_ADDRESS ?? networkConfig.masterPriceOracleAddress
+      );
+      transactions.push(
+        await timelockedTransaction(masterPriceOracleUpdate(oracle))
+      );
+      break;
+    }
+    case "update-usdc": {
+      const usdc = getAddress(
+        process.env.USDC_ADDRESS ?? networkConfig.usdcAddress
+      );
+      transactions.push(await timelockedTransaction(usdcAddressUpdate(usdc)));
+      break;
+    }
+    case "withdraw": {
+      const ionToken = getAddress(requireEnv("ION_TOKEN"));
+      const recipient = getAddress(requireEnv("RECIPIENT"));
+      const amount = process.env.AMOUNT;
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data:
+          amount === undefined
+            ? encodeFunctionData({
+                abi: ionicDebtToken.abi,
+                functionName: "withdrawIonTokens",
+                args: [ionToken, recipient],
+              })
+            : encodeFunctionData({
+                abi: ionicDebtToken.abi,
+                functionName: "withdrawIonTokens",
+                args: [ionToken, BigInt(amount), recipient],
+              }),
+        description:
+          amount === undefined
+            ? `withdrawIonTokens(${ionToken}, ${recipient})`
+            : `withdrawIonTokens(${ionToken}, ${amount}, ${recipient})`,
+      });
+      break;
+    }
+    case "redeem": {
+      const ionToken = getAddress(requireEnv("ION_TOKEN"));
+      const recipient = getAddress(
+        process.env.RECIPIENT ?? ionicDebtToken.address
+      );
+      const amount = BigInt(process.env.AMOUNT ?? 0);
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "redeemIonTokens",
+          args: [ionToken, amount, recipient],
+        }),
+        description: `redeemIonTokens(${ionToken}, ${amount}, ${recipient})`,
+      });
+      break;
+    }
+    case "set-global-mint-cap": {
+      const cap = BigInt(
+        process.env.GLOBAL_MINT_CAP ?? networkConfig.globalMintCap ?? 0n
+      );
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "setGlobalMintCap",
+          args: [cap],
+        }),
+        description: `setGlobalMintCap(${cap})`,
+      });
+      break;
+    }
+    case "fund-redemption-round": {
+      const usdc = getAddress(await ionicDebtToken.read.usdcAddress());
+      const usdcDecimals = await publicClient.readContract({
+        address: usdc,
+        abi: erc20Abi,
+        functionName: "decimals",
+      });
+      transactions.push(
+        ...buildFundRedemptionRoundTransactions(
+          ionicDebtToken.address,
+          usdc,
+          parseUnits(requireEnv("REDEMPTION_AMOUNT"), usdcDecimals),
+          (process.env.REDEMPTION_KIND ?? "burn") as RedemptionKindName
+        )
+      );
+      break;
+    }
+    case "close-redemption-rounds": {
+      // Returns the unclaimed USDC of every open round to the Safe
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "closeRedemptionRounds",
+        }),
+        description: "closeRedemptionRounds()",
+      });
+      break;
+    }
+    case "set-merkle-root": {
+      const claimsFile = JSON.parse(
+        await readFile(requireEnv("MERKLE_CLAIMS_FILE"), "utf8")
+      );
+      const root = claimsFile.root as Hex;
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "setMerkleRoot",
+          args: [root],
+        }),
+        description: `setMerkleRoot(${root}) for ${
+          Object.keys(claimsFile.claims).length
+        } accounts`,
+      });
+      break;
+    }
+    case "set-price-guard": {
+      const token = getAddress(requireEnv("PRICE_GUARD_TOKEN"));
+      const minPrice = parseEther(process.env.MIN_PRICE ?? "0");
+      const maxPrice = parseEther(process.env.MAX_PRICE ?? "0");
+      const referencePrice = parseEther(process.env.REFERENCE_PRICE ?? "0");
+      const maxDeviationBps = BigInt(process.env.MAX_DEVIATION_BPS ?? 0);
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "setPriceGuard",
+          args: [token, minPrice, maxPrice, referencePrice, maxDeviationBps],
+        }),
+        description: `setPriceGuard(${token}, ${minPrice}, ${maxPrice}, ${referencePrice}, ${maxDeviationBps})`,
+      });
+      break;
+    }
+    case "set-usdc-peg-band": {
+      const referenceToken = getAddress(requireEnv("PEG_REFERENCE_TOKEN"));
+      const bandBps = BigInt(process.env.PEG_BAND_BPS ?? 0);
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "setUsdcPegBand",
+          args: [referenceToken, bandBps],
+        }),
+        description: `setUsdcPegBand(${referenceToken}, ${bandBps})`,
+      });
+      break;
+    }
+    case "sync-blocklist": {
+      // Blocklist the config's accounts that are not blocklisted yet
+      const accounts = [];
+      for (const account of networkConfig.blocklist ?? []) {
+        if (!(await ionicDebtToken.read.blocklisted([account]))) {
+          accounts.push(account);
+        }
+      }
+      if (accounts.length > 0) {
+        transactions.push({
+          to: ionicDebtToken.address,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: ionicDebtToken.abi,
+            functionName: "setBlocklisted",
+            args: [accounts, true],
+          }),
+          description: `setBlocklisted([${accounts.join(", ")}], true)`,
+        });
+      }
+      break;
+    }
+    case "accept-admin": {
+      // Completes the handoff started by scripts/transfer-ownership-to-safe.ts
+      transactions.push({
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "acceptDefaultAdminTransfer",
+        }),
+        description: "acceptDefaultAdminTransfer()",
+      });
+      break;
+    }
+    case "upgrade": {
+      // Refuse to propose an upgrade that would corrupt the proxy's storage
+      assertIonicDebtTokenUpgradeSafe();
+
+      const implementation = getAddress(
+        process.env.IMPLEMENTATION_ADDRESS ??
+          (await getDeployedAddress(chainId, UPGRADE_IMPLEMENTATION_FUTURE_ID))
+      );
+      const proxyAdmin = await viem.getContractAt(
+        "IonicDebtTokenProxyAdmin",
+        await getProxyAdmin(publicClient, ionicDebtToken.address)
+      );
+      let callData = (process.env.UPGRADE_CALL_DATA ?? "0x") as Hex;
+      let whitelisted: Address[] | undefined;
+      if (process.env.REGISTER_WHITELIST === "true") {
+        whitelisted = [];
+        for (const ionToken of await fetchWhitelistedIonTokens(
+          publicClient,
+          ionicDebtToken.address
+        )) {
+          if (await ionicDebtToken.read.whitelistedIonTokens([ionToken])) {
+            whitelisted.push(ionToken);
+          }
+        }
+      }
+      if (process.env.MIGRATE_ROLES === "true") {
+        const holders = resolveRoleHolders(networkConfig.roles, safe);
+        callData = encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "initializeV2",
+          args: [
+            holders.whitelistManager,
+            holders.treasury,
+            holders.oracleAdmin,
+            holders.upgrader,
+            networkConfig.timelockDelay ?? 0n,
+          ],
+        });
+      } else if (whitelisted !== undefined && callData === "0x") {
+        // Registered within the upgrade, so that nobody can run it first
+        callData = encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "initializeV3",
+          args: [whitelisted],
+        });
+        whitelisted = undefined;
+      }
+      transactions.push({
+        to: proxyAdmin.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: proxyAdmin.abi,
+          functionName: "upgradeAndCall",
+          args: [ionicDebtToken.address, implementation, callData],
+        }),
+        description: `upgradeAndCall(${ionicDebtToken.address}, ${implementation}, ${callData})`,
+      });
+
+      if (whitelisted !== undefined) {
+        transactions.push({
+          to: ionicDebtToken.address,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: ionicDebtToken.abi,
+            functionName: "initializeV3",
+            args: [whitelisted],
+          }),
+          description: `initializeV3([${whitelisted.join(", ")}])`,
+        });
+      }
+      break;
+    }
+    default:
+      throw new Error(
+        "Set SAFE_ACTION to one of sync-whitelist, update-oracle, update-usdc, withdraw, redeem, set-global-mint-cap, fund-redemption-round, close-redemption-rounds, set-merkle-root, set-price-guard, set-usdc-peg-band, sync-blocklist, accept-admin, upgrade"
+      );
+  }
+
+  if (transactions.length === 0) {
+    console.log("Nothing to do");
+    return;
+  }
+
+  console.log(`Simulating ${transactions.length} calls as ${safe} on a fork`);
+  const fork = await connectFork();
+  const results = await simulateSafeBatch(fork, safe, transactions);
+
+  for (const result of results) {
+    console.log(
+      `  ${result.success ? "ok" : "FAILED"}  ${
+        result.transaction.description
+      }${result.error ? `\n    ${result.error}` : ""}`
+    );
+  }
+
+  if (
+    results.length !== transactions.length ||
+    results.some((result) => !result.success)
+  ) {
+    console.error("\nSimulation failed, no batch written");
+    process.exitCode = 1;
+    return;
+  }
+
+  const batch = buildSafeBatch(
+    chainId,
+    safe,
+    `IonicDebtToken ${action}`,
+    transactions
+  );
+  const path = `${outputDir}/${chainId}/${action}-${batch.createdAt}.json`;
+  await writeOutputFile(path, toJson(batch));
+  console.log(`\nWrote ${path}, import it in the Safe Transaction Builder`);
+}
+
+// Execute the script
+await main();
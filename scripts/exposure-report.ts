@@ -0,0 +1,88 @@
+import { network } from "hardhat";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import {
+  buildExposureReport,
+  exposureMarkdown,
+  exposureTableRows,
+  fetchExposureMarkets,
+} from "../utils/exposure.js";
+import { toCsv, toJson, writeOutputFile } from "../utils/output.js";
+
+/*
+ * Reports, for every ionToken of the network config, its supply, exchange
+ * rate and oracle price, and the USD value of what is supplied next to what
+ * was illegitimately borrowed, with the scale factor the config proposes.
+ * This is the report that goes to governance with scale factor proposals.
+ *
+ * All reads are batched with Multicall3 at a single block, so the chain must
+ * have it deployed.
+ *
+ * Options (environment variables):
+ * - HARDHAT_NETWORK: network config to report on (defaults to mode-mainnet)
+ * - FORMAT: "markdown" (default), "json" or "csv"
+ * - EXPOSURE_BLOCK: block to read at (defaults to the latest)
+ * - EXPOSURE_OUTPUT: file to write the report to (defaults to printing it)
+ */
+
+const FORMATS = ["markdown", "json", "csv"];
+
+const format = process.env.FORMAT ?? "markdown";
+const outputPath = process.env.EXPOSURE_OUTPUT;
+
+async function main() {
+  if (!FORMATS.includes(format)) {
+    throw new Error(`FORMAT must be one of ${FORMATS.join(", ")}`);
+  }
+
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  if (networkConfig === undefined) {
+    throw new Error(`No deployment config for ${configName}`);
+  }
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const blockNumber = process.env.EXPOSURE_BLOCK
+    ? BigInt(process.env.EXPOSURE_BLOCK)
+    : await publicClient.getBlockNumber();
+
+  const { usdcPrice, markets } = await fetchExposureMarkets(
+    publicClient,
+    networkConfig.masterPriceOracleAddress,
+    networkConfig.usdcAddress,
+    networkConfig.tokenConfigs,
+    blockNumber
+  );
+  const report = buildExposureReport(
+    markets,
+    networkConfig.tokenConfigs,
+    usdcPrice,
+    blockNumber
+  );
+
+  let contents: string;
+  switch (format) {
+    case "json":
+      contents = `${toJson(report)}\n`;
+      break;
+    case "csv":
+      contents = toCsv(exposureTableRows(report));
+      break;
+    default:
+      contents = exposureMarkdown(report);
+  }
+
+  if (outputPath) {
+    await writeOutputFile(outputPath, contents);
+    console.log(`Wrote ${outputPath}`);
+  } else {
+    process.stdout.write(contents);
+  }
+}
+
+// Execute the script
+await main();
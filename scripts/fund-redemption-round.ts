@@ -0,0 +1,126 @@
+import { network } from "hardhat";
+import { erc20Abi, formatUnits, getAddress, parseUnits } from "viem";
+import {
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { connectFork } from "../utils/fork.js";
+import {
+  buildFundRedemptionRoundTransactions,
+  RedemptionKindName,
+} from "../utils/redemption.js";
+import { simulateSafeBatch } from "../utils/safe.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Funds a USDC redemption round on IonicDebtToken. The round is previewed and
+ * simulated as the token owner on a fork of the network, and only sent when
+ * EXECUTE=true. Once the Safe owns the token, export the same calls with
+ * SAFE_ACTION=fund-redemption-round scripts/export-safe-batch.ts instead.
+ *
+ * Options (environment variables):
+ * - REDEMPTION_AMOUNT: USDC to deposit, in whole USDC (e.g. "250000.5")
+ * - REDEMPTION_KIND: "burn" (holders burn dION for USDC, default) or "partial"
+ *   (holders claim their share and keep their dION)
+ * - HARDHAT_NETWORK: deployment config to use (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - EXECUTE: set to "true" to send the calls from the owner account
+ */
+
+const execute = process.env.EXECUTE === "true";
+const kind = (process.env.REDEMPTION_KIND ?? "burn") as RedemptionKindName;
+
+async function main() {
+  if (!process.env.REDEMPTION_AMOUNT) {
+    throw new Error("REDEMPTION_AMOUNT is required");
+  }
+
+  const configName = getCurrentNetworkName();
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+  const owner = getAddress(await ionicDebtToken.read.owner());
+  const usdc = getAddress(await ionicDebtToken.read.usdcAddress());
+  const usdcDecimals = await publicClient.readContract({
+    address: usdc,
+    abi: erc20Abi,
+    functionName: "decimals",
+  });
+  const amount = parseUnits(process.env.REDEMPTION_AMOUNT, usdcDecimals);
+  // Blocklisted balances get no share of the round
+  const supply =
+    (await ionicDebtToken.read.totalSupply()) -
+    (await ionicDebtToken.read.blocklistedSupply());
+
+  console.log(
+    `Funding a ${kind} round of ${formatUnits(
+      amount,
+      usdcDecimals
+    )} USDC for ${formatUnits(supply, DION_DECIMALS)} redeemable dION`
+  );
+  if (supply > 0n) {
+    // dION is an 18-decimal USD amount, so this is the share of the debt repaid
+    const perDion = (amount * 10n ** BigInt(DION_DECIMALS)) / supply;
+    console.log(
+      `  ${formatUnits(perDion, usdcDecimals)} USDC per dION (${formatUnits(
+        perDion * 100n,
+        usdcDecimals
+      )}% of the face value)`
+    );
+  }
+
+  const transactions = buildFundRedemptionRoundTransactions(
+    ionicDebtToken.address,
+    usdc,
+    amount,
+    kind
+  );
+
+  console.log(`\nSimulating as ${owner} on a fork`);
+  const fork = await connectFork();
+  const results = await simulateSafeBatch(fork, owner, transactions);
+  for (const result of results) {
+    console.log(
+      `  ${result.success ? "ok" : "FAILED"}  ${
+        result.transaction.description
+      }${result.error ? `\n    ${result.error}` : ""}`
+    );
+  }
+  if (
+    results.length !== transactions.length ||
+    results.some((result) => !result.success)
+  ) {
+    console.error("\nSimulation failed, nothing sent");
+    process.exitCode = 1;
+    return;
+  }
+
+  if (!execute) {
+    console.log("\nDry run only, set EXECUTE=true to fund the round");
+    return;
+  }
+
+  const [walletClient] = await viem.getWalletClients();
+  if (getAddress(walletClient.account.address) !== owner) {
+    throw new Error(
+      `IonicDebtToken is owned by ${owner}, not by ${walletClient.account.address}`
+    );
+  }
+  for (const transaction of transactions) {
+    const hash = await walletClient.sendTransaction({
+      to: transaction.to,
+      data: transaction.data,
+    });
+    await publicClient.waitForTransactionReceipt({ hash });
+    console.log(`${transaction.description}: ${hash}`);
+  }
+}
+
+// Execute the script
+await main();
@@ -1,91 +1,70 @@
 import { network } from "hardhat";
-import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
-import { Address, formatUnits } from "viem";
+import { formatUnits } from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import {
+  buildExposureReport,
+  fetchExposureMarkets,
+  formatRatio,
+} from "../utils/exposure.js";
 
-// ABI fragment for token info and supply
-const TOKEN_ABI = [
-  {
-    name: "getTotalUnderlyingSupplied",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ type: "uint256" }],
-  },
-  {
-    name: "name",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ type: "string" }],
-  },
-  {
-    name: "symbol",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ type: "string" }],
-  },
-  {
-    name: "decimals",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ type: "uint8" }],
-  },
-] as const;
+/*
+ * Prints what is supplied to each ionToken of the network config next to what
+ * was illegitimately borrowed from it. A quick look at the exposure report
+ * (scripts/exposure-report.ts), which has the USD values and output formats.
+ *
+ * Options (environment variables):
+ * - HARDHAT_NETWORK: network config to read (defaults to mode-mainnet)
+ */
 
 async function main() {
-  // Connect to the Mode mainnet network
-  const { viem } = await network.connect("mode_mainnet");
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  if (networkConfig === undefined) {
+    throw new Error(`No deployment config for ${configName}`);
+  }
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
   const publicClient = await viem.getPublicClient();
+  const blockNumber = await publicClient.getBlockNumber();
 
   console.log("Fetching token information and supply values:");
 
-  // Iterate through each token config
-  for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
-    const [name, symbol, decimals, totalSupplied] = await Promise.all([
-      publicClient.readContract({
-        address: tokenConfig.address as Address,
-        abi: TOKEN_ABI,
-        functionName: "name",
-      }),
-      publicClient.readContract({
-        address: tokenConfig.address as Address,
-        abi: TOKEN_ABI,
-        functionName: "symbol",
-      }),
-      publicClient.readContract({
-        address: tokenConfig.address as Address,
-        abi: TOKEN_ABI,
-        functionName: "decimals",
-      }),
-      publicClient.readContract({
-        address: tokenConfig.address as Address,
-        abi: TOKEN_ABI,
-        functionName: "getTotalUnderlyingSupplied",
-      }),
-    ]);
+  const { usdcPrice, markets } = await fetchExposureMarkets(
+    publicClient,
+    networkConfig.masterPriceOracleAddress,
+    networkConfig.usdcAddress,
+    networkConfig.tokenConfigs,
+    blockNumber
+  );
+  const report = buildExposureReport(
+    markets,
+    networkConfig.tokenConfigs,
+    usdcPrice,
+    blockNumber
+  );
 
-    // Format the total supplied with proper decimals
-    const formattedTotalSupplied = formatUnits(totalSupplied, decimals);
-    const formattedIllegitimateBorrowed = formatUnits(
-      tokenConfig.illegitimateBorrowed,
-      decimals
+  for (const row of report.rows) {
+    console.log(`\nToken: ${row.symbol}`);
+    console.log(`Decimals: ${row.underlyingDecimals}`);
+    console.log(`Address: ${row.ionToken}`);
+    console.log(
+      `Total Supplied: ${formatUnits(
+        row.totalSupplied,
+        row.underlyingDecimals
+      )}`
+    );
+    console.log(
+      `Illegitimate Borrowed: ${formatUnits(
+        row.illegitimateBorrowed,
+        row.underlyingDecimals
+      )}`
     );
-
-    // Calculate ratio
-    const ratio =
-      Number(formattedIllegitimateBorrowed) / Number(formattedTotalSupplied);
-
-    console.log(`\nToken: ${name} (${symbol})`);
-    console.log(`Decimals: ${decimals}`);
-    console.log(`Address: ${tokenConfig.address}`);
-    console.log(`Total Supplied: ${formattedTotalSupplied}`);
-    console.log(`Illegitimate Borrowed: ${formattedIllegitimateBorrowed}`);
     console.log(
-      `Illegitimate/Total Supply Ratio: ${ratio.toFixed(4)} (${(
-        ratio * 100
-      ).toFixed(2)}%)`
+      `Illegitimate/Total Supply Ratio: ${formatRatio(row.borrowedRatio)}`
     );
   }
 }
@@ -0,0 +1,81 @@
+import { network } from "hardhat";
+import {
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import {
+  getLedgerPath,
+  indexLedger,
+  loadLedger,
+  saveLedger,
+} from "../utils/ledger.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+
+/*
+ * Indexes the `TokensMinted`, `IonTokensWithdrawn`, `IonTokenWhitelisted` and
+ * `ScaleFactorUpdated` events of a deployed IonicDebtToken into a local ledger
+ * (see utils/ledger.ts). The ledger is saved after every chunk, and a later
+ * run resumes from the last processed block.
+ *
+ * Options (environment variables):
+ * - HARDHAT_NETWORK: network to index (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - INDEX_FROM_BLOCK: first block to index when creating a ledger (defaults to 0)
+ * - INDEX_TO_BLOCK: last block to index (defaults to the latest confirmed block)
+ * - CONFIRMATIONS: blocks to stay behind the chain head (defaults to 10)
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ * - LEDGER_DIR: directory holding the ledgers
+ */
+
+const fromBlock = BigInt(process.env.INDEX_FROM_BLOCK ?? 0);
+const confirmations = BigInt(process.env.CONFIRMATIONS ?? 10);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+const ledgerDir = process.env.LEDGER_DIR ?? "ledger";
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const address = await getIonicDebtTokenAddress(chainId);
+
+  const path = getLedgerPath(ledgerDir, chainId, address);
+  const ledger = await loadLedger(path, chainId, address, fromBlock);
+
+  const toBlock =
+    process.env.INDEX_TO_BLOCK !== undefined
+      ? BigInt(process.env.INDEX_TO_BLOCK)
+      : (await publicClient.getBlockNumber()) - confirmations;
+
+  if (ledger.lastProcessedBlock >= toBlock) {
+    console.log(
+      `${path} is up to date (block ${ledger.lastProcessedBlock}), nothing to do`
+    );
+    return;
+  }
+
+  console.log(
+    `Indexing ${address} from block ${
+      ledger.lastProcessedBlock + 1n
+    } to ${toBlock} into ${path}`
+  );
+
+  await indexLedger(
+    publicClient,
+    ledger,
+    toBlock,
+    chunkSize,
+    async (start, end, events) => {
+      await saveLedger(path, ledger);
+      console.log(`  blocks ${start}-${end}: ${events.length} events`);
+    }
+  );
+
+  console.log(
+    `\n${ledger.events.length} events indexed up to block ${toBlock}`
+  );
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,183 @@
+import { network } from "hardhat";
+import {
+  Address,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  getAddress,
+  zeroAddress,
+} from "viem";
+import {
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { toJson } from "../utils/output.js";
+import {
+  checkPriceGuard,
+  describePriceGuard,
+  deviationBps,
+  isUsdcPegged,
+} from "../utils/price-guards.js";
+import { fetchWhitelistedIonTokens } from "../utils/whitelist-plan.js";
+
+/*
+ * Prints the current oracle price of the underlying of every whitelisted
+ * ionToken next to its price guard, and the USDC price next to the peg band,
+ * flagging anything that would make minting revert.
+ *
+ * Options (environment variables):
+ * - JSON: set to "true" to print the report as JSON
+ * - HARDHAT_NETWORK: network of the deployment (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ */
+
+const asJson = process.env.JSON === "true";
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+  const oracle = await viem.getContractAt(
+    "IMasterPriceOracle",
+    await ionicDebtToken.read.masterPriceOracle()
+  );
+
+  async function readGuard(token: Address) {
+    const [minPrice, maxPrice, referencePrice, maxDeviationBps] =
+      await ionicDebtToken.read.priceGuards([token]);
+    return { minPrice, maxPrice, referencePrice, maxDeviationBps };
+  }
+
+  const [usdc, pegReferenceToken, pegBandBps] = await Promise.all([
+    ionicDebtToken.read.usdcAddress(),
+    ionicDebtToken.read.usdcPegReferenceToken(),
+    ionicDebtToken.read.usdcPegBandBps(),
+  ]);
+  const usdcPrice = await oracle.read.price([usdc]);
+  const usdcGuard = await readGuard(usdc);
+
+  const pegReferencePrice =
+    pegReferenceToken === zeroAddress
+      ? undefined
+      : await oracle.read.price([pegReferenceToken]);
+  const peg = {
+    referenceToken: getAddress(pegReferenceToken),
+    referencePrice: pegReferencePrice,
+    bandBps: pegBandBps,
+    pegged:
+      pegReferencePrice === undefined ||
+      isUsdcPegged(usdcPrice, pegReferencePrice, pegBandBps),
+  };
+
+  const ionTokens = await fetchWhitelistedIonTokens(
+    publicClient,
+    ionicDebtToken.address
+  );
+
+  const rows = [];
+  for (const ionToken of ionTokens) {
+    // ionTokens removed from the whitelist are still in the event log
+    if (!(await ionicDebtToken.read.whitelistedIonTokens([ionToken]))) {
+      continue;
+    }
+
+    const ionTokenContract = await viem.getContractAt("IIonToken", ionToken);
+    const underlying = getAddress(await ionTokenContract.read.underlying());
+    const [symbol, underlyingSymbol, price, guard] = await Promise.all([
+      ionTokenContract.read.symbol(),
+      publicClient.readContract({
+        address: underlying,
+        abi: erc20Abi,
+        functionName: "symbol",
+      }),
+      oracle.read.price([underlying]),
+      readGuard(underlying),
+    ]);
+    rows.push({
+      ionToken: getAddress(ionToken),
+      symbol,
+      underlying,
+      underlyingSymbol,
+      price,
+      // USD value of one whole underlying token, as minting values it
+      priceInUsd:
+        usdcPrice === 0n ? undefined : (price * 10n ** 18n) / usdcPrice,
+      guard,
+      status: checkPriceGuard(price, guard),
+    });
+  }
+
+  const usdcRow = {
+    token: getAddress(usdc),
+    price: usdcPrice,
+    guard: usdcGuard,
+    status: checkPriceGuard(usdcPrice, usdcGuard),
+  };
+
+  const failures =
+    rows.filter((row) => !row.status.ok).length +
+    (usdcRow.status.ok ? 0 : 1) +
+    (peg.pegged ? 0 : 1);
+
+  if (asJson) {
+    console.log(toJson({ usdc: usdcRow, peg, ionTokens: rows }));
+  } else {
+    const formatPrice = (price: bigint) => `${formatEther(price)} ETH`;
+    const formatStatus = (status: ReturnType<typeof checkPriceGuard>) =>
+      status.ok ? "ok" : `FAILED (${status.reason})`;
+
+    console.log(`Oracle prices of ${ionicDebtToken.address}\n`);
+    console.log(
+      `USDC ${usdcRow.token}: ${formatPrice(
+        usdcPrice
+      )}, guard ${describePriceGuard(usdcGuard, formatPrice)}  ${formatStatus(
+        usdcRow.status
+      )}`
+    );
+    if (peg.referencePrice === undefined) {
+      console.log("USDC peg: no reference token, not checked");
+    } else {
+      console.log(
+        `USDC peg: ${formatPrice(peg.referencePrice)} from ${
+          peg.referenceToken
+        }, ${
+          peg.referencePrice === 0n
+            ? "no price"
+            : `${Number(deviationBps(usdcPrice, peg.referencePrice)) / 100}%`
+        } off, band ${Number(peg.bandBps) / 100}%  ${
+          peg.pegged ? "ok" : "DEPEGGED"
+        }`
+      );
+    }
+    console.log();
+
+    for (const row of rows) {
+      console.log(
+        `${row.symbol} (${row.underlyingSymbol} ${
+          row.underlying
+        }): ${formatPrice(row.price)}${
+          row.priceInUsd === undefined
+            ? ""
+            : ` ($${formatUnits(row.priceInUsd, 18)})`
+        }, guard ${describePriceGuard(row.guard, formatPrice)}  ${formatStatus(
+          row.status
+        )}`
+      );
+    }
+  }
+
+  if (failures > 0) {
+    console.error(`\n${failures} prices would make minting revert`);
+    process.exitCode = 1;
+  }
+}
+
+// Execute the script
+await main();
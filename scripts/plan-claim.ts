@@ -0,0 +1,75 @@
+import { network } from "hardhat";
+import { Address, getAddress } from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import {
+  describeClaimStep,
+  fetchHoldings,
+  planClaim,
+} from "../utils/claim-path.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+
+/*
+ * Prints the cheapest way for an account to claim dION for all of its
+ * whitelisted ionTokens: which ionTokens need an approval, which can be
+ * minted with a permit, and the batch minting the rest.
+ *
+ * Options (environment variables):
+ * - ACCOUNT: account to plan the claim of
+ * - HARDHAT_NETWORK: deployment config to use (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ */
+
+async function main() {
+  if (!process.env.ACCOUNT) {
+    throw new Error("ACCOUNT is required");
+  }
+  const account = getAddress(process.env.ACCOUNT);
+
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  if (!networkConfig) {
+    throw new Error(`No deployment config for ${configName}`);
+  }
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const ionicDebtToken = await getIonicDebtTokenAddress(chainId);
+
+  const symbols = new Map(
+    networkConfig.tokenConfigs.map((tokenConfig) => [
+      getAddress(tokenConfig.address),
+      tokenConfig.symbol,
+    ])
+  );
+  const label = (ionToken: Address) => symbols.get(ionToken) ?? ionToken;
+
+  const holdings = await fetchHoldings(publicClient, ionicDebtToken, account, [
+    ...symbols.keys(),
+  ]);
+  if (holdings.length === 0) {
+    console.log(`${account} holds none of the whitelisted ionTokens`);
+    return;
+  }
+
+  for (const holding of holdings) {
+    console.log(
+      `${label(holding.ionToken)}: ${holding.amount} (allowance ${
+        holding.allowance
+      }, ${holding.supportsPermit ? "supports" : "no"} permit)`
+    );
+  }
+
+  const steps = planClaim(ionicDebtToken, holdings);
+  console.log(`\nClaim in ${steps.length} transactions:`);
+  steps.forEach((step, i) =>
+    console.log(`  ${i + 1}. ${describeClaimStep(step, label)}`)
+  );
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,156 @@
+import { network } from "hardhat";
+import { Address, formatUnits, getAddress } from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import {
+  getLedgerPath,
+  getMintTotalsPerIonToken,
+  getScaleFactorHistory,
+  getUserMints,
+  loadLedger,
+} from "../utils/ledger.js";
+import { toJson } from "../utils/output.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Answers support questions from the local ledger built by
+ * scripts/index-events.ts, without reading raw logs.
+ *
+ * Options (environment variables):
+ * - LEDGER_QUERY: one of user-mints, minted-per-token, scale-history
+ * - ACCOUNT: account to list the mints of (user-mints)
+ * - ION_TOKEN: only show this ionToken's changes (scale-history, optional)
+ * - JSON: set to "true" to print the raw result as JSON
+ * - HARDHAT_NETWORK: network of the ledger (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - LEDGER_DIR: directory holding the ledgers
+ */
+
+const query = process.env.LEDGER_QUERY;
+const asJson = process.env.JSON === "true";
+const ledgerDir = process.env.LEDGER_DIR ?? "ledger";
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  const address = await getIonicDebtTokenAddress(chainId);
+
+  const path = getLedgerPath(ledgerDir, chainId, address);
+  const ledger = await loadLedger(path, chainId, address);
+  if (ledger.events.length === 0) {
+    console.warn(`${path} is empty, run scripts/index-events.ts first`);
+  }
+
+  // Label ionTokens with the symbol and decimals from the config
+  const tokenConfigs = new Map(
+    (networkConfig?.tokenConfigs ?? []).map((tokenConfig) => [
+      getAddress(tokenConfig.address),
+      tokenConfig,
+    ])
+  );
+  const label = (ionToken: Address) =>
+    tokenConfigs.get(ionToken)?.symbol ?? ionToken;
+  const formatIonTokens = (ionToken: Address, amount: bigint) => {
+    const decimals = tokenConfigs.get(ionToken)?.decimals;
+    return decimals === undefined
+      ? amount.toString()
+      : formatUnits(amount, decimals);
+  };
+
+  console.log(
+    `Ledger of ${address} up to block ${ledger.lastProcessedBlock}\n`
+  );
+
+  switch (query) {
+    case "user-mints": {
+      if (!process.env.ACCOUNT) {
+        throw new Error("ACCOUNT is required for user-mints");
+      }
+      const mints = getUserMints(ledger, process.env.ACCOUNT as Address);
+      if (asJson) {
+        console.log(toJson(mints));
+        return;
+      }
+
+      let total = 0n;
+      for (const mint of mints) {
+        total += mint.mintedAmount;
+        const scaleFactor = mint.scaleFactor
+          ? `${mint.scaleFactor.numerator}/${mint.scaleFactor.denominator}`
+          : "unknown";
+        console.log(
+          `block ${mint.blockNumber}  ${formatIonTokens(
+            mint.ionToken,
+            mint.ionTokenAmount
+          )} ${label(mint.ionToken)} -> ${formatUnits(
+            mint.mintedAmount,
+            DION_DECIMALS
+          )} dION (scale factor ${scaleFactor})  ${mint.transactionHash}`
+        );
+      }
+      console.log(
+        `\n${mints.length} mints, ${formatUnits(total, DION_DECIMALS)} dION`
+      );
+      break;
+    }
+    case "minted-per-token": {
+      const totals = getMintTotalsPerIonToken(ledger);
+      if (asJson) {
+        console.log(toJson(totals));
+        return;
+      }
+
+      for (const entry of totals) {
+        console.log(
+          `${label(entry.ionToken)}: ${formatUnits(
+            entry.mintedAmount,
+            DION_DECIMALS
+          )} dION from ${entry.mints} mints of ${formatIonTokens(
+            entry.ionToken,
+            entry.ionTokenAmount
+          )} ionTokens, ${formatIonTokens(
+            entry.ionToken,
+            entry.withdrawnAmount
+          )} withdrawn`
+        );
+      }
+      break;
+    }
+    case "scale-history": {
+      const history = getScaleFactorHistory(
+        ledger,
+        process.env.ION_TOKEN as Address | undefined
+      );
+      if (asJson) {
+        console.log(toJson(history));
+        return;
+      }
+
+      for (const change of history) {
+        console.log(
+          `block ${change.blockNumber}  ${label(change.ionToken)} ${
+            change.eventName
+          } ${change.numerator}/${change.denominator}  ${
+            change.transactionHash
+          }`
+        );
+      }
+      break;
+    }
+    default:
+      throw new Error(
+        "Set LEDGER_QUERY to one of user-mints, minted-per-token, scale-history"
+      );
+  }
+}
+
+// Execute the script
+await main();
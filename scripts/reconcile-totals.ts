@@ -0,0 +1,99 @@
+import { network } from "hardhat";
+import { formatUnits } from "viem";
+import {
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+import { toJson } from "../utils/output.js";
+import {
+  fetchIonTokenFlows,
+  reconcileIonTokenTotals,
+} from "../utils/recovery.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Checks the per-ionToken deposit and mint totals IonicDebtToken keeps
+ * against the sums of its `TokensMinted` events, and exits with a non-zero
+ * code when any of them differ.
+ *
+ * The totals only count mints from the upgrade that introduced them on, so
+ * for an upgraded deployment scan from the upgrade block.
+ *
+ * Options (environment variables):
+ * - JSON: set to "true" to print the checks as JSON
+ * - HARDHAT_NETWORK: network of the deployment (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - RECONCILE_FROM_BLOCK: first block to scan for `TokensMinted` events
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ */
+
+const asJson = process.env.JSON === "true";
+const fromBlock = BigInt(process.env.RECONCILE_FROM_BLOCK ?? 0);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+
+  const flows = await fetchIonTokenFlows(
+    publicClient,
+    ionicDebtToken.address,
+    fromBlock,
+    chunkSize
+  );
+
+  // Removed ionTokens are not listed by the view, but keep their totals
+  const totals = [...(await ionicDebtToken.read.getIonTokenTotals())];
+  for (const ionToken of flows.keys()) {
+    if (totals.some((entry) => entry.ionToken === ionToken)) {
+      continue;
+    }
+    const [totalDeposited, totalMinted] = await Promise.all([
+      ionicDebtToken.read.ionTokenTotalDeposited([ionToken]),
+      ionicDebtToken.read.ionTokenTotalMinted([ionToken]),
+    ]);
+    totals.push({ ionToken, totalDeposited, totalMinted });
+  }
+
+  const checks = reconcileIonTokenTotals(totals, flows);
+  const mismatches = checks.filter((check) => !check.matches);
+
+  if (asJson) {
+    console.log(toJson({ address: ionicDebtToken.address, fromBlock, checks }));
+  } else {
+    console.log(
+      `Totals of ${ionicDebtToken.address} against events from block ${fromBlock}\n`
+    );
+    for (const check of checks) {
+      const status = check.matches ? "ok" : "MISMATCH";
+      console.log(`  [${status}] ${check.ionToken}`);
+      console.log(
+        `    deposited ${check.totalDeposited} (events ${
+          check.eventsDeposited
+        }), minted ${formatUnits(
+          check.totalMinted,
+          DION_DECIMALS
+        )} dION (events ${formatUnits(check.eventsMinted, DION_DECIMALS)})`
+      );
+    }
+    console.log(
+      `\n${checks.length} ionTokens, ${mismatches.length} mismatched`
+    );
+  }
+
+  if (mismatches.length > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,177 @@
+import { network } from "hardhat";
+import { erc20Abi, formatUnits, getAddress } from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+import { toJson } from "../utils/output.js";
+import { assessRecovery, fetchIonTokenFlows } from "../utils/recovery.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Reports, per ionToken, how much IonicDebtToken collected from minters, how
+ * much was withdrawn or redeemed for its underlying, and how much of what it
+ * still holds the market's cash can redeem now or is stuck, valued in USD at
+ * current oracle prices.
+ *
+ * Redeem with `SAFE_ACTION=redeem scripts/export-safe-batch.ts`.
+ *
+ * Options (environment variables):
+ * - JSON: set to "true" to print the report as JSON
+ * - HARDHAT_NETWORK: network of the deployment (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - RECOVERY_FROM_BLOCK: first block to scan for events (e.g. the deployment block)
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ */
+
+const asJson = process.env.JSON === "true";
+const fromBlock = BigInt(process.env.RECOVERY_FROM_BLOCK ?? 0);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+  const masterPriceOracle = await viem.getContractAt(
+    "IMasterPriceOracle",
+    await ionicDebtToken.read.masterPriceOracle()
+  );
+  const usdcPrice = await masterPriceOracle.read.price([
+    await ionicDebtToken.read.usdcAddress(),
+  ]);
+
+  const flows = await fetchIonTokenFlows(
+    publicClient,
+    ionicDebtToken.address,
+    fromBlock,
+    chunkSize
+  );
+
+  // Configured ionTokens, and any other ionToken minted against
+  const symbols = new Map(
+    (networkConfig?.tokenConfigs ?? []).map((tokenConfig) => [
+      getAddress(tokenConfig.address),
+      tokenConfig.symbol,
+    ])
+  );
+  const ionTokens = [
+    ...new Set([
+      ...symbols.keys(),
+      ...[...flows]
+        .filter(([, tokenFlows]) => tokenFlows.collected > 0n)
+        .map(([ionToken]) => ionToken),
+    ]),
+  ];
+
+  const rows = [];
+  for (const ionTokenAddress of ionTokens) {
+    const ionToken = await viem.getContractAt("IIonToken", ionTokenAddress);
+    const tokenFlows = flows.get(ionTokenAddress) ?? {
+      collected: 0n,
+      minted: 0n,
+      withdrawn: 0n,
+      redeemed: 0n,
+      underlyingRedeemed: 0n,
+    };
+
+    const [balance, cash, exchangeRate, underlying, decimals] =
+      await Promise.all([
+        ionToken.read.balanceOf([ionicDebtToken.address]),
+        ionToken.read.getCash(),
+        ionToken.read.exchangeRateCurrent(),
+        ionToken.read.underlying(),
+        publicClient.readContract({
+          address: ionTokenAddress,
+          abi: erc20Abi,
+          functionName: "decimals",
+        }),
+      ]);
+    const [underlyingPrice, underlyingDecimals] = await Promise.all([
+      masterPriceOracle.read.price([underlying]),
+      publicClient.readContract({
+        address: underlying,
+        abi: erc20Abi,
+        functionName: "decimals",
+      }),
+    ]);
+
+    rows.push({
+      ionToken: ionTokenAddress,
+      symbol: symbols.get(ionTokenAddress) ?? ionTokenAddress,
+      decimals,
+      underlying,
+      underlyingDecimals,
+      ...tokenFlows,
+      balance,
+      cash,
+      ...assessRecovery(
+        {
+          balance,
+          cash,
+          exchangeRate,
+          underlyingDecimals,
+          underlyingPrice,
+          usdcPrice,
+        },
+        tokenFlows.underlyingRedeemed
+      ),
+    });
+  }
+
+  const totals = {
+    redeemedValueUsd: rows.reduce((sum, row) => sum + row.redeemedValueUsd, 0n),
+    redeemableValueUsd: rows.reduce(
+      (sum, row) => sum + row.redeemableValueUsd,
+      0n
+    ),
+    stuckValueUsd: rows.reduce((sum, row) => sum + row.stuckValueUsd, 0n),
+  };
+
+  if (asJson) {
+    console.log(
+      toJson({ address: ionicDebtToken.address, usdcPrice, rows, totals })
+    );
+    return;
+  }
+
+  const formatUsd = (amount: bigint) =>
+    `$${formatUnits(amount, DION_DECIMALS)}`;
+
+  console.log(`Recovered assets of ${ionicDebtToken.address}\n`);
+  for (const row of rows) {
+    const format = (amount: bigint) => formatUnits(amount, row.decimals);
+    console.log(`${row.symbol} (${row.ionToken})`);
+    console.log(
+      `  collected ${format(row.collected)}, withdrawn ${format(
+        row.withdrawn
+      )}, redeemed ${format(row.redeemed)} for ${formatUnits(
+        row.underlyingRedeemed,
+        row.underlyingDecimals
+      )} underlying (${formatUsd(row.redeemedValueUsd)})`
+    );
+    console.log(
+      `  held ${format(row.balance)}: ${format(
+        row.redeemable
+      )} redeemable now (${formatUsd(row.redeemableValueUsd)}), ${format(
+        row.stuck
+      )} stuck for lack of liquidity (${formatUsd(row.stuckValueUsd)})`
+    );
+  }
+
+  console.log(`\nRedeemed: ${formatUsd(totals.redeemedValueUsd)}`);
+  console.log(`Redeemable now: ${formatUsd(totals.redeemableValueUsd)}`);
+  console.log(`Stuck: ${formatUsd(totals.stuckValueUsd)}`);
+}
+
+// Execute the script
+await main();
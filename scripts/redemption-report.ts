@@ -0,0 +1,136 @@
+import { network } from "hardhat";
+import { erc20Abi, formatUnits, getAddress } from "viem";
+import {
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { toJson } from "../utils/output.js";
+import { fetchRedemptionRounds } from "../utils/redemption.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Reports the USDC redemption rounds of IonicDebtToken and how much of them
+ * remains unclaimed.
+ *
+ * Burn rounds are tracked per round. Partial rounds are claimed together, so
+ * only their combined unclaimed amount is known.
+ *
+ * Options (environment variables):
+ * - JSON: set to "true" to print the report as JSON
+ * - HARDHAT_NETWORK: network of the deployment (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ */
+
+const asJson = process.env.JSON === "true";
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+  const usdc = getAddress(await ionicDebtToken.read.usdcAddress());
+  const [usdcDecimals, usdcBalance, outstanding, supply, rounds] =
+    await Promise.all([
+      publicClient.readContract({
+        address: usdc,
+        abi: erc20Abi,
+        functionName: "decimals",
+      }),
+      publicClient.readContract({
+        address: usdc,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [ionicDebtToken.address],
+      }),
+      ionicDebtToken.read.redemptionUsdcOutstanding(),
+      ionicDebtToken.read.totalSupply(),
+      fetchRedemptionRounds(publicClient, ionicDebtToken.address),
+    ]);
+
+  const roundReports = rounds.map((round) => ({
+    ...round,
+    // Partial rounds are not claimed round by round, and closed rounds
+    // returned what was left of them
+    unclaimed:
+      round.kind !== "burn"
+        ? undefined
+        : round.closed
+        ? 0n
+        : round.amount - round.claimed,
+  }));
+  const burnUnclaimed = roundReports.reduce(
+    (total, round) => total + (round.unclaimed ?? 0n),
+    0n
+  );
+  const report = {
+    address: ionicDebtToken.address,
+    usdc,
+    dionSupply: supply,
+    usdcBalance,
+    outstanding,
+    burnUnclaimed,
+    partialUnclaimed: outstanding - burnUnclaimed,
+    rounds: roundReports,
+  };
+
+  if (asJson) {
+    console.log(toJson(report));
+    return;
+  }
+
+  const formatUsdc = (amount: bigint) =>
+    `${formatUnits(amount, usdcDecimals)} USDC`;
+
+  console.log(
+    `Redemptions of ${ionicDebtToken.address}, ${formatUnits(
+      supply,
+      DION_DECIMALS
+    )} dION outstanding\n`
+  );
+  for (const round of roundReports) {
+    const funded = new Date(Number(round.fundedAt) * 1000).toISOString();
+    console.log(
+      `Round ${round.roundId} (${round.kind}, ${funded}${
+        round.closed ? ", closed" : ""
+      }): ${formatUsdc(round.amount)} for ${formatUnits(
+        round.supply,
+        DION_DECIMALS
+      )} dION`
+    );
+    if (round.unclaimed !== undefined) {
+      console.log(
+        `  ${formatUnits(
+          round.burned,
+          DION_DECIMALS
+        )} dION burned, ${formatUsdc(round.claimed)} paid, ${formatUsdc(
+          round.unclaimed
+        )} unclaimed`
+      );
+    }
+  }
+
+  console.log(`\nUnclaimed from burn rounds: ${formatUsdc(burnUnclaimed)}`);
+  console.log(
+    `Unclaimed from partial rounds: ${formatUsdc(report.partialUnclaimed)}`
+  );
+  console.log(`Total unclaimed: ${formatUsdc(outstanding)}`);
+
+  // Anything above what is owed can be withdrawn by the owner
+  if (usdcBalance < outstanding) {
+    console.error(
+      `\nThe contract holds ${formatUsdc(
+        usdcBalance
+      )}, less than it owes to holders`
+    );
+    process.exitCode = 1;
+  }
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,120 @@
+import { network } from "hardhat";
+import { formatEther, formatUnits } from "viem";
+import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
+import { MODE_MAINNET_FORK_BLOCK_NUMBER } from "../utils/constants.js";
+import { toCsv, toJson, writeOutputFile } from "../utils/output.js";
+import { parseReplayBlocks, replayValuation } from "../utils/replay.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+
+/*
+ * Replays the `IonicDebtToken.previewMint` valuation of every configured
+ * ionToken at several blocks, to show how the choice of snapshot block changes
+ * payouts.
+ *
+ * At each block, the ionToken's exchange rate and the oracle prices of its
+ * underlying and of USDC are read with historical calls, and valued with the
+ * scale factors the Ignition module whitelists (see utils/replay.ts). The RPC
+ * must serve archive state for the blocks replayed.
+ *
+ * Options (environment variables):
+ * - REPLAY_BLOCKS: comma-separated blocks, each optionally labelled as
+ *   `label:block` (e.g. "pre-exploit:20690000,post-exploit:20700000"),
+ *   defaulting to the pinned fork block
+ * - REPLAY_OUTPUT_DIR: directory for the JSON and CSV files
+ */
+
+const outputDir = process.env.REPLAY_OUTPUT_DIR ?? "replays";
+
+const replayBlocks = parseReplayBlocks(
+  process.env.REPLAY_BLOCKS ?? `${MODE_MAINNET_FORK_BLOCK_NUMBER}`
+);
+
+async function main() {
+  if (replayBlocks.length === 0) {
+    throw new Error("Set REPLAY_BLOCKS to at least one block");
+  }
+
+  // Connect to the Mode mainnet network
+  const { viem } = await network.connect("mode_mainnet");
+  const publicClient = await viem.getPublicClient();
+
+  const rows = await replayValuation(
+    publicClient,
+    modeMainnetConfig.masterPriceOracleAddress,
+    modeMainnetConfig.usdcAddress,
+    modeMainnetConfig.tokenConfigs,
+    replayBlocks
+  );
+
+  for (const { label, blockNumber } of replayBlocks) {
+    const blockRows = rows.filter((row) => row.blockNumber === blockNumber);
+    const usdcPrice = blockRows[0]?.usdcPrice;
+    console.log(
+      `Block ${blockNumber} (${label})${
+        usdcPrice !== undefined ? `: USDC at ${formatEther(usdcPrice)} ETH` : ""
+      }`
+    );
+
+    for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
+      const row = blockRows.find(
+        (entry) => entry.symbol === tokenConfig.symbol
+      );
+      if (row === undefined) {
+        console.log(`  ${tokenConfig.symbol}: not deployed`);
+        continue;
+      }
+
+      console.log(
+        `  ${tokenConfig.symbol}: rate ${formatEther(
+          row.exchangeRate
+        )}, price ${formatEther(row.underlyingPrice)} ETH, ${formatUnits(
+          row.dionPerIonToken,
+          DION_DECIMALS
+        )} dION per ionToken, ${formatUnits(
+          row.dionForSupply,
+          DION_DECIMALS
+        )} dION for the supply`
+      );
+    }
+  }
+
+  // Change of each ionToken's payout relative to the first block replayed
+  const [first] = replayBlocks;
+  console.log(`\nChange in dION per ionToken from block ${first.label}:`);
+  for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
+    const tokenRows = rows.filter((row) => row.symbol === tokenConfig.symbol);
+    const baseline = tokenRows.find(
+      (row) => row.blockNumber === first.blockNumber
+    );
+    if (baseline === undefined || baseline.dionPerIonToken === 0n) {
+      continue;
+    }
+
+    const changes = tokenRows.map((row) => {
+      const bps =
+        ((row.dionPerIonToken - baseline.dionPerIonToken) * 10_000n) /
+        baseline.dionPerIonToken;
+      return `${row.label} ${Number(bps) / 100}%`;
+    });
+    console.log(`  ${tokenConfig.symbol}: ${changes.join(", ")}`);
+  }
+
+  const name = replayBlocks.map(({ blockNumber }) => blockNumber).join("-");
+  const jsonPath = `${outputDir}/valuation-${name}.json`;
+  const csvPath = `${outputDir}/valuation-${name}.csv`;
+  await writeOutputFile(
+    jsonPath,
+    toJson({
+      chainId: await publicClient.getChainId(),
+      masterPriceOracle: modeMainnetConfig.masterPriceOracleAddress,
+      usdcAddress: modeMainnetConfig.usdcAddress,
+      blocks: replayBlocks,
+      rows,
+    })
+  );
+  await writeOutputFile(csvPath, toCsv(rows.map((row) => ({ ...row }))));
+  console.log(`\nWrote ${jsonPath} and ${csvPath}`);
+}
+
+// Execute the script
+await main();
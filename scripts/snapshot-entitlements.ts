@@ -0,0 +1,204 @@
+import { network } from "hardhat";
+import { Address, erc20Abi, getAddress, zeroAddress } from "viem";
+import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
+import { MODE_MAINNET_FORK_BLOCK_NUMBER } from "../utils/constants.js";
+import { DEFAULT_LOG_CHUNK_SIZE, fetchLogsInChunks } from "../utils/logs.js";
+import { toCsv, toJson, writeOutputFile } from "../utils/output.js";
+import { scaleFactorFor, valueMint } from "../utils/valuation.js";
+
+/*
+ * Rebuilds every ionToken holder's balance from `Transfer` logs at a snapshot
+ * block and computes the dION each holder is entitled to, using the same math
+ * as `IonicDebtToken.previewMint` and the scale factors the Ignition module
+ * whitelists.
+ *
+ * Options (environment variables):
+ * - SNAPSHOT_BLOCK: block to snapshot (defaults to the pinned fork block)
+ * - SNAPSHOT_FROM_BLOCK: first block to scan for logs (defaults to 0)
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ * - SNAPSHOT_OUTPUT_DIR: directory for the JSON and CSV files
+ */
+
+const snapshotBlock = BigInt(
+  process.env.SNAPSHOT_BLOCK ?? MODE_MAINNET_FORK_BLOCK_NUMBER
+);
+const fromBlock = BigInt(process.env.SNAPSHOT_FROM_BLOCK ?? 0);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+const outputDir = process.env.SNAPSHOT_OUTPUT_DIR ?? "snapshots";
+
+interface HolderPosition {
+  ionToken: Address;
+  symbol: string;
+  balance: bigint;
+  underlyingAmount: bigint;
+  entitlement: bigint;
+}
+
+async function main() {
+  // Connect to the Mode mainnet network
+  const { viem } = await network.connect("mode_mainnet");
+  const publicClient = await viem.getPublicClient();
+
+  const masterPriceOracle = await viem.getContractAt(
+    "IMasterPriceOracle",
+    modeMainnetConfig.masterPriceOracleAddress
+  );
+  const usdcPrice = await masterPriceOracle.read.price(
+    [modeMainnetConfig.usdcAddress],
+    { blockNumber: snapshotBlock }
+  );
+
+  console.log(`Snapshotting ionToken holders at block ${snapshotBlock}`);
+
+  const positionsByHolder = new Map<Address, HolderPosition[]>();
+  const tokens = [];
+
+  for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
+    const ionTokenAddress = getAddress(tokenConfig.address);
+    const ionToken = await viem.getContractAt("IIonToken", ionTokenAddress);
+
+    const [symbol, exchangeRate, underlying] = await Promise.all([
+      ionToken.read.symbol({ blockNumber: snapshotBlock }),
+      ionToken.read.exchangeRateCurrent({ blockNumber: snapshotBlock }),
+      ionToken.read.underlying({ blockNumber: snapshotBlock }),
+    ]);
+    const [underlyingPrice, underlyingDecimals] = await Promise.all([
+      masterPriceOracle.read.price([underlying], {
+        blockNumber: snapshotBlock,
+      }),
+      publicClient.readContract({
+        address: underlying,
+        abi: erc20Abi,
+        functionName: "decimals",
+        blockNumber: snapshotBlock,
+      }),
+    ]);
+    const scaleFactor = scaleFactorFor(tokenConfig);
+
+    // Replay transfers to rebuild balances at the snapshot block
+    const transfers = await fetchLogsInChunks(
+      fromBlock,
+      snapshotBlock,
+      (from, to) =>
+        publicClient.getContractEvents({
+          address: ionTokenAddress,
+          abi: ionToken.abi,
+          eventName: "Transfer",
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        }),
+      chunkSize
+    );
+
+    const balances = new Map<Address, bigint>();
+    for (const { args } of transfers) {
+      const from = getAddress(args.from);
+      const to = getAddress(args.to);
+      if (from !== zeroAddress) {
+        balances.set(from, (balances.get(from) ?? 0n) - args.value);
+      }
+      if (to !== zeroAddress) {
+        balances.set(to, (balances.get(to) ?? 0n) + args.value);
+      }
+    }
+
+    let holders = 0;
+    let totalEntitlement = 0n;
+    for (const [holder, balance] of balances) {
+      if (balance <= 0n) {
+        continue;
+      }
+
+      const { underlyingAmount, tokensToMint } = valueMint({
+        amount: balance,
+        exchangeRate,
+        underlyingDecimals,
+        underlyingPrice,
+        usdcPrice,
+        scaleFactor,
+      });
+
+      const positions = positionsByHolder.get(holder) ?? [];
+      positions.push({
+        ionToken: ionTokenAddress,
+        symbol,
+        balance,
+        underlyingAmount,
+        entitlement: tokensToMint,
+      });
+      positionsByHolder.set(holder, positions);
+
+      holders++;
+      totalEntitlement += tokensToMint;
+    }
+
+    tokens.push({
+      ionToken: ionTokenAddress,
+      symbol,
+      underlying,
+      underlyingDecimals,
+      exchangeRate,
+      underlyingPrice,
+      scaleFactor,
+      transfers: transfers.length,
+      holders,
+      totalEntitlement,
+    });
+
+    console.log(
+      `${symbol}: ${transfers.length} transfers, ${holders} holders, ${totalEntitlement} dION`
+    );
+  }
+
+  const holders = [...positionsByHolder.entries()]
+    .map(([account, positions]) => ({
+      account,
+      totalEntitlement: positions.reduce((sum, p) => sum + p.entitlement, 0n),
+      positions,
+    }))
+    .sort((a, b) =>
+      a.totalEntitlement === b.totalEntitlement
+        ? 0
+        : a.totalEntitlement > b.totalEntitlement
+        ? -1
+        : 1
+    );
+
+  const snapshot = {
+    chainId: await publicClient.getChainId(),
+    blockNumber: snapshotBlock,
+    masterPriceOracle: modeMainnetConfig.masterPriceOracleAddress,
+    usdcAddress: modeMainnetConfig.usdcAddress,
+    usdcPrice,
+    tokens,
+    holders,
+  };
+
+  const rows = holders.flatMap(({ account, positions }) =>
+    positions.map((position) => ({
+      account,
+      ionToken: position.ionToken,
+      symbol: position.symbol,
+      balance: position.balance,
+      underlyingAmount: position.underlyingAmount,
+      entitlement: position.entitlement,
+    }))
+  );
+
+  const jsonPath = `${outputDir}/entitlements-${snapshotBlock}.json`;
+  const csvPath = `${outputDir}/entitlements-${snapshotBlock}.csv`;
+  await writeOutputFile(jsonPath, toJson(snapshot));
+  await writeOutputFile(csvPath, toCsv(rows));
+
+  const totalEntitlement = holders.reduce(
+    (sum, h) => sum + h.totalEntitlement,
+    0n
+  );
+  console.log(`\nHolders: ${holders.length}`);
+  console.log(`Total entitlement: ${totalEntitlement}`);
+  console.log(`Wrote ${jsonPath} and ${csvPath}`);
+}
+
+// Execute the script
+await main();
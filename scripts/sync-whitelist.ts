@@ -0,0 +1,106 @@
+import { network } from "hardhat";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+import {
+  buildWhitelistPlan,
+  fetchWhitelistedIonTokens,
+  describeWhitelistPlan,
+  encodeWhitelistAction,
+  isWhitelistActionReady,
+} from "../utils/whitelist-plan.js";
+
+/*
+ * Compares the whitelist, scale factors and mint caps of a deployed
+ * IonicDebtToken with the active network config and prints the calls needed to
+ * reconcile them.
+ *
+ * Scale factor updates are timelocked: a first run schedules them, and a run
+ * after the timelock delay executes them.
+ *
+ * Options (environment variables):
+ * - HARDHAT_NETWORK: deployment config to sync (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - SYNC_FROM_BLOCK: first block to scan for `IonTokenWhitelisted` events
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ * - EXECUTE: set to "true" to send the planned transactions
+ */
+
+const fromBlock = BigInt(process.env.SYNC_FROM_BLOCK ?? 0);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+const execute = process.env.EXECUTE === "true";
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  if (!networkConfig) {
+    throw new Error(`No deployment config for ${configName}`);
+  }
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+
+  console.log(
+    `Syncing whitelist of ${ionicDebtToken.address} with ${configName} config`
+  );
+
+  // Every ionToken ever whitelisted, to detect ones dropped from the config
+  const knownIonTokens = await fetchWhitelistedIonTokens(
+    publicClient,
+    ionicDebtToken.address,
+    fromBlock,
+    chunkSize
+  );
+
+  const plan = await buildWhitelistPlan(
+    ionicDebtToken,
+    networkConfig.tokenConfigs,
+    knownIonTokens,
+    (
+      await publicClient.getBlock()
+    ).timestamp
+  );
+
+  if (plan.length === 0) {
+    console.log("Whitelist is in sync, nothing to do");
+    return;
+  }
+
+  console.log(`\nPlan (${plan.length} calls):`);
+  for (const line of describeWhitelistPlan(plan)) {
+    console.log(`  ${line}`);
+  }
+
+  if (!execute) {
+    console.log("\nDry run only, set EXECUTE=true to send these transactions");
+    return;
+  }
+
+  const [walletClient] = await viem.getWalletClients();
+  for (const action of plan.filter(isWhitelistActionReady)) {
+    const hash = await walletClient.sendTransaction({
+      to: ionicDebtToken.address,
+      data: encodeWhitelistAction(action),
+    });
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    console.log(
+      `${action.functionName} ${action.symbol}: ${hash} (${receipt.status})`
+    );
+    if (receipt.status !== "success") {
+      throw new Error(`${action.functionName} reverted, stopping`);
+    }
+  }
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,209 @@
+import { network } from "hardhat";
+import { Address, encodeFunctionData, getAddress } from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { getIonicDebtTokenAddress } from "../utils/deployment.js";
+import { connectFork } from "../utils/fork.js";
+import { getProxyAdmin } from "../utils/proxy.js";
+import { resolveRoleHolders, ROLE_NAMES, ROLES } from "../utils/roles.js";
+import { SafeTransaction, simulateSafeBatch } from "../utils/safe.js";
+
+/*
+ * Hands the IonicDebtToken and its IonicDebtTokenProxyAdmin to the recovery
+ * Safe. The calls are first simulated on a fork of the network, and only sent
+ * when EXECUTE=true.
+ *
+ * The current admin grants the Safe (or the config's role holders) every
+ * role, gives up its own roles and starts the default admin transfer, which
+ * the Safe completes with `SAFE_ACTION=accept-admin scripts/export-safe-batch.ts`.
+ * The ProxyAdmin is Ownable, its ownership is transferred in one call.
+ *
+ * Options (environment variables):
+ * - HARDHAT_NETWORK: deployment config to use (defaults to mode-mainnet)
+ * - SAFE_ADDRESS: new owner (defaults to the config's safeAddress)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - EXECUTE: set to "true" to send the transactions from the current owner
+ */
+
+const execute = process.env.EXECUTE === "true";
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  const safeAddress = process.env.SAFE_ADDRESS ?? networkConfig?.safeAddress;
+  if (!safeAddress) {
+    throw new Error("Set SAFE_ADDRESS or safeAddress in the network config");
+  }
+  const safe = getAddress(safeAddress);
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  if ((await publicClient.getCode({ address: safe })) === undefined) {
+    throw new Error(`${safe} has no code, refusing to hand ownership to it`);
+  }
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+  const proxyAdmin = await viem.getContractAt(
+    "IonicDebtTokenProxyAdmin",
+    await getProxyAdmin(publicClient, ionicDebtToken.address)
+  );
+
+  // Calls to send, grouped by the account sending them
+  const calls = new Map<Address, SafeTransaction[]>();
+  const addCall = (from: Address, transaction: SafeTransaction) =>
+    calls.set(from, [...(calls.get(from) ?? []), transaction]);
+
+  const admin = getAddress(await ionicDebtToken.read.owner());
+  const [pendingAdmin] = await ionicDebtToken.read.pendingDefaultAdmin();
+  console.log(`IonicDebtToken (${ionicDebtToken.address}) admin is ${admin}`);
+  if (admin !== safe) {
+    const holders = resolveRoleHolders(networkConfig?.roles, safe);
+    for (const role of ROLE_NAMES) {
+      if (!(await ionicDebtToken.read.hasRole([ROLES[role], holders[role]]))) {
+        addCall(admin, {
+          to: ionicDebtToken.address,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: ionicDebtToken.abi,
+            functionName: "grantRole",
+            args: [ROLES[role], holders[role]],
+          }),
+          description: `grant ${role} to ${holders[role]}`,
+        });
+      }
+    }
+    for (const role of ROLE_NAMES) {
+      if (
+        holders[role] !== admin &&
+        (await ionicDebtToken.read.hasRole([ROLES[role], admin]))
+      ) {
+        addCall(admin, {
+          to: ionicDebtToken.address,
+          value: 0n,
+          data: encodeFunctionData({
+            abi: ionicDebtToken.abi,
+            functionName: "renounceRole",
+            args: [ROLES[role], admin],
+          }),
+          description: `renounce ${role}`,
+        });
+      }
+    }
+    if (getAddress(pendingAdmin) !== safe) {
+      addCall(admin, {
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "beginDefaultAdminTransfer",
+          args: [safe],
+        }),
+        description: `beginDefaultAdminTransfer(${safe})`,
+      });
+    }
+  }
+
+  const proxyAdminOwner = getAddress(await proxyAdmin.read.owner());
+  console.log(
+    `IonicDebtTokenProxyAdmin (${proxyAdmin.address}) is owned by ${proxyAdminOwner}`
+  );
+  if (proxyAdminOwner !== safe) {
+    addCall(proxyAdminOwner, {
+      to: proxyAdmin.address,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: proxyAdmin.abi,
+        functionName: "transferOwnership",
+        args: [safe],
+      }),
+      description: `IonicDebtTokenProxyAdmin.transferOwnership(${safe})`,
+    });
+  }
+
+  if (calls.size === 0) {
+    console.log(`Everything is already owned by ${safe}`);
+    return;
+  }
+
+  // Simulate the handoff on a fork before sending anything, including the
+  // Safe accepting the admin role
+  const fork = await connectFork();
+  for (const [from, transactions] of calls) {
+    const results = await simulateSafeBatch(fork, from, transactions);
+    for (const result of results) {
+      if (!result.success) {
+        throw new Error(
+          `Simulated ${result.transaction.description} failed: ${result.error}`
+        );
+      }
+      console.log(`Simulated: ${result.transaction.description}`);
+    }
+  }
+  if (admin !== safe) {
+    const [acceptance] = await simulateSafeBatch(fork, safe, [
+      {
+        to: ionicDebtToken.address,
+        value: 0n,
+        data: encodeFunctionData({
+          abi: ionicDebtToken.abi,
+          functionName: "acceptDefaultAdminTransfer",
+        }),
+        description: "acceptDefaultAdminTransfer()",
+      },
+    ]);
+    const forkToken = await fork.viem.getContractAt(
+      "IonicDebtToken",
+      ionicDebtToken.address
+    );
+    if (
+      !acceptance.success ||
+      getAddress(await forkToken.read.owner()) !== safe
+    ) {
+      throw new Error(`Simulated admin acceptance failed: ${acceptance.error}`);
+    }
+    console.log(`Simulated: ${safe} accepts the IonicDebtToken admin role`);
+  }
+
+  if (!execute) {
+    console.log("\nDry run only, set EXECUTE=true to transfer ownership");
+    return;
+  }
+
+  const [walletClient] = await viem.getWalletClients();
+  for (const [from, transactions] of calls) {
+    if (getAddress(walletClient.account.address) !== from) {
+      throw new Error(
+        `${transactions[0].description} must be sent by ${from}, not by ${walletClient.account.address}`
+      );
+    }
+
+    for (const transaction of transactions) {
+      const hash = await walletClient.sendTransaction({
+        to: transaction.to,
+        data: transaction.data,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      console.log(`${transaction.description}: ${hash} (${receipt.status})`);
+      if (receipt.status !== "success") {
+        throw new Error(`${transaction.description} reverted, stopping`);
+      }
+    }
+  }
+
+  if (admin !== safe) {
+    console.log(
+      `\nExport SAFE_ACTION=accept-admin for ${safe} to complete the admin transfer`
+    );
+  }
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,56 @@
+import { network } from "hardhat";
+import { config, hardhatNetworks } from "../ignition/config/index.js";
+import {
+  ConfigValidationError,
+  validateNetworkConfig,
+  validateOnChainDecimals,
+} from "../ignition/config/validate.js";
+
+async function main() {
+  let failed = false;
+
+  for (const [name, networkConfig] of Object.entries(config)) {
+    try {
+      validateNetworkConfig(name, networkConfig);
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) throw error;
+      console.error(error.message);
+      failed = true;
+      continue;
+    }
+
+    const hardhatNetwork = hardhatNetworks[name];
+    if (hardhatNetwork === undefined) {
+      console.log(
+        `${name}: valid (no RPC configured, on-chain checks skipped)`
+      );
+      continue;
+    }
+
+    let publicClient;
+    try {
+      const { viem } = await network.connect(hardhatNetwork);
+      publicClient = await viem.getPublicClient();
+      await publicClient.getChainId();
+    } catch {
+      console.log(`${name}: valid (RPC unavailable, on-chain checks skipped)`);
+      continue;
+    }
+
+    try {
+      await validateOnChainDecimals(name, networkConfig, publicClient);
+      console.log(`${name}: valid (on-chain decimals match)`);
+    } catch (error) {
+      if (!(error instanceof ConfigValidationError)) throw error;
+      console.error(error.message);
+      failed = true;
+    }
+  }
+
+  if (failed) {
+    process.exitCode = 1;
+  }
+}
+
+// Execute the script
+await main();
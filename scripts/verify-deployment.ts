@@ -0,0 +1,364 @@
+import { network } from "hardhat";
+import { Address, getAddress, zeroAddress } from "viem";
+import {
+  getCurrentNetworkConfig,
+  getCurrentNetworkName,
+  hardhatNetworks,
+} from "../ignition/config/index.js";
+import { formatTimestamp } from "../utils/admin.js";
+import {
+  getDeployedAddresses,
+  getIonicDebtTokenAddress,
+  IMPLEMENTATION_FUTURE_ID,
+  PROXY_ADMIN_FUTURE_ID,
+  UPGRADE_IMPLEMENTATION_FUTURE_ID,
+} from "../utils/deployment.js";
+import { DEFAULT_LOG_CHUNK_SIZE } from "../utils/logs.js";
+import {
+  getInitializedVersion,
+  getProxyAdmin,
+  getProxyImplementation,
+} from "../utils/proxy.js";
+import { resolveRoleHolders, ROLE_NAMES, ROLES } from "../utils/roles.js";
+import {
+  buildWhitelistPlan,
+  describeWhitelistPlan,
+  fetchWhitelistedIonTokens,
+} from "../utils/whitelist-plan.js";
+
+/*
+ * Verifies a live IonicDebtToken deployment end to end: the proxy's EIP-1967
+ * slots, the owners of the token and its ProxyAdmin, its role holders and
+ * timelock delay, whether the bare
+ * implementation or the UUPS upgrade path are exposed, and the oracle, USDC,
+ * mint caps and whitelist against the network config.
+ *
+ * Mismatches make the script exit with a non-zero code, exposed entry points
+ * and stopped minting (closed claim window or pause) are reported as warnings.
+ *
+ * Options (environment variables):
+ * - HARDHAT_NETWORK: deployment config to verify against (defaults to mode-mainnet)
+ * - IONIC_DEBT_TOKEN_ADDRESS: proxy address (defaults to the Ignition deployment)
+ * - EXPECTED_OWNER: expected owner of the token (defaults to the config's safeAddress)
+ * - EXPECTED_PROXY_ADMIN_OWNER: expected owner of the ProxyAdmin (defaults to
+ *   EXPECTED_OWNER)
+ * - VERIFY_FROM_BLOCK: first block to scan for `IonTokenWhitelisted` events
+ * - LOG_CHUNK_SIZE: blocks per `eth_getLogs` request
+ */
+
+const fromBlock = BigInt(process.env.VERIFY_FROM_BLOCK ?? 0);
+const chunkSize = BigInt(process.env.LOG_CHUNK_SIZE ?? DEFAULT_LOG_CHUNK_SIZE);
+
+// Arbitrary account without any role, used to probe unprotected entry points
+const STRANGER: Address = "0x000000000000000000000000000000000000dEaD";
+
+type CheckStatus = "ok" | "warn" | "fail";
+
+interface Check {
+  status: CheckStatus;
+  name: string;
+  detail: string;
+}
+
+const checks: Check[] = [];
+
+function report(status: CheckStatus, name: string, detail: string) {
+  checks.push({ status, name, detail });
+  console.log(`  [${status.toUpperCase().padEnd(4)}] ${name}: ${detail}`);
+}
+
+function compareAddress(
+  name: string,
+  actual: Address,
+  expected: Address | undefined
+) {
+  if (expected === undefined) {
+    report("fail", name, `${actual}, but no expected address is configured`);
+  } else if (getAddress(actual) !== getAddress(expected)) {
+    report("fail", name, `${actual}, expected ${getAddress(expected)}`);
+  } else {
+    report("ok", name, actual);
+  }
+}
+
+async function main() {
+  const configName = getCurrentNetworkName();
+  const networkConfig = getCurrentNetworkConfig();
+  if (!networkConfig) {
+    throw new Error(`No deployment config for ${configName}`);
+  }
+
+  const expectedOwner = (process.env.EXPECTED_OWNER ??
+    networkConfig.safeAddress) as Address | undefined;
+  const expectedProxyAdminOwner = (process.env.EXPECTED_PROXY_ADMIN_OWNER ??
+    expectedOwner) as Address | undefined;
+
+  const { viem } = await network.connect(hardhatNetworks[configName]);
+  const publicClient = await viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await viem.getContractAt(
+    "IonicDebtToken",
+    await getIonicDebtTokenAddress(chainId)
+  );
+
+  // The Ignition artifacts are optional when the proxy address is given
+  let deployedAddresses: Record<string, Address> = {};
+  try {
+    deployedAddresses = await getDeployedAddresses(chainId);
+  } catch {
+    console.log(`No Ignition deployment for chain ${chainId}, skipping`);
+  }
+
+  console.log(
+    `Verifying ${ionicDebtToken.address} on chain ${chainId} against ${configName} config\n`
+  );
+
+  console.log("Proxy");
+  const implementation = await getProxyImplementation(
+    publicClient,
+    ionicDebtToken.address
+  );
+  const proxyAdminAddress = await getProxyAdmin(
+    publicClient,
+    ionicDebtToken.address
+  );
+
+  for (const [name, address] of [
+    ["implementation slot", implementation],
+    ["admin slot", proxyAdminAddress],
+  ] as const) {
+    if (address === zeroAddress) {
+      report("fail", name, "empty");
+    } else if ((await publicClient.getCode({ address })) === undefined) {
+      report("fail", name, `${address} has no code`);
+    } else {
+      report("ok", name, address);
+    }
+  }
+
+  // The latest implementation recorded by Ignition, upgrades included
+  const recordedImplementation =
+    deployedAddresses[UPGRADE_IMPLEMENTATION_FUTURE_ID] ??
+    deployedAddresses[IMPLEMENTATION_FUTURE_ID];
+  if (recordedImplementation !== undefined) {
+    compareAddress(
+      "implementation matches Ignition",
+      implementation,
+      recordedImplementation
+    );
+  }
+  if (deployedAddresses[PROXY_ADMIN_FUTURE_ID] !== undefined) {
+    compareAddress(
+      "ProxyAdmin matches Ignition",
+      proxyAdminAddress,
+      deployedAddresses[PROXY_ADMIN_FUTURE_ID]
+    );
+  }
+
+  console.log("\nOwnership");
+  const proxyAdmin = await viem.getContractAt(
+    "IonicDebtTokenProxyAdmin",
+    proxyAdminAddress
+  );
+  const owner = getAddress(await ionicDebtToken.read.owner());
+  const proxyAdminOwner = getAddress(await proxyAdmin.read.owner());
+  compareAddress("IonicDebtToken.owner()", owner, expectedOwner);
+  compareAddress(
+    "IonicDebtTokenProxyAdmin.owner()",
+    proxyAdminOwner,
+    expectedProxyAdminOwner
+  );
+
+  // Roles the config does not assign are expected to be held by the owner
+  if (expectedOwner !== undefined) {
+    const holders = resolveRoleHolders(
+      networkConfig.roles,
+      getAddress(expectedOwner)
+    );
+    for (const role of ROLE_NAMES) {
+      const held = await ionicDebtToken.read.hasRole([
+        ROLES[role],
+        holders[role],
+      ]);
+      report(
+        held ? "ok" : "fail",
+        `${role} role`,
+        `${held ? "held" : "not held"} by ${holders[role]}`
+      );
+    }
+  }
+  const timelockDelay = await ionicDebtToken.read.timelockDelay();
+  const expectedTimelockDelay = networkConfig.timelockDelay ?? 0n;
+  report(
+    timelockDelay === expectedTimelockDelay ? "ok" : "fail",
+    "timelockDelay",
+    timelockDelay === expectedTimelockDelay
+      ? `${timelockDelay}s`
+      : `${timelockDelay}s, expected ${expectedTimelockDelay}s`
+  );
+
+  console.log("\nExposed entry points");
+  const implementationContract = await viem.getContractAt(
+    "IonicDebtToken",
+    implementation
+  );
+  const initializedVersion = await getInitializedVersion(
+    publicClient,
+    implementation
+  );
+  try {
+    await implementationContract.simulate.initialize(
+      [STRANGER, STRANGER, STRANGER],
+      { account: STRANGER }
+    );
+    report(
+      "warn",
+      "bare implementation",
+      `can be initialized by anyone (initialized version ${initializedVersion})`
+    );
+  } catch {
+    report(
+      "ok",
+      "bare implementation",
+      `cannot be initialized (initialized version ${initializedVersion})`
+    );
+  }
+
+  // Upgrading to the current implementation is a no-op, so a successful
+  // simulation only proves the UUPS path is reachable
+  for (const [caller, account] of [
+    ["owner", owner],
+    ["non-owner", STRANGER],
+  ] as const) {
+    try {
+      await ionicDebtToken.simulate.upgradeToAndCall([implementation, "0x"], {
+        account,
+      });
+      report(
+        caller === "owner" ? "warn" : "fail",
+        `UUPS upgradeToAndCall (${caller})`,
+        `reachable behind the Transparent proxy, bypassing ${proxyAdminAddress}`
+      );
+    } catch {
+      report(
+        "ok",
+        `UUPS upgradeToAndCall (${caller})`,
+        "not reachable behind the Transparent proxy"
+      );
+    }
+  }
+
+  console.log("\nConfiguration");
+  compareAddress(
+    "masterPriceOracle",
+    await ionicDebtToken.read.masterPriceOracle(),
+    networkConfig.masterPriceOracleAddress
+  );
+  compareAddress(
+    "usdcAddress",
+    await ionicDebtToken.read.usdcAddress(),
+    networkConfig.usdcAddress
+  );
+
+  const globalMintCap = await ionicDebtToken.read.globalMintCap();
+  const expectedGlobalMintCap = networkConfig.globalMintCap ?? 0n;
+  if (globalMintCap === expectedGlobalMintCap) {
+    report("ok", "globalMintCap", globalMintCap.toString());
+  } else {
+    report(
+      "fail",
+      "globalMintCap",
+      `${globalMintCap}, expected ${expectedGlobalMintCap}`
+    );
+  }
+
+  const missingFromBlocklist = [];
+  for (const account of networkConfig.blocklist ?? []) {
+    if (!(await ionicDebtToken.read.blocklisted([account]))) {
+      missingFromBlocklist.push(account);
+    }
+  }
+  if (missingFromBlocklist.length === 0) {
+    report(
+      "ok",
+      "blocklist",
+      `${networkConfig.blocklist?.length ?? 0} accounts blocklisted`
+    );
+  } else {
+    report(
+      "fail",
+      "blocklist",
+      `not blocklisted: ${missingFromBlocklist.join(", ")}`
+    );
+  }
+
+  // Minting being stopped is not a misconfiguration, but worth a look
+  const [claimStart, claimEnd, mintingPaused] = await Promise.all([
+    ionicDebtToken.read.claimStart(),
+    ionicDebtToken.read.claimEnd(),
+    ionicDebtToken.read.mintingPaused(),
+  ]);
+  const { timestamp } = await publicClient.getBlock();
+  const claimWindowOpen =
+    timestamp >= claimStart && (claimEnd === 0n || timestamp < claimEnd);
+  report(
+    claimWindowOpen ? "ok" : "warn",
+    "claimWindow",
+    `${formatTimestamp(claimStart)} - ${formatTimestamp(claimEnd)} (${
+      claimWindowOpen ? "open" : "closed"
+    })`
+  );
+  report(
+    mintingPaused ? "warn" : "ok",
+    "mintingPaused",
+    mintingPaused.toString()
+  );
+  for (const tokenConfig of networkConfig.tokenConfigs) {
+    if (
+      await ionicDebtToken.read.ionTokenMintingPaused([tokenConfig.address])
+    ) {
+      report(
+        "warn",
+        "ionTokenMintingPaused",
+        `${tokenConfig.symbol} is paused`
+      );
+    }
+  }
+
+  const knownIonTokens = await fetchWhitelistedIonTokens(
+    publicClient,
+    ionicDebtToken.address,
+    fromBlock,
+    chunkSize
+  );
+  const plan = await buildWhitelistPlan(
+    ionicDebtToken,
+    networkConfig.tokenConfigs,
+    knownIonTokens
+  );
+  if (plan.length === 0) {
+    report(
+      "ok",
+      "whitelist",
+      `${networkConfig.tokenConfigs.length} ionTokens match the config`
+    );
+  } else {
+    for (const line of describeWhitelistPlan(plan)) {
+      report("fail", "whitelist", `needs ${line}`);
+    }
+  }
+
+  const failures = checks.filter((check) => check.status === "fail").length;
+  const warnings = checks.filter((check) => check.status === "warn").length;
+  console.log(
+    `\n${checks.length} checks, ${failures} failed, ${warnings} warnings`
+  );
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+// Execute the script
+await main();
@@ -0,0 +1,36 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  connectAsOwner,
+  formatTimestamp,
+  parseTimestamp,
+} from "../../utils/admin.js";
+
+interface CloseClaimWindowArguments {
+  at: string;
+  address: string;
+}
+
+export default async function closeClaimWindow(
+  { at, address }: CloseClaimWindowArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const { publicClient, ionicDebtToken } = await connectAsOwner(hre, address);
+  const { timestamp } = await publicClient.getBlock();
+
+  const claimEnd = parseTimestamp(at, timestamp);
+  // A window that had not opened yet by then is closed without ever opening
+  const currentStart = await ionicDebtToken.read.claimStart();
+  const claimStart = currentStart > claimEnd ? claimEnd : currentStart;
+
+  console.log(
+    `Closing the claim window of ${ionicDebtToken.address} at ${formatTimestamp(
+      claimEnd
+    )}`
+  );
+  const hash = await ionicDebtToken.write.setClaimWindow([
+    claimStart,
+    claimEnd,
+  ]);
+  await publicClient.waitForTransactionReceipt({ hash });
+  console.log(`Done: ${hash}`);
+}
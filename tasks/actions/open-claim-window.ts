@@ -0,0 +1,35 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  connectAsOwner,
+  formatTimestamp,
+  parseTimestamp,
+} from "../../utils/admin.js";
+
+interface OpenClaimWindowArguments {
+  start: string;
+  end: string;
+  address: string;
+}
+
+export default async function openClaimWindow(
+  { start, end, address }: OpenClaimWindowArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const { publicClient, ionicDebtToken } = await connectAsOwner(hre, address);
+  const { timestamp } = await publicClient.getBlock();
+
+  const claimStart = parseTimestamp(start, timestamp);
+  const claimEnd = parseTimestamp(end, timestamp);
+
+  console.log(
+    `Setting the claim window of ${ionicDebtToken.address} to ${formatTimestamp(
+      claimStart
+    )} - ${formatTimestamp(claimEnd)}`
+  );
+  const hash = await ionicDebtToken.write.setClaimWindow([
+    claimStart,
+    claimEnd,
+  ]);
+  await publicClient.waitForTransactionReceipt({ hash });
+  console.log(`Done: ${hash}`);
+}
@@ -0,0 +1,37 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress } from "viem";
+import { connectAsOwner } from "../../utils/admin.js";
+
+interface PauseMintingArguments {
+  ionToken: string;
+  unpause: boolean;
+  address: string;
+}
+
+export default async function pauseMinting(
+  { ionToken, unpause, address }: PauseMintingArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const { publicClient, ionicDebtToken } = await connectAsOwner(hre, address);
+  const paused = !unpause;
+
+  let hash;
+  if (ionToken === "") {
+    console.log(
+      `${paused ? "Pausing" : "Unpausing"} minting of ${ionicDebtToken.address}`
+    );
+    hash = await ionicDebtToken.write.setMintingPaused([paused]);
+  } else {
+    console.log(
+      `${paused ? "Pausing" : "Unpausing"} minting of ${
+        ionicDebtToken.address
+      } for ${ionToken}`
+    );
+    hash = await ionicDebtToken.write.setIonTokenMintingPaused([
+      getAddress(ionToken),
+      paused,
+    ]);
+  }
+  await publicClient.waitForTransactionReceipt({ hash });
+  console.log(`Done: ${hash}`);
+}
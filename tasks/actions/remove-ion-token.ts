@@ -0,0 +1,37 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { encodeFunctionData } from "viem";
+import {
+  connectWithRole,
+  DryRunOptions,
+  dryRunAndSend,
+  parseAddress,
+  readIonTokenState,
+} from "../../utils/admin.js";
+import { ROLES } from "../../utils/roles.js";
+
+interface RemoveIonTokenArguments extends DryRunOptions {
+  ionToken: string;
+  address: string;
+}
+
+export default async function removeIonToken(
+  { ionToken, address, ...options }: RemoveIonTokenArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connected = await connectWithRole(hre, address, ROLES.whitelistManager);
+  const token = parseAddress(ionToken, "ion-token");
+
+  await dryRunAndSend(
+    connected,
+    {
+      data: encodeFunctionData({
+        abi: connected.ionicDebtToken.abi,
+        functionName: "removeIonToken",
+        args: [token],
+      }),
+      description: `removeIonToken(${token})`,
+    },
+    (ionicDebtToken) => readIonTokenState(ionicDebtToken, token),
+    options
+  );
+}
@@ -0,0 +1,35 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  connectWithRole,
+  DryRunOptions,
+  dryRunAndSend,
+  parseAddress,
+  nextTimelockedCall,
+  readScheduledState,
+} from "../../utils/admin.js";
+import { ROLES } from "../../utils/roles.js";
+import { masterPriceOracleUpdate } from "../../utils/timelock.js";
+
+interface UpdateMasterPriceOracleArguments extends DryRunOptions {
+  oracle: string;
+  address: string;
+}
+
+export default async function updateMasterPriceOracle(
+  { oracle, address, ...options }: UpdateMasterPriceOracleArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connected = await connectWithRole(hre, address, ROLES.oracleAdmin);
+  const update = masterPriceOracleUpdate(parseAddress(oracle, "oracle"));
+
+  // Scheduled on the first run, executed on a run after the timelock delay
+  await dryRunAndSend(
+    connected,
+    await nextTimelockedCall(connected, update),
+    async (ionicDebtToken) => ({
+      masterPriceOracle: await ionicDebtToken.read.masterPriceOracle(),
+      ...(await readScheduledState(ionicDebtToken, update)),
+    }),
+    options
+  );
+}
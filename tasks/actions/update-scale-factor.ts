@@ -0,0 +1,50 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  connectWithRole,
+  DryRunOptions,
+  dryRunAndSend,
+  parseAddress,
+  nextTimelockedCall,
+  parseUint,
+  readIonTokenState,
+  readScheduledState,
+} from "../../utils/admin.js";
+import { ROLES } from "../../utils/roles.js";
+import { scaleFactorUpdate } from "../../utils/timelock.js";
+
+interface UpdateScaleFactorArguments extends DryRunOptions {
+  ionToken: string;
+  numerator: string;
+  denominator: string;
+  address: string;
+}
+
+export default async function updateScaleFactor(
+  {
+    ionToken,
+    numerator,
+    denominator,
+    address,
+    ...options
+  }: UpdateScaleFactorArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connected = await connectWithRole(hre, address, ROLES.whitelistManager);
+  const token = parseAddress(ionToken, "ion-token");
+  const update = scaleFactorUpdate(
+    token,
+    parseUint(numerator, "numerator"),
+    parseUint(denominator, "denominator")
+  );
+
+  // Scheduled on the first run, executed on a run after the timelock delay
+  await dryRunAndSend(
+    connected,
+    await nextTimelockedCall(connected, update),
+    async (ionicDebtToken) => ({
+      ...(await readIonTokenState(ionicDebtToken, token)),
+      ...(await readScheduledState(ionicDebtToken, update)),
+    }),
+    options
+  );
+}
@@ -0,0 +1,35 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  connectWithRole,
+  DryRunOptions,
+  dryRunAndSend,
+  parseAddress,
+  nextTimelockedCall,
+  readScheduledState,
+} from "../../utils/admin.js";
+import { ROLES } from "../../utils/roles.js";
+import { usdcAddressUpdate } from "../../utils/timelock.js";
+
+interface UpdateUsdcAddressArguments extends DryRunOptions {
+  usdc: string;
+  address: string;
+}
+
+export default async function updateUsdcAddress(
+  { usdc, address, ...options }: UpdateUsdcAddressArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connected = await connectWithRole(hre, address, ROLES.oracleAdmin);
+  const update = usdcAddressUpdate(parseAddress(usdc, "usdc"));
+
+  // Scheduled on the first run, executed on a run after the timelock delay
+  await dryRunAndSend(
+    connected,
+    await nextTimelockedCall(connected, update),
+    async (ionicDebtToken) => ({
+      usdcAddress: await ionicDebtToken.read.usdcAddress(),
+      ...(await readScheduledState(ionicDebtToken, update)),
+    }),
+    options
+  );
+}
@@ -0,0 +1,50 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { encodeFunctionData } from "viem";
+import {
+  connectWithRole,
+  DryRunOptions,
+  dryRunAndSend,
+  parseAddress,
+  parseUint,
+  readIonTokenState,
+} from "../../utils/admin.js";
+import { ROLES } from "../../utils/roles.js";
+
+interface WhitelistIonTokenArguments extends DryRunOptions {
+  ionToken: string;
+  numerator: string;
+  denominator: string;
+  address: string;
+}
+
+export default async function whitelistIonToken(
+  {
+    ionToken,
+    numerator,
+    denominator,
+    address,
+    ...options
+  }: WhitelistIonTokenArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connected = await connectWithRole(hre, address, ROLES.whitelistManager);
+  const args = [
+    parseAddress(ionToken, "ion-token"),
+    parseUint(numerator, "numerator"),
+    parseUint(denominator, "denominator"),
+  ] as const;
+
+  await dryRunAndSend(
+    connected,
+    {
+      data: encodeFunctionData({
+        abi: connected.ionicDebtToken.abi,
+        functionName: "whitelistIonToken",
+        args,
+      }),
+      description: `whitelistIonToken(${args.join(", ")})`,
+    },
+    (ionicDebtToken) => readIonTokenState(ionicDebtToken, args[0]),
+    options
+  );
+}
@@ -0,0 +1,62 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { encodeFunctionData } from "viem";
+import {
+  connectWithRole,
+  DryRunOptions,
+  dryRunAndSend,
+  parseAddress,
+  parseUint,
+  readIonTokenBalances,
+} from "../../utils/admin.js";
+import { ROLES } from "../../utils/roles.js";
+
+interface WithdrawIonTokensArguments extends DryRunOptions {
+  ionToken: string;
+  recipient: string;
+  amount: string;
+  address: string;
+}
+
+export default async function withdrawIonTokens(
+  {
+    ionToken,
+    recipient,
+    amount,
+    address,
+    ...options
+  }: WithdrawIonTokensArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  const connected = await connectWithRole(hre, address, ROLES.treasury);
+  const { abi } = connected.ionicDebtToken;
+  const token = parseAddress(ionToken, "ion-token");
+  const to = parseAddress(recipient, "recipient");
+
+  // Without an amount, the overload withdrawing the whole balance is called
+  const call =
+    amount === ""
+      ? {
+          data: encodeFunctionData({
+            abi,
+            functionName: "withdrawIonTokens",
+            args: [token, to],
+          }),
+          description: `withdrawIonTokens(${token}, ${to})`,
+        }
+      : {
+          data: encodeFunctionData({
+            abi,
+            functionName: "withdrawIonTokens",
+            args: [token, parseUint(amount, "amount"), to],
+          }),
+          description: `withdrawIonTokens(${token}, ${amount}, ${to})`,
+        };
+
+  await dryRunAndSend(
+    connected,
+    call,
+    (ionicDebtToken, publicClient) =>
+      readIonTokenBalances(publicClient, ionicDebtToken.address, token, to),
+    options
+  );
+}
@@ -0,0 +1,210 @@
+import { task } from "hardhat/config";
+
+/*
+ * Admin tasks for the deployed IonicDebtToken proxy. They send from the first
+ * account of the selected network, which must hold the role the call needs:
+ * once the Safe holds it, use scripts/export-safe-batch.ts instead.
+ *
+ * The whitelist, timelocked update and withdrawal tasks first run their call
+ * on a fork, print the state it changes (or the custom error it reverts with)
+ * and ask for confirmation before sending it. Timelocked updates are
+ * scheduled on a first run and executed on a run after the delay.
+ */
+
+const addressOption = {
+  name: "address",
+  description: "IonicDebtToken proxy (defaults to the Ignition deployment)",
+  defaultValue: "",
+};
+
+const forkUrlOption = {
+  name: "forkUrl",
+  description:
+    "RPC of the network to fork for the dry run (defaults to Mode mainnet's)",
+  defaultValue: "",
+};
+
+const yesFlag = {
+  name: "yes",
+  description: "Send after the dry run without asking for confirmation",
+};
+
+export const openClaimWindowTask = task(
+  "open-claim-window",
+  "Set the period during which IonicDebtToken can be minted"
+)
+  .addOption({
+    name: "start",
+    description: 'Unix timestamp minting opens at, or "now"',
+    defaultValue: "now",
+  })
+  .addOption({
+    name: "end",
+    description: "Unix timestamp minting closes at, 0 for no end",
+    defaultValue: "0",
+  })
+  .addOption(addressOption)
+  .setAction(import.meta.resolve("./actions/open-claim-window.js"))
+  .build();
+
+export const closeClaimWindowTask = task(
+  "close-claim-window",
+  "End the IonicDebtToken claim window"
+)
+  .addOption({
+    name: "at",
+    description: 'Unix timestamp minting closes at, or "now"',
+    defaultValue: "now",
+  })
+  .addOption(addressOption)
+  .setAction(import.meta.resolve("./actions/close-claim-window.js"))
+  .build();
+
+export const pauseMintingTask = task(
+  "pause-minting",
+  "Pause IonicDebtToken minting, globally or for one ionToken"
+)
+  .addOption({
+    name: "ionToken",
+    description: "Only pause this ionToken (defaults to every ionToken)",
+    defaultValue: "",
+  })
+  .addFlag({
+    name: "unpause",
+    description: "Unpause instead of pausing",
+  })
+  .addOption(addressOption)
+  .setAction(import.meta.resolve("./actions/pause-minting.js"))
+  .build();
+
+export const whitelistIonTokenTask = task(
+  "whitelist-ion-token",
+  "Whitelist an ionToken with its scale factor"
+)
+  .addOption({
+    name: "ionToken",
+    description: "ionToken to whitelist",
+    defaultValue: "",
+  })
+  .addOption({
+    name: "numerator",
+    description: "Scale factor numerator",
+    defaultValue: "",
+  })
+  .addOption({
+    name: "denominator",
+    description: "Scale factor denominator",
+    defaultValue: "",
+  })
+  .addOption(addressOption)
+  .addOption(forkUrlOption)
+  .addFlag(yesFlag)
+  .setAction(import.meta.resolve("./actions/whitelist-ion-token.js"))
+  .build();
+
+export const updateScaleFactorTask = task(
+  "update-scale-factor",
+  "Schedule, then execute, a scale factor update for a whitelisted ionToken"
+)
+  .addOption({
+    name: "ionToken",
+    description: "Whitelisted ionToken",
+    defaultValue: "",
+  })
+  .addOption({
+    name: "numerator",
+    description: "New scale factor numerator",
+    defaultValue: "",
+  })
+  .addOption({
+    name: "denominator",
+    description: "New scale factor denominator",
+    defaultValue: "",
+  })
+  .addOption(addressOption)
+  .addOption(forkUrlOption)
+  .addFlag(yesFlag)
+  .setAction(import.meta.resolve("./actions/update-scale-factor.js"))
+  .build();
+
+export const removeIonTokenTask = task(
+  "remove-ion-token",
+  "Remove an ionToken from the whitelist"
+)
+  .addOption({
+    name: "ionToken",
+    description: "ionToken to remove",
+    defaultValue: "",
+  })
+  .addOption(addressOption)
+  .addOption(forkUrlOption)
+  .addFlag(yesFlag)
+  .setAction(import.meta.resolve("./actions/remove-ion-token.js"))
+  .build();
+
+export const updateMasterPriceOracleTask = task(
+  "update-master-price-oracle",
+  "Schedule, then execute, a MasterPriceOracle update"
+)
+  .addOption({
+    name: "oracle",
+    description: "New MasterPriceOracle",
+    defaultValue: "",
+  })
+  .addOption(addressOption)
+  .addOption(forkUrlOption)
+  .addFlag(yesFlag)
+  .setAction(import.meta.resolve("./actions/update-master-price-oracle.js"))
+  .build();
+
+export const updateUsdcAddressTask = task(
+  "update-usdc-address",
+  "Schedule, then execute, a USDC address update"
+)
+  .addOption({
+    name: "usdc",
+    description: "New USDC address",
+    defaultValue: "",
+  })
+  .addOption(addressOption)
+  .addOption(forkUrlOption)
+  .addFlag(yesFlag)
+  .setAction(import.meta.resolve("./actions/update-usdc-address.js"))
+  .build();
+
+export const withdrawIonTokensTask = task(
+  "withdraw-ion-tokens",
+  "Withdraw collected ionTokens from IonicDebtToken"
+)
+  .addOption({
+    name: "ionToken",
+    description: "ionToken to withdraw",
+    defaultValue: "",
+  })
+  .addOption({
+    name: "recipient",
+    description: "Account to send them to",
+    defaultValue: "",
+  })
+  .addOption({
+    name: "amount",
+    description: "Amount to withdraw (defaults to the whole balance)",
+    defaultValue: "",
+  })
+  .addOption(addressOption)
+  .addOption(forkUrlOption)
+  .addFlag(yesFlag)
+  .setAction(import.meta.resolve("./actions/withdraw-ion-tokens.js"))
+  .build();
+
+export const tasks = [
+  openClaimWindowTask,
+  closeClaimWindowTask,
+  pauseMintingTask,
+  whitelistIonTokenTask,
+  updateScaleFactorTask,
+  removeIonTokenTask,
+  updateMasterPriceOracleTask,
+  updateUsdcAddressTask,
+  withdrawIonTokensTask,
+];
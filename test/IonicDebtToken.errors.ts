@@ -0,0 +1,1305 @@
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import assert from "node:assert/strict";
+import { Address, getAddress, parseUnits, zeroAddress, zeroHash } from "viem";
+import { buildIonicDebtTokenModule } from "../ignition/modules/IonicDebtToken.js";
+import { buildMerkleClaims } from "../utils/merkle.js";
+import { DEFAULT_ADMIN_ROLE, RoleName, ROLES } from "../utils/roles.js";
+import {
+  masterPriceOracleUpdate,
+  scaleFactorUpdate,
+  timelockDelayUpdate,
+} from "../utils/timelock.js";
+import { scaleFactorFor, valueMint } from "../utils/valuation.js";
+import {
+  deployModeMainnetMocks,
+  priceInEth,
+} from "./fixtures/mode-mainnet-mocks.js";
+import { assertRevertsWith } from "./helpers/reverts.js";
+
+/*
+ * Every revert path and access-control check of IonicDebtToken, asserted by
+ * custom error and arguments, against mocks on a local network without forking
+ */
+describe("IonicDebtToken Errors (Offline)", async function () {
+  const connection = await network.connect("hardhatOffline");
+  const { viem, ignition, networkHelpers } = connection;
+  const [walletClient, userClient] = await viem.getWalletClients();
+  const owner = getAddress(walletClient.account.address);
+  const user = getAddress(userClient.account.address);
+  const asUser = { account: userClient.account };
+
+  const TIMELOCK_DELAY = 2n * 24n * 60n * 60n;
+
+  // The deployer holds every role, and changes go through a timelock delay
+  async function deployFixture() {
+    const mocks = await deployModeMainnetMocks(connection);
+    const deployment = await ignition.deploy(
+      buildIonicDebtTokenModule({
+        ...mocks.networkConfig,
+        timelockDelay: TIMELOCK_DELAY,
+      })
+    );
+    return { ...mocks, ...deployment, market: mocks.markets[0] };
+  }
+
+  type Fixture = Awaited<ReturnType<typeof deployFixture>>;
+
+  // The user holds ionTokens of the first market, approved for minting
+  async function deployWithApprovalFixture() {
+    const deployment = await deployFixture();
+    const { ionicDebtToken, market } = deployment;
+    const amount = parseUnits("10", market.tokenConfig.decimals);
+
+    await market.ionToken.write.mint([user, amount]);
+    await market.ionToken.write.approve([ionicDebtToken.address, amount], {
+      account: userClient.account,
+    });
+
+    return { ...deployment, amount };
+  }
+
+  // The user minted dION with ionTokens of the first market
+  async function deployWithMintFixture() {
+    const deployment = await deployWithApprovalFixture();
+    const { ionicDebtToken, market, amount } = deployment;
+
+    await ionicDebtToken.write.mint([market.ionToken.address, amount], {
+      account: userClient.account,
+    });
+
+    return {
+      ...deployment,
+      supply: await ionicDebtToken.read.totalSupply(),
+    };
+  }
+
+  async function fundRound(
+    { ionicDebtToken, usdc }: Fixture,
+    amount: bigint,
+    kind: number
+  ) {
+    await usdc.write.mint([owner, amount]);
+    await usdc.write.approve([ionicDebtToken.address, amount]);
+    await ionicDebtToken.write.fundRedemptionRound([amount, kind]);
+  }
+
+  describe("Access Control", () => {
+    const ROLE_GATED_CALLS: {
+      name: string;
+      role: RoleName | "default admin";
+      call: (fixture: Fixture) => Promise<unknown>;
+    }[] = [
+      {
+        name: "whitelistIonToken",
+        role: "whitelistManager",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.whitelistIonToken([user, 1n, 1n], asUser),
+      },
+      {
+        name: "scheduleScaleFactorUpdate",
+        role: "whitelistManager",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.scheduleScaleFactorUpdate(
+            [market.ionToken.address, 1n, 1n],
+            asUser
+          ),
+      },
+      {
+        name: "updateScaleFactor",
+        role: "whitelistManager",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.updateScaleFactor(
+            [market.ionToken.address, 1n, 1n],
+            asUser
+          ),
+      },
+      {
+        name: "removeIonToken",
+        role: "whitelistManager",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.removeIonToken(
+            [market.ionToken.address],
+            asUser
+          ),
+      },
+      {
+        name: "setIonTokenMintCap",
+        role: "whitelistManager",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.setIonTokenMintCap(
+            [market.ionToken.address, 1n],
+            asUser
+          ),
+      },
+      {
+        name: "setGlobalMintCap",
+        role: "whitelistManager",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.setGlobalMintCap([1n], asUser),
+      },
+      {
+        name: "scheduleMasterPriceOracleUpdate",
+        role: "oracleAdmin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.scheduleMasterPriceOracleUpdate([user], asUser),
+      },
+      {
+        name: "updateMasterPriceOracle",
+        role: "oracleAdmin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.updateMasterPriceOracle([user], asUser),
+      },
+      {
+        name: "scheduleUsdcAddressUpdate",
+        role: "oracleAdmin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.scheduleUsdcAddressUpdate([user], asUser),
+      },
+      {
+        name: "updateUsdcAddress",
+        role: "oracleAdmin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.updateUsdcAddress([user], asUser),
+      },
+      {
+        name: "setPriceGuard",
+        role: "oracleAdmin",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.setPriceGuard(
+            [market.underlying.address, 0n, 0n, 0n, 0n],
+            asUser
+          ),
+      },
+      {
+        name: "setUsdcPegBand",
+        role: "oracleAdmin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.setUsdcPegBand([zeroAddress, 0n], asUser),
+      },
+      {
+        name: "withdrawIonTokens(ionToken, amount, recipient)",
+        role: "treasury",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.withdrawIonTokens(
+            [market.ionToken.address, 1n, user],
+            asUser
+          ),
+      },
+      {
+        name: "withdrawIonTokens(ionToken, recipient)",
+        role: "treasury",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.withdrawIonTokens(
+            [market.ionToken.address, user],
+            asUser
+          ),
+      },
+      {
+        name: "redeemIonTokens",
+        role: "treasury",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.redeemIonTokens(
+            [market.ionToken.address, 0n, user],
+            asUser
+          ),
+      },
+      {
+        name: "fundRedemptionRound",
+        role: "treasury",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.fundRedemptionRound([1n, 0], asUser),
+      },
+      {
+        name: "closeRedemptionRounds",
+        role: "treasury",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.closeRedemptionRounds(asUser),
+      },
+      {
+        name: "upgradeToAndCall",
+        role: "upgrader",
+        call: ({ ionicDebtToken, implementation }) =>
+          ionicDebtToken.write.upgradeToAndCall(
+            [implementation.address, "0x"],
+            asUser
+          ),
+      },
+      {
+        name: "scheduleTimelockDelayUpdate",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.scheduleTimelockDelayUpdate([0n], asUser),
+      },
+      {
+        name: "updateTimelockDelay",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.updateTimelockDelay([0n], asUser),
+      },
+      {
+        name: "cancelScheduledChange",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.cancelScheduledChange([zeroHash], asUser),
+      },
+      {
+        name: "setClaimWindow",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.setClaimWindow([0n, 0n], asUser),
+      },
+      {
+        name: "setMintingPaused",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.setMintingPaused([true], asUser),
+      },
+      {
+        name: "setIonTokenMintingPaused",
+        role: "default admin",
+        call: ({ ionicDebtToken, market }) =>
+          ionicDebtToken.write.setIonTokenMintingPaused(
+            [market.ionToken.address, true],
+            asUser
+          ),
+      },
+      {
+        name: "setBlocklisted",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.setBlocklisted([[user], true], asUser),
+      },
+      {
+        name: "setMerkleRoot",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.setMerkleRoot([zeroHash], asUser),
+      },
+      {
+        name: "grantRole",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.grantRole([ROLES.treasury, user], asUser),
+      },
+      {
+        name: "revokeRole",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.revokeRole([ROLES.treasury, owner], asUser),
+      },
+      {
+        name: "beginDefaultAdminTransfer",
+        role: "default admin",
+        call: ({ ionicDebtToken }) =>
+          ionicDebtToken.write.beginDefaultAdminTransfer([user], asUser),
+      },
+    ];
+
+    for (const { name, role, call } of ROLE_GATED_CALLS) {
+      it(`should only let the ${role} call ${name}`, async () => {
+        const fixture = await networkHelpers.loadFixture(deployFixture);
+
+        await assertRevertsWith(
+          call(fixture),
+          "AccessControlUnauthorizedAccount",
+          [user, role === "default admin" ? DEFAULT_ADMIN_ROLE : ROLES[role]]
+        );
+      });
+    }
+
+    it("should enforce the default admin rules", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.grantRole([DEFAULT_ADMIN_ROLE, user]),
+        "AccessControlEnforcedDefaultAdminRules",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.renounceRole([ROLES.treasury, user]),
+        "AccessControlBadConfirmation",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.acceptDefaultAdminTransfer(asUser),
+        "AccessControlInvalidDefaultAdmin",
+        [user]
+      );
+    });
+  });
+
+  describe("Initialization", () => {
+    it("should not initialize the proxy again", async () => {
+      const { ionicDebtToken, networkConfig } =
+        await networkHelpers.loadFixture(deployFixture);
+
+      // The arguments the Ignition module encodes into the proxy's constructor
+      const initializeArgs: readonly [Address, Address, Address] = [
+        owner,
+        networkConfig.masterPriceOracleAddress,
+        networkConfig.usdcAddress,
+      ];
+
+      await assertRevertsWith(
+        ionicDebtToken.write.initialize(initializeArgs, {
+          account: walletClient.account,
+        }),
+        "InvalidInitialization",
+        []
+      );
+    });
+
+    it("should reject a zero oracle or USDC address", async () => {
+      const { networkConfig } = await networkHelpers.loadFixture(deployFixture);
+      const implementation = await viem.deployContract("IonicDebtToken");
+
+      await assertRevertsWith(
+        implementation.write.initialize([
+          owner,
+          zeroAddress,
+          networkConfig.usdcAddress,
+        ]),
+        "InvalidMasterPriceOracle",
+        []
+      );
+      await assertRevertsWith(
+        implementation.write.initialize([
+          owner,
+          networkConfig.masterPriceOracleAddress,
+          zeroAddress,
+        ]),
+        "InvalidUsdcAddress",
+        []
+      );
+    });
+
+    it("should only migrate deployments with an Ownable owner", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.initializeV2([owner, owner, owner, owner, 0n]),
+        "LegacyOwnerNotSet",
+        []
+      );
+    });
+
+    it("should validate the roles and delay of a migration", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const maxDelay = await ionicDebtToken.read.MAX_TIMELOCK_DELAY();
+
+      // Storage of OwnableUpgradeable, as left by the first version
+      await networkHelpers.setStorageAt(
+        ionicDebtToken.address,
+        "0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300",
+        BigInt(owner)
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.initializeV2([
+          owner,
+          zeroAddress,
+          owner,
+          owner,
+          0n,
+        ]),
+        "ZeroAddress",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.initializeV2([
+          owner,
+          owner,
+          owner,
+          owner,
+          maxDelay + 1n,
+        ]),
+        "InvalidTimelockDelay",
+        [maxDelay + 1n]
+      );
+    });
+
+    it("should only let the Ownable owner migrate outside of an upgrade", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await networkHelpers.setStorageAt(
+        ionicDebtToken.address,
+        "0x9016d09d72d40fdae2fd8ceac6b6234c7706214fd39c1cd1e609a0528c199300",
+        BigInt(owner)
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.initializeV2([user, user, user, user, 0n], asUser),
+        "UnauthorizedMigration",
+        [user]
+      );
+    });
+
+    it("should only register whitelisted ionTokens on upgrade", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.initializeV3([[user]]),
+        "IonTokenNotWhitelisted",
+        [user]
+      );
+    });
+
+    it("should only let the default admin register ionTokens outside of an upgrade", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.initializeV3([[]], asUser),
+        "UnauthorizedMigration",
+        [user]
+      );
+    });
+
+    it("should only upgrade through the proxy", async () => {
+      const { implementation } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        implementation.write.upgradeToAndCall([implementation.address, "0x"]),
+        "UUPSUnauthorizedCallContext",
+        []
+      );
+    });
+  });
+
+  describe("Whitelist", () => {
+    it("should validate whitelisted ionTokens and their scale factors", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([zeroAddress, 1n, 1n]),
+        "ZeroAddress",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([user, 1n, 0n]),
+        "ZeroDenominator",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([user, 2n, 1n]),
+        "InvalidScaleFactorRange",
+        [2n, 1n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([
+          market.ionToken.address,
+          1n,
+          1n,
+        ]),
+        "IonTokenAlreadyWhitelisted",
+        [market.ionToken.address]
+      );
+    });
+
+    it("should only remove and cap whitelisted ionTokens", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.removeIonToken([user]),
+        "IonTokenNotWhitelisted",
+        [user]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.setIonTokenMintCap([user, 1n]),
+        "IonTokenNotWhitelisted",
+        [user]
+      );
+    });
+
+    it("should not change the scale factor of a removed ionToken without the timelock", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const ionToken = market.ionToken.address;
+      const previous = await ionicDebtToken.read.ionTokenScaleFactors([
+        ionToken,
+      ]);
+      const args = [ionToken, 1n, 1n] as const;
+      const { changeId } = scaleFactorUpdate(...args);
+
+      await ionicDebtToken.write.removeIonToken([ionToken]);
+      assert.deepEqual(
+        await ionicDebtToken.read.ionTokenScaleFactors([ionToken]),
+        previous
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken(args),
+        "ChangeNotScheduled",
+        [changeId]
+      );
+
+      await ionicDebtToken.write.scheduleScaleFactorUpdate(args);
+      const readyAt = await ionicDebtToken.read.scheduledChanges([changeId]);
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken(args),
+        "ChangeNotReady",
+        [changeId, readyAt]
+      );
+
+      await networkHelpers.time.increaseTo(readyAt);
+      await ionicDebtToken.write.whitelistIonToken(args);
+      assert.deepEqual(
+        await ionicDebtToken.read.ionTokenScaleFactors([ionToken]),
+        [1n, 1n]
+      );
+    });
+
+    it("should whitelist a removed ionToken again with its scale factor at once", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const ionToken = market.ionToken.address;
+      const [numerator, denominator] =
+        await ionicDebtToken.read.ionTokenScaleFactors([ionToken]);
+
+      await ionicDebtToken.write.removeIonToken([ionToken]);
+      await ionicDebtToken.write.whitelistIonToken([
+        ionToken,
+        numerator,
+        denominator,
+      ]);
+
+      assert.equal(
+        await ionicDebtToken.read.whitelistedIonTokens([ionToken]),
+        true
+      );
+    });
+  });
+
+  describe("Timelock", () => {
+    it("should validate scale factor updates when scheduling and executing them", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const ionToken = market.ionToken.address;
+
+      for (const update of [
+        (args: readonly [Address, bigint, bigint]) =>
+          ionicDebtToken.write.scheduleScaleFactorUpdate(args),
+        (args: readonly [Address, bigint, bigint]) =>
+          ionicDebtToken.write.updateScaleFactor(args),
+      ]) {
+        await assertRevertsWith(
+          update([user, 1n, 1n]),
+          "IonTokenNotWhitelisted",
+          [user]
+        );
+        await assertRevertsWith(
+          update([ionToken, 1n, 0n]),
+          "ZeroDenominator",
+          []
+        );
+        await assertRevertsWith(
+          update([ionToken, 2n, 1n]),
+          "InvalidScaleFactorRange",
+          [2n, 1n]
+        );
+      }
+    });
+
+    it("should only execute scheduled changes once their delay has passed", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const args = [market.ionToken.address, 1n, 2n] as const;
+      const { changeId } = scaleFactorUpdate(...args);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.updateScaleFactor(args),
+        "ChangeNotScheduled",
+        [changeId]
+      );
+
+      await ionicDebtToken.write.scheduleScaleFactorUpdate(args);
+      const readyAt = await ionicDebtToken.read.scheduledChanges([changeId]);
+      await assertRevertsWith(
+        ionicDebtToken.write.updateScaleFactor(args),
+        "ChangeNotReady",
+        [changeId, readyAt]
+      );
+    });
+
+    it("should validate oracle and USDC updates", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.scheduleMasterPriceOracleUpdate([zeroAddress]),
+        "InvalidMasterPriceOracle",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.updateMasterPriceOracle([zeroAddress]),
+        "InvalidMasterPriceOracle",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.updateMasterPriceOracle([user]),
+        "ChangeNotScheduled",
+        [masterPriceOracleUpdate(user).changeId]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.scheduleUsdcAddressUpdate([zeroAddress]),
+        "InvalidUsdcAddress",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.updateUsdcAddress([zeroAddress]),
+        "InvalidUsdcAddress",
+        []
+      );
+    });
+
+    it("should validate timelock delay updates and cancellations", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const maxDelay = await ionicDebtToken.read.MAX_TIMELOCK_DELAY();
+
+      await assertRevertsWith(
+        ionicDebtToken.write.scheduleTimelockDelayUpdate([maxDelay + 1n]),
+        "InvalidTimelockDelay",
+        [maxDelay + 1n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.updateTimelockDelay([1n]),
+        "ChangeNotScheduled",
+        [timelockDelayUpdate(1n).changeId]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.cancelScheduledChange([zeroHash]),
+        "ChangeNotScheduled",
+        [zeroHash]
+      );
+    });
+  });
+
+  describe("Admin Settings", () => {
+    it("should validate price guards and the USDC peg band", async () => {
+      const { ionicDebtToken, market, markets } =
+        await networkHelpers.loadFixture(deployFixture);
+      const token = market.underlying.address;
+      const usdt = markets.find((market) => market.underlyingSymbol === "USDT")!
+        .underlying.address;
+
+      await assertRevertsWith(
+        ionicDebtToken.write.setPriceGuard([zeroAddress, 0n, 0n, 0n, 0n]),
+        "ZeroAddress",
+        []
+      );
+      // Minimum above the maximum, deviation above 100%, reference without deviation
+      for (const guard of [
+        [2n, 1n, 0n, 0n],
+        [0n, 0n, 1n, 10_001n],
+        [0n, 0n, 1n, 0n],
+      ] as const) {
+        await assertRevertsWith(
+          ionicDebtToken.write.setPriceGuard([token, ...guard]),
+          "InvalidPriceGuard",
+          [token]
+        );
+      }
+
+      await assertRevertsWith(
+        ionicDebtToken.write.setUsdcPegBand([usdt, 0n]),
+        "InvalidPriceGuard",
+        [usdt]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.setUsdcPegBand([usdt, 10_001n]),
+        "InvalidPriceGuard",
+        [usdt]
+      );
+    });
+
+    it("should validate the claim window, pauses and blocklist", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.setClaimWindow([10n, 5n]),
+        "InvalidClaimWindow",
+        [10n, 5n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.setIonTokenMintingPaused([zeroAddress, true]),
+        "ZeroAddress",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.setBlocklisted([[user, zeroAddress], true]),
+        "ZeroAddress",
+        []
+      );
+    });
+  });
+
+  describe("Minting", () => {
+    it("should only value positive amounts of whitelisted ionTokens", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([user, 1n]),
+        "IonTokenNotWhitelisted",
+        [user]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([market.ionToken.address, 0n]),
+        "ZeroAmount",
+        []
+      );
+    });
+
+    it("should refuse oracle prices that fail their guard", async () => {
+      const { ionicDebtToken, oracle, market } =
+        await networkHelpers.loadFixture(deployFixture);
+      const token = market.underlying.address;
+      const preview = () =>
+        ionicDebtToken.read.previewMint([market.ionToken.address, 1n]);
+      const price = await oracle.read.price([token]);
+
+      await ionicDebtToken.write.setPriceGuard([token, price + 1n, 0n, 0n, 0n]);
+      await assertRevertsWith(preview(), "OraclePriceOutOfBounds", [
+        token,
+        price,
+        price + 1n,
+        0n,
+      ]);
+
+      await ionicDebtToken.write.setPriceGuard([token, 0n, price - 1n, 0n, 0n]);
+      await assertRevertsWith(preview(), "OraclePriceOutOfBounds", [
+        token,
+        price,
+        0n,
+        price - 1n,
+      ]);
+
+      await ionicDebtToken.write.setPriceGuard([
+        token,
+        0n,
+        0n,
+        price * 2n,
+        100n,
+      ]);
+      await assertRevertsWith(preview(), "OraclePriceDeviation", [
+        token,
+        price,
+        price * 2n,
+        100n,
+      ]);
+
+      await ionicDebtToken.write.setPriceGuard([token, 0n, 0n, 0n, 0n]);
+      await oracle.write.setPrice([token, 0n]);
+      await assertRevertsWith(preview(), "InvalidOraclePrice", [token, 0n]);
+    });
+
+    it("should refuse to value mints while USDC is off its peg", async () => {
+      const { ionicDebtToken, oracle, usdc, market, markets } =
+        await networkHelpers.loadFixture(deployFixture);
+      const usdt = markets.find((market) => market.underlyingSymbol === "USDT")!
+        .underlying.address;
+      const preview = () =>
+        ionicDebtToken.read.previewMint([market.ionToken.address, 1n]);
+
+      await ionicDebtToken.write.setUsdcPegBand([usdt, 200n]);
+
+      // USDC at $0.97 against USDT at $1
+      const usdcPrice = (priceInEth(1n) * 97n) / 100n;
+      await oracle.write.setPrice([usdc.address, usdcPrice]);
+      await assertRevertsWith(preview(), "UsdcDepegged", [
+        usdcPrice,
+        priceInEth(1n),
+      ]);
+
+      await oracle.write.setPrice([usdt, 0n]);
+      await assertRevertsWith(preview(), "InvalidOraclePrice", [usdt, 0n]);
+    });
+
+    it("should reject mints above the ionToken's and the global cap", async () => {
+      const { ionicDebtToken, market, amount } =
+        await networkHelpers.loadFixture(deployWithApprovalFixture);
+      const scaleFactor = scaleFactorFor(market.tokenConfig);
+      const { underlyingAmount, tokensToMint } = valueMint({
+        amount,
+        exchangeRate: market.exchangeRate,
+        underlyingDecimals: market.underlyingDecimals,
+        underlyingPrice: priceInEth(market.priceInUsd),
+        usdcPrice: priceInEth(1n),
+        scaleFactor,
+      });
+
+      await ionicDebtToken.write.setIonTokenMintCap([
+        market.ionToken.address,
+        1n,
+      ]);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, amount], asUser),
+        "IonTokenMintCapExceeded",
+        [
+          market.ionToken.address,
+          (underlyingAmount * scaleFactor.numerator) / scaleFactor.denominator,
+          1n,
+        ]
+      );
+
+      await ionicDebtToken.write.setIonTokenMintCap([
+        market.ionToken.address,
+        0n,
+      ]);
+      await ionicDebtToken.write.setGlobalMintCap([1n]);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, amount], asUser),
+        "GlobalMintCapExceeded",
+        [tokensToMint, 1n]
+      );
+    });
+
+    it("should reject mints while paused, outside the claim window or from blocklisted accounts", async () => {
+      const { ionicDebtToken, market, amount } =
+        await networkHelpers.loadFixture(deployWithApprovalFixture);
+      const mint = () =>
+        ionicDebtToken.write.mint([market.ionToken.address, amount], asUser);
+
+      await ionicDebtToken.write.setMintingPaused([true]);
+      await assertRevertsWith(mint(), "MintingPaused", []);
+      await ionicDebtToken.write.setMintingPaused([false]);
+
+      await ionicDebtToken.write.setIonTokenMintingPaused([
+        market.ionToken.address,
+        true,
+      ]);
+      await assertRevertsWith(mint(), "IonTokenMintingPaused", [
+        market.ionToken.address,
+      ]);
+      await ionicDebtToken.write.setIonTokenMintingPaused([
+        market.ionToken.address,
+        false,
+      ]);
+
+      const now = BigInt(await networkHelpers.time.latest());
+      await ionicDebtToken.write.setClaimWindow([now + 86400n, 0n]);
+      await assertRevertsWith(mint(), "ClaimWindowNotOpen", [now + 86400n]);
+      await ionicDebtToken.write.setClaimWindow([0n, now]);
+      await assertRevertsWith(mint(), "ClaimWindowClosed", [now]);
+      await ionicDebtToken.write.setClaimWindow([0n, 0n]);
+
+      await ionicDebtToken.write.setBlocklisted([[user], true]);
+      await assertRevertsWith(mint(), "AccountBlocklisted", [user]);
+    });
+
+    it("should reject mints whose ionTokens cannot be taken", async () => {
+      const { ionicDebtToken, market, markets } =
+        await networkHelpers.loadFixture(deployFixture);
+      const amount = parseUnits("1", market.tokenConfig.decimals);
+
+      // Not approved, with or without a permit
+      const unapproved = markets[1].ionToken;
+      await unapproved.write.mint([user, amount]);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([unapproved.address, amount], asUser),
+        "ERC20InsufficientAllowance",
+        [ionicDebtToken.address, 0n, amount]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.mintWithPermit(
+          [unapproved.address, amount, 0n, 27, zeroHash, zeroHash],
+          asUser
+        ),
+        "ERC20InsufficientAllowance",
+        [ionicDebtToken.address, 0n, amount]
+      );
+
+      // transferFrom returning false
+      const failing = await viem.deployContract("MockFailingIonToken", [
+        "Failing",
+        "FAIL",
+        market.underlying.address,
+        market.exchangeRate,
+        market.tokenConfig.decimals,
+      ]);
+      await ionicDebtToken.write.whitelistIonToken([failing.address, 1n, 1n]);
+      await failing.write.mint([user, amount]);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([failing.address, amount], asUser),
+        "TransferFailed",
+        [failing.address, user, ionicDebtToken.address, amount]
+      );
+    });
+
+    it("should validate batches", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.mintBatch([[market.ionToken.address], []]),
+        "ArrayLengthMismatch",
+        [1n, 0n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.mintBatch([[], []]),
+        "ZeroAmount",
+        []
+      );
+    });
+  });
+
+  describe("Merkle Claims", () => {
+    it("should only mint valid, unclaimed entitlements", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const amount = parseUnits("100", 18);
+      const { root, claims } = buildMerkleClaims([
+        { account: user, amount },
+        { account: owner, amount: 1n },
+      ]);
+      const { proof } = claims[user];
+
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([amount, proof], asUser),
+        "MerkleRootNotSet",
+        []
+      );
+
+      await ionicDebtToken.write.setMerkleRoot([root]);
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([0n, proof], asUser),
+        "ZeroAmount",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([amount + 1n, proof], asUser),
+        "InvalidMerkleProof",
+        [user, amount + 1n]
+      );
+
+      await ionicDebtToken.write.setGlobalMintCap([1n]);
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([amount, proof], asUser),
+        "GlobalMintCapExceeded",
+        [amount, 1n]
+      );
+      await ionicDebtToken.write.setGlobalMintCap([0n]);
+
+      await ionicDebtToken.write.claimFromMerkle([amount, proof], asUser);
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([amount, proof], asUser),
+        "MerkleAlreadyClaimed",
+        [root, user]
+      );
+    });
+  });
+
+  describe("Withdrawals", () => {
+    it("should withdraw an amount, then the rest, with the two overloads", async () => {
+      const { ionicDebtToken, market, amount } =
+        await networkHelpers.loadFixture(deployWithMintFixture);
+
+      await ionicDebtToken.write.withdrawIonTokens([
+        market.ionToken.address,
+        amount / 4n,
+        owner,
+      ]);
+      assert.equal(await market.ionToken.read.balanceOf([owner]), amount / 4n);
+
+      await ionicDebtToken.write.withdrawIonTokens([
+        market.ionToken.address,
+        owner,
+      ]);
+      assert.equal(await market.ionToken.read.balanceOf([owner]), amount);
+      assert.equal(
+        await market.ionToken.read.balanceOf([ionicDebtToken.address]),
+        0n
+      );
+    });
+
+    it("should reject zero addresses with either overload", async () => {
+      const { ionicDebtToken, market } = await networkHelpers.loadFixture(
+        deployWithMintFixture
+      );
+      const ionToken = market.ionToken.address;
+
+      for (const withdraw of [
+        () => ionicDebtToken.write.withdrawIonTokens([zeroAddress, 1n, owner]),
+        () =>
+          ionicDebtToken.write.withdrawIonTokens([ionToken, 1n, zeroAddress]),
+        () => ionicDebtToken.write.withdrawIonTokens([zeroAddress, owner]),
+        () => ionicDebtToken.write.withdrawIonTokens([ionToken, zeroAddress]),
+      ]) {
+        await assertRevertsWith(withdraw(), "ZeroAddress", []);
+      }
+    });
+
+    it("should reject withdrawals above the balance", async () => {
+      const { ionicDebtToken, market, amount } =
+        await networkHelpers.loadFixture(deployWithMintFixture);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([
+          market.ionToken.address,
+          amount + 1n,
+          owner,
+        ]),
+        "InsufficientBalance",
+        [market.ionToken.address, amount + 1n, amount]
+      );
+    });
+  });
+
+  describe("Redeeming ionTokens", () => {
+    it("should validate redemptions of collected ionTokens", async () => {
+      const { ionicDebtToken, market, markets, amount } =
+        await networkHelpers.loadFixture(deployWithMintFixture);
+      const ionToken = market.ionToken.address;
+
+      await assertRevertsWith(
+        ionicDebtToken.write.redeemIonTokens([zeroAddress, 0n, owner]),
+        "ZeroAddress",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.redeemIonTokens([ionToken, 0n, zeroAddress]),
+        "ZeroAddress",
+        []
+      );
+      // Nothing collected of the second market
+      await assertRevertsWith(
+        ionicDebtToken.write.redeemIonTokens([
+          markets[1].ionToken.address,
+          0n,
+          owner,
+        ]),
+        "ZeroAmount",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.redeemIonTokens([ionToken, amount + 1n, owner]),
+        "InsufficientBalance",
+        [ionToken, amount + 1n, amount]
+      );
+      // The market holds no cash
+      await assertRevertsWith(
+        ionicDebtToken.write.redeemIonTokens([ionToken, 0n, owner]),
+        "InsufficientLiquidity",
+        [ionToken, amount]
+      );
+    });
+  });
+
+  describe("Redemptions", () => {
+    it("should only fund rounds with USDC for existing dION", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.fundRedemptionRound([0n, 0]),
+        "ZeroAmount",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.fundRedemptionRound([1n, 0]),
+        "NoDionSupply",
+        []
+      );
+    });
+
+    it("should only take approved USDC", async () => {
+      const { ionicDebtToken, usdc } = await networkHelpers.loadFixture(
+        deployWithMintFixture
+      );
+      await usdc.write.mint([owner, 1n]);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.fundRedemptionRound([1n, 0]),
+        "ERC20InsufficientAllowance",
+        [ionicDebtToken.address, 0n, 1n]
+      );
+    });
+
+    it("should only redeem within burn rounds", async () => {
+      const fixture = await networkHelpers.loadFixture(deployWithMintFixture);
+      const { ionicDebtToken, supply } = fixture;
+
+      await assertRevertsWith(
+        ionicDebtToken.read.previewRedeem([0n, 1n]),
+        "InvalidRedemptionRound",
+        [0n]
+      );
+
+      // Round 0 is partial, round 1 burns
+      await fundRound(fixture, parseUnits("100", 6), 1);
+      await fundRound(fixture, parseUnits("100", 6), 0);
+      await assertRevertsWith(
+        ionicDebtToken.write.redeem([0n, 1n], asUser),
+        "InvalidRedemptionRound",
+        [0n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.redeem([1n, 0n], asUser),
+        "ZeroAmount",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.redeem([1n, supply + 1n], asUser),
+        "RedemptionExceedsRound",
+        [1n, supply + 1n, supply]
+      );
+    });
+
+    it("should not burn against rounds funded while the sender was blocklisted", async () => {
+      const fixture = await networkHelpers.loadFixture(deployWithMintFixture);
+      const { ionicDebtToken, supply } = fixture;
+
+      // The round is shared with the owner's quarter alone
+      await ionicDebtToken.write.transfer([owner, supply / 4n], asUser);
+      await ionicDebtToken.write.setBlocklisted([[user], true]);
+      await fundRound(fixture, parseUnits("100", 6), 0);
+      await ionicDebtToken.write.setBlocklisted([[user], false]);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.redeem([0n, 1n], asUser),
+        "ExcludedFromRedemptionRound",
+        [0n, user]
+      );
+      assert.equal(
+        await ionicDebtToken.read.isExcludedFromRedemptionRound([0n, owner]),
+        false
+      );
+    });
+
+    it("should only pay partial redemptions that accrued to allowed accounts", async () => {
+      const fixture = await networkHelpers.loadFixture(deployWithMintFixture);
+      const { ionicDebtToken } = fixture;
+
+      await assertRevertsWith(
+        ionicDebtToken.write.claimPartialRedemption(asUser),
+        "ZeroAmount",
+        []
+      );
+
+      await fundRound(fixture, parseUnits("100", 6), 1);
+      await ionicDebtToken.write.setBlocklisted([[user], true]);
+      await assertRevertsWith(
+        ionicDebtToken.write.claimPartialRedemption(asUser),
+        "AccountBlocklisted",
+        [user]
+      );
+    });
+
+    it("should only close open rounds, and not redeem closed ones", async () => {
+      const fixture = await networkHelpers.loadFixture(deployWithMintFixture);
+      const { ionicDebtToken } = fixture;
+
+      await assertRevertsWith(
+        ionicDebtToken.write.closeRedemptionRounds(),
+        "NoOpenRedemptionRounds",
+        []
+      );
+
+      await fundRound(fixture, parseUnits("100", 6), 0);
+      await ionicDebtToken.write.closeRedemptionRounds();
+      await assertRevertsWith(
+        ionicDebtToken.write.redeem([0n, 1n], asUser),
+        "RedemptionRoundClosed",
+        [0n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.closeRedemptionRounds(),
+        "NoOpenRedemptionRounds",
+        []
+      );
+    });
+
+    it("should keep the USDC owed to redemptions", async () => {
+      const fixture = await networkHelpers.loadFixture(deployWithMintFixture);
+      const { ionicDebtToken, usdc } = fixture;
+      const roundAmount = parseUnits("100", 6);
+      await fundRound(fixture, roundAmount, 0);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.updateUsdcAddress([user]),
+        "RedemptionFundsOutstanding",
+        [roundAmount]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([usdc.address, 1n, owner]),
+        "InsufficientBalance",
+        [usdc.address, 1n, 0n]
+      );
+    });
+  });
+
+  describe("dION Transfers", () => {
+    it("should reject transfers from and to blocklisted accounts", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployWithMintFixture
+      );
+
+      await ionicDebtToken.write.setBlocklisted([[owner], true]);
+      await assertRevertsWith(
+        ionicDebtToken.write.transfer([owner, 1n], asUser),
+        "AccountBlocklisted",
+        [owner]
+      );
+
+      await ionicDebtToken.write.setBlocklisted([[owner], false]);
+      await ionicDebtToken.write.setBlocklisted([[user], true]);
+      await assertRevertsWith(
+        ionicDebtToken.write.transfer([owner, 1n], asUser),
+        "AccountBlocklisted",
+        [user]
+      );
+    });
+
+    it("should reject transfers beyond balances and allowances", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployWithMintFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.transfer([user, 1n]),
+        "ERC20InsufficientBalance",
+        [owner, 0n, 1n]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.transfer([zeroAddress, 1n], asUser),
+        "ERC20InvalidReceiver",
+        [zeroAddress]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.transferFrom([user, owner, 1n]),
+        "ERC20InsufficientAllowance",
+        [owner, 0n, 1n]
+      );
+    });
+  });
+});
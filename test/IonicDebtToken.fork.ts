@@ -1,32 +1,83 @@
 import { describe, it, beforeEach } from "node:test";
 import { network } from "hardhat";
 import assert from "node:assert/strict";
-import { formatUnits, getAddress } from "viem";
+import {
+  erc20Abi,
+  formatUnits,
+  getAddress,
+  parseUnits,
+  zeroAddress,
+} from "viem";
 import IonicDebtTokenModule from "../ignition/modules/IonicDebtToken.js";
+import IonicDebtTokenUpgradeModule from "../ignition/modules/IonicDebtTokenUpgrade.js";
+import {
+  executeClaimPlan,
+  fetchHoldings,
+  planClaim,
+} from "../utils/claim-path.js";
+import { getProxyImplementation } from "../utils/proxy.js";
+import { ROLES } from "../utils/roles.js";
 import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
+import { FORK_TESTS_ENABLED } from "../utils/constants.js";
+import { DION_DECIMALS } from "../utils/valuation.js";
+import { assertRevertsWith } from "./helpers/reverts.js";
 
 const ION_USDC = "0x2BE717340023C9e14C1Bb12cb3ecBcfd3c3fB038";
 
+// The fork suite needs the Mode mainnet RPC, so it only runs with FORK_TESTS=true
+const describeFork = FORK_TESTS_ENABLED ? describe : describe.skip;
+
 /*
  * Tests for IonicDebtToken contract using Mode mainnet fork
+ *
+ * test/IonicDebtToken.ts covers the same flows offline, against mocks
  */
-describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
-  const { viem, ignition, provider } = await network.connect();
+describeFork("IonicDebtToken (Mode Mainnet Fork)", async function () {
+  const { viem, ignition, provider, networkHelpers } = await network.connect();
   const publicClient = await viem.getPublicClient();
-  const [walletClient] = await viem.getWalletClients();
+  const [walletClient, otherClient] = await viem.getWalletClients();
   const owner = getAddress(walletClient.account.address);
+  const other = getAddress(otherClient.account.address);
   let ionicDebtToken: any;
   let ionToken: any;
   let proxyAdmin: any;
+  let implementation: any;
 
   beforeEach(async () => {
     const deployment = await ignition.deploy(IonicDebtTokenModule);
     ionicDebtToken = deployment.ionicDebtToken;
     proxyAdmin = deployment.proxyAdmin;
+    implementation = deployment.implementation;
     // Get the ionToken contract instance
     ionToken = await viem.getContractAt("IIonToken", ION_USDC);
   });
 
+  // The module already whitelists ION_USDC, remove it to whitelist it afresh.
+  // It keeps its scale factor, so a different one goes through the timelock
+  async function whitelistIonUsdc(numerator: bigint, denominator: bigint) {
+    const args = [ION_USDC, numerator, denominator];
+    await ionicDebtToken.write.removeIonToken([ION_USDC]);
+    await ionicDebtToken.write.scheduleScaleFactorUpdate(args);
+    await networkHelpers.time.increase(
+      await ionicDebtToken.read.timelockDelay()
+    );
+    await ionicDebtToken.write.whitelistIonToken(args);
+  }
+
+  // Scale factor updates go through the timelock
+  async function updateScaleFactor(
+    tokenAddress: string,
+    numerator: bigint,
+    denominator: bigint
+  ) {
+    const args = [tokenAddress, numerator, denominator];
+    await ionicDebtToken.write.scheduleScaleFactorUpdate(args);
+    await networkHelpers.time.increase(
+      await ionicDebtToken.read.timelockDelay()
+    );
+    await ionicDebtToken.write.updateScaleFactor(args);
+  }
+
   describe("Initialization", () => {
     it("should set correct initial values", async () => {
       const contractOracle = await ionicDebtToken.read.masterPriceOracle();
@@ -47,11 +98,7 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
       const numerator = 982n;
       const denominator = 1000n;
 
-      await ionicDebtToken.write.whitelistIonToken([
-        ION_USDC,
-        numerator,
-        denominator,
-      ]);
+      await whitelistIonUsdc(numerator, denominator);
 
       const isWhitelisted = await ionicDebtToken.read.whitelistedIonTokens([
         ION_USDC,
@@ -70,11 +117,7 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
       const numerator = 982n;
       const denominator = 1000n;
 
-      await ionicDebtToken.write.whitelistIonToken([
-        ION_USDC,
-        numerator,
-        denominator,
-      ]);
+      await whitelistIonUsdc(numerator, denominator);
 
       // Get the stored scale factor
       const [storedNumerator, storedDenominator] =
@@ -95,20 +138,12 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
       // First whitelist with 98.2%
       const initialNumerator = 982n;
       const initialDenominator = 1000n;
-      await ionicDebtToken.write.whitelistIonToken([
-        ION_USDC,
-        initialNumerator,
-        initialDenominator,
-      ]);
+      await whitelistIonUsdc(initialNumerator, initialDenominator);
 
       // Update to 99.5%
       const newNumerator = 995n;
       const newDenominator = 1000n;
-      await ionicDebtToken.write.updateScaleFactor([
-        ION_USDC,
-        newNumerator,
-        newDenominator,
-      ]);
+      await updateScaleFactor(ION_USDC, newNumerator, newDenominator);
 
       const [storedNumerator, storedDenominator] =
         await ionicDebtToken.read.ionTokenScaleFactors([ION_USDC]);
@@ -192,8 +227,8 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
             finalDebtBalance - initialDebtBalance
           } (normalized: ${formatUnits(
             BigInt(finalDebtBalance) - BigInt(initialDebtBalance),
-            decimals
-          )}) for ${symbol}\n`
+            DION_DECIMALS
+          )} USD) for ${symbol}\n`
         );
       }
 
@@ -216,6 +251,187 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
         `Should have received debt tokens`
       );
     });
+
+    it("should let the whale claim every ionToken with one batch", async () => {
+      const whaleAddress = "0xE5859cbc7a5C954D33480E67266c2bbc919a966e";
+      await provider.request({
+        method: "hardhat_impersonateAccount",
+        params: [whaleAddress],
+      });
+      const whale = await viem.getWalletClient(whaleAddress);
+
+      const holdings = await fetchHoldings(
+        publicClient,
+        ionicDebtToken.address,
+        whaleAddress,
+        modeMainnetConfig.tokenConfigs.map((tokenConfig) => tokenConfig.address)
+      );
+      assert.ok(holdings.length > 1, "The whale should hold several ionTokens");
+
+      let expectedMinted = 0n;
+      for (const holding of holdings) {
+        expectedMinted += await ionicDebtToken.read.previewMint([
+          holding.ionToken,
+          holding.amount,
+        ]);
+      }
+
+      // ionTokens do not support permits: one approval each, then one batch
+      const steps = planClaim(ionicDebtToken.address, holdings);
+      assert.equal(steps.at(-1)?.functionName, "mintBatch");
+      assert.equal(steps.length, holdings.length + 1);
+
+      await executeClaimPlan(
+        whale,
+        publicClient,
+        ionicDebtToken.address,
+        steps
+      );
+
+      await provider.request({
+        method: "hardhat_stopImpersonatingAccount",
+        params: [whaleAddress],
+      });
+
+      assert.equal(
+        await ionicDebtToken.read.balanceOf([whaleAddress]),
+        expectedMinted
+      );
+    });
+
+    it("should mint the same USD value for every configured ionToken", async () => {
+      const usdValue = parseUnits("1000", DION_DECIMALS);
+      const oracle = await viem.getContractAt(
+        "IMasterPriceOracle",
+        modeMainnetConfig.masterPriceOracleAddress
+      );
+      const usdcPrice = await oracle.read.price([
+        modeMainnetConfig.usdcAddress,
+      ]);
+
+      for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
+        const tokenAddress = getAddress(tokenConfig.address);
+        const token = await viem.getContractAt("IIonToken", tokenAddress);
+
+        // Value the full amount, without the token's scale factor
+        await updateScaleFactor(tokenAddress, 1n, 1n);
+
+        const [exchangeRate, underlying] = await Promise.all([
+          token.read.exchangeRateCurrent(),
+          token.read.underlying(),
+        ]);
+        const [underlyingPrice, underlyingDecimals] = await Promise.all([
+          oracle.read.price([underlying]),
+          publicClient.readContract({
+            address: underlying,
+            abi: erc20Abi,
+            functionName: "decimals",
+          }),
+        ]);
+
+        // Amount of ionTokens whose underlying is worth $1000
+        const underlyingAmount =
+          (1000n * usdcPrice * 10n ** BigInt(underlyingDecimals)) /
+          underlyingPrice;
+        const amount = (underlyingAmount * 10n ** 18n) / exchangeRate;
+
+        const minted = await ionicDebtToken.read.previewMint([
+          tokenAddress,
+          amount,
+        ]);
+        console.log(
+          `${tokenConfig.symbol}: ${formatUnits(minted, DION_DECIMALS)} dION`
+        );
+
+        // Only integer rounding separates the results (0.01% tolerance)
+        const difference =
+          minted > usdValue ? minted - usdValue : usdValue - minted;
+        assert.ok(
+          difference <= usdValue / 10_000n,
+          `${tokenConfig.symbol} minted ${formatUnits(
+            minted,
+            DION_DECIMALS
+          )} dION for $1000 of underlying`
+        );
+      }
+    });
+  });
+
+  describe("Mint Caps", () => {
+    const ionUsdcConfig = modeMainnetConfig.tokenConfigs.find(
+      (tokenConfig) => getAddress(tokenConfig.address) === ION_USDC
+    )!;
+
+    it("should deploy the caps of the Ignition config", async () => {
+      for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
+        assert.equal(
+          await ionicDebtToken.read.ionTokenMintCaps([tokenConfig.address]),
+          tokenConfig.illegitimateBorrowed,
+          `${tokenConfig.symbol} should be capped at its illegitimate borrowed amount`
+        );
+      }
+      // No global cap unless the config sets one
+      assert.equal(
+        await ionicDebtToken.read.globalMintCap(),
+        modeMainnetConfig.globalMintCap ?? 0n
+      );
+    });
+
+    it("should reject mints just above the ionToken's configured cap", async () => {
+      const available =
+        ionUsdcConfig.illegitimateBorrowed -
+        (await ionicDebtToken.read.ionTokenMintedExposure([ION_USDC]));
+      const [numerator, denominator] =
+        await ionicDebtToken.read.ionTokenScaleFactors([ION_USDC]);
+      const exchangeRate = await ionToken.read.exchangeRateCurrent();
+      const exposureOf = (amount: bigint) =>
+        (((amount * exchangeRate) / 10n ** 18n) * numerator) / denominator;
+
+      // Smallest underlying amount, then ionToken amount, whose scaled
+      // exposure is above what the cap has left
+      const underlying =
+        ((available + 1n) * denominator + numerator - 1n) / numerator;
+      const amount =
+        (underlying * 10n ** 18n + exchangeRate - 1n) / exchangeRate;
+      assert.ok(exposureOf(amount - 1n) <= available);
+
+      assert.ok(
+        (await ionicDebtToken.read.previewMint([ION_USDC, amount - 1n])) > 0n
+      );
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([ION_USDC, amount]),
+        "IonTokenMintCapExceeded",
+        [ION_USDC, exposureOf(amount), available]
+      );
+    });
+
+    it("should reject mints just above the global cap", async () => {
+      const amount = parseUnits("1000", 6);
+      const over = amount + parseUnits("1", 6);
+      const value = await ionicDebtToken.read.previewMint([ION_USDC, amount]);
+      const overValue = await ionicDebtToken.read.previewMint([ION_USDC, over]);
+
+      // The config sets no global cap, so cap the supply at the value of `amount`
+      const cap = (await ionicDebtToken.read.totalMinted()) + value;
+      await ionicDebtToken.write.setGlobalMintCap([cap]);
+
+      assert.equal(
+        await ionicDebtToken.read.previewMint([ION_USDC, amount]),
+        value
+      );
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([ION_USDC, over]),
+        "GlobalMintCapExceeded",
+        [overValue, value]
+      );
+
+      // Lifting the cap allows the mint again
+      await ionicDebtToken.write.setGlobalMintCap([0n]);
+      assert.equal(
+        await ionicDebtToken.read.previewMint([ION_USDC, over]),
+        overValue
+      );
+    });
   });
 
   describe("Owner Operations", () => {
@@ -224,11 +440,7 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
       const numerator = 982n;
       const denominator = 1000n;
 
-      await ionicDebtToken.write.whitelistIonToken([
-        ION_USDC,
-        numerator,
-        denominator,
-      ]);
+      await whitelistIonUsdc(numerator, denominator);
 
       // Get the contract's ionToken balance
       const contractBalance = await ionToken.read.balanceOf([
@@ -279,11 +491,7 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
       // First whitelist the token
       const numerator = 982n;
       const denominator = 1000n;
-      await ionicDebtToken.write.whitelistIonToken([
-        ION_USDC,
-        numerator,
-        denominator,
-      ]);
+      await whitelistIonUsdc(numerator, denominator);
 
       await ionicDebtToken.write.removeIonToken([ION_USDC]);
 
@@ -294,4 +502,110 @@ describe.only("IonicDebtToken (Mode Mainnet Fork)", async function () {
       assert.equal(isWhitelisted, false);
     });
   });
+
+  describe("Errors", () => {
+    it("should reject invalid scale factors", async () => {
+      await ionicDebtToken.write.removeIonToken([ION_USDC]);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([ION_USDC, 1n, 0n]),
+        "ZeroDenominator",
+        []
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([ION_USDC, 2n, 1n]),
+        "InvalidScaleFactorRange",
+        [2n, 1n]
+      );
+    });
+
+    it("should reject ionTokens that are not whitelisted", async () => {
+      await ionicDebtToken.write.removeIonToken([ION_USDC]);
+
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([ION_USDC, parseUnits("1", 6)]),
+        "IonTokenNotWhitelisted",
+        [ION_USDC]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.removeIonToken([ION_USDC]),
+        "IonTokenNotWhitelisted",
+        [ION_USDC]
+      );
+    });
+
+    it("should reject invalid withdrawals with either overload", async () => {
+      const balance = await ionToken.read.balanceOf([ionicDebtToken.address]);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([ION_USDC, balance + 1n, owner]),
+        "InsufficientBalance",
+        [ION_USDC, balance + 1n, balance]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([ION_USDC, zeroAddress]),
+        "ZeroAddress",
+        []
+      );
+    });
+
+    it("should reject role-gated calls from other accounts", async () => {
+      const asOther = { account: otherClient.account };
+
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([ION_USDC, 1n, other], asOther),
+        "AccessControlUnauthorizedAccount",
+        [other, ROLES.treasury]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([ION_USDC, other], asOther),
+        "AccessControlUnauthorizedAccount",
+        [other, ROLES.treasury]
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.whitelistIonToken([other, 1n, 1n], asOther),
+        "AccessControlUnauthorizedAccount",
+        [other, ROLES.whitelistManager]
+      );
+    });
+  });
+
+  describe("Upgrades", () => {
+    it("should upgrade the proxy to a new implementation and keep its state", async () => {
+      await whitelistIonUsdc(982n, 1000n);
+
+      const upgrade = await ignition.deploy(IonicDebtTokenUpgradeModule, {
+        parameters: {
+          IonicDebtTokenUpgradeModule: {
+            proxy: ionicDebtToken.address,
+            proxyAdmin: proxyAdmin.address,
+          },
+        },
+      });
+
+      const newImplementation = await getProxyImplementation(
+        publicClient,
+        ionicDebtToken.address
+      );
+      assert.equal(
+        newImplementation,
+        getAddress(upgrade.implementation.address)
+      );
+      assert.notEqual(newImplementation, getAddress(implementation.address));
+
+      // State stored behind the proxy survives the upgrade
+      assert.equal(
+        await ionicDebtToken.read.masterPriceOracle(),
+        modeMainnetConfig.masterPriceOracleAddress
+      );
+      assert.equal(
+        await ionicDebtToken.read.whitelistedIonTokens([ION_USDC]),
+        true
+      );
+      const [numerator, denominator] =
+        await ionicDebtToken.read.ionTokenScaleFactors([ION_USDC]);
+      assert.equal(numerator, 982n);
+      assert.equal(denominator, 1000n);
+    });
+  });
 });
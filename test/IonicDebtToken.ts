@@ -0,0 +1,1378 @@
+import { mkdtemp, readFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { network } from "hardhat";
+import assert from "node:assert/strict";
+import { Address, getAddress, parseUnits } from "viem";
+import { modeMainnetConfig } from "../ignition/config/mode-mainnet.js";
+import { buildIonicDebtTokenModule } from "../ignition/modules/IonicDebtToken.js";
+import IonicDebtTokenUpgradeModule from "../ignition/modules/IonicDebtTokenUpgrade.js";
+import { diffAdminState } from "../utils/admin.js";
+import {
+  executeClaimPlan,
+  fetchHoldings,
+  planClaim,
+} from "../utils/claim-path.js";
+import { createIonicDebtTokenClient } from "../utils/client.js";
+import { decodeRevert, describeRevert } from "../utils/errors.js";
+import {
+  checkIllegitimateBorrowed,
+  renderIllegitimateBorrowed,
+} from "../utils/exploit-borrows.js";
+import {
+  buildExposureReport,
+  exposureMarkdown,
+  exposureTableRows,
+  formatRatio,
+} from "../utils/exposure.js";
+import {
+  appendLedgerEvents,
+  getLedgerPath,
+  getMintTotalsPerIonToken,
+  getScaleFactorHistory,
+  getUserMints,
+  indexLedger,
+  loadLedger,
+  saveLedger,
+} from "../utils/ledger.js";
+import { buildMerkleClaims } from "../utils/merkle.js";
+import { toCsv } from "../utils/output.js";
+import { getProxyImplementation } from "../utils/proxy.js";
+import {
+  assessRecovery,
+  fetchIonTokenFlows,
+  reconcileIonTokenTotals,
+  valueUnderlyingInUsd,
+} from "../utils/recovery.js";
+import { parseReplayBlocks, replayValuation } from "../utils/replay.js";
+import { ROLES } from "../utils/roles.js";
+import { scaleFactorFor, valueMint } from "../utils/valuation.js";
+import {
+  deployIonicDebtTokenFixture,
+  deployModeMainnetMocks,
+  MODE_MAINNET_MOCK_MARKETS,
+  priceInEth,
+} from "./fixtures/mode-mainnet-mocks.js";
+import { assertRevertsWith } from "./helpers/reverts.js";
+
+/*
+ * Tests for IonicDebtToken against mocks configured like Mode mainnet, on a
+ * local network without forking
+ */
+describe("IonicDebtToken (Offline)", async function () {
+  const connection = await network.connect("hardhatOffline");
+  const { viem, ignition, networkHelpers } = connection;
+  const publicClient = await viem.getPublicClient();
+  const [walletClient, userClient] = await viem.getWalletClients();
+  const owner = getAddress(walletClient.account.address);
+  const user = getAddress(userClient.account.address);
+
+  async function deployFixture() {
+    return deployIonicDebtTokenFixture(connection);
+  }
+
+  // The contract lists ionTokens in the order Ignition whitelisted them, which
+  // need not be the config's, so per-ionToken results are compared sorted
+  function byIonToken(a: { ionToken: Address }, b: { ionToken: Address }) {
+    return BigInt(a.ionToken) < BigInt(b.ionToken) ? -1 : 1;
+  }
+
+  describe("Deployment", () => {
+    it("should initialize the proxy with the config's oracle and USDC", async () => {
+      const { ionicDebtToken, proxyAdmin, networkConfig } =
+        await networkHelpers.loadFixture(deployFixture);
+
+      assert.equal(
+        await ionicDebtToken.read.masterPriceOracle(),
+        networkConfig.masterPriceOracleAddress
+      );
+      assert.equal(
+        await ionicDebtToken.read.usdcAddress(),
+        networkConfig.usdcAddress
+      );
+      assert.equal(getAddress(await ionicDebtToken.read.owner()), owner);
+      assert.equal(getAddress(await proxyAdmin.read.owner()), owner);
+    });
+
+    it("should whitelist every ionToken with its scale factor and mint cap", async () => {
+      const { ionicDebtToken, networkConfig } =
+        await networkHelpers.loadFixture(deployFixture);
+
+      for (const tokenConfig of networkConfig.tokenConfigs) {
+        const { numerator, denominator } = scaleFactorFor(tokenConfig);
+
+        assert.equal(
+          await ionicDebtToken.read.whitelistedIonTokens([tokenConfig.address]),
+          true,
+          `${tokenConfig.symbol} should be whitelisted`
+        );
+        assert.deepEqual(
+          await ionicDebtToken.read.ionTokenScaleFactors([tokenConfig.address]),
+          [numerator, denominator]
+        );
+        assert.equal(
+          await ionicDebtToken.read.ionTokenMintCaps([tokenConfig.address]),
+          tokenConfig.illegitimateBorrowed
+        );
+      }
+    });
+  });
+
+  describe("Minting", () => {
+    it("should mint the off-chain valuation for every ionToken", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      for (const market of markets) {
+        // ionTokens redeemable for a tenth of the market's illegitimate
+        // borrows, well inside its mint cap
+        const amount =
+          (market.tokenConfig.illegitimateBorrowed * 10n ** 18n) /
+          10n /
+          market.exchangeRate;
+        await market.ionToken.write.mint([user, amount]);
+        await market.ionToken.write.approve([ionicDebtToken.address, amount], {
+          account: userClient.account,
+        });
+
+        const { tokensToMint } = valueMint({
+          amount,
+          exchangeRate: market.exchangeRate,
+          underlyingDecimals: market.underlyingDecimals,
+          underlyingPrice: priceInEth(market.priceInUsd),
+          usdcPrice: priceInEth(1n),
+          scaleFactor: scaleFactorFor(market.tokenConfig),
+        });
+
+        const balanceBefore = await ionicDebtToken.read.balanceOf([user]);
+        const hash = await ionicDebtToken.write.mint(
+          [market.ionToken.address, amount],
+          { account: userClient.account }
+        );
+        await publicClient.waitForTransactionReceipt({ hash });
+
+        assert.equal(
+          (await ionicDebtToken.read.balanceOf([user])) - balanceBefore,
+          tokensToMint,
+          `${market.tokenConfig.symbol} should mint ${tokensToMint} dION`
+        );
+        assert.equal(
+          await market.ionToken.read.balanceOf([ionicDebtToken.address]),
+          amount
+        );
+      }
+    });
+
+    it("should reject ionTokens that are not whitelisted", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const [market] = markets;
+
+      await ionicDebtToken.write.removeIonToken([market.ionToken.address]);
+
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([market.ionToken.address, 1n]),
+        "IonTokenNotWhitelisted",
+        [market.ionToken.address]
+      );
+    });
+
+    it("should refuse to value mints while USDC is depegged", async () => {
+      const { ionicDebtToken, oracle, usdc, markets } =
+        await networkHelpers.loadFixture(deployFixture);
+      const [market] = markets;
+      const usdt = markets.find(
+        (market) => market.underlyingSymbol === "USDT"
+      )!.underlying;
+
+      await ionicDebtToken.write.setUsdcPegBand([usdt.address, 200n]);
+      await ionicDebtToken.read.previewMint([market.ionToken.address, 1n]);
+
+      // USDC at $0.97 against USDT at $1
+      await oracle.write.setPrice([
+        usdc.address,
+        (priceInEth(1n) * 97n) / 100n,
+      ]);
+      await assertRevertsWith(
+        ionicDebtToken.read.previewMint([market.ionToken.address, 1n]),
+        "UsdcDepegged"
+      );
+    });
+  });
+
+  describe("Batch and Permit Claims", () => {
+    it("should claim several ionTokens with a batch and a permit", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const [first, second] = markets;
+
+      // An ionToken supporting EIP-2612, priced like the first market
+      const permitToken = await viem.deployContract("MockPermitIonToken", [
+        "ionPermit",
+        "ionPermit",
+        first.underlying.address,
+        first.exchangeRate,
+        first.tokenConfig.decimals,
+      ]);
+      await ionicDebtToken.write.whitelistIonToken([
+        permitToken.address,
+        1n,
+        2n,
+      ]);
+
+      const ionTokens = [
+        first.ionToken.address,
+        second.ionToken.address,
+        permitToken.address,
+      ];
+      let expectedMinted = 0n;
+      for (const [i, token] of [
+        first.ionToken,
+        second.ionToken,
+        permitToken,
+      ].entries()) {
+        const amount = parseUnits("2", await token.read.decimals());
+        await token.write.mint([user, amount]);
+        expectedMinted += await ionicDebtToken.read.previewMint([
+          ionTokens[i],
+          amount,
+        ]);
+      }
+
+      // The first ionToken is already approved, the second is not
+      await first.ionToken.write.approve(
+        [ionicDebtToken.address, parseUnits("2", first.tokenConfig.decimals)],
+        { account: userClient.account }
+      );
+
+      const holdings = await fetchHoldings(
+        publicClient,
+        ionicDebtToken.address,
+        user,
+        ionTokens
+      );
+      const steps = planClaim(ionicDebtToken.address, holdings);
+      assert.deepEqual(
+        steps.map((step) => step.functionName),
+        ["approve", "mintBatch", "mintWithPermit"]
+      );
+
+      await executeClaimPlan(
+        userClient,
+        publicClient,
+        ionicDebtToken.address,
+        steps
+      );
+
+      assert.equal(await ionicDebtToken.read.balanceOf([user]), expectedMinted);
+      for (const ionToken of ionTokens) {
+        const token = await viem.getContractAt("MockIonToken", ionToken);
+        assert.equal(await token.read.balanceOf([user]), 0n);
+      }
+    });
+
+    it("should reject batches with mismatched lengths", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.mintBatch(
+          [[markets[0].ionToken.address, markets[1].ionToken.address], [1n]],
+          { account: userClient.account }
+        ),
+        "ArrayLengthMismatch"
+      );
+    });
+  });
+
+  describe("Client", () => {
+    it("should preview and mint a user's holdings, approving only when needed", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const [first, second] = markets;
+      const client = createIonicDebtTokenClient({
+        address: ionicDebtToken.address,
+        publicClient,
+        walletClient: userClient,
+      });
+
+      const amounts = [
+        parseUnits("3", first.tokenConfig.decimals),
+        parseUnits("5", second.tokenConfig.decimals),
+      ];
+      await first.ionToken.write.mint([user, amounts[0]]);
+      await second.ionToken.write.mint([user, amounts[1]]);
+      // The first ionToken is already approved, the second is not
+      await first.ionToken.write.approve([ionicDebtToken.address, amounts[0]], {
+        account: userClient.account,
+      });
+
+      assert.deepEqual(
+        (await client.getEligibleHoldings(user)).sort(byIonToken),
+        [
+          {
+            ionToken: getAddress(first.ionToken.address),
+            balance: amounts[0],
+            allowance: amounts[0],
+          },
+          {
+            ionToken: getAddress(second.ionToken.address),
+            balance: amounts[1],
+            allowance: 0n,
+          },
+        ].sort(byIonToken)
+      );
+      assert.deepEqual(
+        await client.getScaleFactor(first.ionToken.address),
+        scaleFactorFor(first.tokenConfig)
+      );
+      assert.equal((await client.getScaleFactors()).size, markets.length);
+
+      const { previews, totalTokensToMint } = await client.previewAll(user);
+      assert.deepEqual(
+        previews
+          .map(({ ionToken, tokensToMint }) => ({ ionToken, tokensToMint }))
+          .sort(byIonToken),
+        [
+          {
+            ionToken: getAddress(first.ionToken.address),
+            tokensToMint: await ionicDebtToken.read.previewMint([
+              first.ionToken.address,
+              amounts[0],
+            ]),
+          },
+          {
+            ionToken: getAddress(second.ionToken.address),
+            tokensToMint: await ionicDebtToken.read.previewMint([
+              second.ionToken.address,
+              amounts[1],
+            ]),
+          },
+        ].sort(byIonToken)
+      );
+
+      const firstMint = await client.approveAndMint(
+        first.ionToken.address,
+        amounts[0]
+      );
+      assert.equal(firstMint.approveHash, undefined);
+      const secondMint = await client.approveAndMint(
+        second.ionToken.address,
+        amounts[1]
+      );
+      assert.notEqual(secondMint.approveHash, undefined);
+
+      assert.equal(
+        await ionicDebtToken.read.balanceOf([user]),
+        totalTokensToMint
+      );
+      assert.deepEqual(await client.getEligibleHoldings(user), []);
+    });
+  });
+
+  describe("Merkle Claims", () => {
+    it("should mint the entitlements of the tree once per root", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const entitlements = [
+        { account: user, amount: parseUnits("1500", 18) },
+        { account: owner, amount: parseUnits("20", 18) },
+        {
+          account: getAddress("0x00000000000000000000000000000000000000aa"),
+          amount: 1n,
+        },
+      ];
+      const { root, claims } = buildMerkleClaims(entitlements);
+
+      await ionicDebtToken.write.setMerkleRoot([root]);
+
+      const claim = claims[user];
+      await ionicDebtToken.write.claimFromMerkle([claim.amount, claim.proof], {
+        account: userClient.account,
+      });
+      assert.equal(await ionicDebtToken.read.balanceOf([user]), claim.amount);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([claim.amount, claim.proof], {
+          account: userClient.account,
+        }),
+        "MerkleAlreadyClaimed"
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.claimFromMerkle([claim.amount, claim.proof]),
+        "InvalidMerkleProof"
+      );
+    });
+  });
+
+  describe("Claim Window", () => {
+    async function deployWithWindowFixture() {
+      const deployment = await deployFixture();
+      const [market] = deployment.markets;
+      const amount = parseUnits("3", market.tokenConfig.decimals);
+
+      await market.ionToken.write.mint([user, amount]);
+      await market.ionToken.write.approve(
+        [deployment.ionicDebtToken.address, amount],
+        { account: userClient.account }
+      );
+
+      // Opens in a day, for a week
+      const start = BigInt(await networkHelpers.time.latest()) + 86400n;
+      const end = start + 7n * 86400n;
+      await deployment.ionicDebtToken.write.setClaimWindow([start, end]);
+
+      return { ...deployment, market, unit: amount / 3n, start, end };
+    }
+
+    it("should reject mints before the window opens", async () => {
+      const { ionicDebtToken, market, unit } = await networkHelpers.loadFixture(
+        deployWithWindowFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, unit], {
+          account: userClient.account,
+        }),
+        "ClaimWindowNotOpen"
+      );
+    });
+
+    it("should allow mints while the window is open", async () => {
+      const { ionicDebtToken, market, unit, start, end } =
+        await networkHelpers.loadFixture(deployWithWindowFixture);
+
+      // Mint in the first and last second of the window
+      await networkHelpers.time.setNextBlockTimestamp(start);
+      await ionicDebtToken.write.mint([market.ionToken.address, unit], {
+        account: userClient.account,
+      });
+
+      await networkHelpers.time.setNextBlockTimestamp(end - 1n);
+      await ionicDebtToken.write.mint([market.ionToken.address, unit], {
+        account: userClient.account,
+      });
+
+      assert.equal(
+        await market.ionToken.read.balanceOf([ionicDebtToken.address]),
+        2n * unit
+      );
+    });
+
+    it("should reject mints from the end of the window", async () => {
+      const { ionicDebtToken, market, unit, end } =
+        await networkHelpers.loadFixture(deployWithWindowFixture);
+
+      // The window is closed from `end` on
+      await networkHelpers.time.setNextBlockTimestamp(end);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, unit], {
+          account: userClient.account,
+        }),
+        "ClaimWindowClosed"
+      );
+    });
+
+    it("should stop minting while paused", async () => {
+      const { ionicDebtToken, markets, market, unit, start } =
+        await networkHelpers.loadFixture(deployWithWindowFixture);
+      const other = markets[1];
+      const otherAmount = parseUnits("1", other.tokenConfig.decimals);
+      await other.ionToken.write.mint([user, otherAmount]);
+      await other.ionToken.write.approve(
+        [ionicDebtToken.address, otherAmount],
+        { account: userClient.account }
+      );
+
+      await networkHelpers.time.increaseTo(start);
+
+      await ionicDebtToken.write.setMintingPaused([true]);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, unit], {
+          account: userClient.account,
+        }),
+        "MintingPaused"
+      );
+      await ionicDebtToken.write.setMintingPaused([false]);
+
+      // Pausing one ionToken leaves the others open
+      await ionicDebtToken.write.setIonTokenMintingPaused([
+        market.ionToken.address,
+        true,
+      ]);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, unit], {
+          account: userClient.account,
+        }),
+        "IonTokenMintingPaused"
+      );
+      await ionicDebtToken.write.mint([other.ionToken.address, otherAmount], {
+        account: userClient.account,
+      });
+    });
+  });
+
+  describe("Redemptions", () => {
+    async function deployWithHoldersFixture() {
+      const deployment = await deployFixture();
+      const [market] = deployment.markets;
+      const amount = parseUnits("10", market.tokenConfig.decimals);
+
+      await market.ionToken.write.mint([user, amount]);
+      await market.ionToken.write.approve(
+        [deployment.ionicDebtToken.address, amount],
+        { account: userClient.account }
+      );
+      await deployment.ionicDebtToken.write.mint(
+        [market.ionToken.address, amount],
+        { account: userClient.account }
+      );
+
+      // The owner keeps a quarter of the dION
+      const supply = await deployment.ionicDebtToken.read.totalSupply();
+      await deployment.ionicDebtToken.write.transfer([owner, supply / 4n], {
+        account: userClient.account,
+      });
+
+      return { ...deployment, supply };
+    }
+
+    async function fundRound(
+      { ionicDebtToken, usdc }: Awaited<ReturnType<typeof deployFixture>>,
+      amount: bigint,
+      kind: number
+    ) {
+      await usdc.write.mint([owner, amount]);
+      await usdc.write.approve([ionicDebtToken.address, amount]);
+      await ionicDebtToken.write.fundRedemptionRound([amount, kind]);
+    }
+
+    it("should pay burned dION at the round's rate", async () => {
+      const deployment = await networkHelpers.loadFixture(
+        deployWithHoldersFixture
+      );
+      const { ionicDebtToken, usdc, supply } = deployment;
+      const roundAmount = parseUnits("1000", 6);
+      await fundRound(deployment, roundAmount, 0);
+
+      const balance = await ionicDebtToken.read.balanceOf([user]);
+      const expected = (balance * roundAmount) / supply;
+      assert.equal(
+        await ionicDebtToken.read.previewRedeem([0n, balance]),
+        expected
+      );
+
+      await ionicDebtToken.write.redeem([0n, balance], {
+        account: userClient.account,
+      });
+
+      assert.equal(await usdc.read.balanceOf([user]), expected);
+      assert.equal(await ionicDebtToken.read.balanceOf([user]), 0n);
+      assert.equal(
+        await ionicDebtToken.read.redemptionUsdcOutstanding(),
+        roundAmount - expected
+      );
+    });
+
+    it("should share partial rounds between holders without burning", async () => {
+      const deployment = await networkHelpers.loadFixture(
+        deployWithHoldersFixture
+      );
+      const { ionicDebtToken, usdc, supply } = deployment;
+      const roundAmount = parseUnits("1000", 6);
+      await fundRound(deployment, roundAmount, 1);
+
+      const balance = await ionicDebtToken.read.balanceOf([user]);
+      await ionicDebtToken.write.claimPartialRedemption({
+        account: userClient.account,
+      });
+
+      // Within rounding of three quarters of the round
+      const received = await usdc.read.balanceOf([user]);
+      assert.ok((roundAmount * 3n) / 4n - received <= 1n);
+      assert.equal(await ionicDebtToken.read.balanceOf([user]), balance);
+      assert.equal(await ionicDebtToken.read.totalSupply(), supply);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.claimPartialRedemption({
+          account: userClient.account,
+        }),
+        "ZeroAmount"
+      );
+    });
+
+    it("should not share rounds with blocklisted holders", async () => {
+      const deployment = await networkHelpers.loadFixture(
+        deployWithHoldersFixture
+      );
+      const { ionicDebtToken, usdc, supply } = deployment;
+      const roundAmount = parseUnits("1000", 6);
+      const ownerBalance = await ionicDebtToken.read.balanceOf([owner]);
+
+      await ionicDebtToken.write.setBlocklisted([[user], true]);
+      assert.equal(
+        await ionicDebtToken.read.blocklistedSupply(),
+        supply - ownerBalance
+      );
+      await fundRound(deployment, roundAmount, 1);
+      const [, , roundSupply] = await ionicDebtToken.read.redemptionRounds([
+        0n,
+      ]);
+      assert.equal(roundSupply, ownerBalance);
+
+      // The owner's quarter gets the whole round, leaving nothing locked
+      await ionicDebtToken.write.claimPartialRedemption();
+      assert.ok(roundAmount - (await usdc.read.balanceOf([owner])) <= 1n);
+      assert.ok((await ionicDebtToken.read.redemptionUsdcOutstanding()) <= 1n);
+
+      // Nor does the round credit the user once off the blocklist
+      await ionicDebtToken.write.setBlocklisted([[user], false]);
+      assert.equal(await ionicDebtToken.read.blocklistedSupply(), 0n);
+      assert.equal(
+        await ionicDebtToken.read.previewClaimPartialRedemption([user]),
+        0n
+      );
+    });
+
+    it("should keep USDC while redemptions are outstanding", async () => {
+      const deployment = await networkHelpers.loadFixture(
+        deployWithHoldersFixture
+      );
+      const { ionicDebtToken, usdc } = deployment;
+      await fundRound(deployment, parseUnits("1000", 6), 0);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.updateUsdcAddress([user]),
+        "RedemptionFundsOutstanding"
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.withdrawIonTokens([usdc.address, 1n, owner]),
+        "InsufficientBalance"
+      );
+    });
+
+    it("should return what holders left unclaimed when the rounds close", async () => {
+      const deployment = await networkHelpers.loadFixture(
+        deployWithHoldersFixture
+      );
+      const { ionicDebtToken, usdc } = deployment;
+      const roundAmount = parseUnits("1000", 6);
+      await fundRound(deployment, roundAmount, 0);
+      await fundRound(deployment, roundAmount, 1);
+
+      // The user burns half of its dION, and nobody claims the partial round
+      const burned = (await ionicDebtToken.read.balanceOf([user])) / 2n;
+      await ionicDebtToken.write.redeem([0n, burned], {
+        account: userClient.account,
+      });
+      const paid = await usdc.read.balanceOf([user]);
+
+      await ionicDebtToken.write.closeRedemptionRounds();
+      assert.equal(await usdc.read.balanceOf([owner]), 2n * roundAmount - paid);
+      assert.equal(await ionicDebtToken.read.redemptionUsdcOutstanding(), 0n);
+      assert.equal(await ionicDebtToken.read.closedRedemptionRounds(), 2n);
+      assert.equal(
+        await ionicDebtToken.read.previewClaimPartialRedemption([user]),
+        0n
+      );
+
+      // With nothing owed anymore, USDC can change
+      await ionicDebtToken.write.scheduleUsdcAddressUpdate([user]);
+      await ionicDebtToken.write.updateUsdcAddress([user]);
+      assert.equal(await ionicDebtToken.read.usdcAddress(), user);
+    });
+  });
+
+  describe("Blocklist", () => {
+    // The module applies the config's blocklist
+    async function deployWithBlocklistFixture() {
+      const mocks = await deployModeMainnetMocks(connection);
+      const deployment = await ignition.deploy(
+        buildIonicDebtTokenModule({ ...mocks.networkConfig, blocklist: [user] })
+      );
+      return { ...mocks, ...deployment };
+    }
+
+    it("should blocklist the config's accounts on deployment", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployWithBlocklistFixture
+      );
+      const [market] = markets;
+      const amount = parseUnits("1", market.tokenConfig.decimals);
+      await market.ionToken.write.mint([user, amount]);
+      await market.ionToken.write.approve([ionicDebtToken.address, amount], {
+        account: userClient.account,
+      });
+
+      assert.equal(await ionicDebtToken.read.blocklisted([user]), true);
+      await assertRevertsWith(
+        ionicDebtToken.write.mint([market.ionToken.address, amount], {
+          account: userClient.account,
+        }),
+        "AccountBlocklisted"
+      );
+    });
+
+    it("should block dION transfers to blocklisted accounts", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployWithBlocklistFixture
+      );
+      const [market] = markets;
+      const amount = parseUnits("1", market.tokenConfig.decimals);
+      await market.ionToken.write.mint([owner, amount]);
+      await market.ionToken.write.approve([ionicDebtToken.address, amount]);
+      await ionicDebtToken.write.mint([market.ionToken.address, amount]);
+
+      await assertRevertsWith(
+        ionicDebtToken.write.transfer([user, 1n]),
+        "AccountBlocklisted"
+      );
+
+      await ionicDebtToken.write.setBlocklisted([[user], false]);
+      await ionicDebtToken.write.transfer([user, 1n]);
+      assert.equal(await ionicDebtToken.read.balanceOf([user]), 1n);
+    });
+  });
+
+  describe("Roles and Timelock", () => {
+    const TIMELOCK_DELAY = 2n * 24n * 60n * 60n;
+
+    // The module grants the config's roles and sets its timelock delay
+    async function deployWithRolesFixture() {
+      const mocks = await deployModeMainnetMocks(connection);
+      const deployment = await ignition.deploy(
+        buildIonicDebtTokenModule({
+          ...mocks.networkConfig,
+          roles: { treasury: user },
+          timelockDelay: TIMELOCK_DELAY,
+        })
+      );
+      return { ...mocks, ...deployment };
+    }
+
+    it("should grant the config's roles and timelock delay on deployment", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployWithRolesFixture
+      );
+
+      assert.equal(
+        await ionicDebtToken.read.hasRole([ROLES.treasury, user]),
+        true
+      );
+      assert.equal(
+        await ionicDebtToken.read.hasRole([ROLES.whitelistManager, user]),
+        false
+      );
+      assert.equal(await ionicDebtToken.read.timelockDelay(), TIMELOCK_DELAY);
+    });
+
+    it("should only update scale factors once the delay has passed", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployWithRolesFixture
+      );
+      const args = [markets[0].ionToken.address, 1n, 1n] as const;
+
+      await assertRevertsWith(
+        ionicDebtToken.write.updateScaleFactor(args),
+        "ChangeNotScheduled"
+      );
+      await ionicDebtToken.write.scheduleScaleFactorUpdate(args);
+      await assertRevertsWith(
+        ionicDebtToken.write.updateScaleFactor(args),
+        "ChangeNotReady"
+      );
+
+      await networkHelpers.time.increase(TIMELOCK_DELAY);
+      await ionicDebtToken.write.updateScaleFactor(args);
+      assert.deepEqual(
+        await ionicDebtToken.read.ionTokenScaleFactors([args[0]]),
+        [1n, 1n]
+      );
+    });
+
+    it("should restrict the treasury to treasury operations", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployWithRolesFixture
+      );
+      const [market] = markets;
+
+      await ionicDebtToken.write.withdrawIonTokens(
+        [market.ionToken.address, user],
+        { account: userClient.account }
+      );
+      await assertRevertsWith(
+        ionicDebtToken.write.scheduleScaleFactorUpdate(
+          [market.ionToken.address, 1n, 1n],
+          { account: userClient.account }
+        ),
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+
+    it("should decode a revert into its custom error and a readable message", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployWithRolesFixture
+      );
+
+      const error = await ionicDebtToken.write
+        .scheduleScaleFactorUpdate([markets[0].ionToken.address, 1n, 1n], {
+          account: userClient.account,
+        })
+        .catch((error: unknown) => error);
+      assert.deepEqual(decodeRevert(error), {
+        errorName: "AccessControlUnauthorizedAccount",
+        args: [user, ROLES.whitelistManager],
+      });
+      assert.equal(
+        describeRevert(error),
+        `AccessControlUnauthorizedAccount: ${user} does not have the whitelistManager role`
+      );
+    });
+
+    it("should list the admin state a call changed", () => {
+      assert.deepEqual(
+        diffAdminState(
+          { whitelisted: false, "scale factor": "0/0", "mint cap": 0n },
+          { whitelisted: true, "scale factor": "1/2", "mint cap": 0n }
+        ),
+        ["whitelisted: false -> true", "scale factor: 0/0 -> 1/2"]
+      );
+    });
+  });
+
+  describe("Owner Operations", () => {
+    it("should allow the owner to withdraw collected ionTokens", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const [market] = markets;
+      const amount = parseUnits("1", market.tokenConfig.decimals);
+
+      await market.ionToken.write.mint([user, amount]);
+      await market.ionToken.write.approve([ionicDebtToken.address, amount], {
+        account: userClient.account,
+      });
+      await ionicDebtToken.write.mint([market.ionToken.address, amount], {
+        account: userClient.account,
+      });
+
+      await ionicDebtToken.write.withdrawIonTokens([
+        market.ionToken.address,
+        owner,
+      ]);
+
+      assert.equal(await market.ionToken.read.balanceOf([owner]), amount);
+      assert.equal(
+        await market.ionToken.read.balanceOf([ionicDebtToken.address]),
+        0n
+      );
+    });
+
+    it("should redeem collected ionTokens as far as the market's cash allows", async () => {
+      const { ionicDebtToken, oracle, usdc, markets } =
+        await networkHelpers.loadFixture(deployFixture);
+      const [market] = markets;
+      const amount = parseUnits("10", market.tokenConfig.decimals);
+
+      await market.ionToken.write.mint([user, amount]);
+      await market.ionToken.write.approve([ionicDebtToken.address, amount], {
+        account: userClient.account,
+      });
+      await ionicDebtToken.write.mint([market.ionToken.address, amount], {
+        account: userClient.account,
+      });
+
+      // The market only has the cash for 4 of the 10 ionTokens
+      const cash =
+        (parseUnits("4", market.tokenConfig.decimals) * market.exchangeRate) /
+        10n ** 18n;
+      await market.underlying.write.mint([market.ionToken.address, cash]);
+
+      const recovery = assessRecovery(
+        {
+          balance: amount,
+          cash,
+          exchangeRate: market.exchangeRate,
+          underlyingDecimals: market.underlyingDecimals,
+          underlyingPrice: await oracle.read.price([market.underlying.address]),
+          usdcPrice: await oracle.read.price([usdc.address]),
+        },
+        0n
+      );
+
+      await ionicDebtToken.write.redeemIonTokens([
+        market.ionToken.address,
+        0n,
+        owner,
+      ]);
+
+      assert.equal(
+        await market.ionToken.read.balanceOf([ionicDebtToken.address]),
+        recovery.stuck
+      );
+      assert.equal(amount - recovery.stuck, recovery.redeemable);
+      assert.equal(
+        await market.underlying.read.balanceOf([owner]),
+        (recovery.redeemable * market.exchangeRate) / 10n ** 18n
+      );
+    });
+
+    it("should keep per-ionToken totals matching the TokensMinted events", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+      const [first, second] = markets;
+      const amount = parseUnits("2", first.tokenConfig.decimals);
+      await first.ionToken.write.mint([user, amount]);
+      await first.ionToken.write.approve([ionicDebtToken.address, amount], {
+        account: userClient.account,
+      });
+      await ionicDebtToken.write.mint([first.ionToken.address, amount], {
+        account: userClient.account,
+      });
+      const minted = await ionicDebtToken.read.balanceOf([user]);
+
+      // Another ionToken's mints are counted separately
+      const secondAmount = parseUnits("3", second.tokenConfig.decimals);
+      await second.ionToken.write.mint([user, secondAmount]);
+      await second.ionToken.write.approve(
+        [ionicDebtToken.address, secondAmount],
+        { account: userClient.account }
+      );
+      await ionicDebtToken.write.mint([second.ionToken.address, secondAmount], {
+        account: userClient.account,
+      });
+
+      const totals = await ionicDebtToken.read.getIonTokenTotals();
+      assert.equal(totals.length, markets.length);
+      const firstTotals = totals.find(
+        (entry) => getAddress(entry.ionToken) === first.tokenConfig.address
+      );
+      assert.equal(firstTotals?.totalDeposited, amount);
+      assert.equal(firstTotals?.totalMinted, minted);
+
+      const checks = reconcileIonTokenTotals(
+        totals,
+        await fetchIonTokenFlows(publicClient, ionicDebtToken.address)
+      );
+      assert.equal(checks.length, markets.length);
+      assert.ok(checks.every((check) => check.matches));
+    });
+
+    it("should reject owner operations from other accounts", async () => {
+      const { ionicDebtToken, markets } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      await assertRevertsWith(
+        ionicDebtToken.write.updateScaleFactor(
+          [markets[0].ionToken.address, 1n, 1n],
+          { account: userClient.account }
+        ),
+        "AccessControlUnauthorizedAccount",
+        [user, ROLES.whitelistManager]
+      );
+    });
+  });
+
+  describe("Event Ledger", () => {
+    async function mintFor(
+      { ionicDebtToken, markets }: Awaited<ReturnType<typeof deployFixture>>,
+      index: number,
+      amount: bigint
+    ) {
+      const { ionToken } = markets[index];
+      await ionToken.write.mint([user, amount]);
+      await ionToken.write.approve([ionicDebtToken.address, amount], {
+        account: userClient.account,
+      });
+      await ionicDebtToken.write.mint([ionToken.address, amount], {
+        account: userClient.account,
+      });
+    }
+
+    async function newLedger(address: Address) {
+      const dir = await mkdtemp(join(tmpdir(), "ledger-"));
+      const chainId = await publicClient.getChainId();
+      const path = getLedgerPath(dir, chainId, address);
+      return { path, ledger: await loadLedger(path, chainId, address) };
+    }
+
+    it("should index every event of the proxy into a new ledger", async () => {
+      const deployment = await networkHelpers.loadFixture(deployFixture);
+      const { ionicDebtToken, markets } = deployment;
+      const [market] = markets;
+      const amount = parseUnits("1", market.tokenConfig.decimals);
+      await mintFor(deployment, 0, amount);
+
+      const { path, ledger } = await newLedger(ionicDebtToken.address);
+      const toBlock = await publicClient.getBlockNumber();
+      const chunks: bigint[] = [];
+      const added = await indexLedger(
+        publicClient,
+        ledger,
+        toBlock,
+        10n,
+        async (_start, end) => {
+          chunks.push(end);
+          await saveLedger(path, ledger);
+        }
+      );
+
+      assert.equal(added, markets.length + 1);
+      assert.equal(ledger.lastProcessedBlock, toBlock);
+      assert.equal(chunks.at(-1), toBlock);
+      // Whitelisted in Ignition's execution order, not the config's
+      assert.deepEqual(
+        getScaleFactorHistory(ledger)
+          .map((change) => change.ionToken)
+          .sort(),
+        markets.map((entry) => entry.tokenConfig.address).sort()
+      );
+      assert.deepEqual(
+        getUserMints(ledger, user).map((mint) => ({
+          ionToken: mint.ionToken,
+          ionTokenAmount: mint.ionTokenAmount,
+          mintedAmount: mint.mintedAmount,
+        })),
+        [
+          {
+            ionToken: market.tokenConfig.address,
+            ionTokenAmount: amount,
+            mintedAmount: await ionicDebtToken.read.balanceOf([user]),
+          },
+        ]
+      );
+
+      // The saved ledger reads back as the one in memory
+      assert.deepEqual(
+        await loadLedger(path, ledger.chainId, ionicDebtToken.address),
+        ledger
+      );
+    });
+
+    it("should resume from the last processed block without duplicates", async () => {
+      const deployment = await networkHelpers.loadFixture(deployFixture);
+      const { ionicDebtToken, markets } = deployment;
+      const [first, second] = markets;
+      await mintFor(deployment, 0, parseUnits("1", first.tokenConfig.decimals));
+
+      const { path, ledger } = await newLedger(ionicDebtToken.address);
+      const firstRun = await publicClient.getBlockNumber();
+      await indexLedger(publicClient, ledger, firstRun);
+      await saveLedger(path, ledger);
+
+      await mintFor(
+        deployment,
+        1,
+        parseUnits("2", second.tokenConfig.decimals)
+      );
+
+      const resumed = await loadLedger(
+        path,
+        ledger.chainId,
+        ionicDebtToken.address
+      );
+      const secondRun = await publicClient.getBlockNumber();
+      assert.equal(await indexLedger(publicClient, resumed, secondRun, 1n), 1);
+      assert.equal(resumed.lastProcessedBlock, secondRun);
+
+      const keys = resumed.events.map(
+        (event) => `${event.transactionHash}-${event.logIndex}`
+      );
+      assert.equal(new Set(keys).size, keys.length);
+      assert.equal(resumed.events.length, ledger.events.length + 1);
+
+      // Events of blocks already in the ledger are rejected
+      assert.throws(
+        () => appendLedgerEvents(resumed, ledger.events, secondRun),
+        /already in the ledger/
+      );
+
+      const totals = await ionicDebtToken.read.getIonTokenTotals();
+      for (const entry of getMintTotalsPerIonToken(resumed)) {
+        const onChain = totals.find(
+          (total) => getAddress(total.ionToken) === entry.ionToken
+        );
+        assert.equal(entry.mints, 1);
+        assert.equal(entry.ionTokenAmount, onChain?.totalDeposited);
+        assert.equal(entry.mintedAmount, onChain?.totalMinted);
+      }
+    });
+
+    it("should advance over blocks without events", async () => {
+      const { ionicDebtToken } = await networkHelpers.loadFixture(
+        deployFixture
+      );
+
+      const { ledger } = await newLedger(ionicDebtToken.address);
+      await indexLedger(
+        publicClient,
+        ledger,
+        await publicClient.getBlockNumber()
+      );
+      const events = [...ledger.events];
+
+      await networkHelpers.mine(5);
+      const toBlock = await publicClient.getBlockNumber();
+      const chunks: number[] = [];
+      const added = await indexLedger(
+        publicClient,
+        ledger,
+        toBlock,
+        2n,
+        async (_start, _end, chunkEvents) => {
+          chunks.push(chunkEvents.length);
+        }
+      );
+
+      assert.equal(added, 0);
+      assert.deepEqual(chunks, [0, 0, 0]);
+      assert.equal(ledger.lastProcessedBlock, toBlock);
+      assert.deepEqual(ledger.events, events);
+
+      // An up to date ledger is left as is
+      assert.equal(await indexLedger(publicClient, ledger, toBlock), 0);
+      assert.equal(ledger.lastProcessedBlock, toBlock);
+    });
+  });
+
+  describe("Valuation Replay", () => {
+    it("should rebuild each block's valuation from the state at that block", async () => {
+      const { ionicDebtToken, oracle, markets, networkConfig } =
+        await networkHelpers.loadFixture(deployFixture);
+      const [market] = markets;
+      const price = priceInEth(market.priceInUsd);
+
+      // Supply of 5 ionTokens at the first block, then the price rises by half
+      // and 3 more ionTokens are supplied
+      await market.ionToken.write.mint([
+        user,
+        parseUnits("5", market.tokenConfig.decimals),
+      ]);
+      const before = await publicClient.getBlockNumber();
+      await oracle.write.setPrice([
+        market.underlying.address,
+        (price * 3n) / 2n,
+      ]);
+      await market.ionToken.write.mint([
+        user,
+        parseUnits("3", market.tokenConfig.decimals),
+      ]);
+      const after = await publicClient.getBlockNumber();
+
+      const blocks = parseReplayBlocks(`before:${before}, ${after}`);
+      assert.deepEqual(blocks, [
+        { label: "before", blockNumber: before },
+        { label: `${after}`, blockNumber: after },
+      ]);
+
+      const rows = await replayValuation(
+        publicClient,
+        networkConfig.masterPriceOracleAddress,
+        networkConfig.usdcAddress,
+        networkConfig.tokenConfigs,
+        blocks
+      );
+      assert.equal(rows.length, blocks.length * markets.length);
+
+      const marketRows = rows.filter(
+        (row) => row.ionToken === market.tokenConfig.address
+      );
+      assert.deepEqual(
+        marketRows.map((row) => [row.totalSupply, row.underlyingPrice]),
+        [
+          [parseUnits("5", market.tokenConfig.decimals), price],
+          [parseUnits("8", market.tokenConfig.decimals), (price * 3n) / 2n],
+        ]
+      );
+
+      // Every row matches what the contract valued at that block
+      for (const row of rows) {
+        const options = { blockNumber: row.blockNumber };
+        assert.equal(
+          row.dionPerIonToken,
+          await ionicDebtToken.read.previewMint(
+            [
+              row.ionToken,
+              10n **
+                BigInt(
+                  markets.find(
+                    (entry) => entry.tokenConfig.address === row.ionToken
+                  )!.tokenConfig.decimals
+                ),
+            ],
+            options
+          )
+        );
+        assert.equal(
+          row.dionForSupply,
+          row.totalSupply === 0n
+            ? 0n
+            : await ionicDebtToken.read.previewMint(
+                [row.ionToken, row.totalSupply],
+                options
+              )
+        );
+      }
+    });
+  });
+
+  describe("Exposure Report", () => {
+    it("should value exposure and ratios with exact integer math", async () => {
+      const tokenConfigs = modeMainnetConfig.tokenConfigs;
+      const markets = tokenConfigs.map((tokenConfig) => {
+        const market = MODE_MAINNET_MOCK_MARKETS[tokenConfig.symbol];
+        return {
+          ionToken: getAddress(tokenConfig.address),
+          symbol: tokenConfig.symbol,
+          decimals: tokenConfig.decimals,
+          underlying: getAddress(tokenConfig.address),
+          underlyingDecimals: market.underlyingDecimals,
+          totalSupply: tokenConfig.totalSupplied,
+          exchangeRate: market.exchangeRate,
+          // Half of the supply at the time of the exploit is left
+          totalSupplied: tokenConfig.totalSupplied / 2n,
+          underlyingPrice: priceInEth(market.priceInUsd),
+        };
+      });
+      const report = buildExposureReport(
+        markets,
+        tokenConfigs,
+        priceInEth(1n),
+        1n
+      );
+
+      for (const [i, row] of report.rows.entries()) {
+        const tokenConfig = tokenConfigs[i];
+        assert.equal(
+          row.scaleFactorRatio,
+          (tokenConfig.illegitimateBorrowed * 10n ** 18n) /
+            tokenConfig.totalSupplied
+        );
+        assert.equal(
+          row.borrowedRatio,
+          (tokenConfig.illegitimateBorrowed * 10n ** 18n) /
+            (tokenConfig.totalSupplied / 2n)
+        );
+        assert.equal(
+          row.borrowedValueUsd,
+          valueUnderlyingInUsd(
+            tokenConfig.illegitimateBorrowed,
+            markets[i].underlyingDecimals,
+            markets[i].underlyingPrice,
+            priceInEth(1n)
+          )
+        );
+      }
+      assert.equal(
+        report.totals.borrowedValueUsd,
+        report.rows.reduce((sum, row) => sum + row.borrowedValueUsd, 0n)
+      );
+      assert.equal(formatRatio(parseUnits("0.45087", 18)), "45.08%");
+
+      const csv = toCsv(exposureTableRows(report)).trim().split("\n");
+      assert.equal(csv.length, tokenConfigs.length + 1);
+      assert.match(exposureMarkdown(report), /\| ionuniBTC \| /);
+    });
+  });
+
+  describe("Exploit Borrows", () => {
+    it("should sum exploit borrows into the config with their transactions", async () => {
+      const [uniBtc, wrsEth] = modeMainnetConfig.tokenConfigs;
+      const borrow = (
+        tokenConfig: typeof uniBtc,
+        amount: bigint,
+        logIndex: number
+      ) => ({
+        ionToken: getAddress(tokenConfig.address),
+        borrower: user,
+        amount,
+        transactionHash: `0x${"ab".repeat(32)}` as const,
+        blockNumber: 20_000_000n,
+        logIndex,
+      });
+      const borrows = [
+        borrow(uniBtc, parseUnits("30", 8), 1),
+        borrow(uniBtc, parseUnits("9.5017", 8), 2),
+        borrow(wrsEth, parseUnits("200", 18), 3),
+      ];
+
+      // Borrows found both by transaction and by account count once
+      const checks = checkIllegitimateBorrowed(modeMainnetConfig.tokenConfigs, [
+        ...borrows,
+        ...borrows,
+      ]);
+      assert.equal(checks[0].derived, uniBtc.illegitimateBorrowed);
+      assert.equal(checks[0].matches, true);
+      assert.equal(checks[1].derived, parseUnits("200", 18));
+      assert.equal(checks[1].matches, false);
+      assert.equal(checks[2].borrows.length, 0);
+
+      const decimals = Object.fromEntries(
+        modeMainnetConfig.tokenConfigs.map((tokenConfig) => [
+          tokenConfig.symbol,
+          tokenConfig.decimals,
+        ])
+      );
+      const source = await readFile("ignition/config/mode-mainnet.ts", "utf8");
+      const rendered = renderIllegitimateBorrowed(source, checks, decimals);
+      assert.match(
+        rendered,
+        /\/\/ - 0x(ab){32} \(block 20000000\): 9\.5017 by 0x[0-9a-fA-F]{40}\n\s+illegitimateBorrowed: parseUnits\("39\.5017", 8\),/
+      );
+      assert.match(rendered, /illegitimateBorrowed: parseUnits\("200", 18\),/);
+      // ionTokens without borrows keep their literal
+      assert.match(
+        rendered,
+        /illegitimateBorrowed: parseUnits\("195\.581", 18\),/
+      );
+      // Rerunning replaces the trail instead of stacking another one
+      assert.equal(
+        renderIllegitimateBorrowed(rendered, checks, decimals),
+        rendered
+      );
+    });
+  });
+
+  describe("Upgrades", () => {
+    it("should upgrade the proxy to a new implementation and keep its state", async () => {
+      const { ionicDebtToken, proxyAdmin, implementation, networkConfig } =
+        await networkHelpers.loadFixture(deployFixture);
+
+      const upgrade = await ignition.deploy(IonicDebtTokenUpgradeModule, {
+        parameters: {
+          IonicDebtTokenUpgradeModule: {
+            proxy: ionicDebtToken.address,
+            proxyAdmin: proxyAdmin.address,
+          },
+        },
+      });
+
+      const newImplementation = await getProxyImplementation(
+        publicClient,
+        ionicDebtToken.address
+      );
+      assert.equal(
+        newImplementation,
+        getAddress(upgrade.implementation.address)
+      );
+      assert.notEqual(newImplementation, getAddress(implementation.address));
+
+      for (const tokenConfig of networkConfig.tokenConfigs) {
+        assert.equal(
+          await ionicDebtToken.read.whitelistedIonTokens([tokenConfig.address]),
+          true
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { network } from "hardhat";
+import { getAddress, parseEther } from "viem";
+import { modeMainnetConfig } from "../../ignition/config/mode-mainnet.js";
+import type {
+  IonTokenConfig,
+  NetworkDeploymentConfig,
+} from "../../ignition/config/types.js";
+import { validateNetworkConfig } from "../../ignition/config/validate.js";
+import { buildIonicDebtTokenModule } from "../../ignition/modules/IonicDebtToken.js";
+
+/*
+ * Offline stand-in for the Mode mainnet deployment: the mocks of
+ * contracts/mocks/Mocks.sol, configured like `modeMainnetConfig`, and the
+ * IonicDebtToken Ignition module deployed against them.
+ */
+
+export type TestConnection = Awaited<ReturnType<typeof network.connect>>;
+
+// ETH price the mock oracle prices are derived from
+export const ETH_PRICE_IN_USD = 4000n;
+
+interface MockMarket {
+  underlyingSymbol: string;
+  underlyingDecimals: number;
+  // Underlying per ionToken, scaled by 1e18
+  exchangeRate: bigint;
+  // Price of one whole underlying token
+  priceInUsd: bigint;
+}
+
+// Underlying market of each ionToken of `modeMainnetConfig`, by symbol.
+// Exchange rates and prices are representative values, not on-chain readings.
+export const MODE_MAINNET_MOCK_MARKETS: Record<string, MockMarket> = {
+  ionuniBTC: {
+    underlyingSymbol: "uniBTC",
+    underlyingDecimals: 8,
+    exchangeRate: parseEther("1.002"),
+    priceInUsd: 80000n,
+  },
+  ionwrsETH: {
+    underlyingSymbol: "wrsETH",
+    underlyingDecimals: 18,
+    exchangeRate: parseEther("1.001"),
+    priceInUsd: 4200n,
+  },
+  ionWETH: {
+    underlyingSymbol: "WETH",
+    underlyingDecimals: 18,
+    exchangeRate: parseEther("1.02"),
+    priceInUsd: 4000n,
+  },
+  "ionweETH.mode": {
+    underlyingSymbol: "weETH.mode",
+    underlyingDecimals: 18,
+    exchangeRate: parseEther("1.003"),
+    priceInUsd: 4200n,
+  },
+  ionWBTC: {
+    underlyingSymbol: "WBTC",
+    underlyingDecimals: 8,
+    exchangeRate: parseEther("1.004"),
+    priceInUsd: 80000n,
+  },
+  ionSTONE: {
+    underlyingSymbol: "STONE",
+    underlyingDecimals: 18,
+    exchangeRate: parseEther("1.001"),
+    priceInUsd: 4100n,
+  },
+  ionUSDC: {
+    underlyingSymbol: "USDC",
+    underlyingDecimals: 6,
+    exchangeRate: parseEther("1.05"),
+    priceInUsd: 1n,
+  },
+  ionUSDT: {
+    underlyingSymbol: "USDT",
+    underlyingDecimals: 6,
+    exchangeRate: parseEther("1.04"),
+    priceInUsd: 1n,
+  },
+  ionweETH: {
+    underlyingSymbol: "weETH",
+    underlyingDecimals: 18,
+    exchangeRate: parseEther("1.01"),
+    priceInUsd: 4200n,
+  },
+};
+
+/**
+ * Price of a token in ETH, as returned by the MasterPriceOracle
+ * @param priceInUsd Price of one whole token in USD
+ * @returns Price in ETH, scaled by 1e18
+ */
+export function priceInEth(priceInUsd: bigint): bigint {
+  return (priceInUsd * 10n ** 18n) / ETH_PRICE_IN_USD;
+}
+
+/**
+ * Deploy a mock ionToken, underlying and oracle price for every ionToken of
+ * `modeMainnetConfig`, keeping its symbol, decimals and supply figures
+ * @param connection Connection to a local (non-forked) network
+ * @returns The mocks and a deployment config pointing at them
+ */
+export async function deployModeMainnetMocks(connection: TestConnection) {
+  const { viem } = connection;
+  const oracle = await viem.deployContract("MockMasterPriceOracle");
+
+  const markets = [];
+  for (const tokenConfig of modeMainnetConfig.tokenConfigs) {
+    const market = MODE_MAINNET_MOCK_MARKETS[tokenConfig.symbol];
+    if (market === undefined) {
+      throw new Error(`No mock market for ${tokenConfig.symbol}`);
+    }
+
+    const underlying = await viem.deployContract("MockUnderlyingToken", [
+      market.underlyingSymbol,
+      market.underlyingSymbol,
+      market.underlyingDecimals,
+    ]);
+    await oracle.write.setPrice([
+      underlying.address,
+      priceInEth(market.priceInUsd),
+    ]);
+
+    const ionToken = await viem.deployContract("MockIonToken", [
+      tokenConfig.symbol,
+      tokenConfig.symbol,
+      underlying.address,
+      market.exchangeRate,
+      tokenConfig.decimals,
+    ]);
+
+    const mockTokenConfig: IonTokenConfig = {
+      ...tokenConfig,
+      address: getAddress(ionToken.address),
+    };
+    markets.push({
+      ...market,
+      tokenConfig: mockTokenConfig,
+      ionToken,
+      underlying,
+    });
+  }
+
+  // The USDC market's underlying doubles as the USDC price reference
+  const usdc = markets.find(
+    (market) => market.underlyingSymbol === "USDC"
+  )!.underlying;
+
+  const networkConfig: NetworkDeploymentConfig = {
+    masterPriceOracleAddress: getAddress(oracle.address),
+    usdcAddress: getAddress(usdc.address),
+    tokenConfigs: markets.map((market) => market.tokenConfig),
+  };
+  validateNetworkConfig("offline", networkConfig);
+
+  return { oracle, usdc, markets, networkConfig };
+}
+
+/**
+ * Deploy the mocks and run the full IonicDebtToken Ignition module against them
+ * @param connection Connection to a local (non-forked) network
+ * @returns The mocks, their config and the module's contracts
+ */
+export async function deployIonicDebtTokenFixture(connection: TestConnection) {
+  const mocks = await deployModeMainnetMocks(connection);
+  const deployment = await connection.ignition.deploy(
+    buildIonicDebtTokenModule(mocks.networkConfig)
+  );
+
+  return { ...mocks, ...deployment };
+}
@@ -0,0 +1,54 @@
+import assert from "node:assert/strict";
+import { getAddress, isAddress } from "viem";
+import { decodeRevert, describeRevert } from "../../utils/errors.js";
+
+/*
+ * Assertions on the custom errors IonicDebtToken reverts with, shared by the
+ * offline and fork suites
+ */
+
+// Compare addresses whatever their checksum
+function normalize(args: readonly unknown[]): unknown[] {
+  return args.map((arg) =>
+    typeof arg === "string" && isAddress(arg, { strict: false })
+      ? getAddress(arg)
+      : arg
+  );
+}
+
+/**
+ * Assert that a contract call reverts with a custom error
+ * @param call Pending `read`, `write` or `simulate` call
+ * @param errorName Name of the custom error
+ * @param args Expected arguments, omitted to only check the name
+ */
+export async function assertRevertsWith(
+  call: Promise<unknown>,
+  errorName: string,
+  args?: readonly unknown[]
+): Promise<void> {
+  let error: unknown;
+  try {
+    await call;
+  } catch (caught) {
+    error = caught;
+  }
+  assert.ok(
+    error !== undefined,
+    `Expected a revert with ${errorName}, but the call succeeded`
+  );
+
+  const decoded = decodeRevert(error);
+  assert.ok(
+    decoded !== undefined,
+    `Expected a revert with ${errorName}, got: ${describeRevert(error)}`
+  );
+  assert.equal(decoded.errorName, errorName, describeRevert(error));
+  if (args !== undefined) {
+    assert.deepEqual(
+      normalize(decoded.args),
+      normalize(args),
+      `Unexpected ${errorName} arguments`
+    );
+  }
+}
@@ -0,0 +1,358 @@
+import { createInterface } from "node:readline/promises";
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import {
+  Address,
+  erc20Abi,
+  getAddress,
+  Hex,
+  isAddress,
+  PublicClient,
+} from "viem";
+import { MODE_MAINNET_RPC_URL } from "./constants.js";
+import { getIonicDebtTokenAddress } from "./deployment.js";
+import { describeRevert } from "./errors.js";
+import { connectFork, impersonate } from "./fork.js";
+import { ROLE_NAMES, ROLES } from "./roles.js";
+import {
+  getTimelockedCallStatus,
+  nextTimelockStep,
+  TimelockedCall,
+} from "./timelock.js";
+
+/**
+ * Connect to the IonicDebtToken proxy of the task's network as its owner
+ * @param hre Hardhat runtime environment of the task
+ * @param address Proxy address, empty to use the Ignition deployment
+ * @returns The connection, the proxy and the owner's wallet client
+ */
+export async function connectAsOwner(
+  hre: HardhatRuntimeEnvironment,
+  address: string
+) {
+  const connection = await hre.network.connect();
+  const publicClient = await connection.viem.getPublicClient();
+  const [walletClient] = await connection.viem.getWalletClients();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await connection.viem.getContractAt(
+    "IonicDebtToken",
+    address === ""
+      ? await getIonicDebtTokenAddress(chainId)
+      : getAddress(address)
+  );
+
+  const owner = getAddress(await ionicDebtToken.read.owner());
+  if (getAddress(walletClient.account.address) !== owner) {
+    throw new Error(
+      `${walletClient.account.address} is not the owner of ${ionicDebtToken.address} (${owner}), export a Safe batch instead`
+    );
+  }
+
+  return { connection, publicClient, walletClient, ionicDebtToken };
+}
+
+/**
+ * Connect to the IonicDebtToken proxy of the task's network as a role holder
+ * @param hre Hardhat runtime environment of the task
+ * @param address Proxy address, empty to use the Ignition deployment
+ * @param role Role the task's call needs
+ * @returns The connection, the proxy and the role holder's wallet client
+ */
+export async function connectWithRole(
+  hre: HardhatRuntimeEnvironment,
+  address: string,
+  role: Hex
+) {
+  const connection = await hre.network.connect();
+  const publicClient = await connection.viem.getPublicClient();
+  const [walletClient] = await connection.viem.getWalletClients();
+  const chainId = await publicClient.getChainId();
+
+  const ionicDebtToken = await connection.viem.getContractAt(
+    "IonicDebtToken",
+    address === ""
+      ? await getIonicDebtTokenAddress(chainId)
+      : getAddress(address)
+  );
+
+  if (
+    !(await ionicDebtToken.read.hasRole([role, walletClient.account.address]))
+  ) {
+    const name = ROLE_NAMES.find((roleName) => ROLES[roleName] === role);
+    throw new Error(
+      `${walletClient.account.address} does not have the ${name} role of ${ionicDebtToken.address}, export a Safe batch instead`
+    );
+  }
+
+  return { connection, publicClient, walletClient, ionicDebtToken };
+}
+
+export type IonicDebtTokenContract = Awaited<
+  ReturnType<typeof connectWithRole>
+>["ionicDebtToken"];
+
+// Values shown before and after an admin call, by label
+export type AdminState = Record<string, string | bigint | boolean>;
+
+/**
+ * Options shared by the admin tasks that dry-run their call on a fork
+ */
+export interface DryRunOptions {
+  // RPC of the task's network to fork, empty for Mode mainnet's
+  forkUrl: string;
+  // Send without asking for confirmation
+  yes: boolean;
+}
+
+/**
+ * Render the values an admin call changed
+ * @param before State before the call
+ * @param after State after the call
+ * @returns One line per changed value
+ */
+export function diffAdminState(
+  before: AdminState,
+  after: AdminState
+): string[] {
+  return Object.keys({ ...before, ...after })
+    .filter((key) => before[key] !== after[key])
+    .map((key) => `${key}: ${before[key]} -> ${after[key]}`);
+}
+
+async function confirm(question: string): Promise<boolean> {
+  const readline = createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  try {
+    const answer = await readline.question(`${question} [y/N] `);
+    return answer.trim().toLowerCase() === "y";
+  } finally {
+    readline.close();
+  }
+}
+
+/**
+ * Send an admin call to IonicDebtToken after simulating it on a fork of the
+ * network: the state it changes is printed, a revert is decoded into its
+ * custom error, and the call is only sent once confirmed.
+ * @param connected Result of `connectWithRole`
+ * @param call Calldata for the proxy and its description
+ * @param readState Reads the state the call changes
+ * @param options Fork RPC and confirmation
+ * @returns Whether the call was sent
+ */
+export async function dryRunAndSend(
+  {
+    connection,
+    publicClient,
+    walletClient,
+    ionicDebtToken,
+  }: Awaited<ReturnType<typeof connectWithRole>>,
+  call: { data: Hex; description: string },
+  readState: (
+    ionicDebtToken: IonicDebtTokenContract,
+    publicClient: Pick<PublicClient, "readContract">
+  ) => Promise<AdminState>,
+  { forkUrl, yes }: DryRunOptions
+): Promise<boolean> {
+  const fork = await connectFork(forkUrl || MODE_MAINNET_RPC_URL);
+  const forkClient = await fork.viem.getPublicClient();
+  const chainId = await publicClient.getChainId();
+  if ((await forkClient.getChainId()) !== chainId) {
+    throw new Error(
+      `The fork is not of chain ${chainId}, set --fork-url to an RPC of the network`
+    );
+  }
+
+  const forkToken = await fork.viem.getContractAt(
+    "IonicDebtToken",
+    ionicDebtToken.address
+  );
+  const sender = await impersonate(fork, walletClient.account.address);
+
+  console.log(`Simulating ${call.description} on a fork`);
+  const before = await readState(forkToken, forkClient);
+  try {
+    const hash = await sender.sendTransaction({
+      to: ionicDebtToken.address,
+      data: call.data,
+    });
+    const receipt = await forkClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`${call.description} reverted`);
+    }
+  } catch (error) {
+    console.error(`Simulation reverted: ${describeRevert(error)}`);
+    process.exitCode = 1;
+    return false;
+  }
+  const changes = diffAdminState(
+    before,
+    await readState(forkToken, forkClient)
+  );
+  console.log(changes.length === 0 ? "No state change" : "State changes:");
+  for (const change of changes) {
+    console.log(`  ${change}`);
+  }
+
+  if (
+    !yes &&
+    !(await confirm(`Send ${call.description} to ${connection.networkName}?`))
+  ) {
+    console.log("Not sent");
+    return false;
+  }
+
+  const hash = await walletClient.sendTransaction({
+    to: ionicDebtToken.address,
+    data: call.data,
+  });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  console.log(`${call.description}: ${hash} (${receipt.status})`);
+  if (receipt.status !== "success") {
+    process.exitCode = 1;
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Pick the next step of a timelocked update: schedule it, or execute it once
+ * its delay has passed
+ * @param connected Result of `connectWithRole`
+ * @param call Update to make
+ * @returns Calldata for the proxy and its description
+ * @throws If the update is scheduled but not ready yet
+ */
+export async function nextTimelockedCall(
+  { publicClient, ionicDebtToken }: Awaited<ReturnType<typeof connectWithRole>>,
+  call: TimelockedCall
+): Promise<{ data: Hex; description: string }> {
+  const { timestamp } = await publicClient.getBlock();
+  return nextTimelockStep(
+    call,
+    await getTimelockedCallStatus(ionicDebtToken, call, timestamp)
+  );
+}
+
+/**
+ * Read the whitelist entry of an ionToken
+ * @param ionicDebtToken Proxy to read
+ * @param ionToken ionToken to look up
+ * @returns Whether it is whitelisted, its scale factor and mint cap
+ */
+export async function readIonTokenState(
+  ionicDebtToken: IonicDebtTokenContract,
+  ionToken: Address
+): Promise<AdminState> {
+  const [whitelisted, [numerator, denominator], mintCap] = await Promise.all([
+    ionicDebtToken.read.whitelistedIonTokens([ionToken]),
+    ionicDebtToken.read.ionTokenScaleFactors([ionToken]),
+    ionicDebtToken.read.ionTokenMintCaps([ionToken]),
+  ]);
+  return {
+    whitelisted,
+    "scale factor": `${numerator}/${denominator}`,
+    "mint cap": mintCap,
+  };
+}
+
+/**
+ * Read when a timelocked update is ready
+ * @param ionicDebtToken Proxy to read
+ * @param call Update to look up
+ * @returns The timestamp it can execute at, 0 if it is not scheduled
+ */
+export async function readScheduledState(
+  ionicDebtToken: IonicDebtTokenContract,
+  call: TimelockedCall
+): Promise<AdminState> {
+  return {
+    [`${call.functionName} ready at`]:
+      await ionicDebtToken.read.scheduledChanges([call.changeId]),
+  };
+}
+
+/**
+ * Read the balances of an ionToken held by the proxy and an account
+ * @param publicClient Client to read with
+ * @param ionicDebtToken Proxy holding ionTokens
+ * @param ionToken ionToken to read
+ * @param account Other holder (e.g. a withdrawal's recipient)
+ * @returns Both balances
+ */
+export async function readIonTokenBalances(
+  publicClient: Pick<PublicClient, "readContract">,
+  ionicDebtToken: Address,
+  ionToken: Address,
+  account: Address
+): Promise<AdminState> {
+  const [held, balance] = await Promise.all(
+    [ionicDebtToken, account].map((holder) =>
+      publicClient.readContract({
+        address: ionToken,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [holder],
+      })
+    )
+  );
+  return {
+    "IonicDebtToken balance": held,
+    [`${account} balance`]: balance,
+  };
+}
+
+/**
+ * Parse a task's timestamp option
+ * @param value Unix timestamp in seconds, or "now"
+ * @param now Timestamp of the latest block
+ * @returns Timestamp in seconds
+ */
+export function parseTimestamp(value: string, now: bigint): bigint {
+  if (value === "now") {
+    return now;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`${value} is not a unix timestamp or "now"`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Parse a task's integer option
+ * @param value Decimal integer
+ * @param name Option name, for the error message
+ * @returns The integer
+ */
+export function parseUint(value: string, name: string): bigint {
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`--${name} must be a non-negative integer, got "${value}"`);
+  }
+  return BigInt(value);
+}
+
+/**
+ * Parse a task's address option
+ * @param value Address
+ * @param name Option name, for the error message
+ * @returns The checksummed address
+ */
+export function parseAddress(value: string, name: string): Address {
+  if (!isAddress(value)) {
+    throw new Error(`--${name} must be an address, got "${value}"`);
+  }
+  return getAddress(value);
+}
+
+/**
+ * Format a claim window bound for display
+ * @param timestamp Timestamp in seconds (0 for unbounded)
+ * @returns ISO date, or "none"
+ */
+export function formatTimestamp(timestamp: bigint): string {
+  return timestamp === 0n
+    ? "none"
+    : new Date(Number(timestamp) * 1000).toISOString();
+}
@@ -0,0 +1,206 @@
+import {
+  Address,
+  erc20Abi,
+  getAddress,
+  Hex,
+  PublicClient,
+  zeroAddress,
+} from "viem";
+import { DEFAULT_LOG_CHUNK_SIZE, fetchLogsInChunks } from "./logs.js";
+
+/*
+ * Builds the IonicDebtToken blocklist from a few known exploiter accounts by
+ * following the ionTokens and ETH they sent, hop by hop: every account funded
+ * by a blocklisted account is blocklisted too, up to a number of hops.
+ *
+ * Only EOAs are followed. Contracts the exploiter sent funds to (DEXes,
+ * bridges, the ionTokens themselves) would otherwise pull in their users.
+ */
+
+export interface FundingEdge {
+  from: Address;
+  to: Address;
+  // ionToken sent, or "ETH"
+  asset: Address | "ETH";
+  value: bigint;
+  transactionHash: Hex;
+}
+
+export interface BlocklistEntry {
+  account: Address;
+  // 0 for seeds
+  hop: number;
+  // Transfer the account was first reached through (unset for seeds)
+  fundedBy?: FundingEdge;
+}
+
+/**
+ * Read the ionToken transfers of a block range as funding edges
+ * @param publicClient Client connected to the network
+ * @param ionTokens ionTokens to follow
+ * @param fromBlock First block to scan
+ * @param toBlock Last block to scan
+ * @param chunkSize Blocks per `eth_getLogs` request
+ * @returns One edge per non-mint, non-burn transfer
+ */
+export async function fetchIonTokenFundingEdges(
+  publicClient: Pick<PublicClient, "getContractEvents">,
+  ionTokens: Address[],
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<FundingEdge[]> {
+  const edges: FundingEdge[] = [];
+  for (const ionToken of ionTokens) {
+    const transfers = await fetchLogsInChunks(
+      fromBlock,
+      toBlock,
+      (from, to) =>
+        publicClient.getContractEvents({
+          address: ionToken,
+          abi: erc20Abi,
+          eventName: "Transfer",
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        }),
+      chunkSize
+    );
+
+    for (const { args, transactionHash } of transfers) {
+      if (args.from === zeroAddress || args.to === zeroAddress) {
+        continue;
+      }
+      edges.push({
+        from: getAddress(args.from),
+        to: getAddress(args.to),
+        asset: getAddress(ionToken),
+        value: args.value,
+        transactionHash,
+      });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Read the ETH sent by transactions of a block range as funding edges
+ *
+ * Only transaction values are seen, ETH sent by contracts (internal calls)
+ * needs traces the public RPC does not serve.
+ *
+ * @param publicClient Client connected to the network
+ * @param fromBlock First block to scan
+ * @param toBlock Last block to scan
+ * @returns One edge per transaction sending ETH
+ */
+export async function fetchEthFundingEdges(
+  publicClient: Pick<PublicClient, "getBlock">,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<FundingEdge[]> {
+  const edges: FundingEdge[] = [];
+  for (let blockNumber = fromBlock; blockNumber <= toBlock; blockNumber++) {
+    const block = await publicClient.getBlock({
+      blockNumber,
+      includeTransactions: true,
+    });
+    for (const transaction of block.transactions) {
+      if (transaction.value === 0n || transaction.to === null) {
+        continue;
+      }
+      edges.push({
+        from: getAddress(transaction.from),
+        to: getAddress(transaction.to),
+        asset: "ETH",
+        value: transaction.value,
+        transactionHash: transaction.hash,
+      });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Follow funding edges from the seed accounts
+ * @param seeds Known exploiter accounts, always blocklisted
+ * @param edges Transfers to follow
+ * @param maxHops Number of hops to follow from the seeds
+ * @param isFollowed Whether an account reached through an edge is blocklisted
+ * (e.g. only EOAs), checked once per account
+ * @returns The blocklist, seeds first, then by hop
+ */
+export async function expandBlocklist(
+  seeds: Address[],
+  edges: FundingEdge[],
+  maxHops: number,
+  isFollowed: (account: Address) => Promise<boolean>
+): Promise<BlocklistEntry[]> {
+  const outgoing = new Map<Address, FundingEdge[]>();
+  for (const edge of edges) {
+    const sent = outgoing.get(edge.from) ?? [];
+    sent.push(edge);
+    outgoing.set(edge.from, sent);
+  }
+
+  const entries = new Map<Address, BlocklistEntry>();
+  const rejected = new Set<Address>();
+  for (const seed of seeds) {
+    entries.set(getAddress(seed), { account: getAddress(seed), hop: 0 });
+  }
+
+  let frontier = [...entries.keys()];
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const next: Address[] = [];
+    for (const account of frontier) {
+      for (const edge of outgoing.get(account) ?? []) {
+        if (entries.has(edge.to) || rejected.has(edge.to)) {
+          continue;
+        }
+        if (!(await isFollowed(edge.to))) {
+          rejected.add(edge.to);
+          continue;
+        }
+        entries.set(edge.to, { account: edge.to, hop, fundedBy: edge });
+        next.push(edge.to);
+      }
+    }
+    frontier = next;
+  }
+
+  return [...entries.values()];
+}
+
+/**
+ * Render the blocklist as the TypeScript module a network config imports
+ * @param exportName Name of the exported array
+ * @param entries Blocklist built by `expandBlocklist`
+ * @param header Lines describing how the blocklist was built
+ * @returns Source of the module
+ */
+export function renderBlocklistModule(
+  exportName: string,
+  entries: BlocklistEntry[],
+  header: string[]
+): string {
+  const lines = [
+    'import type { Address } from "viem";',
+    "",
+    "/*",
+    " * Generated by scripts/build-blocklist.ts, do not edit by hand.",
+    " *",
+    ...header.map((line) => ` * ${line}`),
+    " */",
+    `export const ${exportName}: Address[] = [`,
+  ];
+  for (const { account, hop, fundedBy } of entries) {
+    lines.push(
+      fundedBy === undefined
+        ? "  // Seed"
+        : `  // Hop ${hop}: ${fundedBy.value} ${fundedBy.asset} from ${fundedBy.from} in ${fundedBy.transactionHash}`
+    );
+    lines.push(`  "${account}",`);
+  }
+  lines.push("];", "");
+  return lines.join("\n");
+}
@@ -0,0 +1,383 @@
+import {
+  Address,
+  erc20Abi,
+  getAddress,
+  Hex,
+  parseAbi,
+  parseSignature,
+  PublicClient,
+  WalletClient,
+} from "viem";
+
+/*
+ * Chooses how a user claims dION for their ionTokens in as few transactions as
+ * possible:
+ *
+ * - ionTokens already approved to IonicDebtToken need no preparation
+ * - ionTokens supporting EIP-2612 are minted with `mintWithPermit`, whose
+ *   permit is signed off-chain, in one transaction each
+ * - other ionTokens are approved first
+ *
+ * Approved ionTokens are then minted together with a single `mintBatch` (or
+ * `mint` when there is only one).
+ */
+
+// ABI fragment for the IonicDebtToken functions a claim can call
+export const CLAIM_ABI = parseAbi([
+  "function mint(address ionToken, uint256 amount)",
+  "function mintBatch(address[] ionTokens, uint256[] amounts)",
+  "function mintWithPermit(address ionToken, uint256 amount, uint256 deadline, uint8 v, bytes32 r, bytes32 s)",
+]);
+
+// EIP-2612 and ERC-5267 functions of ionTokens that support permits
+export const PERMIT_ABI = parseAbi([
+  "function nonces(address owner) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function eip712Domain() view returns (bytes1 fields, string name, string version, uint256 chainId, address verifyingContract, bytes32 salt, uint256[] extensions)",
+]);
+
+// How long a permit signed by `executeClaimPlan` stays valid
+const PERMIT_VALIDITY_SECONDS = 3600n;
+
+export interface IonTokenHolding {
+  ionToken: Address;
+  // Amount of ionTokens to claim with
+  amount: bigint;
+  // Amount IonicDebtToken is already allowed to take
+  allowance: bigint;
+  supportsPermit: boolean;
+}
+
+export type ClaimStep =
+  | {
+      functionName: "approve";
+      // ionToken to approve, the spender is IonicDebtToken
+      address: Address;
+      args: readonly [Address, bigint];
+    }
+  | {
+      functionName: "mint";
+      args: readonly [Address, bigint];
+    }
+  | {
+      functionName: "mintBatch";
+      args: readonly [readonly Address[], readonly bigint[]];
+    }
+  | {
+      // The permit is signed when the step is executed
+      functionName: "mintWithPermit";
+      args: readonly [Address, bigint];
+    };
+
+/**
+ * Check whether an ionToken supports EIP-2612 permits
+ * @param publicClient Client connected to the ionToken's network
+ * @param ionToken Address of the ionToken
+ * @param owner Account that would sign the permit
+ * @returns Whether the ionToken exposes `DOMAIN_SEPARATOR` and `nonces`
+ */
+export async function supportsPermit(
+  publicClient: Pick<PublicClient, "readContract">,
+  ionToken: Address,
+  owner: Address
+): Promise<boolean> {
+  try {
+    await Promise.all([
+      publicClient.readContract({
+        address: ionToken,
+        abi: PERMIT_ABI,
+        functionName: "DOMAIN_SEPARATOR",
+      }),
+      publicClient.readContract({
+        address: ionToken,
+        abi: PERMIT_ABI,
+        functionName: "nonces",
+        args: [owner],
+      }),
+    ]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a user's balance, allowance and permit support for each ionToken
+ * @param publicClient Client connected to the network
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @param user Account claiming
+ * @param ionTokens ionTokens to consider (e.g. the config's whitelist)
+ * @returns The holdings with a non-zero balance, claiming the whole balance
+ */
+export async function fetchHoldings(
+  publicClient: Pick<PublicClient, "readContract">,
+  ionicDebtToken: Address,
+  user: Address,
+  ionTokens: Address[]
+): Promise<IonTokenHolding[]> {
+  const holdings: IonTokenHolding[] = [];
+  for (const ionToken of ionTokens) {
+    const [amount, allowance] = await Promise.all([
+      publicClient.readContract({
+        address: ionToken,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [user],
+      }),
+      publicClient.readContract({
+        address: ionToken,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [user, ionicDebtToken],
+      }),
+    ]);
+    if (amount === 0n) {
+      continue;
+    }
+
+    holdings.push({
+      ionToken: getAddress(ionToken),
+      amount,
+      allowance,
+      supportsPermit: await supportsPermit(publicClient, ionToken, user),
+    });
+  }
+  return holdings;
+}
+
+/**
+ * Plan the transactions claiming dION for a user's holdings
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @param holdings ionTokens to claim with
+ * @returns The steps, in the order they must be sent
+ */
+export function planClaim(
+  ionicDebtToken: Address,
+  holdings: IonTokenHolding[]
+): ClaimStep[] {
+  const approvals: ClaimStep[] = [];
+  const permitMints: ClaimStep[] = [];
+  const batch: IonTokenHolding[] = [];
+
+  for (const holding of holdings) {
+    if (holding.amount === 0n) {
+      continue;
+    }
+
+    if (holding.allowance >= holding.amount) {
+      batch.push(holding);
+    } else if (holding.supportsPermit) {
+      // As cheap as approving and batching, without the approval
+      permitMints.push({
+        functionName: "mintWithPermit",
+        args: [holding.ionToken, holding.amount],
+      });
+    } else {
+      approvals.push({
+        functionName: "approve",
+        address: holding.ionToken,
+        args: [getAddress(ionicDebtToken), holding.amount],
+      });
+      batch.push(holding);
+    }
+  }
+
+  const steps = [...approvals];
+  if (batch.length === 1) {
+    steps.push({
+      functionName: "mint",
+      args: [batch[0].ionToken, batch[0].amount],
+    });
+  } else if (batch.length > 1) {
+    steps.push({
+      functionName: "mintBatch",
+      args: [
+        batch.map((holding) => holding.ionToken),
+        batch.map((holding) => holding.amount),
+      ],
+    });
+  }
+  steps.push(...permitMints);
+
+  return steps;
+}
+
+/**
+ * Render a claim step as a human readable line
+ * @param step Step to describe
+ * @param label Returns the display name of an ionToken
+ * @returns Description of the step
+ */
+export function describeClaimStep(
+  step: ClaimStep,
+  label: (ionToken: Address) => string = (ionToken) => ionToken
+): string {
+  switch (step.functionName) {
+    case "approve":
+      return `approve ${step.args[1]} ${label(step.address)}`;
+    case "mint":
+      return `mint with ${step.args[1]} ${label(step.args[0])}`;
+    case "mintBatch":
+      return `mintBatch with ${step.args[0]
+        .map((ionToken, i) => `${step.args[1][i]} ${label(ionToken)}`)
+        .join(", ")}`;
+    case "mintWithPermit":
+      return `mintWithPermit with ${step.args[1]} ${label(step.args[0])}`;
+  }
+}
+
+/**
+ * Sign an EIP-2612 permit allowing IonicDebtToken to take ionTokens
+ * @param walletClient Client of the holder
+ * @param publicClient Client connected to the network
+ * @param ionToken Address of the ionToken
+ * @param spender Address of the IonicDebtToken proxy
+ * @param amount Amount of ionTokens to permit
+ * @param deadline Timestamp the permit expires at
+ * @returns The signature, split as `permit` expects it
+ */
+export async function signPermit(
+  walletClient: WalletClient,
+  publicClient: Pick<PublicClient, "readContract" | "getChainId">,
+  ionToken: Address,
+  spender: Address,
+  amount: bigint,
+  deadline: bigint
+): Promise<{ v: number; r: Hex; s: Hex }> {
+  const owner = walletClient.account!.address;
+
+  // Prefer the domain the token reports (ERC-5267), fall back to EIP-2612's usual one
+  let domain;
+  try {
+    const [, name, version, chainId, verifyingContract] =
+      await publicClient.readContract({
+        address: ionToken,
+        abi: PERMIT_ABI,
+        functionName: "eip712Domain",
+      });
+    domain = { name, version, chainId, verifyingContract };
+  } catch {
+    domain = {
+      name: await publicClient.readContract({
+        address: ionToken,
+        abi: erc20Abi,
+        functionName: "name",
+      }),
+      version: "1",
+      chainId: await publicClient.getChainId(),
+      verifyingContract: ionToken,
+    };
+  }
+
+  const nonce = await publicClient.readContract({
+    address: ionToken,
+    abi: PERMIT_ABI,
+    functionName: "nonces",
+    args: [owner],
+  });
+
+  const signature = await walletClient.signTypedData({
+    account: walletClient.account!,
+    domain,
+    types: {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    primaryType: "Permit",
+    message: { owner, spender, value: amount, nonce, deadline },
+  });
+
+  const { v, r, s, yParity } = parseSignature(signature);
+  return { v: Number(v ?? BigInt(yParity + 27)), r, s };
+}
+
+/**
+ * Send the steps of a claim plan, waiting for each transaction
+ * @param walletClient Client of the user claiming
+ * @param publicClient Client connected to the network
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @param steps Steps returned by `planClaim`
+ * @returns Hashes of the transactions sent
+ */
+export async function executeClaimPlan(
+  walletClient: WalletClient,
+  publicClient: Pick<
+    PublicClient,
+    "readContract" | "getChainId" | "getBlock" | "waitForTransactionReceipt"
+  >,
+  ionicDebtToken: Address,
+  steps: ClaimStep[]
+): Promise<Hex[]> {
+  const account = walletClient.account!;
+  const chain = walletClient.chain;
+  const hashes: Hex[] = [];
+
+  for (const step of steps) {
+    let hash: Hex;
+    switch (step.functionName) {
+      case "approve":
+        hash = await walletClient.writeContract({
+          account,
+          chain,
+          address: step.address,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: step.args,
+        });
+        break;
+      case "mint":
+        hash = await walletClient.writeContract({
+          account,
+          chain,
+          address: ionicDebtToken,
+          abi: CLAIM_ABI,
+          functionName: "mint",
+          args: step.args,
+        });
+        break;
+      case "mintBatch":
+        hash = await walletClient.writeContract({
+          account,
+          chain,
+          address: ionicDebtToken,
+          abi: CLAIM_ABI,
+          functionName: "mintBatch",
+          args: step.args,
+        });
+        break;
+      case "mintWithPermit": {
+        const [ionToken, amount] = step.args;
+        const { timestamp } = await publicClient.getBlock();
+        const deadline = timestamp + PERMIT_VALIDITY_SECONDS;
+        const { v, r, s } = await signPermit(
+          walletClient,
+          publicClient,
+          ionToken,
+          ionicDebtToken,
+          amount,
+          deadline
+        );
+        hash = await walletClient.writeContract({
+          account,
+          chain,
+          address: ionicDebtToken,
+          abi: CLAIM_ABI,
+          functionName: "mintWithPermit",
+          args: [ionToken, amount, deadline, v, r, s],
+        });
+        break;
+      }
+    }
+
+    // Later steps rely on the approvals being mined
+    await publicClient.waitForTransactionReceipt({ hash });
+    hashes.push(hash);
+  }
+
+  return hashes;
+}
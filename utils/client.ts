@@ -0,0 +1,267 @@
+import type { GetArtifactByName } from "hardhat/types/artifacts";
+import { createRequire } from "node:module";
+import { Address, getAddress, Hex, PublicClient, WalletClient } from "viem";
+import { getIonicDebtTokenAddress } from "./deployment.js";
+import { ScaleFactor } from "./valuation.js";
+
+/*
+ * Typed client for integrators of a deployed IonicDebtToken proxy (frontends,
+ * support bots): reads what a user can claim with, previews the dION it mints
+ * and mints it, approving the ionToken only when its allowance falls short.
+ */
+
+const require = createRequire(import.meta.url);
+
+// ABIs of the compiled contracts, typed by the artifacts Hardhat generates on
+// build. The ionToken interface extends ERC-20 metadata and declares the
+// market reads integrators need
+export const IONIC_DEBT_TOKEN_ABI = (
+  require("../artifacts/contracts/IonicDebtToken.sol/IonicDebtToken.json") as GetArtifactByName<"contracts/IonicDebtToken.sol:IonicDebtToken">
+).abi;
+
+export const ION_TOKEN_ABI = (
+  require("../artifacts/contracts/IonicDebtToken.sol/IIonToken.json") as GetArtifactByName<"contracts/IonicDebtToken.sol:IIonToken">
+).abi;
+
+export interface EligibleHolding {
+  ionToken: Address;
+  balance: bigint;
+  // Amount IonicDebtToken is already allowed to take
+  allowance: bigint;
+}
+
+export interface MintPreview {
+  ionToken: Address;
+  amount: bigint;
+  tokensToMint: bigint;
+}
+
+export interface ApproveAndMintResult {
+  // Undefined when the allowance already covered the amount
+  approveHash?: Hex;
+  mintHash: Hex;
+}
+
+export interface IonicDebtTokenClientOptions {
+  // Address of the IonicDebtToken proxy
+  address: Address;
+  publicClient: Pick<
+    PublicClient,
+    "readContract" | "waitForTransactionReceipt"
+  >;
+  // Needed by `approveAndMint` only
+  walletClient?: WalletClient;
+}
+
+export type IonicDebtTokenClient = ReturnType<
+  typeof createIonicDebtTokenClient
+>;
+
+/**
+ * Create a client for a deployed IonicDebtToken proxy
+ * @param options Proxy address and the clients to read and send with
+ * @returns The client
+ */
+export function createIonicDebtTokenClient({
+  address,
+  publicClient,
+  walletClient,
+}: IonicDebtTokenClientOptions) {
+  const ionicDebtToken = getAddress(address);
+
+  async function waitForSuccess(hash: Hex, description: string) {
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") {
+      throw new Error(`${description} reverted (${hash})`);
+    }
+  }
+
+  /**
+   * Get the ionTokens currently accepted for minting
+   * @returns Checksummed ionToken addresses
+   */
+  async function getWhitelistedIonTokens(): Promise<Address[]> {
+    const ionTokens = await publicClient.readContract({
+      address: ionicDebtToken,
+      abi: IONIC_DEBT_TOKEN_ABI,
+      functionName: "getWhitelistedIonTokens",
+    });
+    return ionTokens.map((ionToken) => getAddress(ionToken));
+  }
+
+  /**
+   * Get the scale factor applied to an ionToken's mints
+   * @param ionToken Address of the ionToken
+   * @returns Its numerator and denominator, both 0 if it was never whitelisted
+   */
+  async function getScaleFactor(ionToken: Address): Promise<ScaleFactor> {
+    const [numerator, denominator] = await publicClient.readContract({
+      address: ionicDebtToken,
+      abi: IONIC_DEBT_TOKEN_ABI,
+      functionName: "ionTokenScaleFactors",
+      args: [ionToken],
+    });
+    return { numerator, denominator };
+  }
+
+  /**
+   * Get the scale factor of every whitelisted ionToken
+   * @returns Scale factors by ionToken
+   */
+  async function getScaleFactors(): Promise<Map<Address, ScaleFactor>> {
+    const ionTokens = await getWhitelistedIonTokens();
+    const scaleFactors = await Promise.all(ionTokens.map(getScaleFactor));
+    return new Map(ionTokens.map((ionToken, i) => [ionToken, scaleFactors[i]]));
+  }
+
+  /**
+   * Read a user's balance and allowance of every whitelisted ionToken
+   * @param user Account to look up
+   * @returns The holdings with a non-zero balance
+   */
+  async function getEligibleHoldings(
+    user: Address
+  ): Promise<EligibleHolding[]> {
+    const ionTokens = await getWhitelistedIonTokens();
+    const holdings = await Promise.all(
+      ionTokens.map(async (ionToken) => {
+        const [balance, allowance] = await Promise.all([
+          publicClient.readContract({
+            address: ionToken,
+            abi: ION_TOKEN_ABI,
+            functionName: "balanceOf",
+            args: [user],
+          }),
+          publicClient.readContract({
+            address: ionToken,
+            abi: ION_TOKEN_ABI,
+            functionName: "allowance",
+            args: [user, ionicDebtToken],
+          }),
+        ]);
+        return { ionToken, balance, allowance };
+      })
+    );
+    return holdings.filter((holding) => holding.balance > 0n);
+  }
+
+  /**
+   * Preview the dION a user would mint with a given amount of an ionToken
+   * @param ionToken Address of the ionToken
+   * @param amount Amount of ionTokens
+   * @returns Amount of dION, as `previewMint` values it
+   */
+  async function previewMint(ionToken: Address, amount: bigint) {
+    return publicClient.readContract({
+      address: ionicDebtToken,
+      abi: IONIC_DEBT_TOKEN_ABI,
+      functionName: "previewMint",
+      args: [ionToken, amount],
+    });
+  }
+
+  /**
+   * Preview the dION a user would mint with all of their eligible holdings
+   * @param user Account to look up
+   * @returns The preview of each holding and their total
+   */
+  async function previewAll(
+    user: Address
+  ): Promise<{ previews: MintPreview[]; totalTokensToMint: bigint }> {
+    const holdings = await getEligibleHoldings(user);
+    const previews = await Promise.all(
+      holdings.map(async ({ ionToken, balance }) => ({
+        ionToken,
+        amount: balance,
+        tokensToMint: await previewMint(ionToken, balance),
+      }))
+    );
+    return {
+      previews,
+      totalTokensToMint: previews.reduce(
+        (sum, preview) => sum + preview.tokensToMint,
+        0n
+      ),
+    };
+  }
+
+  /**
+   * Mint dION with ionTokens of the wallet client's account, approving them
+   * first if the allowance is short. Waits for each transaction.
+   * @param ionToken Address of the ionToken
+   * @param amount Amount of ionTokens to mint with
+   * @returns Hashes of the transactions sent
+   */
+  async function approveAndMint(
+    ionToken: Address,
+    amount: bigint
+  ): Promise<ApproveAndMintResult> {
+    if (walletClient?.account === undefined) {
+      throw new Error("approveAndMint needs a wallet client with an account");
+    }
+    const account = walletClient.account;
+    const chain = walletClient.chain;
+
+    const allowance = await publicClient.readContract({
+      address: ionToken,
+      abi: ION_TOKEN_ABI,
+      functionName: "allowance",
+      args: [account.address, ionicDebtToken],
+    });
+
+    let approveHash: Hex | undefined;
+    if (allowance < amount) {
+      approveHash = await walletClient.writeContract({
+        account,
+        chain,
+        address: ionToken,
+        abi: ION_TOKEN_ABI,
+        functionName: "approve",
+        args: [ionicDebtToken, amount],
+      });
+      await waitForSuccess(approveHash, `approve ${amount} ${ionToken}`);
+    }
+
+    const mintHash = await walletClient.writeContract({
+      account,
+      chain,
+      address: ionicDebtToken,
+      abi: IONIC_DEBT_TOKEN_ABI,
+      functionName: "mint",
+      args: [ionToken, amount],
+    });
+    await waitForSuccess(mintHash, `mint with ${amount} ${ionToken}`);
+
+    return { approveHash, mintHash };
+  }
+
+  return {
+    address: ionicDebtToken,
+    abi: IONIC_DEBT_TOKEN_ABI,
+    getWhitelistedIonTokens,
+    getScaleFactor,
+    getScaleFactors,
+    getEligibleHoldings,
+    previewMint,
+    previewAll,
+    approveAndMint,
+  };
+}
+
+/**
+ * Create a client for the IonicDebtToken proxy deployed on the public client's
+ * chain, as recorded in the Ignition deployment artifacts
+ * @param options Clients to read and send with
+ * @returns The client
+ */
+export async function getIonicDebtTokenClient(
+  options: Omit<IonicDebtTokenClientOptions, "address"> & {
+    publicClient: Pick<PublicClient, "getChainId">;
+  }
+): Promise<IonicDebtTokenClient> {
+  const chainId = await options.publicClient.getChainId();
+  return createIonicDebtTokenClient({
+    ...options,
+    address: await getIonicDebtTokenAddress(chainId),
+  });
+}
@@ -3,3 +3,13 @@ export const MODE_MAINNET_ADDRESSES = {
   USDC: "0xd988097fb8612cc24eec14542dc3df1287a9ca21", // Mode Mainnet USDC address
   SAMPLE_ION_TOKEN: "0x123...789", // Replace with actual ionToken address for testing
 } as const;
+
+// Mode mainnet block the local `hardhat` network forks from
+export const MODE_MAINNET_FORK_BLOCK_NUMBER = 20720089;
+
+// Mode mainnet RPC used for forking and for the `mode_mainnet` network
+export const MODE_MAINNET_RPC_URL =
+  process.env.MODE_MAINNET_RPC_URL ?? "https://mainnet.mode.network";
+
+// Set FORK_TESTS=true to run the Mode mainnet fork test suite (needs MODE_MAINNET_RPC_URL)
+export const FORK_TESTS_ENABLED = process.env.FORK_TESTS === "true";
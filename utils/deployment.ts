@@ -0,0 +1,80 @@
+import { readFile } from "node:fs/promises";
+import { Address, getAddress } from "viem";
+
+// Ignition future ids of the contracts deployed by IonicDebtTokenModule
+export const IONIC_DEBT_TOKEN_FUTURE_ID =
+  "IonicDebtTokenModule#IonicDebtTokenProxy";
+export const PROXY_ADMIN_FUTURE_ID =
+  "IonicDebtTokenModule#IonicDebtTokenProxyAdmin";
+export const IMPLEMENTATION_FUTURE_ID = "IonicDebtTokenModule#IonicDebtToken";
+
+// Ignition future id of the latest implementation deployed for an upgrade
+export const UPGRADE_IMPLEMENTATION_FUTURE_ID =
+  "IonicDebtTokenImplementationModule#IonicDebtTokenImplementation";
+
+/**
+ * Get the directory Ignition writes a chain's deployment artifacts to
+ * @param chainId Chain the module was deployed to
+ * @returns Path relative to the project root
+ */
+export function getDeploymentDir(chainId: number): string {
+  return `ignition/deployments/chain-${chainId}`;
+}
+
+/**
+ * Read the addresses Ignition recorded for a chain's deployment
+ * @param chainId Chain the module was deployed to
+ * @returns Map of future id to deployed address
+ */
+export async function getDeployedAddresses(
+  chainId: number
+): Promise<Record<string, Address>> {
+  const path = `${getDeploymentDir(chainId)}/deployed_addresses.json`;
+
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf8");
+  } catch {
+    throw new Error(
+      `No Ignition deployment found for chain ${chainId} (${path})`
+    );
+  }
+
+  return JSON.parse(contents);
+}
+
+/**
+ * Get the address of a contract from a chain's Ignition deployment
+ * @param chainId Chain the module was deployed to
+ * @param futureId Ignition future id of the contract
+ * @returns Checksummed address
+ */
+export async function getDeployedAddress(
+  chainId: number,
+  futureId: string
+): Promise<Address> {
+  const addresses = await getDeployedAddresses(chainId);
+  const address = addresses[futureId];
+  if (address === undefined) {
+    throw new Error(`${futureId} is not deployed on chain ${chainId}`);
+  }
+  return getAddress(address);
+}
+
+/**
+ * Get the address of the IonicDebtToken proxy on a chain.
+ *
+ * The IONIC_DEBT_TOKEN_ADDRESS environment variable takes precedence over the
+ * Ignition deployment artifacts.
+ *
+ * @param chainId Chain the module was deployed to
+ * @returns Checksummed proxy address
+ */
+export async function getIonicDebtTokenAddress(
+  chainId: number
+): Promise<Address> {
+  if (process.env.IONIC_DEBT_TOKEN_ADDRESS) {
+    return getAddress(process.env.IONIC_DEBT_TOKEN_ADDRESS);
+  }
+  return getDeployedAddress(chainId, IONIC_DEBT_TOKEN_FUTURE_ID);
+}
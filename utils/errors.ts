@@ -0,0 +1,242 @@
+import {
+  Abi,
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeErrorResult,
+  Hex,
+  parseAbi,
+} from "viem";
+import { DEFAULT_ADMIN_ROLE, ROLE_NAMES, ROLES } from "./roles.js";
+
+/*
+ * Decodes IonicDebtToken reverts into their custom error and a readable
+ * message, whether viem already decoded the error or only has its raw data.
+ */
+
+// Custom errors IonicDebtToken and the OpenZeppelin contracts it inherits revert with
+export const IONIC_DEBT_TOKEN_ERRORS_ABI = parseAbi([
+  "error ZeroAddress()",
+  "error ZeroAmount()",
+  "error ZeroDenominator()",
+  "error IonTokenNotWhitelisted(address ionToken)",
+  "error TransferFailed(address token, address from, address to, uint256 amount)",
+  "error InvalidMasterPriceOracle()",
+  "error InvalidUsdcAddress()",
+  "error InsufficientBalance(address token, uint256 requested, uint256 available)",
+  "error InvalidScaleFactorRange(uint256 numerator, uint256 denominator)",
+  "error IonTokenMintCapExceeded(address ionToken, uint256 requested, uint256 available)",
+  "error GlobalMintCapExceeded(uint256 requested, uint256 available)",
+  "error InvalidClaimWindow(uint256 start, uint256 end)",
+  "error ClaimWindowNotOpen(uint256 start)",
+  "error ClaimWindowClosed(uint256 end)",
+  "error MintingPaused()",
+  "error IonTokenMintingPaused(address ionToken)",
+  "error ArrayLengthMismatch(uint256 ionTokens, uint256 amounts)",
+  "error NoDionSupply()",
+  "error InvalidRedemptionRound(uint256 roundId)",
+  "error RedemptionExceedsRound(uint256 roundId, uint256 requested, uint256 available)",
+  "error RedemptionFundsOutstanding(uint256 outstanding)",
+  "error ExcludedFromRedemptionRound(uint256 roundId, address account)",
+  "error RedemptionRoundClosed(uint256 roundId)",
+  "error NoOpenRedemptionRounds()",
+  "error MerkleRootNotSet()",
+  "error InvalidMerkleProof(address account, uint256 amount)",
+  "error MerkleAlreadyClaimed(bytes32 root, address account)",
+  "error InvalidOraclePrice(address token, uint256 price)",
+  "error OraclePriceOutOfBounds(address token, uint256 price, uint256 minPrice, uint256 maxPrice)",
+  "error OraclePriceDeviation(address token, uint256 price, uint256 referencePrice, uint256 maxDeviationBps)",
+  "error UsdcDepegged(uint256 usdcPrice, uint256 pegReferencePrice)",
+  "error InvalidPriceGuard(address token)",
+  "error AccountBlocklisted(address account)",
+  "error IonTokenAlreadyWhitelisted(address ionToken)",
+  "error ChangeNotScheduled(bytes32 changeId)",
+  "error ChangeNotReady(bytes32 changeId, uint256 readyAt)",
+  "error InvalidTimelockDelay(uint256 delay)",
+  "error LegacyOwnerNotSet()",
+  "error UnauthorizedMigration(address caller)",
+  "error InsufficientLiquidity(address ionToken, uint256 requested)",
+  "error RedeemFailed(address ionToken, uint256 errorCode)",
+  // AccessControlDefaultAdminRulesUpgradeable
+  "error AccessControlUnauthorizedAccount(address account, bytes32 neededRole)",
+  "error AccessControlBadConfirmation()",
+  "error AccessControlInvalidDefaultAdmin(address defaultAdmin)",
+  "error AccessControlEnforcedDefaultAdminRules()",
+  "error AccessControlEnforcedDefaultAdminDelay(uint48 schedule)",
+  // ERC20Upgradeable
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidSender(address sender)",
+  "error ERC20InvalidReceiver(address receiver)",
+  // Initializable and UUPSUpgradeable
+  "error InvalidInitialization()",
+  "error NotInitializing()",
+  "error UUPSUnauthorizedCallContext()",
+  "error UUPSUnsupportedProxiableUUID(bytes32 slot)",
+]);
+
+export interface DecodedRevert {
+  errorName: string;
+  args: readonly unknown[];
+}
+
+function roleName(role: unknown): string {
+  if (role === DEFAULT_ADMIN_ROLE) {
+    return "default admin";
+  }
+  return ROLE_NAMES.find((name) => ROLES[name] === role) ?? String(role);
+}
+
+function formatTimestamp(timestamp: unknown): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
+
+// Readable message of each custom error, by name
+const MESSAGES: Record<string, (args: readonly unknown[]) => string> = {
+  ZeroAddress: () => "an address is zero",
+  ZeroAmount: () => "the amount is zero",
+  ZeroDenominator: () => "the scale factor denominator is zero",
+  IonTokenNotWhitelisted: ([ionToken]) => `${ionToken} is not whitelisted`,
+  TransferFailed: ([token, from, to, amount]) =>
+    `transferring ${amount} ${token} from ${from} to ${to} failed`,
+  InvalidMasterPriceOracle: () => "the MasterPriceOracle address is zero",
+  InvalidUsdcAddress: () => "the USDC address is zero",
+  InsufficientBalance: ([token, requested, available]) =>
+    `${requested} ${token} requested but only ${available} available`,
+  InvalidScaleFactorRange: ([numerator, denominator]) =>
+    `scale factor ${numerator}/${denominator} is above 1`,
+  IonTokenMintCapExceeded: ([ionToken, requested, available]) =>
+    `minting ${requested} dION for ${ionToken} exceeds its cap, ${available} left`,
+  GlobalMintCapExceeded: ([requested, available]) =>
+    `minting ${requested} dION exceeds the global cap, ${available} left`,
+  InvalidClaimWindow: ([start, end]) =>
+    `the claim window ends (${end}) before it starts (${start})`,
+  ClaimWindowNotOpen: ([start]) => `claims open at ${formatTimestamp(start)}`,
+  ClaimWindowClosed: ([end]) => `claims closed at ${formatTimestamp(end)}`,
+  MintingPaused: () => "minting is paused",
+  IonTokenMintingPaused: ([ionToken]) => `minting is paused for ${ionToken}`,
+  ArrayLengthMismatch: ([ionTokens, amounts]) =>
+    `${ionTokens} ionTokens but ${amounts} amounts`,
+  NoDionSupply: () => "no dION has been minted",
+  InvalidRedemptionRound: ([roundId]) =>
+    `redemption round ${roundId} does not exist`,
+  RedemptionExceedsRound: ([roundId, requested, available]) =>
+    `${requested} dION requested from round ${roundId}, ${available} left`,
+  RedemptionFundsOutstanding: ([outstanding]) =>
+    `${outstanding} USDC is still owed to redemptions, close their rounds first`,
+  ExcludedFromRedemptionRound: ([roundId, account]) =>
+    `${account} was blocklisted when round ${roundId} was funded`,
+  RedemptionRoundClosed: ([roundId]) => `redemption round ${roundId} is closed`,
+  NoOpenRedemptionRounds: () => "every redemption round is already closed",
+  MerkleRootNotSet: () => "no merkle root is set",
+  InvalidMerkleProof: ([account, amount]) =>
+    `the proof of ${amount} for ${account} is invalid`,
+  MerkleAlreadyClaimed: ([root, account]) =>
+    `${account} already claimed from root ${root}`,
+  InvalidOraclePrice: ([token, price]) =>
+    `the oracle price of ${token} is ${price}`,
+  OraclePriceOutOfBounds: ([token, price, minPrice, maxPrice]) =>
+    `the oracle price of ${token} (${price}) is outside [${minPrice}, ${maxPrice}]`,
+  OraclePriceDeviation: ([token, price, referencePrice, maxDeviationBps]) =>
+    `the oracle price of ${token} (${price}) deviates more than ${maxDeviationBps} bps from ${referencePrice}`,
+  UsdcDepegged: ([usdcPrice, pegReferencePrice]) =>
+    `USDC (${usdcPrice}) is off its peg (${pegReferencePrice})`,
+  InvalidPriceGuard: ([token]) => `the price guard of ${token} is invalid`,
+  AccountBlocklisted: ([account]) => `${account} is blocklisted`,
+  IonTokenAlreadyWhitelisted: ([ionToken]) =>
+    `${ionToken} is already whitelisted`,
+  ChangeNotScheduled: ([changeId]) => `change ${changeId} is not scheduled`,
+  ChangeNotReady: ([changeId, readyAt]) =>
+    `change ${changeId} is not ready until ${formatTimestamp(readyAt)}`,
+  InvalidTimelockDelay: ([delay]) =>
+    `a delay of ${delay}s exceeds the 30 day maximum`,
+  LegacyOwnerNotSet: () => "there is no Ownable owner to migrate",
+  UnauthorizedMigration: ([caller]) =>
+    `${caller} is not allowed to run the migration`,
+  InsufficientLiquidity: ([ionToken, requested]) =>
+    `${ionToken} lacks the cash to redeem ${requested}`,
+  RedeemFailed: ([ionToken, errorCode]) =>
+    `redeeming ${ionToken} failed with error code ${errorCode}`,
+  AccessControlUnauthorizedAccount: ([account, neededRole]) =>
+    `${account} does not have the ${roleName(neededRole)} role`,
+  ERC20InsufficientBalance: ([sender, balance, needed]) =>
+    `${sender} has ${balance} dION, ${needed} needed`,
+};
+
+/**
+ * Find the custom error a call reverted with
+ * @param error Error thrown by viem
+ * @param abi ABI to decode raw revert data with
+ * @returns The error name and arguments, or undefined if the call did not
+ * revert with a known custom error
+ */
+export function decodeRevert(
+  error: unknown,
+  abi: Abi = IONIC_DEBT_TOKEN_ERRORS_ABI
+): DecodedRevert | undefined {
+  if (!(error instanceof BaseError)) {
+    return undefined;
+  }
+
+  const reverted = error.walk(
+    (cause) => cause instanceof ContractFunctionRevertedError
+  );
+  if (
+    reverted instanceof ContractFunctionRevertedError &&
+    reverted.data?.errorName !== undefined
+  ) {
+    return {
+      errorName: reverted.data.errorName,
+      args: reverted.data.args ?? [],
+    };
+  }
+
+  // Not decoded by viem (e.g. a raw call), decode the revert data ourselves
+  const withData = error.walk(
+    (cause) =>
+      typeof (cause as { data?: unknown }).data === "string" ||
+      typeof (cause as { raw?: unknown }).raw === "string"
+  ) as { data?: Hex; raw?: Hex } | null;
+  const data =
+    typeof withData?.data === "string" ? withData.data : withData?.raw;
+  if (data === undefined) {
+    return undefined;
+  }
+  try {
+    const { errorName, args } = decodeErrorResult({ abi, data });
+    return { errorName, args: args ?? [] };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Render a decoded custom error as a readable message
+ * @param decoded Error name and arguments
+ * @returns e.g. "InsufficientBalance: 10 0x... requested but only 5 available"
+ */
+export function formatRevert({ errorName, args }: DecodedRevert): string {
+  const message = MESSAGES[errorName];
+  return message === undefined
+    ? `${errorName}(${args.join(", ")})`
+    : `${errorName}: ${message(args)}`;
+}
+
+/**
+ * Describe why a call failed, decoding its custom error when there is one
+ * @param error Error thrown by viem
+ * @param abi ABI to decode raw revert data with
+ * @returns A one-line description
+ */
+export function describeRevert(
+  error: unknown,
+  abi: Abi = IONIC_DEBT_TOKEN_ERRORS_ABI
+): string {
+  const decoded = decodeRevert(error, abi);
+  if (decoded !== undefined) {
+    return formatRevert(decoded);
+  }
+  if (error instanceof BaseError) {
+    return error.shortMessage;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
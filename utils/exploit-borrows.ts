@@ -0,0 +1,248 @@
+import {
+  Address,
+  formatUnits,
+  getAddress,
+  Hex,
+  parseAbiItem,
+  parseEventLogs,
+  PublicClient,
+} from "viem";
+import type { IonTokenConfig } from "../ignition/config/types.js";
+import { DEFAULT_LOG_CHUNK_SIZE, fetchLogsInChunks } from "./logs.js";
+
+/*
+ * Derives the amounts illegitimately borrowed from each ionToken market from
+ * the `Borrow` events of the exploit, given its transactions or the accounts
+ * that borrowed, and writes them into a network config's `tokenConfigs` with
+ * the transactions they came from.
+ */
+
+// Marks the comment trail written above a derived `illegitimateBorrowed`
+const TRAIL_HEADER =
+  "// Derived by scripts/derive-illegitimate-borrowed.ts from Borrow events:";
+
+const BORROW_EVENT = parseAbiItem(
+  "event Borrow(address borrower, uint256 borrowAmount, uint256 accountBorrows, uint256 totalBorrows)"
+);
+
+export interface ExploitBorrow {
+  ionToken: Address;
+  borrower: Address;
+  // In underlying
+  amount: bigint;
+  transactionHash: Hex;
+  blockNumber: bigint;
+  logIndex: number;
+}
+
+/**
+ * Comparison of a configured `illegitimateBorrowed` with the borrows found
+ */
+export interface IllegitimateBorrowedCheck {
+  symbol: string;
+  ionToken: Address;
+  configured: bigint;
+  derived: bigint;
+  borrows: ExploitBorrow[];
+  matches: boolean;
+}
+
+function toExploitBorrow(log: {
+  address: Address;
+  args: { borrower: Address; borrowAmount: bigint };
+  transactionHash: Hex;
+  blockNumber: bigint;
+  logIndex: number;
+}): ExploitBorrow {
+  return {
+    ionToken: getAddress(log.address),
+    borrower: getAddress(log.args.borrower),
+    amount: log.args.borrowAmount,
+    transactionHash: log.transactionHash,
+    blockNumber: log.blockNumber,
+    logIndex: log.logIndex,
+  };
+}
+
+/**
+ * Read the borrows from ionToken markets made by exploit transactions
+ * @param publicClient Client connected to the network (or a fork of it)
+ * @param ionTokens Markets to count borrows from
+ * @param transactionHashes Exploit transactions
+ * @returns Every `Borrow` event of the transactions emitted by the markets
+ */
+export async function fetchTransactionBorrows(
+  publicClient: Pick<PublicClient, "getTransactionReceipt">,
+  ionTokens: Address[],
+  transactionHashes: Hex[]
+): Promise<ExploitBorrow[]> {
+  const markets = new Set(ionTokens.map((ionToken) => getAddress(ionToken)));
+  const borrows: ExploitBorrow[] = [];
+  for (const hash of transactionHashes) {
+    const receipt = await publicClient.getTransactionReceipt({ hash });
+    const logs = parseEventLogs({
+      abi: [BORROW_EVENT],
+      logs: receipt.logs,
+      strict: true,
+    });
+    for (const log of logs) {
+      if (markets.has(getAddress(log.address))) {
+        borrows.push(toExploitBorrow(log));
+      }
+    }
+  }
+  return borrows;
+}
+
+/**
+ * Read the borrows accounts made from ionToken markets over a block range
+ * @param publicClient Client connected to the network (or a fork of it)
+ * @param ionTokens Markets to scan
+ * @param borrowers Exploiter accounts
+ * @param fromBlock First block to scan
+ * @param toBlock Last block to scan
+ * @param chunkSize Blocks per `eth_getLogs` request
+ * @returns The `Borrow` events of the accounts
+ */
+export async function fetchAccountBorrows(
+  publicClient: Pick<PublicClient, "getLogs">,
+  ionTokens: Address[],
+  borrowers: Address[],
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<ExploitBorrow[]> {
+  const accounts = new Set(borrowers.map((borrower) => getAddress(borrower)));
+  const borrows: ExploitBorrow[] = [];
+  for (const ionToken of ionTokens) {
+    // The borrower is not indexed, so every borrow of the range is read
+    const logs = await fetchLogsInChunks(
+      fromBlock,
+      toBlock,
+      (from, to) =>
+        publicClient.getLogs({
+          address: ionToken,
+          event: BORROW_EVENT,
+          fromBlock: from,
+          toBlock: to,
+          strict: true,
+        }),
+      chunkSize
+    );
+    for (const log of logs) {
+      if (accounts.has(getAddress(log.args.borrower))) {
+        borrows.push(toExploitBorrow(log));
+      }
+    }
+  }
+  return borrows;
+}
+
+/**
+ * Compare the configured `illegitimateBorrowed` of each ionToken with the sum
+ * of its exploit borrows, counting a borrow found twice (e.g. by transaction
+ * and by account) once
+ * @param tokenConfigs ionTokens of the network config
+ * @param borrows Borrows found
+ * @returns One check per ionToken, in config order
+ */
+export function checkIllegitimateBorrowed(
+  tokenConfigs: readonly Pick<
+    IonTokenConfig,
+    "symbol" | "address" | "illegitimateBorrowed"
+  >[],
+  borrows: ExploitBorrow[]
+): IllegitimateBorrowedCheck[] {
+  const unique = new Map<string, ExploitBorrow>();
+  for (const borrow of borrows) {
+    unique.set(`${borrow.transactionHash}-${borrow.logIndex}`, borrow);
+  }
+  const sorted = [...unique.values()].sort(
+    (a, b) => Number(a.blockNumber - b.blockNumber) || a.logIndex - b.logIndex
+  );
+
+  return tokenConfigs.map((tokenConfig) => {
+    const ionToken = getAddress(tokenConfig.address);
+    const tokenBorrows = sorted.filter(
+      (borrow) => borrow.ionToken === ionToken
+    );
+    const derived = tokenBorrows.reduce(
+      (sum, borrow) => sum + borrow.amount,
+      0n
+    );
+    return {
+      symbol: tokenConfig.symbol,
+      ionToken,
+      configured: tokenConfig.illegitimateBorrowed,
+      derived,
+      borrows: tokenBorrows,
+      matches: derived === tokenConfig.illegitimateBorrowed,
+    };
+  });
+}
+
+/**
+ * Write derived `illegitimateBorrowed` amounts into the source of a network
+ * config, each preceded by the borrows it sums. ionTokens without borrows are
+ * left as they are, and trails written by an earlier run are replaced.
+ * @param source Source of the config module (e.g. `mode-mainnet.ts`)
+ * @param checks Checks from `checkIllegitimateBorrowed`
+ * @param decimals Decimals of each ionToken by symbol
+ * @returns The updated source
+ */
+export function renderIllegitimateBorrowed(
+  source: string,
+  checks: IllegitimateBorrowedCheck[],
+  decimals: Record<string, number>
+): string {
+  const lines = source.split("\n");
+  for (const check of checks) {
+    if (check.borrows.length === 0) {
+      continue;
+    }
+
+    const symbolLine = lines.findIndex(
+      (line) => line.trim() === `symbol: "${check.symbol}",`
+    );
+    const amountLine = lines.findIndex(
+      (line, i) =>
+        i > symbolLine && line.trim().startsWith("illegitimateBorrowed: ")
+    );
+    if (symbolLine === -1 || amountLine === -1) {
+      throw new Error(
+        `No illegitimateBorrowed for ${check.symbol} in the config`
+      );
+    }
+
+    // Replace the trail of an earlier run
+    let trailStart = amountLine;
+    while (lines[trailStart - 1].trim().startsWith("// - ")) {
+      trailStart--;
+    }
+    trailStart =
+      lines[trailStart - 1].trim() === TRAIL_HEADER
+        ? trailStart - 1
+        : amountLine;
+
+    const indent = lines[amountLine].match(/^\s*/)![0];
+    const tokenDecimals = decimals[check.symbol];
+    lines.splice(
+      trailStart,
+      amountLine - trailStart + 1,
+      `${indent}${TRAIL_HEADER}`,
+      ...check.borrows.map(
+        (borrow) =>
+          `${indent}// - ${borrow.transactionHash} (block ${
+            borrow.blockNumber
+          }): ${formatUnits(borrow.amount, tokenDecimals)} by ${
+            borrow.borrower
+          }`
+      ),
+      `${indent}illegitimateBorrowed: parseUnits("${formatUnits(
+        check.derived,
+        tokenDecimals
+      )}", ${tokenDecimals}),`
+    );
+  }
+  return lines.join("\n");
+}
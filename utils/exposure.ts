@@ -0,0 +1,340 @@
+import {
+  Address,
+  erc20Abi,
+  formatEther,
+  formatUnits,
+  getAddress,
+  parseAbi,
+  PublicClient,
+} from "viem";
+import type { IonTokenConfig } from "../ignition/config/types.js";
+import { ION_TOKEN_ABI } from "./client.js";
+import { CsvValue, toMarkdownTable } from "./output.js";
+import { valueUnderlyingInUsd } from "./recovery.js";
+import { DION_DECIMALS } from "./valuation.js";
+
+/*
+ * Exposure of each ionToken market to the exploit: what is supplied and what
+ * was illegitimately borrowed, in underlying and in USD at oracle prices, next
+ * to the scale factor the config proposes. This is the report governance
+ * reviews scale factors against, so every figure is exact integer math.
+ */
+
+// ABI fragment for the MasterPriceOracle
+export const MASTER_PRICE_ORACLE_ABI = parseAbi([
+  "function price(address underlying) view returns (uint256)",
+]);
+
+// Ratios are fixed-point numbers with 18 decimals, 1e18 being 100%
+export const RATIO_DECIMALS = 18;
+const RATIO_SCALE = 10n ** BigInt(RATIO_DECIMALS);
+
+/**
+ * On-chain state of an ionToken market
+ */
+export interface ExposureMarket {
+  ionToken: Address;
+  symbol: string;
+  decimals: number;
+  underlying: Address;
+  underlyingDecimals: number;
+  // Supply of ionTokens
+  totalSupply: bigint;
+  exchangeRate: bigint;
+  // `getTotalUnderlyingSupplied()`, in underlying
+  totalSupplied: bigint;
+  // Oracle price of the underlying in ETH
+  underlyingPrice: bigint;
+}
+
+export interface ExposureRow extends ExposureMarket {
+  // From the config, in underlying
+  illegitimateBorrowed: bigint;
+  // Values in USD with 18 decimals
+  suppliedValueUsd: bigint;
+  borrowedValueUsd: bigint;
+  // illegitimateBorrowed / totalSupplied
+  borrowedRatio: bigint;
+  // Scale factor the config whitelists the ionToken with
+  scaleFactorRatio: bigint;
+}
+
+export interface ExposureReport {
+  blockNumber: bigint;
+  // Oracle price of USDC in ETH
+  usdcPrice: bigint;
+  rows: ExposureRow[];
+  totals: {
+    suppliedValueUsd: bigint;
+    borrowedValueUsd: bigint;
+    borrowedRatio: bigint;
+  };
+}
+
+/**
+ * Divide two amounts as a fixed-point ratio, rounding down
+ * @param numerator Amount to divide
+ * @param denominator Amount to divide by
+ * @returns numerator / denominator with `RATIO_DECIMALS` decimals, 0 if the
+ * denominator is 0
+ */
+export function ratio(numerator: bigint, denominator: bigint): bigint {
+  return denominator === 0n ? 0n : (numerator * RATIO_SCALE) / denominator;
+}
+
+/**
+ * Render a ratio as a percentage, truncated to two decimals
+ * @param value Ratio with `RATIO_DECIMALS` decimals
+ * @returns e.g. "45.08%"
+ */
+export function formatRatio(value: bigint): string {
+  const basisPoints = (value * 10_000n) / RATIO_SCALE;
+  return `${formatUnits(basisPoints, 2)}%`;
+}
+
+/**
+ * Read the market state of ionTokens with multicall, all at the same block
+ * @param publicClient Client connected to the network, whose chain has Multicall3
+ * @param masterPriceOracle Address of the MasterPriceOracle
+ * @param usdc Address of USDC
+ * @param tokenConfigs ionTokens to read
+ * @param blockNumber Block to read at
+ * @returns The oracle price of USDC and the state of each market
+ */
+export async function fetchExposureMarkets(
+  publicClient: Pick<PublicClient, "multicall">,
+  masterPriceOracle: Address,
+  usdc: Address,
+  tokenConfigs: readonly Pick<IonTokenConfig, "symbol" | "address">[],
+  blockNumber: bigint
+): Promise<{ usdcPrice: bigint; markets: ExposureMarket[] }> {
+  const ionTokens = tokenConfigs.map((tokenConfig) =>
+    getAddress(tokenConfig.address)
+  );
+  const ionTokenCall = <
+    FunctionName extends
+      | "decimals"
+      | "totalSupply"
+      | "exchangeRateCurrent"
+      | "getTotalUnderlyingSupplied"
+      | "underlying"
+  >(
+    functionName: FunctionName
+  ) =>
+    ionTokens.map((address) => ({
+      address,
+      abi: ION_TOKEN_ABI,
+      functionName,
+    }));
+
+  const [
+    [usdcPrice],
+    decimals,
+    totalSupplies,
+    exchangeRates,
+    totalSupplied,
+    underlyings,
+  ] = await Promise.all([
+    publicClient.multicall({
+      contracts: [
+        {
+          address: masterPriceOracle,
+          abi: MASTER_PRICE_ORACLE_ABI,
+          functionName: "price",
+          args: [usdc],
+        },
+      ],
+      allowFailure: false,
+      blockNumber,
+    }),
+    publicClient.multicall({
+      contracts: ionTokenCall("decimals"),
+      allowFailure: false,
+      blockNumber,
+    }),
+    publicClient.multicall({
+      contracts: ionTokenCall("totalSupply"),
+      allowFailure: false,
+      blockNumber,
+    }),
+    publicClient.multicall({
+      contracts: ionTokenCall("exchangeRateCurrent"),
+      allowFailure: false,
+      blockNumber,
+    }),
+    publicClient.multicall({
+      contracts: ionTokenCall("getTotalUnderlyingSupplied"),
+      allowFailure: false,
+      blockNumber,
+    }),
+    publicClient.multicall({
+      contracts: ionTokenCall("underlying"),
+      allowFailure: false,
+      blockNumber,
+    }),
+  ]);
+
+  // Prices and decimals depend on the underlyings read above
+  const [underlyingPrices, underlyingDecimals] = await Promise.all([
+    publicClient.multicall({
+      contracts: underlyings.map((underlying) => ({
+        address: masterPriceOracle,
+        abi: MASTER_PRICE_ORACLE_ABI,
+        functionName: "price" as const,
+        args: [underlying] as const,
+      })),
+      allowFailure: false,
+      blockNumber,
+    }),
+    publicClient.multicall({
+      contracts: underlyings.map((underlying) => ({
+        address: underlying,
+        abi: erc20Abi,
+        functionName: "decimals" as const,
+      })),
+      allowFailure: false,
+      blockNumber,
+    }),
+  ]);
+
+  return {
+    usdcPrice,
+    markets: tokenConfigs.map((tokenConfig, i) => ({
+      ionToken: ionTokens[i],
+      symbol: tokenConfig.symbol,
+      decimals: Number(decimals[i]),
+      underlying: getAddress(underlyings[i]),
+      underlyingDecimals: Number(underlyingDecimals[i]),
+      totalSupply: totalSupplies[i],
+      exchangeRate: exchangeRates[i],
+      totalSupplied: totalSupplied[i],
+      underlyingPrice: underlyingPrices[i],
+    })),
+  };
+}
+
+/**
+ * Value the exposure of each market with the config's illegitimately borrowed
+ * amounts and scale factors
+ * @param markets Market state, from `fetchExposureMarkets`
+ * @param tokenConfigs Config entries of the markets
+ * @param usdcPrice Oracle price of USDC in ETH
+ * @param blockNumber Block the markets were read at
+ * @returns The report
+ */
+export function buildExposureReport(
+  markets: readonly ExposureMarket[],
+  tokenConfigs: readonly Pick<
+    IonTokenConfig,
+    "address" | "totalSupplied" | "illegitimateBorrowed"
+  >[],
+  usdcPrice: bigint,
+  blockNumber: bigint
+): ExposureReport {
+  const configs = new Map(
+    tokenConfigs.map((tokenConfig) => [
+      getAddress(tokenConfig.address),
+      tokenConfig,
+    ])
+  );
+
+  const rows = markets.map((market) => {
+    const tokenConfig = configs.get(market.ionToken);
+    if (tokenConfig === undefined) {
+      throw new Error(
+        `${market.symbol} (${market.ionToken}) is not configured`
+      );
+    }
+    const toUsd = (amount: bigint) =>
+      valueUnderlyingInUsd(
+        amount,
+        market.underlyingDecimals,
+        market.underlyingPrice,
+        usdcPrice
+      );
+
+    return {
+      ...market,
+      illegitimateBorrowed: tokenConfig.illegitimateBorrowed,
+      suppliedValueUsd: toUsd(market.totalSupplied),
+      borrowedValueUsd: toUsd(tokenConfig.illegitimateBorrowed),
+      borrowedRatio: ratio(
+        tokenConfig.illegitimateBorrowed,
+        market.totalSupplied
+      ),
+      scaleFactorRatio: ratio(
+        tokenConfig.illegitimateBorrowed,
+        tokenConfig.totalSupplied
+      ),
+    };
+  });
+
+  const suppliedValueUsd = rows.reduce(
+    (sum, row) => sum + row.suppliedValueUsd,
+    0n
+  );
+  const borrowedValueUsd = rows.reduce(
+    (sum, row) => sum + row.borrowedValueUsd,
+    0n
+  );
+  return {
+    blockNumber,
+    usdcPrice,
+    rows,
+    totals: {
+      suppliedValueUsd,
+      borrowedValueUsd,
+      borrowedRatio: ratio(borrowedValueUsd, suppliedValueUsd),
+    },
+  };
+}
+
+/**
+ * Flatten a report into table rows, with amounts formatted in their decimals
+ * @param report Report to flatten
+ * @returns One row per market, for CSV or Markdown
+ */
+export function exposureTableRows(
+  report: ExposureReport
+): Record<string, CsvValue>[] {
+  return report.rows.map((row) => ({
+    symbol: row.symbol,
+    ionToken: row.ionToken,
+    totalSupply: formatUnits(row.totalSupply, row.decimals),
+    exchangeRate: formatEther(row.exchangeRate),
+    underlyingPriceEth: formatEther(row.underlyingPrice),
+    totalSupplied: formatUnits(row.totalSupplied, row.underlyingDecimals),
+    illegitimateBorrowed: formatUnits(
+      row.illegitimateBorrowed,
+      row.underlyingDecimals
+    ),
+    suppliedValueUsd: formatUnits(row.suppliedValueUsd, DION_DECIMALS),
+    borrowedValueUsd: formatUnits(row.borrowedValueUsd, DION_DECIMALS),
+    borrowedRatio: formatRatio(row.borrowedRatio),
+    scaleFactor: formatRatio(row.scaleFactorRatio),
+  }));
+}
+
+/**
+ * Render a report as a Markdown document
+ * @param report Report to render
+ * @returns Markdown string
+ */
+export function exposureMarkdown(report: ExposureReport): string {
+  const formatUsd = (amount: bigint) =>
+    `$${formatUnits(amount, DION_DECIMALS)}`;
+
+  return [
+    `# Exposure at block ${report.blockNumber}`,
+    "",
+    `USDC oracle price: ${formatEther(report.usdcPrice)} ETH`,
+    "",
+    toMarkdownTable(exposureTableRows(report)),
+    `Supplied: ${formatUsd(
+      report.totals.suppliedValueUsd
+    )}, illegitimately borrowed: ${formatUsd(
+      report.totals.borrowedValueUsd
+    )} (${formatRatio(report.totals.borrowedRatio)})`,
+    "",
+  ].join("\n");
+}
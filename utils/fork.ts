@@ -0,0 +1,62 @@
+import { network } from "hardhat";
+import { Address, numberToHex, parseEther } from "viem";
+import { MODE_MAINNET_RPC_URL } from "./constants.js";
+
+/**
+ * Connect to a fresh local fork of a live network.
+ *
+ * The `hardhat` network is pinned to a historical block for tests, so it is
+ * reset to fork `rpcUrl` at `blockNumber` (the latest block by default), with
+ * automine enabled so simulated transactions are mined immediately.
+ *
+ * @param rpcUrl RPC of the network to fork
+ * @param blockNumber Block to fork from (defaults to the latest block)
+ * @returns The network connection to the fork
+ */
+export async function connectFork(
+  rpcUrl: string = MODE_MAINNET_RPC_URL,
+  blockNumber?: bigint
+) {
+  const connection = await network.connect();
+
+  await connection.provider.request({
+    method: "hardhat_reset",
+    params: [
+      {
+        forking: {
+          jsonRpcUrl: rpcUrl,
+          ...(blockNumber !== undefined && {
+            blockNumber: Number(blockNumber),
+          }),
+        },
+      },
+    ],
+  });
+  await connection.provider.request({
+    method: "evm_setAutomine",
+    params: [true],
+  });
+
+  return connection;
+}
+
+export type ForkConnection = Awaited<ReturnType<typeof connectFork>>;
+
+/**
+ * Impersonate an account on a fork, funding it to pay for gas
+ * @param fork Fork connection
+ * @param address Account to impersonate
+ * @returns Wallet client sending transactions as the account
+ */
+export async function impersonate(fork: ForkConnection, address: Address) {
+  await fork.provider.request({
+    method: "hardhat_impersonateAccount",
+    params: [address],
+  });
+  await fork.provider.request({
+    method: "hardhat_setBalance",
+    params: [address, numberToHex(parseEther("10"))],
+  });
+
+  return fork.viem.getWalletClient(address);
+}
@@ -0,0 +1,455 @@
+import { readFile } from "node:fs/promises";
+import { Address, getAddress, Hex, parseAbi, PublicClient } from "viem";
+import { DEFAULT_LOG_CHUNK_SIZE, fetchLogsInChunks } from "./logs.js";
+import { toJson, writeOutputFile } from "./output.js";
+
+/*
+ * File-backed ledger of the events emitted by an IonicDebtToken proxy.
+ *
+ * The ledger is a single JSON file per proxy holding every indexed event in
+ * chain order and the last block that was fully processed, so indexing can
+ * resume where it stopped.
+ */
+
+// Events of IonicDebtToken followed by the indexer
+export const LEDGER_EVENTS_ABI = parseAbi([
+  "event TokensMinted(address indexed user, address indexed ionToken, uint256 ionTokenAmount, uint256 mintedAmount)",
+  "event IonTokensWithdrawn(address indexed ionToken, address indexed recipient, uint256 amount)",
+  "event IonTokenWhitelisted(address indexed ionToken, uint256 numerator, uint256 denominator)",
+  "event ScaleFactorUpdated(address indexed ionToken, uint256 numerator, uint256 denominator)",
+]);
+
+// Bump when the file format changes, older ledgers must be rebuilt
+const LEDGER_VERSION = 1;
+
+interface LedgerEventBase {
+  blockNumber: bigint;
+  transactionHash: Hex;
+  logIndex: number;
+}
+
+export type LedgerEvent = LedgerEventBase &
+  (
+    | {
+        eventName: "TokensMinted";
+        user: Address;
+        ionToken: Address;
+        ionTokenAmount: bigint;
+        mintedAmount: bigint;
+      }
+    | {
+        eventName: "IonTokensWithdrawn";
+        ionToken: Address;
+        recipient: Address;
+        amount: bigint;
+      }
+    | {
+        eventName: "IonTokenWhitelisted" | "ScaleFactorUpdated";
+        ionToken: Address;
+        numerator: bigint;
+        denominator: bigint;
+      }
+  );
+
+export type LedgerEventName = LedgerEvent["eventName"];
+
+export interface Ledger {
+  version: number;
+  chainId: number;
+  address: Address;
+  // First block that was indexed (e.g. the deployment block)
+  startBlock: bigint;
+  // Last block whose events are all in `events` (startBlock - 1 if none)
+  lastProcessedBlock: bigint;
+  events: LedgerEvent[];
+}
+
+/**
+ * Get the path of the ledger of a proxy
+ * @param dir Directory holding the ledgers
+ * @param chainId Chain the proxy is deployed on
+ * @param address Address of the proxy
+ * @returns Path of the ledger file
+ */
+export function getLedgerPath(
+  dir: string,
+  chainId: number,
+  address: Address
+): string {
+  return `${dir}/${chainId}-${getAddress(address)}.json`;
+}
+
+function parseLedgerEvent(raw: any): LedgerEvent {
+  const base = {
+    blockNumber: BigInt(raw.blockNumber),
+    transactionHash: raw.transactionHash,
+    logIndex: raw.logIndex,
+  };
+
+  switch (raw.eventName as LedgerEventName) {
+    case "TokensMinted":
+      return {
+        ...base,
+        eventName: "TokensMinted",
+        user: getAddress(raw.user),
+        ionToken: getAddress(raw.ionToken),
+        ionTokenAmount: BigInt(raw.ionTokenAmount),
+        mintedAmount: BigInt(raw.mintedAmount),
+      };
+    case "IonTokensWithdrawn":
+      return {
+        ...base,
+        eventName: "IonTokensWithdrawn",
+        ionToken: getAddress(raw.ionToken),
+        recipient: getAddress(raw.recipient),
+        amount: BigInt(raw.amount),
+      };
+    case "IonTokenWhitelisted":
+    case "ScaleFactorUpdated":
+      return {
+        ...base,
+        eventName: raw.eventName,
+        ionToken: getAddress(raw.ionToken),
+        numerator: BigInt(raw.numerator),
+        denominator: BigInt(raw.denominator),
+      };
+    default:
+      throw new Error(`Unknown ledger event ${raw.eventName}`);
+  }
+}
+
+/**
+ * Load the ledger of a proxy, or create an empty one if it does not exist yet
+ * @param path Ledger file
+ * @param chainId Chain the proxy is deployed on
+ * @param address Address of the proxy
+ * @param startBlock First block to index for a new ledger
+ * @returns The ledger
+ */
+export async function loadLedger(
+  path: string,
+  chainId: number,
+  address: Address,
+  startBlock: bigint = 0n
+): Promise<Ledger> {
+  let contents: string;
+  try {
+    contents = await readFile(path, "utf8");
+  } catch {
+    return {
+      version: LEDGER_VERSION,
+      chainId,
+      address: getAddress(address),
+      startBlock,
+      lastProcessedBlock: startBlock - 1n,
+      events: [],
+    };
+  }
+
+  const raw = JSON.parse(contents);
+  if (raw.version !== LEDGER_VERSION) {
+    throw new Error(
+      `${path} has version ${raw.version}, expected ${LEDGER_VERSION}. Delete it and index again`
+    );
+  }
+  if (
+    raw.chainId !== chainId ||
+    getAddress(raw.address) !== getAddress(address)
+  ) {
+    throw new Error(
+      `${path} belongs to ${raw.address} on chain ${raw.chainId}, not ${address} on chain ${chainId}`
+    );
+  }
+
+  return {
+    version: raw.version,
+    chainId: raw.chainId,
+    address: getAddress(raw.address),
+    startBlock: BigInt(raw.startBlock),
+    lastProcessedBlock: BigInt(raw.lastProcessedBlock),
+    events: raw.events.map(parseLedgerEvent),
+  };
+}
+
+/**
+ * Write a ledger to disk
+ * @param path Ledger file
+ * @param ledger Ledger to write
+ */
+export async function saveLedger(path: string, ledger: Ledger): Promise<void> {
+  await writeOutputFile(path, toJson(ledger));
+}
+
+/**
+ * Fetch the ledger events of a proxy over a block range
+ * @param publicClient Client connected to the proxy's network
+ * @param address Address of the proxy
+ * @param fromBlock First block of the range (inclusive)
+ * @param toBlock Last block of the range (inclusive)
+ * @param chunkSize Blocks per `eth_getLogs` request
+ * @returns The events, in chain order
+ */
+export async function fetchLedgerEvents(
+  publicClient: Pick<PublicClient, "getLogs">,
+  address: Address,
+  fromBlock: bigint,
+  toBlock: bigint,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<LedgerEvent[]> {
+  const logs = await fetchLogsInChunks(
+    fromBlock,
+    toBlock,
+    (from, to) =>
+      publicClient.getLogs({
+        address,
+        events: LEDGER_EVENTS_ABI,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      }),
+    chunkSize
+  );
+
+  const events = logs.map((log): LedgerEvent => {
+    const base = {
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.logIndex,
+    };
+
+    switch (log.eventName) {
+      case "TokensMinted":
+        return {
+          ...base,
+          eventName: log.eventName,
+          user: getAddress(log.args.user),
+          ionToken: getAddress(log.args.ionToken),
+          ionTokenAmount: log.args.ionTokenAmount,
+          mintedAmount: log.args.mintedAmount,
+        };
+      case "IonTokensWithdrawn":
+        return {
+          ...base,
+          eventName: log.eventName,
+          ionToken: getAddress(log.args.ionToken),
+          recipient: getAddress(log.args.recipient),
+          amount: log.args.amount,
+        };
+      case "IonTokenWhitelisted":
+      case "ScaleFactorUpdated":
+        return {
+          ...base,
+          eventName: log.eventName,
+          ionToken: getAddress(log.args.ionToken),
+          numerator: log.args.numerator,
+          denominator: log.args.denominator,
+        };
+    }
+  });
+
+  return events.sort((a, b) =>
+    a.blockNumber === b.blockNumber
+      ? a.logIndex - b.logIndex
+      : a.blockNumber < b.blockNumber
+      ? -1
+      : 1
+  );
+}
+
+/**
+ * Append the events of a block range to a ledger
+ * @param ledger Ledger to update
+ * @param events Events of the blocks after `lastProcessedBlock`, up to `toBlock`
+ * @param toBlock Last block covered by `events`
+ */
+export function appendLedgerEvents(
+  ledger: Ledger,
+  events: LedgerEvent[],
+  toBlock: bigint
+): void {
+  if (events.some((event) => event.blockNumber <= ledger.lastProcessedBlock)) {
+    throw new Error(
+      `Events before block ${
+        ledger.lastProcessedBlock + 1n
+      } are already in the ledger`
+    );
+  }
+
+  ledger.events.push(...events);
+  ledger.lastProcessedBlock = toBlock;
+}
+
+/**
+ * Index the events after a ledger's last processed block, one chunk at a time
+ * @param publicClient Client connected to the proxy's network
+ * @param ledger Ledger to update
+ * @param toBlock Last block to index
+ * @param chunkSize Blocks per chunk (and per `eth_getLogs` request)
+ * @param onChunk Called after each chunk is appended, e.g. to save the ledger
+ * @returns Number of events added to the ledger
+ */
+export async function indexLedger(
+  publicClient: Pick<PublicClient, "getLogs">,
+  ledger: Ledger,
+  toBlock: bigint,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE,
+  onChunk?: (
+    fromBlock: bigint,
+    toBlock: bigint,
+    events: LedgerEvent[]
+  ) => Promise<void>
+): Promise<number> {
+  let added = 0;
+
+  while (ledger.lastProcessedBlock < toBlock) {
+    const start = ledger.lastProcessedBlock + 1n;
+    const end =
+      start + chunkSize - 1n < toBlock ? start + chunkSize - 1n : toBlock;
+
+    const events = await fetchLedgerEvents(
+      publicClient,
+      ledger.address,
+      start,
+      end,
+      chunkSize
+    );
+    appendLedgerEvents(ledger, events, end);
+    added += events.length;
+
+    await onChunk?.(start, end, events);
+  }
+
+  return added;
+}
+
+export interface ScaleFactorChange {
+  blockNumber: bigint;
+  transactionHash: Hex;
+  eventName: "IonTokenWhitelisted" | "ScaleFactorUpdated";
+  ionToken: Address;
+  numerator: bigint;
+  denominator: bigint;
+}
+
+export interface LedgerMint {
+  blockNumber: bigint;
+  transactionHash: Hex;
+  ionToken: Address;
+  ionTokenAmount: bigint;
+  mintedAmount: bigint;
+  // Scale factor in effect when the mint happened, if it was indexed
+  scaleFactor?: { numerator: bigint; denominator: bigint };
+}
+
+export interface IonTokenMintTotals {
+  ionToken: Address;
+  mints: number;
+  ionTokenAmount: bigint;
+  mintedAmount: bigint;
+  withdrawnAmount: bigint;
+}
+
+/**
+ * Get the history of scale factor changes
+ * @param ledger Ledger to query
+ * @param ionToken Only return the changes of this ionToken
+ * @returns The changes, in chain order
+ */
+export function getScaleFactorHistory(
+  ledger: Ledger,
+  ionToken?: Address
+): ScaleFactorChange[] {
+  const changes: ScaleFactorChange[] = [];
+  for (const event of ledger.events) {
+    if (
+      (event.eventName === "IonTokenWhitelisted" ||
+        event.eventName === "ScaleFactorUpdated") &&
+      (ionToken === undefined || event.ionToken === getAddress(ionToken))
+    ) {
+      changes.push({
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        eventName: event.eventName,
+        ionToken: event.ionToken,
+        numerator: event.numerator,
+        denominator: event.denominator,
+      });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Get the mints of a user, with the scale factor each one was valued with
+ * @param ledger Ledger to query
+ * @param user Account that minted
+ * @returns The mints, in chain order
+ */
+export function getUserMints(ledger: Ledger, user: Address): LedgerMint[] {
+  const account = getAddress(user);
+  const scaleFactors = new Map<
+    Address,
+    { numerator: bigint; denominator: bigint }
+  >();
+  const mints: LedgerMint[] = [];
+
+  // Events are in chain order, so the latest change seen is the one in effect
+  for (const event of ledger.events) {
+    if (
+      event.eventName === "IonTokenWhitelisted" ||
+      event.eventName === "ScaleFactorUpdated"
+    ) {
+      scaleFactors.set(event.ionToken, {
+        numerator: event.numerator,
+        denominator: event.denominator,
+      });
+    } else if (event.eventName === "TokensMinted" && event.user === account) {
+      mints.push({
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        ionToken: event.ionToken,
+        ionTokenAmount: event.ionTokenAmount,
+        mintedAmount: event.mintedAmount,
+        scaleFactor: scaleFactors.get(event.ionToken),
+      });
+    }
+  }
+
+  return mints;
+}
+
+/**
+ * Get the dION minted and ionTokens deposited and withdrawn per ionToken
+ * @param ledger Ledger to query
+ * @returns Totals per ionToken, in order of first appearance
+ */
+export function getMintTotalsPerIonToken(ledger: Ledger): IonTokenMintTotals[] {
+  const totals = new Map<Address, IonTokenMintTotals>();
+  const totalsFor = (ionToken: Address) => {
+    let entry = totals.get(ionToken);
+    if (entry === undefined) {
+      entry = {
+        ionToken,
+        mints: 0,
+        ionTokenAmount: 0n,
+        mintedAmount: 0n,
+        withdrawnAmount: 0n,
+      };
+      totals.set(ionToken, entry);
+    }
+    return entry;
+  };
+
+  for (const event of ledger.events) {
+    if (event.eventName === "TokensMinted") {
+      const entry = totalsFor(event.ionToken);
+      entry.mints += 1;
+      entry.ionTokenAmount += event.ionTokenAmount;
+      entry.mintedAmount += event.mintedAmount;
+    } else if (event.eventName === "IonTokensWithdrawn") {
+      totalsFor(event.ionToken).withdrawnAmount += event.amount;
+    }
+  }
+
+  return [...totals.values()];
+}
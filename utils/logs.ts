@@ -0,0 +1,52 @@
+// Default number of blocks requested per `eth_getLogs` call
+export const DEFAULT_LOG_CHUNK_SIZE = 50_000n;
+
+/**
+ * Fetch logs over a block range in chunks.
+ *
+ * Public RPCs cap the range (or result size) of `eth_getLogs`, so the range is
+ * split into `chunkSize` windows. A window that fails is halved and retried
+ * until it is a single block, at which point the error is rethrown.
+ *
+ * @param fromBlock First block of the range (inclusive)
+ * @param toBlock Last block of the range (inclusive)
+ * @param fetchRange Fetches the logs for a sub-range
+ * @param chunkSize Maximum number of blocks per request
+ * @returns The logs of every chunk, in block order
+ */
+export async function fetchLogsInChunks<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<T[]> {
+  const logs: T[] = [];
+
+  for (let start = fromBlock; start <= toBlock; start += chunkSize) {
+    const end =
+      start + chunkSize - 1n < toBlock ? start + chunkSize - 1n : toBlock;
+    logs.push(...(await fetchRangeWithRetry(start, end, fetchRange)));
+  }
+
+  return logs;
+}
+
+async function fetchRangeWithRetry<T>(
+  fromBlock: bigint,
+  toBlock: bigint,
+  fetchRange: (fromBlock: bigint, toBlock: bigint) => Promise<T[]>
+): Promise<T[]> {
+  try {
+    return await fetchRange(fromBlock, toBlock);
+  } catch (error) {
+    if (fromBlock === toBlock) {
+      throw error;
+    }
+
+    const middle = (fromBlock + toBlock) / 2n;
+    return [
+      ...(await fetchRangeWithRetry(fromBlock, middle, fetchRange)),
+      ...(await fetchRangeWithRetry(middle + 1n, toBlock, fetchRange)),
+    ];
+  }
+}
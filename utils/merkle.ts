@@ -0,0 +1,146 @@
+import {
+  Address,
+  concat,
+  encodeAbiParameters,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  keccak256,
+} from "viem";
+
+/*
+ * Merkle tree of (account, amount) dION entitlements, verified on-chain by
+ * `IonicDebtToken.claimFromMerkle`.
+ *
+ * Leaves are double hashed and pairs are hashed in sorted order, as in
+ * OpenZeppelin's StandardMerkleTree and MerkleProof, so a proof is just the
+ * sibling hashes from the leaf up to the root.
+ */
+
+export interface MerkleEntitlement {
+  account: Address;
+  amount: bigint;
+}
+
+export interface MerkleClaim {
+  amount: bigint;
+  proof: Hex[];
+}
+
+export interface MerkleClaimsFile {
+  root: Hex;
+  chainId: number;
+  // Snapshot block the entitlements were computed at
+  blockNumber: bigint;
+  total: bigint;
+  // Claim of each account, keyed by checksummed address
+  claims: Record<Address, MerkleClaim>;
+}
+
+/**
+ * Hash an entitlement the way IonicDebtToken does
+ * @param entitlement Account and dION amount
+ * @returns The leaf hash
+ */
+export function hashEntitlementLeaf({
+  account,
+  amount,
+}: MerkleEntitlement): Hex {
+  return keccak256(
+    keccak256(
+      encodeAbiParameters(
+        [{ type: "address" }, { type: "uint256" }],
+        [account, amount]
+      )
+    )
+  );
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return hexToBigInt(a) < hexToBigInt(b)
+    ? keccak256(concat([a, b]))
+    : keccak256(concat([b, a]));
+}
+
+/**
+ * Build the tree of a set of entitlements
+ * @param entitlements One entitlement per account
+ * @returns The root and the claim of each account
+ */
+export function buildMerkleClaims(entitlements: MerkleEntitlement[]): {
+  root: Hex;
+  claims: Record<Address, MerkleClaim>;
+} {
+  if (entitlements.length === 0) {
+    throw new Error("Cannot build a Merkle tree without entitlements");
+  }
+
+  const seen = new Set<Address>();
+  for (const { account, amount } of entitlements) {
+    const address = getAddress(account);
+    if (seen.has(address)) {
+      throw new Error(`${address} has more than one entitlement`);
+    }
+    if (amount <= 0n) {
+      throw new Error(`${address} has a non-positive entitlement ${amount}`);
+    }
+    seen.add(address);
+  }
+
+  // Sorted leaves make the root independent of the input order
+  const leaves = entitlements
+    .map((entitlement) => ({
+      account: getAddress(entitlement.account),
+      amount: entitlement.amount,
+      hash: hashEntitlementLeaf(entitlement),
+    }))
+    .sort((a, b) => (hexToBigInt(a.hash) < hexToBigInt(b.hash) ? -1 : 1));
+
+  const levels: Hex[][] = [leaves.map((leaf) => leaf.hash)];
+  while (levels[levels.length - 1].length > 1) {
+    const level = levels[levels.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      // An odd node out is carried up unchanged
+      next.push(
+        i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]
+      );
+    }
+    levels.push(next);
+  }
+
+  const claims: Record<Address, MerkleClaim> = {};
+  leaves.forEach((leaf, leafIndex) => {
+    const proof: Hex[] = [];
+    let index = leafIndex;
+    for (const level of levels.slice(0, -1)) {
+      const sibling = index % 2 === 0 ? index + 1 : index - 1;
+      if (sibling < level.length) {
+        proof.push(level[sibling]);
+      }
+      index = Math.floor(index / 2);
+    }
+    claims[leaf.account] = { amount: leaf.amount, proof };
+  });
+
+  return { root: levels[levels.length - 1][0], claims };
+}
+
+/**
+ * Verify a proof the way MerkleProof.verify does
+ * @param root Root of the tree
+ * @param entitlement Account and dION amount
+ * @param proof Sibling hashes from the leaf up to the root
+ * @returns Whether the entitlement is in the tree
+ */
+export function verifyMerkleClaim(
+  root: Hex,
+  entitlement: MerkleEntitlement,
+  proof: Hex[]
+): boolean {
+  const computed = proof.reduce(
+    (hash, sibling) => hashPair(hash, sibling),
+    hashEntitlementLeaf(entitlement)
+  );
+  return computed === root;
+}
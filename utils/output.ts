@@ -0,0 +1,93 @@
+import { mkdir, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export type CsvValue = string | number | bigint | boolean | null | undefined;
+
+/**
+ * Serialize a value to pretty-printed JSON, encoding bigints as decimal strings
+ * @param value Value to serialize
+ * @returns JSON string
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_key, v) => (typeof v === "bigint" ? v.toString() : v),
+    2
+  );
+}
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const str = value.toString();
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+/**
+ * Render rows as CSV, using the keys of the first row as the header
+ * @param rows Rows to render
+ * @returns CSV string (empty if there are no rows)
+ */
+export function toCsv(rows: Record<string, CsvValue>[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const columns = Object.keys(rows[0]);
+  const lines = [columns.map(escapeCsvValue).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((column) => escapeCsvValue(row[column])).join(","));
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function escapeMarkdownValue(value: CsvValue): string {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  return value.toString().replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Render rows as a Markdown table, using the keys of the first row as the
+ * header
+ * @param rows Rows to render
+ * @returns Markdown string (empty if there are no rows)
+ */
+export function toMarkdownTable(rows: Record<string, CsvValue>[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+
+  const columns = Object.keys(rows[0]);
+  const lines = [
+    `| ${columns.map(escapeMarkdownValue).join(" | ")} |`,
+    `| ${columns.map(() => "---").join(" | ")} |`,
+  ];
+  for (const row of rows) {
+    lines.push(
+      `| ${columns
+        .map((column) => escapeMarkdownValue(row[column]))
+        .join(" | ")} |`
+    );
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Write a file, creating its parent directory if needed
+ * @param path Destination path
+ * @param contents File contents
+ */
+export async function writeOutputFile(
+  path: string,
+  contents: string
+): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, contents);
+}
@@ -0,0 +1,111 @@
+/*
+ * Off-chain mirror of the oracle sanity checks `IonicDebtToken` runs before
+ * valuing a mint, so prices can be checked against the configured guards
+ * without simulating a mint.
+ */
+
+// Deviations and the USDC peg band are in basis points
+export const BPS = 10_000n;
+
+export interface PriceGuard {
+  // Lowest accepted price in ETH, 0 for no lower bound
+  minPrice: bigint;
+  // Highest accepted price in ETH, 0 for no upper bound
+  maxPrice: bigint;
+  // Price the deviation is measured from, 0 to skip the deviation check
+  referencePrice: bigint;
+  maxDeviationBps: bigint;
+}
+
+export type PriceGuardStatus =
+  | { ok: true }
+  | { ok: false; reason: "zero-price" | "out-of-bounds" | "deviation" };
+
+/**
+ * Check an oracle price against its guard the way `_checkedPrice` does
+ * @param price Oracle price in ETH
+ * @param guard Guard of the token, as returned by `priceGuards(token)`
+ * @returns Whether the price is accepted, and why not otherwise
+ */
+export function checkPriceGuard(
+  price: bigint,
+  guard: PriceGuard
+): PriceGuardStatus {
+  if (price === 0n) {
+    return { ok: false, reason: "zero-price" };
+  }
+  if (
+    price < guard.minPrice ||
+    (guard.maxPrice !== 0n && price > guard.maxPrice)
+  ) {
+    return { ok: false, reason: "out-of-bounds" };
+  }
+  if (
+    guard.referencePrice !== 0n &&
+    absDiff(price, guard.referencePrice) * BPS >
+      guard.referencePrice * guard.maxDeviationBps
+  ) {
+    return { ok: false, reason: "deviation" };
+  }
+  return { ok: true };
+}
+
+/**
+ * Check the USDC price against the peg band the way `_checkUsdcPeg` does
+ * @param usdcPrice Oracle price of USDC in ETH
+ * @param referencePrice Oracle price of the peg reference token in ETH
+ * @param bandBps Largest accepted deviation from the reference
+ * @returns Whether USDC is within the band
+ */
+export function isUsdcPegged(
+  usdcPrice: bigint,
+  referencePrice: bigint,
+  bandBps: bigint
+): boolean {
+  if (referencePrice === 0n) {
+    return false;
+  }
+  return absDiff(usdcPrice, referencePrice) * BPS <= referencePrice * bandBps;
+}
+
+/**
+ * Deviation of a price from a reference, rounded down
+ * @param price Price to compare
+ * @param referencePrice Price to compare with, must not be 0
+ * @returns The deviation in basis points of the reference
+ */
+export function deviationBps(price: bigint, referencePrice: bigint): bigint {
+  return (absDiff(price, referencePrice) * BPS) / referencePrice;
+}
+
+function absDiff(a: bigint, b: bigint): bigint {
+  return a > b ? a - b : b - a;
+}
+
+/**
+ * Render a guard as a human readable range
+ * @param guard Guard of a token
+ * @param format Formats a price
+ * @returns Description of the guard
+ */
+export function describePriceGuard(
+  guard: PriceGuard,
+  format: (price: bigint) => string
+): string {
+  const parts = [];
+  if (guard.minPrice !== 0n || guard.maxPrice !== 0n) {
+    parts.push(
+      `[${format(guard.minPrice)}, ${
+        guard.maxPrice === 0n ? "∞" : format(guard.maxPrice)
+      }]`
+    );
+  }
+  if (guard.referencePrice !== 0n) {
+    parts.push(
+      `${format(guard.referencePrice)} ± ${
+        Number(guard.maxDeviationBps) / 100
+      }%`
+    );
+  }
+  return parts.length === 0 ? "unguarded" : parts.join(", ");
+}
@@ -0,0 +1,81 @@
+import {
+  Address,
+  getAddress,
+  Hex,
+  hexToBigInt,
+  PublicClient,
+  sliceHex,
+} from "viem";
+
+// keccak256("eip1967.proxy.implementation") - 1
+export const EIP1967_IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+// keccak256("eip1967.proxy.admin") - 1
+export const EIP1967_ADMIN_SLOT =
+  "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103";
+
+/**
+ * Read an address stored in the low 20 bytes of a storage slot
+ * @param publicClient Client connected to the network
+ * @param address Contract whose storage is read
+ * @param slot Storage slot
+ * @returns Checksummed address (the zero address if the slot is empty)
+ */
+export async function readAddressSlot(
+  publicClient: Pick<PublicClient, "getStorageAt">,
+  address: Address,
+  slot: Hex
+): Promise<Address> {
+  const value = await publicClient.getStorageAt({ address, slot });
+  return getAddress(sliceHex(value ?? `0x${"0".repeat(64)}`, 12));
+}
+
+/**
+ * Get the implementation an EIP-1967 proxy points to
+ * @param publicClient Client connected to the network
+ * @param proxy Proxy address
+ * @returns Implementation address
+ */
+export function getProxyImplementation(
+  publicClient: Pick<PublicClient, "getStorageAt">,
+  proxy: Address
+): Promise<Address> {
+  return readAddressSlot(publicClient, proxy, EIP1967_IMPLEMENTATION_SLOT);
+}
+
+/**
+ * Get the admin of an EIP-1967 proxy (the ProxyAdmin for a transparent proxy)
+ * @param publicClient Client connected to the network
+ * @param proxy Proxy address
+ * @returns Admin address
+ */
+export function getProxyAdmin(
+  publicClient: Pick<PublicClient, "getStorageAt">,
+  proxy: Address
+): Promise<Address> {
+  return readAddressSlot(publicClient, proxy, EIP1967_ADMIN_SLOT);
+}
+
+// ERC-7201 slot of OpenZeppelin's Initializable storage:
+// keccak256(abi.encode(uint256(keccak256("openzeppelin.storage.Initializable")) - 1)) & ~bytes32(uint256(0xff))
+export const INITIALIZABLE_STORAGE_SLOT =
+  "0xf0c57e16840df040f15088dc2f81fe391c3923bec73e23a9662efc9c229c6a00";
+
+/**
+ * Get the version an OpenZeppelin (v5) Initializable contract was initialized to
+ * @param publicClient Client connected to the network
+ * @param address Contract to inspect (e.g. a bare implementation)
+ * @returns The `_initialized` version (0 if never initialized)
+ */
+export async function getInitializedVersion(
+  publicClient: Pick<PublicClient, "getStorageAt">,
+  address: Address
+): Promise<bigint> {
+  const value = await publicClient.getStorageAt({
+    address,
+    slot: INITIALIZABLE_STORAGE_SLOT,
+  });
+  // `_initialized` is a uint64 packed in the lowest 8 bytes of the slot
+  return value === undefined ? 0n : hexToBigInt(sliceHex(value, 24));
+}
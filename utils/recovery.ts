@@ -0,0 +1,272 @@
+import { Address, getAddress, parseAbiItem, PublicClient } from "viem";
+import { DEFAULT_LOG_CHUNK_SIZE, fetchLogsInChunks } from "./logs.js";
+import { EXCHANGE_RATE_SCALE, normalizeDecimals } from "./valuation.js";
+
+/*
+ * Tracks the ionTokens IonicDebtToken collected from minters and what became
+ * of them: withdrawn as ionTokens, redeemed for their underlying, or still
+ * held. Held ionTokens are only as good as the market's cash, what it does not
+ * cover is stuck until liquidity returns.
+ */
+
+const TOKENS_MINTED_EVENT = parseAbiItem(
+  "event TokensMinted(address indexed user, address indexed ionToken, uint256 ionTokenAmount, uint256 mintedAmount)"
+);
+const ION_TOKENS_WITHDRAWN_EVENT = parseAbiItem(
+  "event IonTokensWithdrawn(address indexed ionToken, address indexed recipient, uint256 amount)"
+);
+const ION_TOKENS_REDEEMED_EVENT = parseAbiItem(
+  "event IonTokensRedeemed(address indexed ionToken, address indexed recipient, uint256 ionTokenAmount, uint256 underlyingAmount)"
+);
+
+/**
+ * ionToken flows of an IonicDebtToken, summed from its events
+ */
+export interface IonTokenFlows {
+  collected: bigint;
+  // dION minted for the collected ionTokens
+  minted: bigint;
+  withdrawn: bigint;
+  redeemed: bigint;
+  // Underlying received for the redeemed ionTokens
+  underlyingRedeemed: bigint;
+}
+
+/**
+ * Market state and prices needed to value an ionToken's recovery
+ */
+export interface RecoveryInput {
+  // ionTokens the contract holds
+  balance: bigint;
+  // `getCash()` of the ionToken market, in underlying
+  cash: bigint;
+  exchangeRate: bigint;
+  underlyingDecimals: number;
+  underlyingPrice: bigint;
+  usdcPrice: bigint;
+}
+
+export interface Recovery {
+  // Held ionTokens the market's cash can redeem now
+  redeemable: bigint;
+  // Held ionTokens the market lacks the cash to redeem
+  stuck: bigint;
+  // Values in USD with 18 decimals
+  redeemedValueUsd: bigint;
+  redeemableValueUsd: bigint;
+  stuckValueUsd: bigint;
+}
+
+/**
+ * Sum the ionTokens collected, withdrawn and redeemed by an IonicDebtToken
+ * @param publicClient Client connected to the network
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @param fromBlock First block to scan (e.g. the deployment block)
+ * @param chunkSize Blocks per `eth_getLogs` request
+ * @returns Flows by ionToken
+ */
+export async function fetchIonTokenFlows(
+  publicClient: Pick<PublicClient, "getBlockNumber" | "getLogs">,
+  ionicDebtToken: Address,
+  fromBlock: bigint = 0n,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<Map<Address, IonTokenFlows>> {
+  const latestBlock = await publicClient.getBlockNumber();
+  const flows = new Map<Address, IonTokenFlows>();
+  const flowsOf = (ionToken: Address) => {
+    const key = getAddress(ionToken);
+    let tokenFlows = flows.get(key);
+    if (tokenFlows === undefined) {
+      tokenFlows = {
+        collected: 0n,
+        minted: 0n,
+        withdrawn: 0n,
+        redeemed: 0n,
+        underlyingRedeemed: 0n,
+      };
+      flows.set(key, tokenFlows);
+    }
+    return tokenFlows;
+  };
+
+  const mints = await fetchLogsInChunks(
+    fromBlock,
+    latestBlock,
+    (from, to) =>
+      publicClient.getLogs({
+        address: ionicDebtToken,
+        event: TOKENS_MINTED_EVENT,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      }),
+    chunkSize
+  );
+  for (const { args } of mints) {
+    const tokenFlows = flowsOf(args.ionToken);
+    tokenFlows.collected += args.ionTokenAmount;
+    tokenFlows.minted += args.mintedAmount;
+  }
+  const withdrawals = await fetchLogsInChunks(
+    fromBlock,
+    latestBlock,
+    (from, to) =>
+      publicClient.getLogs({
+        address: ionicDebtToken,
+        event: ION_TOKENS_WITHDRAWN_EVENT,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      }),
+    chunkSize
+  );
+  for (const { args } of withdrawals) {
+    flowsOf(args.ionToken).withdrawn += args.amount;
+  }
+  const redemptions = await fetchLogsInChunks(
+    fromBlock,
+    latestBlock,
+    (from, to) =>
+      publicClient.getLogs({
+        address: ionicDebtToken,
+        event: ION_TOKENS_REDEEMED_EVENT,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      }),
+    chunkSize
+  );
+  for (const { args } of redemptions) {
+    const tokenFlows = flowsOf(args.ionToken);
+    tokenFlows.redeemed += args.ionTokenAmount;
+    tokenFlows.underlyingRedeemed += args.underlyingAmount;
+  }
+
+  return flows;
+}
+
+/**
+ * Value an amount of underlying in USD, like the contract values mints
+ * @param amount Amount of underlying
+ * @param underlyingDecimals Decimals of the underlying
+ * @param underlyingPrice Oracle price of the underlying in ETH
+ * @param usdcPrice Oracle price of USDC in ETH
+ * @returns USD value with 18 decimals
+ */
+export function valueUnderlyingInUsd(
+  amount: bigint,
+  underlyingDecimals: number,
+  underlyingPrice: bigint,
+  usdcPrice: bigint
+): bigint {
+  if (usdcPrice === 0n) {
+    throw new Error("USDC price is 0");
+  }
+  return (
+    (normalizeDecimals(amount, underlyingDecimals) * underlyingPrice) /
+    usdcPrice
+  );
+}
+
+/**
+ * Split held ionTokens into what the market can redeem now and what is stuck,
+ * rounding like `IonicDebtToken.redeemIonTokens`
+ * @param input Market state and prices
+ * @param underlyingRedeemed Underlying already received from redemptions
+ * @returns Amounts and USD values
+ */
+export function assessRecovery(
+  input: RecoveryInput,
+  underlyingRedeemed: bigint
+): Recovery {
+  const maxRedeemable =
+    input.exchangeRate === 0n
+      ? 0n
+      : (input.cash * EXCHANGE_RATE_SCALE) / input.exchangeRate;
+  const redeemable =
+    input.balance < maxRedeemable ? input.balance : maxRedeemable;
+  const stuck = input.balance - redeemable;
+
+  const valueIonTokens = (amount: bigint) =>
+    valueUnderlyingInUsd(
+      (amount * input.exchangeRate) / EXCHANGE_RATE_SCALE,
+      input.underlyingDecimals,
+      input.underlyingPrice,
+      input.usdcPrice
+    );
+  return {
+    redeemable,
+    stuck,
+    redeemedValueUsd: valueUnderlyingInUsd(
+      underlyingRedeemed,
+      input.underlyingDecimals,
+      input.underlyingPrice,
+      input.usdcPrice
+    ),
+    redeemableValueUsd: valueIonTokens(redeemable),
+    stuckValueUsd: valueIonTokens(stuck),
+  };
+}
+
+/**
+ * On-chain deposit and mint totals of an ionToken next to its events' sums
+ */
+export interface IonTokenTotalsCheck {
+  ionToken: Address;
+  totalDeposited: bigint;
+  totalMinted: bigint;
+  eventsDeposited: bigint;
+  eventsMinted: bigint;
+  matches: boolean;
+}
+
+/**
+ * Check the contract's per-ionToken totals against the summed `TokensMinted`
+ * events
+ * @param totals `ionTokenTotalDeposited` and `ionTokenTotalMinted` by ionToken
+ * @param flows Flows summed from events, by `fetchIonTokenFlows`
+ * @returns One check per ionToken with totals or events
+ */
+export function reconcileIonTokenTotals(
+  totals: readonly {
+    ionToken: Address;
+    totalDeposited: bigint;
+    totalMinted: bigint;
+  }[],
+  flows: Map<Address, IonTokenFlows>
+): IonTokenTotalsCheck[] {
+  const checks = new Map<Address, IonTokenTotalsCheck>();
+  for (const { ionToken, totalDeposited, totalMinted } of totals) {
+    checks.set(getAddress(ionToken), {
+      ionToken: getAddress(ionToken),
+      totalDeposited,
+      totalMinted,
+      eventsDeposited: 0n,
+      eventsMinted: 0n,
+      matches: false,
+    });
+  }
+  for (const [ionToken, tokenFlows] of flows) {
+    if (tokenFlows.collected === 0n && !checks.has(ionToken)) {
+      continue;
+    }
+    const check = checks.get(ionToken) ?? {
+      ionToken,
+      totalDeposited: 0n,
+      totalMinted: 0n,
+      eventsDeposited: 0n,
+      eventsMinted: 0n,
+      matches: false,
+    };
+    check.eventsDeposited = tokenFlows.collected;
+    check.eventsMinted = tokenFlows.minted;
+    checks.set(ionToken, check);
+  }
+
+  return [...checks.values()].map((check) => ({
+    ...check,
+    matches:
+      check.totalDeposited === check.eventsDeposited &&
+      check.totalMinted === check.eventsMinted,
+  }));
+}
@@ -0,0 +1,148 @@
+import {
+  Address,
+  encodeFunctionData,
+  erc20Abi,
+  parseAbi,
+  PublicClient,
+} from "viem";
+import type { SafeTransaction } from "./safe.js";
+
+/*
+ * Helpers for the USDC redemption rounds of IonicDebtToken.
+ *
+ * Burn rounds pay a fixed amount of USDC per dION burned, partial rounds are
+ * shared between the holders at funding time, who claim without burning.
+ */
+
+// ABI fragment for the IonicDebtToken redemption functions
+export const REDEMPTION_ABI = parseAbi([
+  "function fundRedemptionRound(uint256 amount, uint8 kind) returns (uint256)",
+  "function redemptionRoundCount() view returns (uint256)",
+  "function redemptionRounds(uint256 roundId) view returns (uint8 kind, uint256 amount, uint256 supply, uint256 burned, uint256 claimed, uint256 fundedAt)",
+  "function redemptionUsdcOutstanding() view returns (uint256)",
+  "function closedRedemptionRounds() view returns (uint256)",
+  "function closeRedemptionRounds() returns (uint256)",
+]);
+
+// Values of IonicDebtToken.RedemptionKind
+export const REDEMPTION_KINDS = ["burn", "partial"] as const;
+
+export type RedemptionKindName = (typeof REDEMPTION_KINDS)[number];
+
+export interface RedemptionRoundState {
+  roundId: bigint;
+  kind: RedemptionKindName;
+  // USDC deposited for the round
+  amount: bigint;
+  // dION supply the round is shared between
+  supply: bigint;
+  // dION burned against the round (burn rounds only)
+  burned: bigint;
+  // USDC paid out of the round (burn rounds only)
+  claimed: bigint;
+  fundedAt: bigint;
+  // Closed with `closeRedemptionRounds`, its unclaimed USDC returned
+  closed: boolean;
+}
+
+/**
+ * Parse a redemption kind name into the value of IonicDebtToken.RedemptionKind
+ * @param name "burn" or "partial"
+ * @returns The enum value
+ */
+export function parseRedemptionKind(name: string): number {
+  const kind = REDEMPTION_KINDS.indexOf(name as RedemptionKindName);
+  if (kind === -1) {
+    throw new Error(
+      `${name} is not a redemption kind, use one of ${REDEMPTION_KINDS.join(
+        ", "
+      )}`
+    );
+  }
+  return kind;
+}
+
+/**
+ * Read every redemption round of a deployed IonicDebtToken
+ * @param publicClient Client connected to the network
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @returns The rounds, in funding order
+ */
+export async function fetchRedemptionRounds(
+  publicClient: Pick<PublicClient, "readContract">,
+  ionicDebtToken: Address
+): Promise<RedemptionRoundState[]> {
+  const [count, closedRounds] = await Promise.all([
+    publicClient.readContract({
+      address: ionicDebtToken,
+      abi: REDEMPTION_ABI,
+      functionName: "redemptionRoundCount",
+    }),
+    publicClient.readContract({
+      address: ionicDebtToken,
+      abi: REDEMPTION_ABI,
+      functionName: "closedRedemptionRounds",
+    }),
+  ]);
+
+  const rounds: RedemptionRoundState[] = [];
+  for (let roundId = 0n; roundId < count; roundId++) {
+    const [kind, amount, supply, burned, claimed, fundedAt] =
+      await publicClient.readContract({
+        address: ionicDebtToken,
+        abi: REDEMPTION_ABI,
+        functionName: "redemptionRounds",
+        args: [roundId],
+      });
+    rounds.push({
+      roundId,
+      kind: REDEMPTION_KINDS[Number(kind)],
+      amount,
+      supply,
+      burned,
+      claimed,
+      fundedAt,
+      closed: roundId < closedRounds,
+    });
+  }
+  return rounds;
+}
+
+/**
+ * Build the owner calls funding a redemption round: approving the USDC and
+ * depositing it
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @param usdc Address of the USDC the proxy pays redemptions in
+ * @param amount Amount of USDC to deposit
+ * @param kind Kind of round
+ * @returns The calls, in order
+ */
+export function buildFundRedemptionRoundTransactions(
+  ionicDebtToken: Address,
+  usdc: Address,
+  amount: bigint,
+  kind: RedemptionKindName
+): SafeTransaction[] {
+  return [
+    {
+      to: usdc,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [ionicDebtToken, amount],
+      }),
+      description: `approve(${ionicDebtToken}, ${amount}) on USDC`,
+    },
+    {
+      to: ionicDebtToken,
+      value: 0n,
+      data: encodeFunctionData({
+        abi: REDEMPTION_ABI,
+        functionName: "fundRedemptionRound",
+        args: [amount, parseRedemptionKind(kind)],
+      }),
+      description: `fundRedemptionRound(${amount}, ${kind})`,
+    },
+  ];
+}
@@ -0,0 +1,153 @@
+import { Address, erc20Abi, getAddress, PublicClient } from "viem";
+import type { IonTokenConfig } from "../ignition/config/types.js";
+import { ION_TOKEN_ABI } from "./client.js";
+import { MASTER_PRICE_ORACLE_ABI } from "./exposure.js";
+import { scaleFactorFor, valueMint } from "./valuation.js";
+
+/*
+ * Replay of the `IonicDebtToken.previewMint` valuation at past blocks, reading
+ * exchange rates, oracle prices and supplies with historical calls
+ */
+
+export interface ReplayBlock {
+  label: string;
+  blockNumber: bigint;
+}
+
+export interface ReplayRow {
+  label: string;
+  blockNumber: bigint;
+  ionToken: Address;
+  symbol: string;
+  exchangeRate: bigint;
+  underlyingPrice: bigint;
+  usdcPrice: bigint;
+  // dION for one whole ionToken
+  dionPerIonToken: bigint;
+  totalSupply: bigint;
+  // dION for the ionToken's whole supply
+  dionForSupply: bigint;
+}
+
+/**
+ * Parse a comma-separated list of blocks, each optionally labelled
+ * @param value e.g. "pre-exploit:20690000,20700000"
+ * @returns The blocks, labelled with their number when no label is given
+ */
+export function parseReplayBlocks(value: string): ReplayBlock[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== "")
+    .map((entry) => {
+      const [label, block] = entry.includes(":")
+        ? entry.split(":")
+        : [entry, entry];
+      if (!/^\d+$/.test(block)) {
+        throw new Error(`${entry} is not a block number or label:block`);
+      }
+      return { label, blockNumber: BigInt(block) };
+    });
+}
+
+/**
+ * Value every ionToken at each block with the scale factors of its config
+ * @param publicClient Client connected to a node serving the blocks' state
+ * @param masterPriceOracle Address of the MasterPriceOracle
+ * @param usdc Address of USDC
+ * @param tokenConfigs ionTokens to value
+ * @param blocks Blocks to replay
+ * @returns One row per ionToken and block, in block order. ionTokens that did
+ * not exist yet at a block are left out
+ */
+export async function replayValuation(
+  publicClient: Pick<PublicClient, "readContract">,
+  masterPriceOracle: Address,
+  usdc: Address,
+  tokenConfigs: readonly IonTokenConfig[],
+  blocks: readonly ReplayBlock[]
+): Promise<ReplayRow[]> {
+  const rows: ReplayRow[] = [];
+
+  for (const { label, blockNumber } of blocks) {
+    const usdcPrice = await publicClient.readContract({
+      address: masterPriceOracle,
+      abi: MASTER_PRICE_ORACLE_ABI,
+      functionName: "price",
+      args: [usdc],
+      blockNumber,
+    });
+
+    for (const tokenConfig of tokenConfigs) {
+      const ionToken = getAddress(tokenConfig.address);
+      const read = <
+        FunctionName extends
+          | "exchangeRateCurrent"
+          | "underlying"
+          | "totalSupply"
+      >(
+        functionName: FunctionName
+      ) =>
+        publicClient.readContract({
+          address: ionToken,
+          abi: ION_TOKEN_ABI,
+          functionName,
+          blockNumber,
+        });
+
+      let exchangeRate: bigint, underlying: Address, totalSupply: bigint;
+      try {
+        [exchangeRate, underlying, totalSupply] = await Promise.all([
+          read("exchangeRateCurrent"),
+          read("underlying"),
+          read("totalSupply"),
+        ]);
+      } catch {
+        // The market did not exist yet
+        continue;
+      }
+      const [underlyingPrice, underlyingDecimals] = await Promise.all([
+        publicClient.readContract({
+          address: masterPriceOracle,
+          abi: MASTER_PRICE_ORACLE_ABI,
+          functionName: "price",
+          args: [underlying],
+          blockNumber,
+        }),
+        publicClient.readContract({
+          address: underlying,
+          abi: erc20Abi,
+          functionName: "decimals",
+          blockNumber,
+        }),
+      ]);
+
+      const valuationInput = {
+        exchangeRate,
+        underlyingDecimals,
+        underlyingPrice,
+        usdcPrice,
+        scaleFactor: scaleFactorFor(tokenConfig),
+      };
+
+      rows.push({
+        label,
+        blockNumber,
+        ionToken,
+        symbol: tokenConfig.symbol,
+        exchangeRate,
+        underlyingPrice,
+        usdcPrice,
+        dionPerIonToken: valueMint({
+          ...valuationInput,
+          amount: 10n ** BigInt(tokenConfig.decimals),
+        }).tokensToMint,
+        totalSupply,
+        dionForSupply: valueMint({ ...valuationInput, amount: totalSupply })
+          .tokensToMint,
+      });
+    }
+  }
+
+  return rows;
+}
@@ -0,0 +1,43 @@
+import { Address, Hex, keccak256, toHex, zeroHash } from "viem";
+
+/*
+ * IonicDebtToken splits the former owner's powers across roles. The default
+ * admin (`owner()`) grants and revokes them, and is itself transferred in two
+ * steps (`beginDefaultAdminTransfer`, then `acceptDefaultAdminTransfer`).
+ */
+
+export const DEFAULT_ADMIN_ROLE: Hex = zeroHash;
+
+// Roles by the name used in network configs
+export const ROLES = {
+  // Whitelists ionTokens and updates scale factors and mint caps
+  whitelistManager: keccak256(toHex("WHITELIST_MANAGER_ROLE")),
+  // Withdraws ionTokens and funds redemption rounds
+  treasury: keccak256(toHex("TREASURY_ROLE")),
+  // Updates the oracle, USDC, price guards and USDC peg band
+  oracleAdmin: keccak256(toHex("ORACLE_ADMIN_ROLE")),
+  // Authorizes UUPS upgrades
+  upgrader: keccak256(toHex("UPGRADER_ROLE")),
+} as const;
+
+export type RoleName = keyof typeof ROLES;
+
+export const ROLE_NAMES = Object.keys(ROLES) as RoleName[];
+
+/**
+ * Resolve the holder of every role, falling back to a default account
+ * @param roles Holders set in the network config
+ * @param fallback Account holding the roles left unset (e.g. the Safe)
+ * @returns The holder of each role
+ */
+export function resolveRoleHolders(
+  roles: Partial<Record<RoleName, Address>> | undefined,
+  fallback: Address
+): Record<RoleName, Address> {
+  return {
+    whitelistManager: roles?.whitelistManager ?? fallback,
+    treasury: roles?.treasury ?? fallback,
+    oracleAdmin: roles?.oracleAdmin ?? fallback,
+    upgrader: roles?.upgrader ?? fallback,
+  };
+}
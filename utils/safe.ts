@@ -0,0 +1,133 @@
+import { Address, Hex } from "viem";
+import { describeRevert } from "./errors.js";
+import { ForkConnection, impersonate } from "./fork.js";
+
+// Transaction Builder version the exported batches are formatted for
+const TX_BUILDER_VERSION = "1.16.5";
+
+/**
+ * A call to be executed by the Safe
+ */
+export interface SafeTransaction {
+  to: Address;
+  value: bigint;
+  data: Hex;
+  // Human readable summary, included in the batch description
+  description: string;
+}
+
+/**
+ * Batch file accepted by the Safe{Wallet} Transaction Builder app
+ */
+export interface SafeBatchFile {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: Address;
+    createdFromOwnerAddress: string;
+  };
+  transactions: {
+    to: Address;
+    value: string;
+    data: Hex;
+    contractMethod: null;
+    contractInputsValues: null;
+  }[];
+}
+
+export interface SafeSimulationResult {
+  transaction: SafeTransaction;
+  success: boolean;
+  hash?: Hex;
+  error?: string;
+}
+
+/**
+ * Format transactions as a Safe Transaction Builder batch
+ * @param chainId Chain the Safe lives on
+ * @param safeAddress Safe executing the batch
+ * @param name Name of the batch
+ * @param transactions Calls to execute, in order
+ * @returns The batch file contents
+ */
+export function buildSafeBatch(
+  chainId: number,
+  safeAddress: Address,
+  name: string,
+  transactions: SafeTransaction[]
+): SafeBatchFile {
+  return {
+    version: "1.0",
+    chainId: chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: transactions.map((tx) => tx.description).join("; "),
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: safeAddress,
+      createdFromOwnerAddress: "",
+    },
+    transactions: transactions.map((tx) => ({
+      to: tx.to,
+      value: tx.value.toString(),
+      data: tx.data,
+      contractMethod: null,
+      contractInputsValues: null,
+    })),
+  };
+}
+
+/**
+ * Execute a batch on a fork as the Safe, in order, stopping at the first
+ * failure (the Safe executes batches atomically, so later calls would not run)
+ * @param fork Fork of the Safe's network
+ * @param safeAddress Safe executing the batch
+ * @param transactions Calls to execute, in order
+ * @returns One result per executed call
+ */
+export async function simulateSafeBatch(
+  fork: ForkConnection,
+  safeAddress: Address,
+  transactions: SafeTransaction[]
+): Promise<SafeSimulationResult[]> {
+  const publicClient = await fork.viem.getPublicClient();
+  const safe = await impersonate(fork, safeAddress);
+  const results: SafeSimulationResult[] = [];
+
+  for (const transaction of transactions) {
+    try {
+      const hash = await safe.sendTransaction({
+        to: transaction.to,
+        value: transaction.value,
+        data: transaction.data,
+      });
+      const receipt = await publicClient.waitForTransactionReceipt({ hash });
+      results.push({
+        transaction,
+        success: receipt.status === "success",
+        hash,
+      });
+    } catch (error) {
+      results.push({
+        transaction,
+        success: false,
+        error: describeRevert(error),
+      });
+    }
+
+    if (!results[results.length - 1].success) {
+      break;
+    }
+  }
+
+  await fork.provider.request({
+    method: "hardhat_stopImpersonatingAccount",
+    params: [safeAddress],
+  });
+
+  return results;
+}
@@ -0,0 +1,258 @@
+import { existsSync, readFileSync } from "node:fs";
+
+/*
+ * Storage layout compatibility checks for upgrades.
+ *
+ * These helpers are synchronous so Ignition modules, whose build functions
+ * cannot be async, can run them before any future is created.
+ *
+ * They only cover the contract's own variables, in sequential slots. The
+ * OpenZeppelin base contracts keep their state in ERC-7201 namespaces, which
+ * solc's `storageLayout` leaves out, so changing the base contracts or
+ * upgrading OpenZeppelin must be reviewed against its upgrade notes by hand.
+ */
+
+export interface StorageLayoutEntry {
+  astId?: number;
+  contract?: string;
+  label: string;
+  offset: number;
+  slot: string;
+  type: string;
+}
+
+export interface StorageLayoutType {
+  encoding: string;
+  label: string;
+  numberOfBytes: string;
+  key?: string;
+  value?: string;
+  base?: string;
+  members?: StorageLayoutEntry[];
+}
+
+/**
+ * The `storageLayout` output of solc for a contract
+ */
+export interface StorageLayout {
+  storage: StorageLayoutEntry[];
+  types: Record<string, StorageLayoutType> | null;
+}
+
+/**
+ * The part of a Hardhat build info's solc output the layouts are read from
+ */
+interface BuildInfoOutput {
+  output: {
+    contracts: Record<
+      string,
+      Record<string, { storageLayout?: StorageLayout } | undefined>
+    >;
+  };
+}
+
+/**
+ * Error thrown when a new storage layout is not compatible with the old one
+ */
+export class StorageLayoutError extends Error {
+  constructor(
+    public readonly contractName: string,
+    public readonly issues: string[]
+  ) {
+    super(
+      `Storage layout of ${contractName} is not upgrade safe:\n${issues
+        .map((issue) => `  - ${issue}`)
+        .join("\n")}`
+    );
+    this.name = "StorageLayoutError";
+  }
+}
+
+// Snapshot of the layout currently deployed behind the proxy
+export const DEPLOYED_STORAGE_LAYOUT_PATH =
+  "storage-layouts/IonicDebtToken.json";
+
+/**
+ * Describe a storage type without the AST ids solc embeds in type identifiers,
+ * so layouts of different compilations can be compared
+ * @param typeId solc type identifier
+ * @param types Type definitions of the layout
+ * @returns Canonical description of the type
+ */
+export function describeStorageType(
+  typeId: string,
+  types: StorageLayout["types"]
+): string {
+  const type = types?.[typeId];
+  if (type === undefined) {
+    return typeId;
+  }
+
+  if (type.encoding === "mapping" && type.key && type.value) {
+    return `mapping(${describeStorageType(
+      type.key,
+      types
+    )} => ${describeStorageType(type.value, types)})`;
+  }
+
+  if (type.base) {
+    return `${type.label} of ${describeStorageType(type.base, types)}`;
+  }
+
+  if (type.members) {
+    const members = type.members.map(
+      (member) =>
+        `${describeStorageType(member.type, types)} ${member.label} @${
+          member.slot
+        }:${member.offset}`
+    );
+    return `${type.label} { ${members.join("; ")} }`;
+  }
+
+  return type.label;
+}
+
+/**
+ * Compare two storage layouts.
+ *
+ * Every variable of the old layout must keep its name, slot, offset and type in
+ * the new layout, and new variables may only be appended after them.
+ *
+ * @param oldLayout Layout of the deployed implementation
+ * @param newLayout Layout of the new implementation
+ * @returns Human readable incompatibilities (empty if the upgrade is safe)
+ */
+export function compareStorageLayouts(
+  oldLayout: StorageLayout,
+  newLayout: StorageLayout
+): string[] {
+  const issues: string[] = [];
+  const newByLabel = new Map(
+    newLayout.storage.map((entry) => [entry.label, entry])
+  );
+
+  let lastOldSlot = -1n;
+  for (const oldEntry of oldLayout.storage) {
+    if (BigInt(oldEntry.slot) > lastOldSlot) {
+      lastOldSlot = BigInt(oldEntry.slot);
+    }
+
+    const newEntry = newByLabel.get(oldEntry.label);
+    if (newEntry === undefined) {
+      issues.push(
+        `${oldEntry.label} (slot ${oldEntry.slot}) was removed or renamed`
+      );
+      continue;
+    }
+
+    if (
+      newEntry.slot !== oldEntry.slot ||
+      newEntry.offset !== oldEntry.offset
+    ) {
+      issues.push(
+        `${oldEntry.label} moved from slot ${oldEntry.slot}:${oldEntry.offset} to ${newEntry.slot}:${newEntry.offset}`
+      );
+    }
+
+    const oldType = describeStorageType(oldEntry.type, oldLayout.types);
+    const newType = describeStorageType(newEntry.type, newLayout.types);
+    if (oldType !== newType) {
+      issues.push(
+        `${oldEntry.label} changed type from ${oldType} to ${newType}`
+      );
+    }
+  }
+
+  const oldLabels = new Set(oldLayout.storage.map((entry) => entry.label));
+  for (const newEntry of newLayout.storage) {
+    if (
+      !oldLabels.has(newEntry.label) &&
+      BigInt(newEntry.slot) <= lastOldSlot
+    ) {
+      issues.push(
+        `${newEntry.label} was inserted at slot ${newEntry.slot}, new variables must be appended`
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Read the storage layout of a compiled contract from the Hardhat build info
+ * @param sourceName Source file of the contract (e.g. contracts/IonicDebtToken.sol)
+ * @param contractName Name of the contract
+ * @param artifactsDir Hardhat artifacts directory
+ * @returns The storage layout solc produced for the contract
+ */
+export function readCompiledStorageLayout(
+  sourceName: string,
+  contractName: string,
+  artifactsDir: string = "artifacts"
+): StorageLayout {
+  const artifactPath = `${artifactsDir}/${sourceName}/${contractName}.json`;
+  if (!existsSync(artifactPath)) {
+    throw new Error(`${artifactPath} not found, compile the contracts first`);
+  }
+
+  const { buildInfoId }: { buildInfoId: string } = JSON.parse(
+    readFileSync(artifactPath, "utf8")
+  );
+
+  // The solc output is either split into its own file or inlined
+  const outputPath = `${artifactsDir}/build-info/${buildInfoId}.output.json`;
+  const buildInfo: BuildInfoOutput = JSON.parse(
+    readFileSync(
+      existsSync(outputPath)
+        ? outputPath
+        : `${artifactsDir}/build-info/${buildInfoId}.json`,
+      "utf8"
+    )
+  );
+
+  const { contracts } = buildInfo.output;
+  const source = Object.keys(contracts).find(
+    (name) => name === sourceName || name.endsWith(`/${sourceName}`)
+  );
+  const layout =
+    source !== undefined
+      ? contracts[source][contractName]?.storageLayout
+      : undefined;
+
+  if (layout === undefined) {
+    throw new Error(
+      `No storageLayout for ${sourceName}:${contractName} in build info ${buildInfoId}, make sure solc outputs it`
+    );
+  }
+
+  return layout;
+}
+
+/**
+ * Read a storage layout snapshot
+ * @param path Snapshot file
+ * @returns The stored layout
+ */
+export function readStorageLayoutSnapshot(
+  path: string = DEPLOYED_STORAGE_LAYOUT_PATH
+): StorageLayout {
+  return JSON.parse(readFileSync(path, "utf8"));
+}
+
+/**
+ * Check that the compiled IonicDebtToken can safely replace the deployed one
+ * @param snapshotPath Snapshot of the deployed layout
+ * @throws StorageLayoutError listing every incompatibility
+ */
+export function assertIonicDebtTokenUpgradeSafe(
+  snapshotPath: string = DEPLOYED_STORAGE_LAYOUT_PATH
+): void {
+  const issues = compareStorageLayouts(
+    readStorageLayoutSnapshot(snapshotPath),
+    readCompiledStorageLayout("contracts/IonicDebtToken.sol", "IonicDebtToken")
+  );
+
+  if (issues.length > 0) {
+    throw new StorageLayoutError("IonicDebtToken", issues);
+  }
+}
@@ -0,0 +1,192 @@
+import { Address, encodeFunctionData, Hex, keccak256, parseAbi } from "viem";
+
+/*
+ * Scale factor, oracle and USDC updates of IonicDebtToken are timelocked: the
+ * update is first scheduled, then executed once `timelockDelay` has passed.
+ * A scheduled change is identified by the hash of the calldata executing it.
+ */
+
+// ABI fragment for the IonicDebtToken timelock
+export const TIMELOCK_ABI = parseAbi([
+  "function timelockDelay() view returns (uint256)",
+  "function scheduledChanges(bytes32 changeId) view returns (uint256)",
+  "function scheduleScaleFactorUpdate(address ionToken, uint256 numerator, uint256 denominator) returns (bytes32)",
+  "function updateScaleFactor(address ionToken, uint256 numerator, uint256 denominator)",
+  "function scheduleMasterPriceOracleUpdate(address oracle) returns (bytes32)",
+  "function updateMasterPriceOracle(address oracle)",
+  "function scheduleUsdcAddressUpdate(address usdc) returns (bytes32)",
+  "function updateUsdcAddress(address usdc)",
+  "function scheduleTimelockDelayUpdate(uint256 delay) returns (bytes32)",
+  "function updateTimelockDelay(uint256 delay)",
+]);
+
+/**
+ * A timelocked update, as its schedule and execute calldata
+ */
+export interface TimelockedCall {
+  // Function called once the delay has passed, e.g. "updateScaleFactor"
+  functionName: string;
+  args: readonly unknown[];
+  schedule: Hex;
+  execute: Hex;
+  changeId: Hex;
+}
+
+export type TimelockedCallStatus =
+  | { state: "unscheduled" }
+  | { state: "pending"; readyAt: bigint }
+  | { state: "ready"; readyAt: bigint };
+
+function timelockedCall(
+  functionName: string,
+  args: readonly unknown[],
+  schedule: Hex,
+  execute: Hex
+): TimelockedCall {
+  return {
+    functionName,
+    args,
+    schedule,
+    execute,
+    changeId: keccak256(execute),
+  };
+}
+
+/**
+ * Encode a timelocked scale factor update
+ * @param ionToken Whitelisted ionToken
+ * @param numerator New scale factor numerator
+ * @param denominator New scale factor denominator
+ */
+export function scaleFactorUpdate(
+  ionToken: Address,
+  numerator: bigint,
+  denominator: bigint
+): TimelockedCall {
+  const args = [ionToken, numerator, denominator] as const;
+  return timelockedCall(
+    "updateScaleFactor",
+    args,
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "scheduleScaleFactorUpdate",
+      args,
+    }),
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "updateScaleFactor",
+      args,
+    })
+  );
+}
+
+/**
+ * Encode a timelocked MasterPriceOracle update
+ * @param oracle New MasterPriceOracle
+ */
+export function masterPriceOracleUpdate(oracle: Address): TimelockedCall {
+  return timelockedCall(
+    "updateMasterPriceOracle",
+    [oracle],
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "scheduleMasterPriceOracleUpdate",
+      args: [oracle],
+    }),
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "updateMasterPriceOracle",
+      args: [oracle],
+    })
+  );
+}
+
+/**
+ * Encode a timelocked USDC address update
+ * @param usdc New USDC token
+ */
+export function usdcAddressUpdate(usdc: Address): TimelockedCall {
+  return timelockedCall(
+    "updateUsdcAddress",
+    [usdc],
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "scheduleUsdcAddressUpdate",
+      args: [usdc],
+    }),
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "updateUsdcAddress",
+      args: [usdc],
+    })
+  );
+}
+
+/**
+ * Encode a timelocked update of the timelock delay itself
+ * @param delay New delay in seconds
+ */
+export function timelockDelayUpdate(delay: bigint): TimelockedCall {
+  return timelockedCall(
+    "updateTimelockDelay",
+    [delay],
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "scheduleTimelockDelayUpdate",
+      args: [delay],
+    }),
+    encodeFunctionData({
+      abi: TIMELOCK_ABI,
+      functionName: "updateTimelockDelay",
+      args: [delay],
+    })
+  );
+}
+
+/**
+ * Read whether a timelocked update is scheduled and ready
+ * @param ionicDebtToken Deployed contract (only `scheduledChanges` is read)
+ * @param call Update to look up
+ * @param now Timestamp the update would execute at (e.g. the latest block's)
+ */
+export async function getTimelockedCallStatus(
+  ionicDebtToken: {
+    read: { scheduledChanges(args: readonly [Hex]): Promise<bigint> };
+  },
+  call: TimelockedCall,
+  now: bigint
+): Promise<TimelockedCallStatus> {
+  const readyAt = await ionicDebtToken.read.scheduledChanges([call.changeId]);
+  if (readyAt === 0n) {
+    return { state: "unscheduled" };
+  }
+  return readyAt <= now
+    ? { state: "ready", readyAt }
+    : { state: "pending", readyAt };
+}
+
+/**
+ * Pick the next step of a timelocked update
+ * @param call Update to make
+ * @param status Its status, from `getTimelockedCallStatus`
+ * @returns The calldata and description of the step
+ * @throws If the update is scheduled but its delay has not passed yet
+ */
+export function nextTimelockStep(
+  call: TimelockedCall,
+  status: TimelockedCallStatus
+): { data: Hex; description: string } {
+  const description = `${call.functionName}(${call.args.join(", ")})`;
+  switch (status.state) {
+    case "unscheduled":
+      return { data: call.schedule, description: `schedule ${description}` };
+    case "ready":
+      return { data: call.execute, description };
+    case "pending":
+      throw new Error(
+        `${description} is scheduled but not ready until ${new Date(
+          Number(status.readyAt) * 1000
+        ).toISOString()}`
+      );
+  }
+}
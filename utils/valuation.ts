@@ -0,0 +1,108 @@
+import type { IonTokenConfig } from "../ignition/config/types.js";
+
+/**
+ * Off-chain mirror of the valuation performed by `IonicDebtToken.previewMint`.
+ *
+ * Every helper here uses the same integer math (and therefore the same
+ * rounding) as the contract, so results can be compared with on-chain
+ * previews wei for wei.
+ */
+
+// The ionToken exchange rate is scaled by 1e18
+export const EXCHANGE_RATE_SCALE = 10n ** 18n;
+
+// dION is an 18-decimal USD amount
+export const DION_DECIMALS = 18;
+
+export interface ScaleFactor {
+  numerator: bigint;
+  denominator: bigint;
+}
+
+export interface MintValuationInput {
+  // Amount of ionTokens being provided
+  amount: bigint;
+  // Result of `exchangeRateCurrent()` on the ionToken
+  exchangeRate: bigint;
+  // `decimals()` of the underlying token
+  underlyingDecimals: number;
+  // `masterPriceOracle.price(underlying)`
+  underlyingPrice: bigint;
+  // `masterPriceOracle.price(usdcAddress)`
+  usdcPrice: bigint;
+  scaleFactor: ScaleFactor;
+}
+
+export interface MintValuation {
+  underlyingAmount: bigint;
+  // underlyingAmount in 18 decimals
+  normalizedUnderlyingAmount: bigint;
+  underlyingValueInUsd: bigint;
+  tokensToMint: bigint;
+}
+
+/**
+ * Derive the scale factor the Ignition module whitelists a token with
+ * @param tokenConfig Token entry from a network configuration
+ * @returns illegitimateBorrowed / totalSupplied as a numerator/denominator pair
+ */
+export function scaleFactorFor(
+  tokenConfig: Pick<IonTokenConfig, "totalSupplied" | "illegitimateBorrowed">
+): ScaleFactor {
+  return {
+    numerator: tokenConfig.illegitimateBorrowed,
+    denominator: tokenConfig.totalSupplied,
+  };
+}
+
+/**
+ * Convert an amount to the 18 decimals of dION, rounding down like the contract
+ * @param amount Amount denominated in `fromDecimals`
+ * @param fromDecimals Decimals the amount is denominated in
+ * @returns The amount denominated in 18 decimals
+ */
+export function normalizeDecimals(
+  amount: bigint,
+  fromDecimals: number
+): bigint {
+  if (fromDecimals < DION_DECIMALS) {
+    return amount * 10n ** BigInt(DION_DECIMALS - fromDecimals);
+  }
+  if (fromDecimals > DION_DECIMALS) {
+    return amount / 10n ** BigInt(fromDecimals - DION_DECIMALS);
+  }
+  return amount;
+}
+
+/**
+ * Compute the amount of dION `previewMint` would return for a given input
+ * @param input Amount, exchange rate, oracle prices and scale factor
+ * @returns The intermediate underlying amount and USD value, and the dION amount
+ */
+export function valueMint(input: MintValuationInput): MintValuation {
+  if (input.usdcPrice === 0n) {
+    throw new Error("USDC price is 0");
+  }
+  if (input.scaleFactor.denominator === 0n) {
+    throw new Error("Scale factor denominator is 0");
+  }
+
+  const underlyingAmount =
+    (input.amount * input.exchangeRate) / EXCHANGE_RATE_SCALE;
+  const normalizedUnderlyingAmount = normalizeDecimals(
+    underlyingAmount,
+    input.underlyingDecimals
+  );
+  const underlyingValueInUsd =
+    (normalizedUnderlyingAmount * input.underlyingPrice) / input.usdcPrice;
+  const tokensToMint =
+    (underlyingValueInUsd * input.scaleFactor.numerator) /
+    input.scaleFactor.denominator;
+
+  return {
+    underlyingAmount,
+    normalizedUnderlyingAmount,
+    underlyingValueInUsd,
+    tokensToMint,
+  };
+}
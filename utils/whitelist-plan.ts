@@ -0,0 +1,279 @@
+import {
+  Address,
+  encodeFunctionData,
+  getAddress,
+  Hex,
+  parseAbi,
+  parseAbiItem,
+  PublicClient,
+} from "viem";
+import type { IonTokenConfig } from "../ignition/config/types.js";
+import { DEFAULT_LOG_CHUNK_SIZE, fetchLogsInChunks } from "./logs.js";
+import {
+  getTimelockedCallStatus,
+  nextTimelockStep,
+  scaleFactorUpdate,
+  TimelockedCallStatus,
+} from "./timelock.js";
+import { scaleFactorFor } from "./valuation.js";
+
+// ABI fragment for the IonicDebtToken functions a plan can call
+export const WHITELIST_ABI = parseAbi([
+  "function whitelistIonToken(address ionToken, uint256 numerator, uint256 denominator)",
+  "function removeIonToken(address ionToken)",
+  "function setIonTokenMintCap(address ionToken, uint256 cap)",
+]);
+
+const ION_TOKEN_WHITELISTED_EVENT = parseAbiItem(
+  "event IonTokenWhitelisted(address indexed ionToken, uint256 numerator, uint256 denominator)"
+);
+
+/**
+ * Read-only view of a deployed IonicDebtToken needed to build a plan
+ */
+export interface IonicDebtTokenWhitelistReader {
+  read: {
+    whitelistedIonTokens(args: readonly [Address]): Promise<boolean>;
+    ionTokenScaleFactors(
+      args: readonly [Address]
+    ): Promise<readonly [bigint, bigint]>;
+    ionTokenMintCaps(args: readonly [Address]): Promise<bigint>;
+    scheduledChanges(args: readonly [Hex]): Promise<bigint>;
+  };
+}
+
+export type WhitelistAction =
+  | {
+      functionName: "whitelistIonToken";
+      args: readonly [Address, bigint, bigint];
+      symbol: string;
+    }
+  | {
+      functionName: "updateScaleFactor";
+      args: readonly [Address, bigint, bigint];
+      symbol: string;
+      current: readonly [bigint, bigint];
+      // Whether the timelocked update still has to be scheduled or can execute
+      status: TimelockedCallStatus;
+    }
+  | {
+      functionName: "removeIonToken";
+      args: readonly [Address];
+      symbol: string;
+    }
+  | {
+      functionName: "setIonTokenMintCap";
+      args: readonly [Address, bigint];
+      symbol: string;
+      current: bigint;
+    };
+
+/**
+ * Find every ionToken that was ever whitelisted on a deployed IonicDebtToken
+ * @param publicClient Client connected to the network
+ * @param ionicDebtToken Address of the IonicDebtToken proxy
+ * @param fromBlock First block to scan (e.g. the deployment block)
+ * @param chunkSize Blocks per `eth_getLogs` request
+ * @returns Unique ionToken addresses from `IonTokenWhitelisted` events
+ */
+export async function fetchWhitelistedIonTokens(
+  publicClient: Pick<PublicClient, "getBlockNumber" | "getLogs">,
+  ionicDebtToken: Address,
+  fromBlock: bigint = 0n,
+  chunkSize: bigint = DEFAULT_LOG_CHUNK_SIZE
+): Promise<Address[]> {
+  const latestBlock = await publicClient.getBlockNumber();
+  const logs = await fetchLogsInChunks(
+    fromBlock,
+    latestBlock,
+    (from, to) =>
+      publicClient.getLogs({
+        address: ionicDebtToken,
+        event: ION_TOKEN_WHITELISTED_EVENT,
+        fromBlock: from,
+        toBlock: to,
+        strict: true,
+      }),
+    chunkSize
+  );
+
+  return [...new Set(logs.map(({ args }) => getAddress(args.ionToken)))];
+}
+
+/**
+ * Diff a network config's tokens against a deployed IonicDebtToken.
+ *
+ * Each configured ionToken must be whitelisted with the scale factor derived
+ * from its config, and have its `illegitimateBorrowed` as mint cap.
+ *
+ * Scale factor updates are timelocked: the plan schedules them, and executes
+ * them once they were scheduled and their delay has passed by `now`. Updates
+ * still waiting on their delay are kept in the plan but are not ready. This
+ * includes ionTokens removed from the whitelist, which keep their scale
+ * factor: they are whitelisted again once the update is ready.
+ *
+ * Whitelisting state lives in mappings, so ionTokens whitelisted on-chain but
+ * missing from the config can only be found among `knownIonTokens` (e.g. every
+ * ionToken that appeared in an `IonTokenWhitelisted` event).
+ *
+ * @param ionicDebtToken Deployed contract to compare against
+ * @param tokenConfigs Desired ionTokens, from the network configuration
+ * @param knownIonTokens Other ionTokens that may be whitelisted on-chain
+ * @param now Timestamp the plan executes at (e.g. the latest block's)
+ * @returns The calls that bring the contract in line with the config
+ */
+export async function buildWhitelistPlan(
+  ionicDebtToken: IonicDebtTokenWhitelistReader,
+  tokenConfigs: IonTokenConfig[],
+  knownIonTokens: Address[] = [],
+  now: bigint = BigInt(Math.floor(Date.now() / 1000))
+): Promise<WhitelistAction[]> {
+  const plan: WhitelistAction[] = [];
+  const configured = new Set<Address>();
+
+  for (const tokenConfig of tokenConfigs) {
+    const ionToken = getAddress(tokenConfig.address);
+    configured.add(ionToken);
+
+    const { numerator, denominator } = scaleFactorFor(tokenConfig);
+    const [isWhitelisted, current, currentCap] = await Promise.all([
+      ionicDebtToken.read.whitelistedIonTokens([ionToken]),
+      ionicDebtToken.read.ionTokenScaleFactors([ionToken]),
+      ionicDebtToken.read.ionTokenMintCaps([ionToken]),
+    ]);
+
+    // Removed ionTokens keep their scale factor, set unless it was never whitelisted
+    const scaleFactorChanged =
+      current[1] !== 0n &&
+      (current[0] !== numerator || current[1] !== denominator);
+    const status = scaleFactorChanged
+      ? await getTimelockedCallStatus(
+          ionicDebtToken,
+          scaleFactorUpdate(ionToken, numerator, denominator),
+          now
+        )
+      : undefined;
+
+    // Whitelisting with a changed scale factor executes the update once it is ready
+    const whitelists =
+      !isWhitelisted && (status === undefined || status.state === "ready");
+    if (whitelists) {
+      plan.push({
+        functionName: "whitelistIonToken",
+        args: [ionToken, numerator, denominator],
+        symbol: tokenConfig.symbol,
+      });
+    } else if (status !== undefined) {
+      plan.push({
+        functionName: "updateScaleFactor",
+        args: [ionToken, numerator, denominator],
+        symbol: tokenConfig.symbol,
+        current,
+        status,
+      });
+    }
+
+    // Mint caps can only be set once the ionToken is whitelisted
+    if (
+      (isWhitelisted || whitelists) &&
+      currentCap !== tokenConfig.illegitimateBorrowed
+    ) {
+      plan.push({
+        functionName: "setIonTokenMintCap",
+        args: [ionToken, tokenConfig.illegitimateBorrowed],
+        symbol: tokenConfig.symbol,
+        current: currentCap,
+      });
+    }
+  }
+
+  for (const known of knownIonTokens) {
+    const ionToken = getAddress(known);
+    if (configured.has(ionToken)) {
+      continue;
+    }
+    configured.add(ionToken);
+
+    if (await ionicDebtToken.read.whitelistedIonTokens([ionToken])) {
+      plan.push({
+        functionName: "removeIonToken",
+        args: [ionToken],
+        symbol: "(not in config)",
+      });
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Render a whitelist plan as human readable lines
+ * @param plan Plan to describe
+ * @returns One line per action
+ */
+export function describeWhitelistPlan(plan: WhitelistAction[]): string[] {
+  return plan.map((action) => {
+    const call = `${action.functionName}(${action.args.join(", ")})`;
+    if (action.functionName === "updateScaleFactor") {
+      const [numerator, denominator] = action.current;
+      const { status } = action;
+      const step =
+        status.state === "unscheduled"
+          ? "schedule"
+          : status.state === "pending"
+          ? `pending until ${new Date(
+              Number(status.readyAt) * 1000
+            ).toISOString()}`
+          : "execute";
+      return `${call} -- ${action.symbol}, currently ${numerator}/${denominator}, ${step}`;
+    }
+    if (action.functionName === "setIonTokenMintCap") {
+      return `${call} -- ${action.symbol}, currently ${action.current}`;
+    }
+    return `${call} -- ${action.symbol}`;
+  });
+}
+
+/**
+ * Whether a whitelist action can be sent now
+ * @param action Action of a plan
+ * @returns False for scale factor updates still waiting on the timelock
+ */
+export function isWhitelistActionReady(action: WhitelistAction): boolean {
+  return (
+    action.functionName !== "updateScaleFactor" ||
+    action.status.state !== "pending"
+  );
+}
+
+/**
+ * Encode the calldata of a whitelist action
+ * @param action Action to encode
+ * @returns Calldata for the IonicDebtToken proxy
+ * @throws If the action is a scale factor update that is not ready
+ */
+export function encodeWhitelistAction(action: WhitelistAction): Hex {
+  switch (action.functionName) {
+    case "updateScaleFactor":
+      return nextTimelockStep(scaleFactorUpdate(...action.args), action.status)
+        .data;
+    case "whitelistIonToken":
+      return encodeFunctionData({
+        abi: WHITELIST_ABI,
+        functionName: action.functionName,
+        args: action.args,
+      });
+    case "removeIonToken":
+      return encodeFunctionData({
+        abi: WHITELIST_ABI,
+        functionName: action.functionName,
+        args: action.args,
+      });
+    case "setIonTokenMintCap":
+      return encodeFunctionData({
+        abi: WHITELIST_ABI,
+        functionName: action.functionName,
+        args: action.args,
+      });
+  }
+}